@@ -1,6 +1,6 @@
 // Analysis Agent tests
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { AnalysisAgent } from './analysis-agent';
 import { 
   PlayerResearch, 
@@ -11,6 +11,8 @@ import {
   PerformanceMetrics,
   NewsArticle 
 } from '../models/player';
+import { LeagueSettings } from '../models/league';
+import { DEFAULT_SCORING_MODEL, ScoringModel } from '../models/scoring';
 
 describe('AnalysisAgent', () => {
   let analysisAgent: AnalysisAgent;
@@ -253,6 +255,326 @@ describe('AnalysisAgent', () => {
     });
   });
 
+  describe('league bids', () => {
+    const buildLeague = (overrides: Partial<LeagueSettings> = {}): LeagueSettings => ({
+      platform: 'Sleeper',
+      leagueId: 'league-1',
+      name: 'Work League',
+      teamCount: 12,
+      faabBudget: 100,
+      teams: [
+        { teamId: '1', remainingBudget: 80 },
+        { teamId: '2', remainingBudget: 60 },
+        { teamId: '3', remainingBudget: 90 }
+      ],
+      ourTeamId: '1',
+      ourRemainingBudget: 80,
+      starterSlots: { QB: 1, RB: 2, WR: 2, TE: 1, FLEX: 1 },
+      ourPositionCounts: { RB: 2, WR: 5 },
+      ...overrides
+    });
+
+    let buyResearch: PlayerResearch;
+
+    beforeEach(() => {
+      buyResearch = mockPlayerResearch;
+      // Bid sizing only applies to BUY recommendations
+      vi.spyOn(analysisAgent as any, 'generateBuyPassDecision').mockReturnValue('BUY');
+    });
+
+    it('should size ordered, affordable bid tiers for each league', async () => {
+      const analysis = await analysisAgent.analyzePlayer(buyResearch, { leagues: [buildLeague()] });
+
+      expect(analysis.recommendation).toBe('BUY');
+      expect(analysis.leagueBids).toHaveLength(1);
+
+      const bid = analysis.leagueBids![0]!;
+      expect(bid.leagueName).toBe('Work League');
+      expect(bid.rosterNeed).toBe('high');
+      expect(bid.low).toBeLessThanOrEqual(bid.expected);
+      expect(bid.expected).toBeLessThanOrEqual(bid.aggressive);
+      expect(bid.aggressive).toBeLessThanOrEqual(80);
+      expect(bid.expected).toBeGreaterThan(0);
+    });
+
+    it('should bid less when competing managers have spent their budgets', async () => {
+      const flush = await analysisAgent.analyzePlayer(buyResearch, { leagues: [buildLeague()] });
+      const drained = await analysisAgent.analyzePlayer(buyResearch, {
+        leagues: [buildLeague({
+          teams: [
+            { teamId: '1', remainingBudget: 80 },
+            { teamId: '2', remainingBudget: 5 },
+            { teamId: '3', remainingBudget: 3 }
+          ]
+        })]
+      });
+
+      expect(drained.leagueBids![0]!.expected).toBeLessThan(flush.leagueBids![0]!.expected);
+      expect(drained.leagueBids![0]!.aggressive).toBeLessThanOrEqual(6);
+    });
+
+    it('should omit league bids without registered leagues or for PASS recommendations', async () => {
+      const withoutLeagues = await analysisAgent.analyzePlayer(buyResearch);
+      expect(withoutLeagues.leagueBids).toBeUndefined();
+
+      vi.spyOn(analysisAgent as any, 'generateBuyPassDecision').mockReturnValue('PASS');
+      const pass = await analysisAgent.analyzePlayer(buyResearch, { leagues: [buildLeague()] });
+      expect(pass.leagueBids).toBeUndefined();
+    });
+  });
+
+  describe('scoring models', () => {
+    const lenientModel: ScoringModel = {
+      ...DEFAULT_SCORING_MODEL,
+      name: 'lenient',
+      version: '0.9.0',
+      buyThreshold: 0,
+      riskPenalty: { perRiskFactor: 0, max: 0 }
+    };
+
+    it('should record the default model when none is given', async () => {
+      const analysis = await analysisAgent.analyzePlayer(mockPlayerResearch);
+
+      expect(analysis.scoringModel).toEqual({ name: 'default', version: '1.0.0', scoringType: 'ppr' });
+    });
+
+    it('should decide with the model thresholds and record which model was used', async () => {
+      const lenient = await analysisAgent.analyzePlayer(mockPlayerResearch, { scoringModel: lenientModel });
+      const strict = await analysisAgent.analyzePlayer(mockPlayerResearch, {
+        scoringModel: { ...lenientModel, name: 'strict', buyThreshold: 100 }
+      });
+
+      expect(lenient.recommendation).toBe('BUY');
+      expect(lenient.scoringModel).toEqual({ name: 'lenient', version: '0.9.0', scoringType: 'ppr' });
+      expect(strict.recommendation).toBe('PASS');
+    });
+
+    it('should value quarterbacks more in superflex leagues', async () => {
+      const qbResearch = { ...mockPlayerResearch, player: { ...mockPlayerResearch.player, position: 'QB' } };
+
+      const oneQB = await analysisAgent.analyzePlayer(qbResearch);
+      const superflex = await analysisAgent.analyzePlayer(qbResearch, {
+        scoringModel: { ...DEFAULT_SCORING_MODEL, name: 'superflex', scoringType: 'superflex' }
+      });
+
+      expect(superflex.factorScores!.scarcityMultiplier).toBeGreaterThan(oneQB.factorScores!.scarcityMultiplier);
+    });
+  });
+
+  describe('IDP players', () => {
+    const defenderResearch = (position: string, usage: PlayerStats['usage']): PlayerResearch => ({
+      ...mockPlayerResearch,
+      player: { ...mockPlayerResearch.player, position },
+      stats: { ...mockPlayerResearch.stats, usage }
+    });
+
+    it('should score tackle, sack and interception volume as usage', async () => {
+      const linebacker = await analysisAgent.analyzePlayer(defenderResearch('LB', { snapCount: 95, tackles: 9.5, sacks: 0.5 }));
+      const rotational = await analysisAgent.analyzePlayer(defenderResearch('LB', { snapCount: 95, tackles: 2 }));
+
+      expect(linebacker.reasoning).toContain('Every-down tackle volume (9.5 per game) provides a steady IDP floor');
+      expect(linebacker.upside).toContain('Pass rush production provides sack upside');
+      expect(rotational.riskFactors).toContain('Low tackle volume makes weekly output depend on big plays');
+      expect(linebacker.confidence).toBeGreaterThan(rotational.confidence);
+    });
+
+    it('should count IDP flex slots toward the roster need', async () => {
+      vi.spyOn(analysisAgent as any, 'generateBuyPassDecision').mockReturnValue('BUY');
+      const league: LeagueSettings = {
+        platform: 'Sleeper',
+        leagueId: 'idp-league',
+        name: 'IDP League',
+        teamCount: 12,
+        faabBudget: 100,
+        teams: [{ teamId: '1', remainingBudget: 100 }, { teamId: '2', remainingBudget: 100 }],
+        ourTeamId: '1',
+        ourRemainingBudget: 100,
+        starterSlots: { QB: 1, RB: 2, WR: 2, TE: 1, IDP_FLEX: 2 }
+      };
+
+      const analysis = await analysisAgent.analyzePlayer(defenderResearch('DB', { tackles: 6, interceptions: 0.5 }), { leagues: [league] });
+
+      expect(analysis.leagueBids![0]!.rosterNeed).toBe('medium');
+    });
+  });
+
+  describe('strength of schedule', () => {
+    it('should weigh defense-vs-position schedule scores, including the fantasy playoffs', async () => {
+      const soft = await analysisAgent.analyzePlayer({
+        ...mockPlayerResearch,
+        strengthOfSchedule: { upcoming: 10, upcomingWeeks: [8, 9, 10], playoffs: 20, playoffWeeks: [15, 16, 17] }
+      });
+      const tough = await analysisAgent.analyzePlayer({
+        ...mockPlayerResearch,
+        strengthOfSchedule: { upcoming: 90, upcomingWeeks: [8, 9, 10], playoffs: 95, playoffWeeks: [15, 16, 17] }
+      });
+
+      expect(soft.reasoning).toContain('Schedule difficulty of 10/100 over the next 3 weeks and 20/100 in the fantasy playoffs');
+      expect(soft.upside).toContain('Soft fantasy playoff schedule (weeks 15, 16, 17)');
+      expect(tough.riskFactors).toContain('Tough fantasy playoff schedule (weeks 15, 16, 17)');
+      expect(soft.confidence).toBeGreaterThan(tough.confidence);
+    });
+  });
+
+  describe('opportunity data', () => {
+    it('should score a starter with a large share of team volume above a buried backup', async () => {
+      const starter = await analysisAgent.analyzePlayer({
+        ...mockPlayerResearch,
+        opportunity: { depthChartSlot: 1, snapShare: 82, targetShare: 27, redZoneShare: 30, weeks: [5, 6, 7], source: 'SportsData' }
+      });
+      const backup = await analysisAgent.analyzePlayer({
+        ...mockPlayerResearch,
+        opportunity: { depthChartSlot: 3, snapShare: 25, targetShare: 6, weeks: [5, 6, 7], source: 'SportsData' }
+      });
+
+      expect(starter.factorScores!.opportunity).toBeGreaterThan(backup.factorScores!.opportunity);
+      expect(starter.reasoning).toContain('Starter with 27% target share, 30% of red zone looks over the last 3 weeks');
+      expect(backup.reasoning).toContain('Buried at 3 on the depth chart (25% of snaps over the last 3 weeks)');
+    });
+  });
+
+  describe('news stories', () => {
+    it('should count a story reported by several outlets once', async () => {
+      const story = mockPlayerResearch.news[0]!;
+      const syndicated = ['Injury Wire', 'Team Beat', 'Rotoworld'].map((source, index) => ({
+        ...story,
+        source,
+        url: `https://example.com/syndicated-${index}`,
+        publishDate: new Date(story.publishDate.getTime() + (index + 1) * 60 * 60 * 1000)
+      }));
+
+      const single = await analysisAgent.analyzePlayer({ ...mockPlayerResearch, news: [story] });
+      const repeated = await analysisAgent.analyzePlayer({ ...mockPlayerResearch, news: [story, ...syndicated] });
+
+      expect(repeated.confidence).toBe(single.confidence);
+      expect(repeated.factorScores).toEqual(single.factorScores);
+    });
+  });
+
+  describe('starter injuries', () => {
+    it('should boost the opportunity score and lead with the injured starter', async () => {
+      const starterInjury = {
+        injuredPlayer: 'Lead Back',
+        position: 'RB',
+        depthChartSlot: 1,
+        status: 'ir' as const,
+        expectedWeeksOut: 4,
+        seasonEnding: false,
+        nextInLine: true
+      };
+      const baseline = await analysisAgent.analyzePlayer(mockPlayerResearch);
+      const handcuff = await analysisAgent.analyzePlayer({ ...mockPlayerResearch, starterInjury });
+
+      expect(handcuff.factorScores!.opportunity).toBe(baseline.factorScores!.opportunity + 8);
+      expect(handcuff.reasoning[1]).toBe('Lead Back (RB1) is on IR for about 4 weeks, leaving this player next in line');
+      expect(handcuff.upside).toContain('Starting role for about 4 weeks while the starter is out');
+      expect(handcuff.starterInjury).toEqual(starterInjury);
+    });
+  });
+
+  describe('injury timelines', () => {
+    const questionable: InjuryReport = { status: 'questionable', description: 'Hamstring', impactLevel: 'medium' };
+    const timeline = (trend: 'improving' | 'worsening' | 'steady', summary: string) => ({ entries: [], trend, summary });
+
+    it('should ease the injury penalty while practice improves and deepen it while it worsens', () => {
+      const penalty = (injuryTimeline?: ReturnType<typeof timeline>) =>
+        analysisAgent['calculateInjuryPenalty'](questionable, injuryTimeline);
+
+      expect(penalty()).toBe(10);
+      expect(penalty(timeline('improving', 'DNP Wednesday, upgraded to limited Thursday'))).toBe(5);
+      expect(penalty(timeline('worsening', 'limited Wednesday, downgraded to DNP Thursday'))).toBe(20);
+      expect(analysisAgent['calculateInjuryPenalty']({ status: 'unknown', impactLevel: 'low' })).toBe(5);
+    });
+
+    it('should carry the trajectory into the analysis', async () => {
+      const injuryTimeline = timeline('improving', 'DNP Wednesday, upgraded to limited Thursday');
+      const analysis = await analysisAgent.analyzePlayer({ ...mockPlayerResearch, injuryStatus: questionable, injuryTimeline });
+
+      expect(analysis.upside).toContain('Injury trending in the right direction (DNP Wednesday, upgraded to limited Thursday)');
+      expect(analysis.injuryTimeline).toEqual(injuryTimeline);
+    });
+
+    it('should flag an unconfirmed injury status instead of treating it as healthy', async () => {
+      const analysis = await analysisAgent.analyzePlayer({
+        ...mockPlayerResearch,
+        injuryStatus: { status: 'unknown', impactLevel: 'low' }
+      });
+      const healthy = await analysisAgent.analyzePlayer(mockPlayerResearch);
+
+      expect(analysis.riskFactors).toContain('Injury status could not be confirmed');
+      expect(analysis.confidence).toBeLessThan(healthy.confidence);
+    });
+  });
+
+  describe('dynasty mode', () => {
+    const dynasty = { enabled: true, horizonSeasons: 3, buyThreshold: 55 };
+    const dynastyResearch = (position: string, dynastyProfile: PlayerSummary['dynastyProfile']): PlayerResearch => ({
+      ...mockPlayerResearch,
+      player: { ...mockPlayerResearch.player, position, ...(dynastyProfile && { dynastyProfile }) }
+    });
+
+    it('should buy a young starter with first-round draft capital', async () => {
+      const analysis = await analysisAgent.analyzePlayer(
+        dynastyResearch('WR', { age: 22, yearsExperience: 0, draftRound: 1, depthChartOrder: 1 }),
+        { dynasty }
+      );
+
+      expect(analysis.dynasty?.recommendation).toBe('BUY');
+      expect(analysis.dynasty?.suggestedFAABPercentage).toBeGreaterThan(0);
+      expect(analysis.dynasty?.reasoning).toContain('Round 1 draft capital as a rookie buys patience from the team');
+      expect(analysis.dynasty?.reasoning).toContain('Sits atop the depth chart');
+    });
+
+    it('should pass on a running back past the end of the running back age curve', async () => {
+      const analysis = await analysisAgent.analyzePlayer(
+        dynastyResearch('RB', { age: 30, yearsExperience: 8, depthChartOrder: 2 }),
+        { dynasty }
+      );
+
+      expect(analysis.dynasty?.recommendation).toBe('PASS');
+      expect(analysis.dynasty?.suggestedFAABPercentage).toBeUndefined();
+      expect(analysis.dynasty?.reasoning).toContain('At 30, already past the typical RB peak');
+    });
+
+    it('should only assess dynasty value when dynasty mode is enabled', async () => {
+      const analysis = await analysisAgent.analyzePlayer(dynastyResearch('WR', { age: 22 }));
+
+      expect(analysis.dynasty).toBeUndefined();
+    });
+  });
+
+  describe('analyzeDropCandidate', () => {
+    const dropResearch = (research: PlayerResearch): PlayerResearch => ({
+      ...research,
+      player: { ...research.player, additionCount: 0, additionPercentage: 0, dropCount: 900 }
+    });
+
+    it('should hold a dropped player whose role is intact', async () => {
+      const analysis = await analysisAgent.analyzeDropCandidate(dropResearch(mockPlayerResearch), {
+        scoringModel: { ...DEFAULT_SCORING_MODEL, buyThreshold: 0 }
+      });
+
+      expect(analysis.recommendation).toBe('HOLD');
+      expect(analysis.reasoning).toContain('Dropped 900 times across ESPN, Yahoo');
+      expect(analysis.scoringModel?.name).toBe('default');
+    });
+
+    it('should sell an injured, declining player', async () => {
+      const research = dropResearch({
+        ...mockPlayerResearch,
+        injuryStatus: { status: 'ir', impactLevel: 'high' },
+        recentPerformance: { ...mockPlayerResearch.recentPerformance, trend: 'declining' },
+        stats: { ...mockPlayerResearch.stats, fantasyPoints: 2, usage: { snapCount: 20 } }
+      });
+
+      const analysis = await analysisAgent.analyzeDropCandidate(research);
+
+      expect(analysis.recommendation).toBe('SELL');
+      expect(analysis.reasoning).toContain('Injury concerns (ir)');
+      expect(analysis.confidence).toBeGreaterThanOrEqual(50);
+    });
+  });
+
   describe('execute', () => {
     beforeEach(async () => {
       await analysisAgent.initialize();
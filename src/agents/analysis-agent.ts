@@ -8,9 +8,23 @@ import {
   PlayerStats,
   InjuryReport,
   Matchup,
-  PerformanceMetrics
+  PerformanceMetrics,
+  AnalysisContext,
+  FAABFactorScores,
+  DropAnalysis
 } from '../models/player';
 import { NewsAndAnalysisValidator } from '../models/player';
+import { LeagueBid, LeagueSettings, RosterNeed } from '../models/league';
+import { DEFAULT_SCORING_MODEL, ScoringModel, ScoringModelUtils } from '../models/scoring';
+import { IDPUtils } from '../models/idp';
+import { DynastyAssessment, DynastyConfig, DynastyUtils } from '../models/dynasty';
+import { StrengthOfSchedule } from '../models/matchup';
+import { IR_MINIMUM_WEEKS, StarterInjury, StarterInjuryUtils } from '../models/starter-injury';
+import { InjuryTimeline } from '../models/injury-timeline';
+import { NewsClusterer } from '../utils/news-clustering';
+
+// A dropped player is worth holding if they score within this many points of the model's BUY threshold
+const HOLD_THRESHOLD_MARGIN = 15;
 
 export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
   public readonly name = 'AnalysisAgent';
@@ -57,21 +71,31 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
     console.log('Analysis Agent cleanup completed');
   }
 
-  public async analyzePlayer(research: PlayerResearch): Promise<PlayerAnalysis> {
+  public async analyzePlayer(playerResearch: PlayerResearch, context: AnalysisContext = {}): Promise<PlayerAnalysis> {
+    const research = this.withNewsStories(playerResearch);
     console.log(`Analyzing player: ${research.player.name}`);
 
+    const scoringModel = context.scoringModel || DEFAULT_SCORING_MODEL;
+
     // Task 6.1: Player evaluation algorithms
-    const faabValue = this.assessFAABValue(research);
+    const factorScores = this.scoreFAABFactors(research, scoringModel);
+    const faabValue = this.assessFAABValue(factorScores);
     const rosterImpact = this.assessRosterImpact(research);
     const sustainability = this.assessSustainability(research);
     const riskFactors = this.identifyRiskFactors(research);
     const upside = this.identifyUpside(research);
 
     // Task 6.2: Recommendation generation
-    const recommendation = this.generateBuyPassDecision(faabValue, rosterImpact, sustainability, riskFactors);
+    const recommendation = this.generateBuyPassDecision(faabValue, rosterImpact, sustainability, riskFactors, scoringModel);
     const confidence = this.calculateConfidence(research, recommendation, riskFactors);
     const reasoning = this.generateReasoning(research, faabValue, rosterImpact, sustainability, recommendation);
     const suggestedFAABPercentage = recommendation === 'BUY' ? this.calculateFAABPercentage(faabValue, confidence) : undefined;
+    const leagueBids = suggestedFAABPercentage !== undefined && context.leagues && context.leagues.length > 0
+      ? context.leagues.map(league => this.calculateLeagueBid(research.player.position, suggestedFAABPercentage, league))
+      : undefined;
+    const dynasty = context.dynasty?.enabled
+      ? this.assessDynastyValue(research, rosterImpact, sustainability, context.dynasty)
+      : undefined;
 
     const analysis: PlayerAnalysis = {
       player: research.player,
@@ -80,7 +104,13 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
       reasoning,
       ...(suggestedFAABPercentage !== undefined && { suggestedFAABPercentage }),
       riskFactors,
-      upside
+      upside,
+      ...(leagueBids && { leagueBids }),
+      factorScores,
+      scoringModel: ScoringModelUtils.toReference(scoringModel),
+      ...(dynasty && { dynasty }),
+      ...(research.starterInjury && { starterInjury: research.starterInjury }),
+      ...(research.injuryTimeline && { injuryTimeline: research.injuryTimeline })
     };
 
     // Task 6.3: Validation
@@ -93,38 +123,82 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
     return analysis;
   }
 
-  // Task 6.1: Create player evaluation algorithms
-
   /**
-   * Assess the FAAB value of a player based on multiple factors
+   * Decide whether managers should follow the crowd and cut a widely dropped player
    */
-  private assessFAABValue(research: PlayerResearch): number {
-    let baseValue = 0;
+  public async analyzeDropCandidate(playerResearch: PlayerResearch, context: AnalysisContext = {}): Promise<DropAnalysis> {
+    const research = this.withNewsStories(playerResearch);
+    console.log(`Analyzing drop candidate: ${research.player.name}`);
+
+    const scoringModel = context.scoringModel || DEFAULT_SCORING_MODEL;
+
+    const faabValue = this.assessFAABValue(this.scoreFAABFactors(research, scoringModel));
+    const rosterImpact = this.assessRosterImpact(research);
+    const sustainability = this.assessSustainability(research);
+    const riskFactors = this.identifyRiskFactors(research);
+    const upside = this.identifyUpside(research);
+
+    const adjustedScore = this.calculateAdjustedScore(faabValue, rosterImpact, sustainability, riskFactors, scoringModel);
+    const recommendation = adjustedScore >= scoringModel.buyThreshold - HOLD_THRESHOLD_MARGIN ? 'HOLD' : 'SELL';
+    const confidence = this.calculateDropConfidence(research, recommendation, riskFactors, upside);
+    const reasoning = this.generateDropReasoning(research, faabValue, rosterImpact, sustainability, recommendation);
+
+    const analysis: DropAnalysis = {
+      player: research.player,
+      recommendation,
+      confidence,
+      reasoning,
+      riskFactors,
+      upside,
+      scoringModel: ScoringModelUtils.toReference(scoringModel)
+    };
 
-    // Factor 1: Addition frequency (how much other managers want this player)
-    const additionScore = Math.min(research.player.additionPercentage / 10, 10); // Max 10 points
-    baseValue += additionScore;
+    if (!NewsAndAnalysisValidator.validateDropAnalysis(analysis)) {
+      throw new Error(`Drop analysis validation failed for ${research.player.name}`);
+    }
 
-    // Factor 2: Recent performance trend
-    const performanceScore = this.calculatePerformanceScore(research.recentPerformance);
-    baseValue += performanceScore;
+    console.log(`Drop analysis complete for ${research.player.name}: ${recommendation} (${confidence}% confidence)`);
+    return analysis;
+  }
 
-    // Factor 3: Opportunity score (injury to starter, role change, etc.)
-    const opportunityScore = this.calculateOpportunityScore(research);
-    baseValue += opportunityScore;
+  // Task 6.1: Create player evaluation algorithms
 
-    // Factor 4: Matchup favorability
-    const matchupScore = this.calculateMatchupScore(research.upcomingMatchups);
-    baseValue += matchupScore;
+  /**
+   * Score each factor that feeds the FAAB value; kept on the analysis for backtesting
+   */
+  private scoreFAABFactors(research: PlayerResearch, scoringModel: ScoringModel): FAABFactorScores {
+    return {
+      // Factor 1: Addition frequency (how much other managers want this player)
+      addition: Math.min(research.player.additionPercentage / 10, 10), // Max 10 points
+      // Factor 2: Recent performance trend
+      performance: this.calculatePerformanceScore(research.recentPerformance),
+      // Factor 3: Opportunity score (injury to starter, role change, etc.)
+      opportunity: this.calculateOpportunityScore(research),
+      // Factor 4: Matchup favorability
+      matchup: this.calculateMatchupScore(research.upcomingMatchups),
+      // Factor 5: Position scarcity adjustment
+      scarcityMultiplier: this.getPositionScarcityMultiplier(research.player.position, scoringModel)
+    };
+  }
 
-    // Factor 5: Position scarcity adjustment
-    const scarcityMultiplier = this.getPositionScarcityMultiplier(research.player.position);
-    baseValue *= scarcityMultiplier;
+  /**
+   * Assess the FAAB value of a player based on multiple factors
+   */
+  private assessFAABValue(factors: FAABFactorScores): number {
+    const baseValue = (factors.addition + factors.performance + factors.opportunity + factors.matchup) *
+      factors.scarcityMultiplier;
 
     // Normalize to 0-100 scale
     return Math.min(Math.max(Math.round(baseValue), 0), 100);
   }
 
+  /**
+   * Sentiment, keyword and news-count signals count each story once, not once per outlet
+   */
+  private withNewsStories(research: PlayerResearch): PlayerResearch {
+    return { ...research, news: NewsClusterer.cluster(research.news) };
+  }
+
   private calculatePerformanceScore(performance: PerformanceMetrics): number {
     let score = 0;
 
@@ -173,7 +247,33 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
       score += Math.min(negativeNews * 1.5, 8);
     }
 
-    return Math.min(score, 20);
+    // Share of the team's volume over recent weeks
+    const opportunity = research.opportunity;
+    if (opportunity?.targetShare !== undefined) {
+      score += opportunity.targetShare >= 25 ? 6 : opportunity.targetShare >= 18 ? 4 : 0;
+    }
+    if (opportunity?.carryShare !== undefined) {
+      score += opportunity.carryShare >= 60 ? 6 : opportunity.carryShare >= 40 ? 4 : 0;
+    }
+    if (opportunity?.redZoneShare !== undefined && opportunity.redZoneShare >= 25) {
+      score += 4;
+    }
+    if (opportunity?.snapShare !== undefined && opportunity.snapShare >= 70) {
+      score += 3;
+    }
+
+    // An injured starter ahead of the player opens a role beyond what news and usage show yet
+    return Math.min(score, 20) + this.calculateStarterInjuryBoost(research.starterInjury);
+  }
+
+  private calculateStarterInjuryBoost(starterInjury: StarterInjury | undefined): number {
+    if (!starterInjury) {
+      return 0;
+    }
+
+    const boost = starterInjury.seasonEnding ? 10 : starterInjury.expectedWeeksOut >= IR_MINIMUM_WEEKS ? 8 : 5;
+    // Someone else sits between them on the depth chart, so the work may not reach this player
+    return starterInjury.nextInLine ? boost : Math.round(boost / 2);
   }
 
   private calculateMatchupScore(matchups: Matchup[]): number {
@@ -197,18 +297,9 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
     return Math.max(score, 0);
   }
 
-  private getPositionScarcityMultiplier(position: string): number {
-    // Position scarcity multipliers based on typical fantasy value
-    const multipliers: Record<string, number> = {
-      'RB': 1.2,  // RBs are typically more scarce
-      'WR': 1.0,  // Baseline
-      'TE': 1.1,  // Slightly more scarce than WR
-      'QB': 0.8,  // Usually more available
-      'K': 0.5,   // Least valuable
-      'DST': 0.6  // Low value
-    };
-
-    return multipliers[position] || 1.0;
+  private getPositionScarcityMultiplier(position: string, scoringModel: ScoringModel): number {
+    // Position scarcity comes from the scoring model, adjusted for its league scoring type
+    return ScoringModelUtils.getPositionMultiplier(scoringModel, position);
   }
 
   /**
@@ -249,6 +340,17 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
       score += 5;
     }
 
+    // Defenders: tackles are the steady volume, sacks and interceptions the big plays
+    if (stats.usage.tackles && stats.usage.tackles > 6) {
+      score += 10;
+    }
+    if (stats.usage.sacks && stats.usage.sacks >= 0.5) {
+      score += 8;
+    }
+    if (stats.usage.interceptions && stats.usage.interceptions >= 0.25) {
+      score += 5;
+    }
+
     return Math.min(score, 25);
   }
 
@@ -273,6 +375,19 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
       }
     });
 
+    // The depth chart and snap share confirm (or contradict) what the news says
+    const opportunity = research.opportunity;
+    if (opportunity?.depthChartSlot !== undefined) {
+      score += opportunity.depthChartSlot === 1 ? 6 : opportunity.depthChartSlot === 2 ? 2 : -3;
+    }
+    if (opportunity?.snapShare !== undefined) {
+      if (opportunity.snapShare >= 75) {
+        score += 4;
+      } else if (opportunity.snapShare < 40) {
+        score -= 3;
+      }
+    }
+
     return Math.max(score, 0);
   }
 
@@ -283,7 +398,7 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
     let sustainability = 50; // Start at neutral
 
     // Injury concerns
-    const injuryPenalty = this.calculateInjuryPenalty(research.injuryStatus);
+    const injuryPenalty = this.calculateInjuryPenalty(research.injuryStatus, research.injuryTimeline);
     sustainability -= injuryPenalty;
 
     // Performance consistency
@@ -291,7 +406,7 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
     sustainability += consistencyScore;
 
     // Schedule difficulty
-    const scheduleDifficulty = this.calculateScheduleDifficulty(research.upcomingMatchups);
+    const scheduleDifficulty = this.calculateScheduleDifficulty(research.upcomingMatchups, research.strengthOfSchedule);
     sustainability -= scheduleDifficulty;
 
     // Age/experience factors (simplified)
@@ -301,13 +416,18 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
     return Math.min(Math.max(Math.round(sustainability), 0), 100);
   }
 
-  private calculateInjuryPenalty(injury: InjuryReport): number {
+  /**
+   * Sustainability penalty for the current designation, eased while practice reports improve
+   * through the week and deepened while they get worse
+   */
+  private calculateInjuryPenalty(injury: InjuryReport, timeline?: InjuryTimeline): number {
     const penalties: Record<InjuryReport['status'], number> = {
       'healthy': 0,
       'questionable': 5,
       'doubtful': 15,
       'out': 25,
-      'ir': 50
+      'ir': 50,
+      'unknown': 5 // Unconfirmed is priced like a questionable tag, not as healthy
     };
 
     let penalty = penalties[injury.status] || 0;
@@ -325,6 +445,12 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
         break;
     }
 
+    if (timeline?.trend === 'improving') {
+      penalty = Math.round(penalty / 2);
+    } else if (timeline?.trend === 'worsening') {
+      penalty += 10;
+    }
+
     return penalty;
   }
 
@@ -343,7 +469,18 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
     return Math.round(consistencyScore);
   }
 
-  private calculateScheduleDifficulty(matchups: Matchup[]): number {
+  /**
+   * Sustainability penalty (0-5) for the coming schedule. Defense-vs-position scores are used when
+   * research has them, with the fantasy playoff weeks counting for part of the penalty.
+   */
+  private calculateScheduleDifficulty(matchups: Matchup[], strengthOfSchedule?: StrengthOfSchedule): number {
+    if (strengthOfSchedule) {
+      const difficulty = strengthOfSchedule.playoffs !== undefined
+        ? strengthOfSchedule.upcoming * 0.7 + strengthOfSchedule.playoffs * 0.3
+        : strengthOfSchedule.upcoming;
+      return Math.round(difficulty / 20);
+    }
+
     if (matchups.length === 0) return 0;
 
     let difficulty = 0;
@@ -385,9 +522,14 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
     const risks: string[] = [];
 
     // Injury risks
-    if (research.injuryStatus.status !== 'healthy') {
+    if (research.injuryStatus.status === 'unknown') {
+      risks.push('Injury status could not be confirmed');
+    } else if (research.injuryStatus.status !== 'healthy') {
       risks.push(`Currently ${research.injuryStatus.status}${research.injuryStatus.description ? ': ' + research.injuryStatus.description : ''}`);
     }
+    if (research.injuryTimeline?.trend === 'worsening' && research.injuryTimeline.summary) {
+      risks.push(`Injury trending the wrong way (${research.injuryTimeline.summary})`);
+    }
 
     // Performance risks
     if (research.recentPerformance.trend === 'declining') {
@@ -399,11 +541,19 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
       risks.push('Limited snap count indicates reduced role');
     }
 
+    // A defender without tackle volume lives on sacks and interceptions, which don't repeat reliably
+    if (IDPUtils.isIDPPosition(research.player.position) && (research.stats.usage.tackles || 0) < 4) {
+      risks.push('Low tackle volume makes weekly output depend on big plays');
+    }
+
     // Schedule risks
     const hardMatchups = research.upcomingMatchups.filter(m => m.difficulty === 'hard').length;
     if (hardMatchups >= 2) {
       risks.push(`Difficult upcoming schedule (${hardMatchups} tough matchups)`);
     }
+    if (research.strengthOfSchedule?.playoffs !== undefined && research.strengthOfSchedule.playoffs > 66) {
+      risks.push(`Tough fantasy playoff schedule (weeks ${research.strengthOfSchedule.playoffWeeks!.join(', ')})`);
+    }
 
     // News-based risks
     const negativeNews = research.news.filter(article => article.sentiment === 'negative');
@@ -447,11 +597,28 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
       upside.push('Red zone usage provides touchdown upside');
     }
 
+    if (research.stats.usage.sacks && research.stats.usage.sacks >= 0.5) {
+      upside.push('Pass rush production provides sack upside');
+    }
+
+    if (research.injuryTimeline?.trend === 'improving' && research.injuryTimeline.summary) {
+      upside.push(`Injury trending in the right direction (${research.injuryTimeline.summary})`);
+    }
+
+    if (research.starterInjury?.nextInLine) {
+      upside.push(research.starterInjury.seasonEnding
+        ? 'Inherits a starting role for the rest of the season'
+        : `Starting role for about ${research.starterInjury.expectedWeeksOut} week${research.starterInjury.expectedWeeksOut === 1 ? '' : 's'} while the starter is out`);
+    }
+
     // Schedule upside
     const easyMatchups = research.upcomingMatchups.filter(m => m.difficulty === 'easy').length;
     if (easyMatchups >= 2) {
       upside.push(`Favorable upcoming schedule (${easyMatchups} easy matchups)`);
     }
+    if (research.strengthOfSchedule?.playoffs !== undefined && research.strengthOfSchedule.playoffs < 34) {
+      upside.push(`Soft fantasy playoff schedule (weeks ${research.strengthOfSchedule.playoffWeeks!.join(', ')})`);
+    }
 
     // News-based upside
     const positiveNews = research.news.filter(article => article.sentiment === 'positive');
@@ -493,19 +660,32 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
     faabValue: number, 
     rosterImpact: number, 
     sustainability: number, 
-    riskFactors: string[]
+    riskFactors: string[],
+    scoringModel: ScoringModel
   ): 'BUY' | 'PASS' {
-    // Calculate composite score
-    const compositeScore = (faabValue * 0.4) + (rosterImpact * 0.35) + (sustainability * 0.25);
-    
-    // Risk adjustment
-    const riskPenalty = Math.min(riskFactors.length * 5, 20);
-    const adjustedScore = compositeScore - riskPenalty;
+    const adjustedScore = this.calculateAdjustedScore(faabValue, rosterImpact, sustainability, riskFactors, scoringModel);
 
     // Decision thresholds
-    const buyThreshold = 60;
+    return adjustedScore >= scoringModel.buyThreshold ? 'BUY' : 'PASS';
+  }
+
+  /**
+   * Blend the component scores with the model's weights, less the risk penalty
+   */
+  private calculateAdjustedScore(
+    faabValue: number,
+    rosterImpact: number,
+    sustainability: number,
+    riskFactors: string[],
+    scoringModel: ScoringModel
+  ): number {
+    // Calculate composite score
+    const { weights } = scoringModel;
+    const compositeScore = (faabValue * weights.faabValue) + (rosterImpact * weights.rosterImpact) + (sustainability * weights.sustainability);
     
-    return adjustedScore >= buyThreshold ? 'BUY' : 'PASS';
+    // Risk adjustment
+    const riskPenalty = Math.min(riskFactors.length * scoringModel.riskPenalty.perRiskFactor, scoringModel.riskPenalty.max);
+    return compositeScore - riskPenalty;
   }
 
   /**
@@ -609,7 +789,7 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
       
       // Specific pass reasons
       if (research.injuryStatus.status !== 'healthy') {
-        reasoning.push(`Injury concerns (${research.injuryStatus.status})`);
+        reasoning.push(this.describeInjuryConcern(research));
       }
       
       if (research.recentPerformance.trend === 'declining') {
@@ -634,6 +814,11 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
       }
     }
 
+    const opportunityReason = this.describeOpportunity(research);
+    if (opportunityReason) {
+      reasoning.push(opportunityReason);
+    }
+
     // Matchup reasoning
     const easyMatchups = research.upcomingMatchups.filter(m => m.difficulty === 'easy').length;
     const hardMatchups = research.upcomingMatchups.filter(m => m.difficulty === 'hard').length;
@@ -643,6 +828,11 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
     } else if (hardMatchups >= 2) {
       reasoning.push(`Challenging upcoming schedule (${hardMatchups} difficult matchups)`);
     }
+    if (research.strengthOfSchedule) {
+      const { upcoming, upcomingWeeks, playoffs } = research.strengthOfSchedule;
+      const playoffText = playoffs !== undefined ? ` and ${playoffs}/100 in the fantasy playoffs` : '';
+      reasoning.push(`Schedule difficulty of ${upcoming}/100 over the next ${upcomingWeeks.length} week${upcomingWeeks.length === 1 ? '' : 's'}${playoffText}`);
+    }
 
     // Position-specific reasoning
     if (research.player.position === 'RB' && research.stats.usage.carries && research.stats.usage.carries > 15) {
@@ -653,6 +843,24 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
       reasoning.push('Strong target share indicates quarterback trust');
     }
 
+    if (research.player.position === 'LB' && research.stats.usage.tackles && research.stats.usage.tackles > 7) {
+      reasoning.push(`Every-down tackle volume (${research.stats.usage.tackles} per game) provides a steady IDP floor`);
+    }
+
+    if (research.player.position === 'DL' && research.stats.usage.sacks && research.stats.usage.sacks >= 0.5) {
+      reasoning.push(`Consistent pass rush (${research.stats.usage.sacks} sacks per game) drives IDP scoring`);
+    }
+
+    if (research.player.position === 'DB' && research.stats.usage.interceptions && research.stats.usage.interceptions >= 0.25) {
+      reasoning.push(`Ball skills (${research.stats.usage.interceptions} interceptions per game) add big-play upside`);
+    }
+
+    // A starter going down is the headline, so it follows the overall call rather than risk the cut
+    if (research.starterInjury) {
+      const opening = research.starterInjury.nextInLine ? 'leaving this player next in line' : 'opening up work behind them';
+      reasoning.splice(1, 0, `${StarterInjuryUtils.describe(research.starterInjury)}, ${opening}`);
+    }
+
     // Ensure we have at least 2 reasons
     if (reasoning.length < 2) {
       if (recommendation === 'BUY') {
@@ -665,6 +873,155 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
     return reasoning.slice(0, 5); // Limit to top 5 reasons
   }
 
+  /**
+   * The player's designation and this week's trajectory, or that it couldn't be confirmed
+   */
+  private describeInjuryConcern(research: PlayerResearch): string {
+    if (research.injuryStatus.status === 'unknown') {
+      return 'Injury status could not be confirmed';
+    }
+
+    const trajectory = research.injuryTimeline?.summary;
+    return `Injury concerns (${research.injuryStatus.status}${trajectory ? `; ${trajectory}` : ''})`;
+  }
+
+  /**
+   * One line on the player's depth chart slot and largest shares of team volume, when known
+   */
+  private describeOpportunity(research: PlayerResearch): string | undefined {
+    const opportunity = research.opportunity;
+    if (!opportunity) {
+      return undefined;
+    }
+
+    const shares = [
+      opportunity.targetShare !== undefined && opportunity.targetShare >= 18 && `${opportunity.targetShare}% target share`,
+      opportunity.carryShare !== undefined && opportunity.carryShare >= 40 && `${opportunity.carryShare}% carry share`,
+      opportunity.redZoneShare !== undefined && opportunity.redZoneShare >= 25 && `${opportunity.redZoneShare}% of red zone looks`
+    ].filter((share): share is string => typeof share === 'string');
+    const weeks = opportunity.weeks.length;
+    const period = weeks > 0 ? ` over the last ${weeks} week${weeks === 1 ? '' : 's'}` : '';
+
+    if (shares.length > 0) {
+      const slot = opportunity.depthChartSlot === 1 ? 'Starter with ' : '';
+      return `${slot}${shares.join(', ')}${period}`;
+    }
+    if (opportunity.depthChartSlot !== undefined && opportunity.depthChartSlot >= 3) {
+      return `Buried at ${opportunity.depthChartSlot} on the depth chart${opportunity.snapShare !== undefined ? ` (${opportunity.snapShare}% of snaps${period})` : ''}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Calculate confidence for a SELL/HOLD call on a dropped player
+   */
+  private calculateDropConfidence(
+    research: PlayerResearch,
+    recommendation: 'SELL' | 'HOLD',
+    riskFactors: string[],
+    upside: string[]
+  ): number {
+    let confidence = 50; // Base confidence
+
+    // Data quality factors
+    const newsCount = research.news.length;
+    if (newsCount >= 3) {
+      confidence += 15;
+    } else if (newsCount === 0) {
+      confidence -= 20;
+    }
+
+    if (research.recentPerformance.lastThreeWeeks.length >= 3) {
+      confidence += 10;
+    }
+
+    // Injury status clarity
+    if (research.injuryStatus.status === 'out' || research.injuryStatus.status === 'ir') {
+      confidence += recommendation === 'SELL' ? 15 : -10;
+    } else if (research.injuryStatus.status !== 'healthy') {
+      confidence -= 10;
+    }
+
+    // Managers cutting the player on several platforms is a stronger signal
+    if (research.player.platforms.length >= 2) {
+      confidence += recommendation === 'SELL' ? 10 : -5;
+    }
+
+    // Recommendation-specific adjustments
+    if (recommendation === 'SELL') {
+      confidence += Math.min(riskFactors.length * 5, 15);
+      if (research.recentPerformance.trend === 'declining') {
+        confidence += 10;
+      }
+    } else {
+      confidence += Math.min(upside.length * 5, 15);
+      confidence -= Math.min(riskFactors.length * 3, 15);
+      if (research.recentPerformance.trend === 'improving') {
+        confidence += 10;
+      }
+    }
+
+    return Math.min(Math.max(Math.round(confidence), 0), 100);
+  }
+
+  /**
+   * Generate reasoning for a SELL/HOLD call on a dropped player
+   */
+  private generateDropReasoning(
+    research: PlayerResearch,
+    faabValue: number,
+    rosterImpact: number,
+    sustainability: number,
+    recommendation: 'SELL' | 'HOLD'
+  ): string[] {
+    const reasoning: string[] = [];
+    const dropCount = research.player.dropCount || 0;
+
+    if (recommendation === 'SELL') {
+      reasoning.push(`Value no longer justifies a roster spot (FAAB: ${faabValue}, Impact: ${rosterImpact}, Sustainability: ${sustainability})`);
+
+      if (research.injuryStatus.status !== 'healthy') {
+        reasoning.push(this.describeInjuryConcern(research));
+      }
+
+      if (research.recentPerformance.trend === 'declining') {
+        reasoning.push('Declining performance trend supports moving on');
+      }
+
+      if (research.stats.fantasyPoints < 5) {
+        reasoning.push(`Low recent production (${research.stats.fantasyPoints.toFixed(1)} fantasy points)`);
+      }
+    } else {
+      reasoning.push(`Enough value to ride out the dip (FAAB: ${faabValue}, Impact: ${rosterImpact}, Sustainability: ${sustainability})`);
+
+      if (research.recentPerformance.trend === 'improving') {
+        reasoning.push('Improving performance trend suggests managers are cutting too early');
+      }
+
+      if (research.stats.usage.snapCount && research.stats.usage.snapCount > 60) {
+        reasoning.push(`High snap count (${research.stats.usage.snapCount}%) shows the role is intact`);
+      }
+
+      const easyMatchups = research.upcomingMatchups.filter(m => m.difficulty === 'easy').length;
+      if (easyMatchups >= 2) {
+        reasoning.push(`Favorable upcoming schedule (${easyMatchups} easy matchups)`);
+      }
+    }
+
+    if (dropCount > 0) {
+      reasoning.push(`Dropped ${dropCount.toLocaleString()} times across ${research.player.platforms.join(', ')}`);
+    }
+
+    // Ensure we have at least 2 reasons
+    if (reasoning.length < 2) {
+      reasoning.push(recommendation === 'SELL'
+        ? 'Risk factors outweigh the chance of a rebound'
+        : 'Underlying usage outweighs the recent drop activity');
+    }
+
+    return reasoning.slice(0, 5); // Limit to top 5 reasons
+  }
+
   /**
    * Calculate suggested FAAB percentage for BUY recommendations
    */
@@ -686,6 +1043,139 @@ export class AnalysisAgent implements BaseAgent, IAnalysisAgent {
     return Math.min(Math.max(rounded, 1), 30);
   }
 
+  /**
+   * Long-term value for dynasty and keeper leagues. Current production counts, but so do the
+   * seasons left on the position's age curve, draft capital early in a career, and role security.
+   */
+  private assessDynastyValue(
+    research: PlayerResearch,
+    rosterImpact: number,
+    sustainability: number,
+    config: DynastyConfig
+  ): DynastyAssessment {
+    const { position } = research.player;
+    const profile = research.player.dynastyProfile || {};
+    const reasoning: string[] = [];
+
+    const production = (rosterImpact + sustainability) / 2;
+
+    // Average share of peak value over the horizon; unknown ages count as half
+    let longevity = 50;
+    if (profile.age !== undefined) {
+      const seasons = DynastyUtils.projectSeasonValues(position, profile.age, config.horizonSeasons);
+      longevity = (seasons.reduce((sum, value) => sum + value, 0) / seasons.length) * 100;
+
+      const curve = DynastyUtils.getAgeCurve(position);
+      const peakSeasonsLeft = Math.max(curve.peakEnd - Math.max(profile.age, curve.peakStart) + 1, 0);
+      reasoning.push(peakSeasonsLeft > 0
+        ? `At ${profile.age}, ${peakSeasonsLeft} season${peakSeasonsLeft === 1 ? '' : 's'} left before the typical ${position} decline at ${curve.peakEnd + 1}`
+        : `At ${profile.age}, already past the typical ${position} peak`);
+    }
+
+    // Draft capital says how long a team will keep giving chances, which fades once a role is established
+    const draftCapital = DynastyUtils.scoreDraftCapital(profile.draftRound);
+    const earlyCareer = profile.yearsExperience === undefined || profile.yearsExperience <= 3;
+    if (profile.draftRound !== undefined && earlyCareer) {
+      reasoning.push(`Round ${profile.draftRound} draft capital${profile.yearsExperience === 0 ? ' as a rookie' : ''} buys patience from the team`);
+    }
+
+    let roleSecurity = 50;
+    if (profile.depthChartOrder !== undefined) {
+      roleSecurity = profile.depthChartOrder === 1 ? 100 : profile.depthChartOrder === 2 ? 60 : 30;
+      if (profile.depthChartOrder === 1) {
+        reasoning.push('Sits atop the depth chart');
+      }
+    }
+
+    const value = Math.round(earlyCareer
+      ? production * 0.35 + longevity * 0.3 + draftCapital * 0.2 + roleSecurity * 0.15
+      : production * 0.55 + longevity * 0.3 + roleSecurity * 0.15);
+    const recommendation = value >= config.buyThreshold ? 'BUY' : 'PASS';
+
+    // More of the profile known and a clearer margin over the threshold both raise confidence
+    const knownFields = [profile.age, profile.yearsExperience, profile.draftRound, profile.depthChartOrder]
+      .filter(field => field !== undefined).length;
+    const confidence = Math.min(Math.round(40 + knownFields * 8 + Math.abs(value - config.buyThreshold)), 95);
+
+    if (profile.age === undefined) {
+      reasoning.push('Age unknown, so long-term value leans on current production');
+    }
+    reasoning.push(recommendation === 'BUY'
+      ? `Dynasty value of ${value} clears the bar for a ${config.horizonSeasons}-season hold`
+      : `Dynasty value of ${value} is short of a ${config.horizonSeasons}-season hold`);
+
+    return {
+      recommendation,
+      value,
+      confidence,
+      horizonSeasons: config.horizonSeasons,
+      ...(recommendation === 'BUY' && { suggestedFAABPercentage: this.calculateFAABPercentage(value, confidence) }),
+      reasoning
+    };
+  }
+
+  /**
+   * Turn the generic FAAB percentage into dollar bids for one league, sized by league size,
+   * how much FAAB competing managers have left, and how badly our roster needs the position
+   */
+  private calculateLeagueBid(position: string, faabPercentage: number, league: LeagueSettings): LeagueBid {
+    // Bigger leagues mean thinner waiver wires and more bidders
+    const sizeFactor = Math.min(Math.max(1 + (league.teamCount - 12) * 0.04, 0.8), 1.25);
+
+    // Late-season budgets are drained, so the same player costs less
+    const competitors = league.teams.filter(team => team.teamId !== league.ourTeamId);
+    const averageCompetitorBudget = competitors.length > 0
+      ? competitors.reduce((sum, team) => sum + team.remainingBudget, 0) / competitors.length
+      : league.faabBudget;
+    const marketFactor = league.faabBudget > 0 ? 0.5 + 0.5 * (averageCompetitorBudget / league.faabBudget) : 1;
+
+    const rosterNeed = this.assessRosterNeed(position, league);
+    const needFactor: Record<RosterNeed, number> = { high: 1.25, medium: 1.0, low: 0.75 };
+
+    const expected = (faabPercentage / 100) * league.faabBudget * sizeFactor * marketFactor * needFactor[rosterNeed];
+
+    // Never suggest more than we have, or more than one dollar over the richest competitor
+    const richestCompetitor = competitors.length > 0 ? Math.max(...competitors.map(team => team.remainingBudget)) : Infinity;
+    const cap = Math.min(league.ourRemainingBudget, richestCompetitor + 1);
+    const toBid = (amount: number) => Math.max(0, Math.min(Math.round(amount), cap));
+
+    return {
+      platform: league.platform,
+      leagueId: league.leagueId,
+      leagueName: league.name,
+      low: toBid(expected * 0.7),
+      expected: toBid(expected),
+      aggressive: toBid(expected * 1.4),
+      remainingBudget: league.ourRemainingBudget,
+      rosterNeed
+    };
+  }
+
+  private assessRosterNeed(position: string, league: LeagueSettings): RosterNeed {
+    const flexEligible = ['RB', 'WR', 'TE'].includes(position);
+    const starters = (league.starterSlots[position] || 0) +
+      (flexEligible ? league.starterSlots['FLEX'] || 0 : 0) +
+      (position === 'QB' ? league.starterSlots['SUPER_FLEX'] || 0 : 0) +
+      (IDPUtils.isIDPPosition(position) ? league.starterSlots['IDP_FLEX'] || 0 : 0);
+
+    // Leagues that don't start the position (e.g. no kickers) have little use for it
+    if (Object.keys(league.starterSlots).length > 0 && starters === 0) {
+      return 'low';
+    }
+
+    if (!league.ourPositionCounts) {
+      return 'medium';
+    }
+
+    const rostered = league.ourPositionCounts[position] || 0;
+    const requiredStarters = Math.max(league.starterSlots[position] || 0, 1);
+
+    if (rostered <= requiredStarters) {
+      return 'high';
+    }
+    return rostered < requiredStarters * 2 + 1 ? 'medium' : 'low';
+  }
+
   // Task 6.3: Add analysis validation and quality checks
 
   /**
@@ -2,8 +2,11 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { DataCollectionAgentImpl, DataCollectionConfig } from './data-collection-agent';
-import { PlayerAdditionData } from '../models/player';
+import { PlayerAdditionData, PlayerDropData } from '../models/player';
 import { PlatformConfig } from '../models/config';
+import { FantasyPlatformDefinition, FantasyPlatformRegistry } from '../api/fantasy-platforms/platform-registry';
+import { FantasyPlatformClient } from '../api/fantasy-platforms/types';
+import { PlayerIdentityRegistry } from '../services/player-identity-registry';
 
 // Mock the platform clients
 vi.mock('../api/fantasy-platforms/espn-client');
@@ -63,7 +66,8 @@ describe('DataCollectionAgent', () => {
       }
     };
 
-    agent = new DataCollectionAgentImpl(config);
+    // An in-memory registry, so tests don't write the real identity file
+    agent = new DataCollectionAgentImpl(config, new PlayerIdentityRegistry(null));
   });
 
   describe('filterToTopTen', () => {
@@ -163,6 +167,136 @@ describe('DataCollectionAgent', () => {
     });
   });
 
+  describe('selectPlayers', () => {
+    const added = (playerId: string, position: string, additionCount: number): PlayerAdditionData => ({
+      playerId,
+      name: `Player ${playerId}`,
+      position,
+      team: 'KC',
+      additionCount,
+      platform: 'ESPN',
+      timestamp: new Date()
+    });
+    const candidates = [
+      added('rb1', 'RB', 900),
+      added('rb2', 'RB', 800),
+      added('wr1', 'WR', 700),
+      added('rb3', 'RB', 600),
+      added('k1', 'K', 500),
+      added('wr2', 'WR', 400),
+      added('qb1', 'QB', 100)
+    ];
+
+    it('should apply count, position limits, exclusions and the cooldown', () => {
+      const result = agent.selectPlayers(candidates, {
+        count: 4,
+        positionLimits: { QB: { min: 1 }, RB: { max: 2 } },
+        excludedPositions: ['K'],
+        cooldownWeeks: 1
+      }, ['wr1']);
+
+      expect(result.players.map(player => player.playerId)).toEqual(['rb1', 'rb2', 'wr2', 'qb1']);
+
+      const reasons = Object.fromEntries(result.decisions.map(decision => [decision.playerId, decision.reason]));
+      expect(reasons).toEqual({
+        rb1: 'Ranked #1 by additions',
+        rb2: 'Ranked #2 by additions',
+        wr1: 'Featured in the last week',
+        rb3: 'RB maximum of 2 reached',
+        k1: 'K excluded by selection policy',
+        wr2: 'Ranked #6 by additions',
+        qb1: 'Filled the QB minimum of 1'
+      });
+      expect(result.decisions.filter(decision => decision.selected)).toHaveLength(4);
+    });
+
+    it('should rank by percent of leagues adding rather than raw platform numbers', () => {
+      const result = agent.selectPlayers([
+        { ...added('sleeper-star', 'WR', 20000), platform: 'Sleeper' },
+        added('espn-star', 'RB', 2500)
+      ], { count: 2 });
+
+      // 20,000 Sleeper adds is 1% of its leagues; a 25% ESPN jump is far more demand
+      expect(result.players.map(player => player.playerId)).toEqual(['espn-star', 'sleeper-star']);
+      expect(result.players[1]!.additionSignals).toEqual([
+        { platform: 'Sleeper', rawValue: 20000, percentOfLeagues: 1, weight: 0.3 }
+      ]);
+    });
+
+    it('should record players ranked below the count', () => {
+      const result = agent.selectPlayers(candidates, { count: 2 });
+
+      expect(result.players).toHaveLength(2);
+      expect(result.decisions.find(decision => decision.playerId === 'qb1')).toMatchObject({
+        selected: false,
+        rank: 7,
+        reason: 'Ranked below the top 2'
+      });
+      expect(result.ranked.map(player => player.playerId)).toEqual(['rb1', 'rb2', 'wr1', 'rb3', 'k1', 'wr2', 'qb1']);
+    });
+
+    it('should feature defenders only in their own IDP slots', () => {
+      const withDefenders = [added('lb1', 'LB', 950), added('db1', 'DB', 300), added('dl1', 'DL', 200), ...candidates];
+
+      const standard = agent.selectPlayers(withDefenders, { count: 2 });
+      expect(standard.players.map(player => player.playerId)).toEqual(['rb1', 'rb2']);
+      expect(standard.decisions.find(decision => decision.playerId === 'lb1')!.reason)
+        .toBe('Defenders are only featured in the IDP edition');
+
+      const idpEdition = agent.selectPlayers(withDefenders, { count: 2, idpCount: 2 });
+      expect(idpEdition.players.map(player => player.playerId)).toEqual(['lb1', 'rb1', 'rb2', 'db1']);
+      expect(idpEdition.decisions.find(decision => decision.playerId === 'dl1')!.reason)
+        .toBe('Ranked below the top 2 defenders');
+    });
+  });
+
+  describe('filterTopDropped', () => {
+    it('should combine drops across platforms and keep the most dropped', () => {
+      const drop = (playerId: string, platform: string, dropCount: number): PlayerDropData => ({
+        playerId,
+        name: `Player ${playerId}`,
+        position: 'WR',
+        team: 'KC',
+        dropCount,
+        platform,
+        timestamp: new Date()
+      });
+
+      const result = agent.filterTopDropped([
+        drop('1', 'ESPN', 300),
+        drop('1', 'Sleeper', 400),
+        drop('2', 'Yahoo', 500),
+        drop('3', 'ESPN', 100)
+      ], 2);
+
+      expect(result.map(player => player.playerId)).toEqual(['2', '1']);
+      expect(result[1]).toMatchObject({ dropCount: 700, platforms: ['ESPN', 'Sleeper'], additionCount: 0 });
+    });
+
+    it('should compare Sleeper drop counts with the percent-based platforms on one scale', () => {
+      const drop = (playerId: string, platform: string, dropCount: number): PlayerDropData => ({
+        playerId,
+        name: `Player ${playerId}`,
+        position: 'WR',
+        team: 'KC',
+        dropCount,
+        platform,
+        timestamp: new Date()
+      });
+
+      // 60,000 Sleeper drops are 3% of its leagues; 500 from Yahoo is 5%
+      const result = agent.filterTopDropped([
+        drop('sleeper-only', 'Sleeper', 60000),
+        drop('yahoo-only', 'Yahoo', 500),
+        drop('both', 'ESPN', 300),
+        drop('both', 'Sleeper', 40000)
+      ], 2);
+
+      expect(result.map(player => player.playerId)).toEqual(['both', 'yahoo-only']);
+      expect(result[0]!.dropPercentage).toBeGreaterThan(result[1]!.dropPercentage!);
+    });
+  });
+
   describe('cache management', () => {
     it('should provide cache statistics', () => {
       const stats = agent.getCacheStats();
@@ -226,4 +360,91 @@ describe('DataCollectionAgent', () => {
       expect(connections.sleeper).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('platform registry', () => {
+    function createDefinition(
+      name: string,
+      getMostAddedPlayers: () => Promise<PlayerAdditionData[]>,
+      overrides: Partial<FantasyPlatformDefinition> = {}
+    ): FantasyPlatformDefinition {
+      const client: FantasyPlatformClient = {
+        getMostAddedPlayers: vi.fn(getMostAddedPlayers),
+        getMostDroppedPlayers: vi.fn().mockResolvedValue([]),
+        getPlayerInfo: vi.fn(),
+        authenticate: vi.fn().mockResolvedValue(undefined),
+        isAuthenticated: vi.fn().mockReturnValue(true)
+      };
+      return {
+        name,
+        configKey: name.toLowerCase(),
+        requiredAuth: [],
+        normalization: {},
+        additionSignal: { unit: 'adds', estimatedLeagues: 1000, weight: 1 },
+        createClient: () => client,
+        ...overrides
+      };
+    }
+
+    function createPlatformSettings(name: string, auth?: { clientId: string }) {
+      return {
+        enabled: true,
+        config: { name, baseUrl: 'https://example.com', rateLimit: { requestsPerSecond: 10, burstLimit: 50 } } as PlatformConfig,
+        ...(auth && { auth })
+      };
+    }
+
+    it('should collect from registered platforms and attribute failures to the right one', async () => {
+      const registry = new FantasyPlatformRegistry();
+      registry.register(createDefinition('Broken', () => Promise.reject(new Error('503 Service Unavailable'))));
+      registry.register(createDefinition('Fleaflicker', () => Promise.resolve([{
+        playerId: 'ff-1',
+        name: 'Player One',
+        position: 'd/st',
+        team: 'KC',
+        additionCount: 40,
+        platform: 'Fleaflicker',
+        timestamp: new Date()
+      }]), { normalization: { positionAliases: { 'D/ST': 'DST' }, teamAliases: { 'KC': 'KAN' } } }));
+
+      const registryAgent = new DataCollectionAgentImpl({
+        ...config,
+        platforms: {
+          broken: createPlatformSettings('Broken'),
+          fleaflicker: createPlatformSettings('Fleaflicker')
+        },
+        caching: { ...config.caching, enabled: false },
+        fallback: { ...config.fallback, enabled: false },
+        monitoring: { ...config.monitoring, enabled: false }
+      }, new PlayerIdentityRegistry(null), null, registry);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const players = await registryAgent.getMostAddedPlayers();
+
+      expect(players).toHaveLength(1);
+      expect(players[0]).toMatchObject({ position: 'DST', team: 'KAN', platform: 'Fleaflicker' });
+      expect(registryAgent.getMetrics().platformStats).toEqual({
+        Broken: { requests: 1, successes: 0, failures: 1, averageResponseTime: 0 },
+        Fleaflicker: expect.objectContaining({ requests: 1, successes: 1, failures: 0 })
+      });
+    });
+
+    it('should skip platforms that are missing required credentials', async () => {
+      const registry = new FantasyPlatformRegistry();
+      registry.register(createDefinition('Private', () => Promise.resolve([]), { requiredAuth: ['clientId'] }));
+      registry.register(createDefinition('Public', () => Promise.resolve([])));
+
+      const registryAgent = new DataCollectionAgentImpl({
+        ...config,
+        platforms: {
+          private: createPlatformSettings('Private'),
+          public: createPlatformSettings('Public')
+        },
+        monitoring: { ...config.monitoring, enabled: false }
+      }, new PlayerIdentityRegistry(null), null, registry);
+
+      expect(registryAgent.getActivePlatforms()).toEqual(['Public']);
+      expect(await registryAgent.testPlatformConnections()).toEqual({ private: false, public: true });
+      expect(() => registry.register(createDefinition('Public', () => Promise.resolve([])))).toThrow('already registered');
+    });
+  });
+});
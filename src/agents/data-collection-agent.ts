@@ -1,24 +1,38 @@
 // Data Collection Agent implementation
 
 import { DataCollectionAgent } from './interfaces';
-import { PlayerAdditionData, PlayerSummary, PlayerDataTransformer, PlayerValidator } from '../models/player';
-import { ESPNClient } from '../api/fantasy-platforms/espn-client';
-import { YahooClient } from '../api/fantasy-platforms/yahoo-client';
-import { SleeperClient } from '../api/fantasy-platforms/sleeper-client';
+import { PlayerAdditionData, PlayerDropData, PlayerSummary, PlayerDataTransformer, PlayerValidator } from '../models/player';
+import { AdditionSignalNormalizer, AdditionSignalRules } from '../models/addition-signal';
+import { IDP_POSITION_ALIASES, IDPUtils } from '../models/idp';
+import {
+  DEFAULT_SELECTION_POLICY,
+  PlayerSelectionDecision,
+  PlayerSelectionPolicy,
+  PlayerSelectionResult
+} from '../models/selection';
 import { PlatformConfig } from '../models/config';
-import { PlatformAuthConfig, PlatformAPIError } from '../api/fantasy-platforms/types';
+import { FantasyPlatformClient, PlatformAuthConfig, PlatformAPIError } from '../api/fantasy-platforms/types';
+import {
+  FantasyPlatformDefinition,
+  FantasyPlatformRegistry,
+  getFantasyPlatformRegistry
+} from '../api/fantasy-platforms/platform-registry';
+import { PlayerIdentityRegistry, getPlayerIdentityRegistry } from '../services/player-identity-registry';
+import { DiskCacheStore, getDiskCacheStore } from '../api/disk-cache-store';
+
+export interface PlatformCollectionSettings {
+  config: PlatformConfig;
+  auth?: PlatformAuthConfig;
+  enabled: boolean;
+}
 
 export interface DataCollectionConfig {
-  platforms: {
-    espn: { config: PlatformConfig; auth?: PlatformAuthConfig; enabled: boolean };
-    yahoo: { config: PlatformConfig; auth?: PlatformAuthConfig; enabled: boolean };
-    sleeper: { config: PlatformConfig; auth?: PlatformAuthConfig; enabled: boolean };
-  };
+  platforms: Record<string, PlatformCollectionSettings>; // Keyed by each registered platform's configKey
   caching: {
     enabled: boolean;
     ttl: number; // Time to live in milliseconds
     maxSize: number; // Maximum number of cached entries
-    persistToDisk: boolean; // Whether to persist cache to disk
+    persistToDisk: boolean; // Whether to persist cache to disk, so stale fallbacks survive a restart
   };
   fallback: {
     enabled: boolean;
@@ -35,6 +49,19 @@ export interface DataCollectionConfig {
   };
 }
 
+// How many of the most dropped players get a SELL/HOLD write-up
+const DEFAULT_DROP_LIMIT = 5;
+
+// Disk cache namespace for collected player data
+const CACHE_NAMESPACE = 'data-collection';
+
+// What a failed platform fetch rejects with, so the failure stays attributed to its platform
+interface PlatformFetchFailure {
+  platform: string;
+  error: unknown;
+  responseTime: number;
+}
+
 export interface DataCollectionMetrics {
   totalRequests: number;
   successfulRequests: number;
@@ -50,10 +77,14 @@ export interface DataCollectionMetrics {
   }>;
 }
 
+// A registered platform with a client built from the agent's config
+interface ActivePlatform {
+  definition: FantasyPlatformDefinition;
+  client: FantasyPlatformClient;
+}
+
 export class DataCollectionAgentImpl implements DataCollectionAgent {
-  private espnClient?: ESPNClient;
-  private yahooClient?: YahooClient;
-  private sleeperClient?: SleeperClient;
+  private platforms: ActivePlatform[] = [];
   private config: DataCollectionConfig;
   private cache: Map<string, { 
     data: PlayerAdditionData[]; 
@@ -63,47 +94,27 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
   }> = new Map();
   private metrics: DataCollectionMetrics;
   private logger: Console;
-
-  constructor(config: DataCollectionConfig) {
+  private identityRegistry: PlayerIdentityRegistry;
+  private diskCache: DiskCacheStore | null;
+  private platformRegistry: FantasyPlatformRegistry;
+
+  constructor(
+    config: DataCollectionConfig,
+    identityRegistry: PlayerIdentityRegistry = getPlayerIdentityRegistry(),
+    diskCache: DiskCacheStore | null = getDiskCacheStore(),
+    platformRegistry: FantasyPlatformRegistry = getFantasyPlatformRegistry()
+  ) {
     this.config = config;
     this.logger = console;
+    this.identityRegistry = identityRegistry;
+    this.diskCache = config.caching.persistToDisk ? diskCache || new DiskCacheStore() : null;
+    this.platformRegistry = platformRegistry;
     
     // Initialize metrics
-    this.metrics = {
-      totalRequests: 0,
-      successfulRequests: 0,
-      failedRequests: 0,
-      cacheHits: 0,
-      cacheMisses: 0,
-      averageResponseTime: 0,
-      platformStats: {
-        ESPN: { requests: 0, successes: 0, failures: 0, averageResponseTime: 0 },
-        Yahoo: { requests: 0, successes: 0, failures: 0, averageResponseTime: 0 },
-        Sleeper: { requests: 0, successes: 0, failures: 0, averageResponseTime: 0 }
-      }
-    };
+    this.metrics = this.createEmptyMetrics();
     
     // Initialize platform clients only if enabled
-    if (config.platforms.espn.enabled) {
-      this.espnClient = new ESPNClient(
-        config.platforms.espn.config,
-        config.platforms.espn.auth
-      );
-    }
-    
-    if (config.platforms.yahoo.enabled) {
-      this.yahooClient = new YahooClient(
-        config.platforms.yahoo.config,
-        config.platforms.yahoo.auth
-      );
-    }
-    
-    if (config.platforms.sleeper.enabled) {
-      this.sleeperClient = new SleeperClient(
-        config.platforms.sleeper.config,
-        config.platforms.sleeper.auth
-      );
-    }
+    this.platforms = this.createPlatformClients();
     
     // Set up cache cleanup interval
     if (this.config.caching.enabled) {
@@ -120,6 +131,7 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
       
       // Check cache first if enabled
       if (this.config.caching.enabled) {
+        await this.loadPersistedCache(cacheKey);
         const cached = this.getCachedData(cacheKey);
         if (cached) {
           this.metrics.cacheHits++;
@@ -134,27 +146,17 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
       const allPlayerData: PlayerAdditionData[] = [];
       const platformResults: { platform: string; success: boolean; count: number; error?: string; responseTime: number }[] = [];
 
-      // Prepare platform fetch operations
-      const fetchOperations: Promise<{ platform: string; data: PlayerAdditionData[]; responseTime: number }>[] = [];
-      
-      if (this.config.platforms.espn.enabled && this.espnClient) {
-        fetchOperations.push(this.fetchWithMetrics('ESPN', () => this.fetchFromESPN()));
-      }
-      
-      if (this.config.platforms.yahoo.enabled && this.yahooClient) {
-        fetchOperations.push(this.fetchWithMetrics('Yahoo', () => this.fetchFromYahoo()));
-      }
-      
-      if (this.config.platforms.sleeper.enabled && this.sleeperClient) {
-        fetchOperations.push(this.fetchWithMetrics('Sleeper', () => this.fetchFromSleeper()));
-      }
-
       // Fetch data from each platform with error handling
+      const fetchOperations = this.platforms.map(platform =>
+        this.fetchWithMetrics(platform.definition.name, () => this.fetchFromPlatform(platform))
+      );
       const results = await Promise.allSettled(fetchOperations);
       
       results.forEach((result, index) => {
+        // Results come back in the same order as the platforms they were fetched from
+        const platform = this.platforms[index]!.definition.name;
         if (result.status === 'fulfilled') {
-          const { platform, data, responseTime } = result.value;
+          const { data, responseTime } = result.value;
           allPlayerData.push(...data);
           platformResults.push({
             platform,
@@ -167,20 +169,19 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
           this.updatePlatformMetrics(platform, true, responseTime);
           this.log('info', `✓ Successfully fetched ${data.length} players from ${platform} (${responseTime}ms)`);
         } else {
-          // Try to extract platform name from error or use index
-          const platforms = ['ESPN', 'Yahoo', 'Sleeper'];
-          const platform = platforms[index] || 'Unknown';
+          const { error, responseTime } = result.reason as PlatformFetchFailure;
+          const message = error instanceof Error ? error.message : 'Unknown error';
           
           platformResults.push({
             platform,
             success: false,
             count: 0,
-            error: result.reason?.message || 'Unknown error',
-            responseTime: 0
+            error: message,
+            responseTime
           });
           
-          this.updatePlatformMetrics(platform, false, 0);
-          this.log('warn', `✗ Failed to fetch from ${platform}: ${result.reason?.message}`);
+          this.updatePlatformMetrics(platform, false, responseTime);
+          this.log('warn', `✗ Failed to fetch from ${platform}: ${message}`);
         }
       });
 
@@ -193,7 +194,7 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
       if (successfulPlatforms < this.config.fallback.minimumSuccessfulPlatforms) {
         // Try fallback to cached data if enabled
         if (this.config.fallback.fallbackToCache && this.config.caching.enabled) {
-          const staleCache = this.getStaleCache(cacheKey);
+          const staleCache = await this.getStaleCache(cacheKey);
           if (staleCache) {
             this.log('warn', 'Using stale cached data as fallback');
             return staleCache;
@@ -208,14 +209,16 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
       }
 
       // Normalize and deduplicate player data
+      await this.identityRegistry.load();
       const normalizedData = this.normalizePlayerData(allPlayerData);
       const deduplicatedData = this.deduplicatePlayerData(normalizedData);
+      await this.identityRegistry.save();
       
-      this.log('info', `After normalization and deduplication: ${deduplicatedData.length} unique players`);
+      this.log('info', `After normalization and deduplication: ${deduplicatedData.length} unique player entries`);
 
       // Cache the results if caching is enabled
       if (this.config.caching.enabled) {
-        this.setCachedData(cacheKey, deduplicatedData);
+        await this.setCachedData(cacheKey, deduplicatedData);
       }
 
       // Update success metrics
@@ -233,107 +236,272 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
   }
 
   public filterToTopTen(players: PlayerAdditionData[]): PlayerSummary[] {
-    console.log(`Filtering ${players.length} players to top 10...`);
-    
-    // Convert to PlayerSummary format and aggregate by player
-    const summaries = PlayerDataTransformer.playerAdditionDataToSummary(players);
-    
-    // Calculate addition percentages (using total leagues as approximation)
-    const totalLeagues = this.estimateTotalLeagues(players);
-    const summariesWithPercentages = PlayerDataTransformer.calculateAdditionPercentages(summaries, totalLeagues);
+    return this.selectPlayers(players, DEFAULT_SELECTION_POLICY).players;
+  }
+
+  /**
+   * Rank the added players and pick the ones to feature under the selection policy,
+   * recording why each candidate was chosen or skipped
+   */
+  public selectPlayers(
+    players: PlayerAdditionData[],
+    policy: PlayerSelectionPolicy,
+    recentlyFeatured: string[] = []
+  ): PlayerSelectionResult {
+    console.log(`Selecting ${policy.count} of ${players.length} players...`);
+    
+    // Aggregate by player, converting each platform's signal to a percent of leagues adding
+    const summariesWithPercentages = AdditionSignalNormalizer.summarize(
+      players,
+      this.getAdditionSignalRules(),
+      this.getActivePlatforms()
+    );
     
-    // Apply ranking algorithm based on addition frequency
+    // Apply ranking algorithm based on addition demand
     const rankedSummaries = this.applyRankingAlgorithm(summariesWithPercentages);
     
-    // Filter to top 10 and collect metadata
-    const topTen = this.selectTopTenWithMetadata(rankedSummaries);
-    
-    // Validate the results
-    const validSummaries = topTen.filter(summary => {
-      const isValid = PlayerValidator.validatePlayerSummary(summary);
-      if (!isValid) {
-        console.warn(`Invalid player summary filtered out: ${summary.name}`);
-      }
-      return isValid;
-    });
+    // Apply the policy and collect metadata
+    const { players: selected, decisions } = this.applySelectionPolicy(rankedSummaries, policy, new Set(recentlyFeatured));
+    const validSummaries = this.addSelectionMetadata(selected);
     
-    console.log(`Top 10 most added players:`);
+    console.log(`Top ${validSummaries.length} most added players:`);
     validSummaries.forEach((player, index) => {
       console.log(`${index + 1}. ${player.name} (${player.position}, ${player.team}) - ${player.additionCount} adds (${player.additionPercentage}%) [${player.platforms.join(', ')}]`);
     });
     
     // Log ranking statistics
-    this.logRankingStatistics(validSummaries, summariesWithPercentages);
+    if (validSummaries.length > 0) {
+      this.logRankingStatistics(validSummaries, summariesWithPercentages);
+    }
     
-    return validSummaries;
+    return { players: validSummaries, decisions, ranked: rankedSummaries };
+  }
+
+  /**
+   * Most dropped players from every enabled platform. Drops are a secondary track,
+   * so any one platform answering is enough.
+   */
+  public async getMostDroppedPlayers(): Promise<PlayerDropData[]> {
+    this.log('info', 'Fetching most dropped players from all platforms...');
+
+    const fetchOperations = this.platforms.map(({ definition, client }) => ({
+      platform: definition.name,
+      fetch: async () => {
+        await client.authenticate();
+        return client.getMostDroppedPlayers();
+      }
+    }));
+
+    const results = await Promise.allSettled(
+      fetchOperations.map(operation => this.retryWithFallback(operation.fetch, operation.platform))
+    );
+
+    const allDrops: PlayerDropData[] = [];
+    results.forEach((result, index) => {
+      const platform = fetchOperations[index]!.platform;
+      if (result.status === 'fulfilled') {
+        allDrops.push(...(result.value || []));
+        this.log('info', `✓ Fetched ${result.value?.length || 0} dropped players from ${platform}`);
+      } else {
+        this.log('warn', `✗ Failed to fetch dropped players from ${platform}: ${result.reason?.message}`);
+      }
+    });
+
+    if (fetchOperations.length > 0 && results.every(result => result.status === 'rejected')) {
+      throw new Error('Could not fetch dropped players from any platform');
+    }
+
+    // Resolve to canonical IDs so drops line up with the add track and research
+    await this.identityRegistry.load();
+    const resolvedDrops = allDrops.map(drop => {
+      const normalized = {
+        ...drop,
+        name: PlayerDataTransformer.normalizePlayerName(drop.name),
+        team: this.normalizeTeam(drop.platform, drop.team),
+        position: this.normalizePosition(drop.platform, drop.position)
+      };
+      const platformPlayerId = drop.platformPlayerId || drop.playerId;
+      const canonicalId = this.identityRegistry.resolve({
+        platform: normalized.platform,
+        platformId: platformPlayerId,
+        name: normalized.name,
+        team: normalized.team,
+        position: normalized.position
+      });
+      return { ...normalized, playerId: canonicalId, platformPlayerId };
+    });
+    await this.identityRegistry.save();
+
+    return resolvedDrops;
+  }
+
+  /**
+   * Combine drops across platforms and keep the most dropped players. Defenders are left
+   * out; the cutting section only covers offensive players.
+   */
+  public filterTopDropped(players: PlayerDropData[], limit: number = DEFAULT_DROP_LIMIT): PlayerSummary[] {
+    // Platforms report drops in the units they use for adds (basis points or raw counts), so
+    // drops go through the same normalization before platforms are combined
+    const summaries = AdditionSignalNormalizer.summarize(
+      players.map(({ dropCount, ...drop }) => ({ ...drop, additionCount: dropCount })),
+      this.getAdditionSignalRules(),
+      this.getActivePlatforms()
+    ).map((summary): PlayerSummary => ({
+      playerId: summary.playerId,
+      name: summary.name,
+      position: summary.position,
+      team: summary.team,
+      additionCount: 0,
+      additionPercentage: 0,
+      platforms: summary.platforms,
+      dropCount: summary.additionCount,
+      dropPercentage: summary.additionPercentage
+    }));
+
+    const topDropped = summaries
+      .sort((a, b) => (b.dropPercentage || 0) - (a.dropPercentage || 0) || b.platforms.length - a.platforms.length)
+      .filter(summary => PlayerValidator.validatePlayerSummary(summary) && !IDPUtils.isIDPPosition(summary.position))
+      .slice(0, limit);
+
+    console.log(`Top ${topDropped.length} most dropped players:`);
+    topDropped.forEach((player, index) => {
+      console.log(`${index + 1}. ${player.name} (${player.position}, ${player.team}) - ${player.dropCount} drops (${player.dropPercentage}%) [${player.platforms.join(', ')}]`);
+    });
+
+    return topDropped;
   }
 
   private applyRankingAlgorithm(summaries: PlayerSummary[]): PlayerSummary[] {
+    const topPercentage = Math.max(0, ...summaries.map(summary => summary.additionPercentage));
+    
     // Enhanced ranking algorithm that considers multiple factors
     return summaries
       .map(summary => ({
         ...summary,
         // Calculate composite score based on:
-        // 1. Raw addition count (70% weight)
-        // 2. Addition percentage (20% weight) 
-        // 3. Platform diversity bonus (10% weight)
-        compositeScore: this.calculateCompositeScore(summary)
+        // 1. Normalized percent of leagues adding (90% weight)
+        // 2. Platform diversity bonus (10% weight)
+        compositeScore: this.calculateCompositeScore(summary, topPercentage)
       }))
       .sort((a, b) => (b as any).compositeScore - (a as any).compositeScore);
   }
 
-  private calculateCompositeScore(summary: PlayerSummary): number {
-    const additionWeight = 0.7;
-    const percentageWeight = 0.2;
+  private calculateCompositeScore(summary: PlayerSummary, topPercentage: number): number {
+    const demandWeight = 0.9;
     const diversityWeight = 0.1;
     
-    // Normalize addition count (0-100 scale)
-    const maxAdditions = 1000; // Reasonable max for normalization
-    const normalizedAdditions = Math.min(summary.additionCount / maxAdditions * 100, 100);
-    
-    // Addition percentage is already 0-100
-    const normalizedPercentage = summary.additionPercentage;
+    // Percent of leagues adding, relative to the most added player (0-100 scale)
+    const normalizedDemand = topPercentage > 0 ? (summary.additionPercentage / topPercentage) * 100 : 0;
     
     // Platform diversity bonus (more platforms = higher score)
-    const maxPlatforms = 3; // ESPN, Yahoo, Sleeper
-    const diversityBonus = (summary.platforms.length / maxPlatforms) * 100;
-    
-    return (
-      normalizedAdditions * additionWeight +
-      normalizedPercentage * percentageWeight +
-      diversityBonus * diversityWeight
-    );
+    const diversityBonus = (summary.platforms.length / this.getPlatformCount()) * 100;
+    
+    return normalizedDemand * demandWeight + diversityBonus * diversityWeight;
+  }
+
+  /**
+   * Fill position minimums first, then the remaining slots in rank order up to each position's maximum
+   */
+  private applySelectionPolicy(
+    rankedSummaries: PlayerSummary[],
+    policy: PlayerSelectionPolicy,
+    recentlyFeatured: Set<string>
+  ): Omit<PlayerSelectionResult, 'ranked'> {
+    const limits = policy.positionLimits || {};
+    const excluded = new Set(policy.excludedPositions || []);
+    const idpCount = policy.idpCount || 0;
+    const outcomes = new Map<string, { selected: boolean; reason: string }>();
+    const countByPosition: Record<string, number> = {};
+    const eligible: PlayerSummary[] = [];
+
+    const choose = (summary: PlayerSummary, reason: string) => {
+      outcomes.set(summary.playerId, { selected: true, reason });
+      countByPosition[summary.position] = (countByPosition[summary.position] || 0) + 1;
+    };
+    const isChosen = (summary: PlayerSummary) => outcomes.get(summary.playerId)?.selected === true;
+
+    rankedSummaries.forEach(summary => {
+      if (excluded.has(summary.position)) {
+        outcomes.set(summary.playerId, { selected: false, reason: `${summary.position} excluded by selection policy` });
+      } else if (IDPUtils.isIDPPosition(summary.position) && idpCount === 0) {
+        outcomes.set(summary.playerId, { selected: false, reason: 'Defenders are only featured in the IDP edition' });
+      } else if (recentlyFeatured.has(summary.playerId)) {
+        const weeks = policy.cooldownWeeks || 1;
+        outcomes.set(summary.playerId, {
+          selected: false,
+          reason: `Featured in the last ${weeks === 1 ? 'week' : `${weeks} weeks`}`
+        });
+      } else if (!PlayerValidator.validatePlayerSummary(summary)) {
+        console.warn(`Invalid player summary filtered out: ${summary.name}`);
+        outcomes.set(summary.playerId, { selected: false, reason: 'Incomplete player data' });
+      } else {
+        eligible.push(summary);
+      }
+    });
+
+    for (const [position, limit] of Object.entries(limits)) {
+      if (!limit.min) {
+        continue;
+      }
+      const atPosition = eligible.filter(summary => summary.position === position).slice(0, limit.min);
+      atPosition.forEach(summary => choose(summary, `Filled the ${position} minimum of ${limit.min}`));
+      if (atPosition.length < limit.min) {
+        console.warn(`Only ${atPosition.length} eligible ${position} players for a minimum of ${limit.min}`);
+      }
+    }
+
+    // Defenders fill their own idpCount slots rather than competing with offensive players
+    const isDefender = (summary: PlayerSummary) => IDPUtils.isIDPPosition(summary.position);
+    let selectedCount = eligible.filter(summary => isChosen(summary) && !isDefender(summary)).length;
+    let idpSelectedCount = eligible.filter(summary => isChosen(summary) && isDefender(summary)).length;
+    eligible.forEach(summary => {
+      if (isChosen(summary)) {
+        return;
+      }
+
+      const defender = isDefender(summary);
+      const max = limits[summary.position]?.max;
+      if (defender && idpSelectedCount >= idpCount) {
+        outcomes.set(summary.playerId, { selected: false, reason: `Ranked below the top ${idpCount} defenders` });
+      } else if (!defender && selectedCount >= policy.count) {
+        outcomes.set(summary.playerId, { selected: false, reason: `Ranked below the top ${policy.count}` });
+      } else if (max !== undefined && (countByPosition[summary.position] || 0) >= max) {
+        outcomes.set(summary.playerId, { selected: false, reason: `${summary.position} maximum of ${max} reached` });
+      } else {
+        choose(summary, `Ranked #${rankedSummaries.indexOf(summary) + 1} by additions`);
+        if (defender) {
+          idpSelectedCount++;
+        } else {
+          selectedCount++;
+        }
+      }
+    });
+
+    const decisions: PlayerSelectionDecision[] = rankedSummaries.map((summary, index) => ({
+      playerId: summary.playerId,
+      name: summary.name,
+      position: summary.position,
+      rank: index + 1,
+      ...outcomes.get(summary.playerId)!
+    }));
+
+    return { players: rankedSummaries.filter(isChosen), decisions };
   }
 
-  private selectTopTenWithMetadata(rankedSummaries: PlayerSummary[]): PlayerSummary[] {
-    const topTen = rankedSummaries.slice(0, 10);
-    
+  private addSelectionMetadata(selected: PlayerSummary[]): PlayerSummary[] {
     // Collect additional metadata for each selected player
-    return topTen.map((summary, index) => ({
+    return selected.map((summary, index) => ({
       ...summary,
       // Add ranking metadata
       rank: index + 1,
       // Calculate relative popularity compared to #1
-      relativePopularity: topTen[0] ? 
-        Math.round((summary.additionCount / topTen[0].additionCount) * 100) : 100,
-      // Determine trending status
-      trendingStatus: this.determineTrendingStatus(summary, index),
+      relativePopularity: selected[0]?.additionPercentage ? 
+        Math.round((summary.additionPercentage / selected[0].additionPercentage) * 100) : 100,
       // Platform coverage score
-      platformCoverage: (summary.platforms.length / 3) * 100
+      platformCoverage: (summary.platforms.length / this.getPlatformCount()) * 100
     }));
   }
 
-  private determineTrendingStatus(summary: PlayerSummary, rank: number): 'hot' | 'rising' | 'steady' {
-    // Simple heuristic based on rank and platform coverage
-    if (rank <= 3 && summary.platforms.length >= 2) {
-      return 'hot';
-    } else if (rank <= 7 && summary.additionPercentage > 5) {
-      return 'rising';
-    } else {
-      return 'steady';
-    }
-  }
-
   private logRankingStatistics(topTen: PlayerSummary[], allSummaries: PlayerSummary[]): void {
     const stats = {
       totalPlayersConsidered: allSummaries.length,
@@ -350,7 +518,7 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
     console.log('Ranking Statistics:');
     console.log(`- Total players considered: ${stats.totalPlayersConsidered}`);
     console.log(`- Average additions (all): ${stats.averageAdditions}`);
-    console.log(`- Average additions (top 10): ${stats.topTenAverageAdditions}`);
+    console.log(`- Average additions (featured): ${stats.topTenAverageAdditions}`);
     console.log(`- Position breakdown: ${JSON.stringify(stats.positionBreakdown)}`);
     console.log(`- Platform coverage: ${JSON.stringify(stats.platformCoverage)}`);
   }
@@ -366,12 +534,11 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
   }
 
   private getPlatformCoverage(players: PlayerSummary[]): Record<string, number> {
-    const coverage: Record<string, number> = {
-      'ESPN': 0,
-      'Yahoo': 0,
-      'Sleeper': 0,
-      'Multi-platform': 0
-    };
+    const coverage: Record<string, number> = {};
+    this.platforms.forEach(({ definition }) => {
+      coverage[definition.name] = 0;
+    });
+    coverage['Multi-platform'] = 0;
     
     players.forEach(player => {
       player.platforms.forEach(platform => {
@@ -388,65 +555,19 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
     return coverage;
   }
 
-  private async fetchFromESPN(): Promise<PlayerAdditionData[]> {
-    if (!this.espnClient) {
-      throw new PlatformAPIError('ESPN client not initialized', 'ESPN');
-    }
-    
-    try {
-      await this.espnClient.authenticate();
-      const players = await this.retryWithFallback(
-        () => this.espnClient!.getMostAddedPlayers(),
-        'ESPN'
-      );
-      return players || [];
-    } catch (error) {
-      console.error('ESPN fetch failed:', error);
-      throw new PlatformAPIError(
-        `ESPN data collection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'ESPN'
-      );
-    }
-  }
-
-  private async fetchFromYahoo(): Promise<PlayerAdditionData[]> {
-    if (!this.yahooClient) {
-      throw new PlatformAPIError('Yahoo client not initialized', 'Yahoo');
-    }
-    
+  private async fetchFromPlatform({ definition, client }: ActivePlatform): Promise<PlayerAdditionData[]> {
     try {
-      await this.yahooClient.authenticate();
+      await client.authenticate();
       const players = await this.retryWithFallback(
-        () => this.yahooClient!.getMostAddedPlayers(),
-        'Yahoo'
+        () => client.getMostAddedPlayers(),
+        definition.name
       );
       return players || [];
     } catch (error) {
-      console.error('Yahoo fetch failed:', error);
+      console.error(`${definition.name} fetch failed:`, error);
       throw new PlatformAPIError(
-        `Yahoo data collection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'Yahoo'
-      );
-    }
-  }
-
-  private async fetchFromSleeper(): Promise<PlayerAdditionData[]> {
-    if (!this.sleeperClient) {
-      throw new PlatformAPIError('Sleeper client not initialized', 'Sleeper');
-    }
-    
-    try {
-      await this.sleeperClient.authenticate();
-      const players = await this.retryWithFallback(
-        () => this.sleeperClient!.getMostAddedPlayers(),
-        'Sleeper'
-      );
-      return players || [];
-    } catch (error) {
-      console.error('Sleeper fetch failed:', error);
-      throw new PlatformAPIError(
-        `Sleeper data collection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'Sleeper'
+        `${definition.name} data collection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        definition.name
       );
     }
   }
@@ -464,7 +585,8 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
       return { platform, data, responseTime };
     } catch (error) {
       const responseTime = Date.now() - startTime;
-      throw { platform, error, responseTime };
+      const failure: PlatformFetchFailure = { platform, error, responseTime };
+      throw failure;
     }
   }
 
@@ -504,56 +626,66 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
     return players.map(player => ({
       ...player,
       name: PlayerDataTransformer.normalizePlayerName(player.name),
-      team: PlayerDataTransformer.normalizeTeamName(player.team),
-      position: this.normalizePosition(player.position)
+      team: this.normalizeTeam(player.platform, player.team),
+      position: this.normalizePosition(player.platform, player.position)
     }));
   }
 
-  private normalizePosition(position: string): string {
+  /**
+   * Apply the reporting platform's own position labels first, then the shared ones
+   */
+  private normalizePosition(platform: string, position: string): string {
     const positionMap: Record<string, string> = {
       'DEF': 'DST',
       'D/ST': 'DST',
-      'DEFENSE': 'DST'
+      'DEFENSE': 'DST',
+      ...IDP_POSITION_ALIASES
     };
     
-    const normalized = position.toUpperCase();
+    const normalized = FantasyPlatformRegistry.normalizePosition(this.platformRegistry.get(platform), position);
     return positionMap[normalized] || normalized;
   }
 
+  private normalizeTeam(platform: string, team: string): string {
+    return FantasyPlatformRegistry.normalizeTeam(
+      this.platformRegistry.get(platform),
+      PlayerDataTransformer.normalizeTeamName(team)
+    );
+  }
+
   private deduplicatePlayerData(players: PlayerAdditionData[]): PlayerAdditionData[] {
     const playerMap = new Map<string, PlayerAdditionData>();
     
     players.forEach(player => {
-      // Create a unique key based on normalized name and team
-      const key = `${player.name.toLowerCase()}_${player.team.toLowerCase()}_${player.position}`;
+      // Resolve the platform ID to the canonical player ID shared across platforms
+      const platformPlayerId = player.platformPlayerId || player.playerId;
+      const canonicalId = this.identityRegistry.resolve({
+        platform: player.platform,
+        platformId: platformPlayerId,
+        name: player.name,
+        team: player.team,
+        position: player.position
+      });
+      
+      // Keep one entry per platform so the summary can still report platform coverage
+      const key = `${canonicalId}_${player.platform}`;
       
       const existing = playerMap.get(key);
       if (existing) {
-        // Merge data from multiple platforms
+        // Merge duplicate entries reported by the same platform
         existing.additionCount += player.additionCount;
         // Keep the most recent timestamp
         if (player.timestamp > existing.timestamp) {
           existing.timestamp = player.timestamp;
         }
       } else {
-        playerMap.set(key, { ...player });
+        playerMap.set(key, { ...player, playerId: canonicalId, platformPlayerId });
       }
     });
     
     return Array.from(playerMap.values());
   }
 
-  private estimateTotalLeagues(players: PlayerAdditionData[]): number {
-    // Estimate total leagues based on the highest addition count
-    // This is a rough approximation since we don't have exact league counts
-    const maxAdditions = Math.max(...players.map(p => p.additionCount));
-    
-    // Assume the most added player represents about 10-20% of all leagues
-    const estimatedTotal = Math.max(1000, maxAdditions * 5); // Minimum 1000 leagues
-    
-    return estimatedTotal;
-  }
-
   private getCachedData(key: string): PlayerAdditionData[] | null {
     const cached = this.cache.get(key);
     if (!cached) {
@@ -574,7 +706,9 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
     return cached.data;
   }
 
-  private getStaleCache(key: string): PlayerAdditionData[] | null {
+  private async getStaleCache(key: string): Promise<PlayerAdditionData[] | null> {
+    // An expired entry may already be gone from memory, but the disk copy is kept
+    await this.loadPersistedCache(key);
     const cached = this.cache.get(key);
     if (!cached) {
       return null;
@@ -584,7 +718,7 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
     return cached.data;
   }
 
-  private setCachedData(key: string, data: PlayerAdditionData[]): void {
+  private async setCachedData(key: string, data: PlayerAdditionData[]): Promise<void> {
     // Check cache size limit
     if (this.cache.size >= this.config.caching.maxSize) {
       this.evictLeastRecentlyUsed();
@@ -599,6 +733,42 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
       expiresAt,
       accessCount: 1
     });
+
+    if (this.diskCache) {
+      try {
+        await this.diskCache.write(CACHE_NAMESPACE, key, {
+          data,
+          timestamp: now.getTime(),
+          expiresAt: expiresAt.getTime()
+        });
+      } catch (error) {
+        this.log('warn', `Failed to persist cache entry ${key}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
+  /**
+   * Bring a persisted entry back into memory when it isn't there, e.g. after a restart
+   */
+  private async loadPersistedCache(key: string): Promise<void> {
+    if (!this.diskCache || this.cache.has(key)) {
+      return;
+    }
+
+    try {
+      const stored = await this.diskCache.read<PlayerAdditionData[]>(CACHE_NAMESPACE, key);
+      if (stored) {
+        this.cache.set(key, {
+          data: stored.data.map(player => ({ ...player, timestamp: new Date(player.timestamp) })),
+          timestamp: new Date(stored.timestamp),
+          expiresAt: new Date(stored.expiresAt),
+          accessCount: 0
+        });
+        this.log('debug', `Loaded cache entry ${key} from disk`);
+      }
+    } catch (error) {
+      this.log('warn', `Failed to load cache entry ${key} from disk: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
   private evictLeastRecentlyUsed(): void {
@@ -701,6 +871,9 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
   // Public methods for monitoring and debugging
   public clearCache(): void {
     this.cache.clear();
+    this.diskCache?.clear(CACHE_NAMESPACE).catch(error => {
+      this.log('warn', `Failed to clear disk cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
     this.log('info', 'Data collection cache cleared');
   }
 
@@ -736,72 +909,91 @@ export class DataCollectionAgentImpl implements DataCollectionAgent {
   }
 
   public resetMetrics(): void {
-    this.metrics = {
-      totalRequests: 0,
-      successfulRequests: 0,
-      failedRequests: 0,
-      cacheHits: 0,
-      cacheMisses: 0,
-      averageResponseTime: 0,
-      platformStats: {
-        ESPN: { requests: 0, successes: 0, failures: 0, averageResponseTime: 0 },
-        Yahoo: { requests: 0, successes: 0, failures: 0, averageResponseTime: 0 },
-        Sleeper: { requests: 0, successes: 0, failures: 0, averageResponseTime: 0 }
-      }
-    };
+    this.metrics = this.createEmptyMetrics();
     this.log('info', 'Metrics reset');
   }
 
-  public async testPlatformConnections(): Promise<{
-    espn: boolean;
-    yahoo: boolean;
-    sleeper: boolean;
-  }> {
-    const results = {
-      espn: false,
-      yahoo: false,
-      sleeper: false
-    };
+  /**
+   * Names of the platforms data is collected from, in registration order
+   */
+  public getActivePlatforms(): string[] {
+    return this.platforms.map(platform => platform.definition.name);
+  }
+
+  /**
+   * Connection status keyed by each registered platform's configKey; platforms that are
+   * disabled or missing credentials report false
+   */
+  public async testPlatformConnections(): Promise<Record<string, boolean>> {
+    const results: Record<string, boolean> = {};
+    this.platformRegistry.list().forEach(definition => {
+      results[definition.configKey] = false;
+    });
 
-    // Test ESPN connection
-    if (this.espnClient) {
+    for (const { definition, client } of this.platforms) {
       try {
-        await this.espnClient.authenticate();
-        results.espn = this.espnClient.isAuthenticated() || false;
+        await client.authenticate();
+        results[definition.configKey] = client.isAuthenticated() || false;
       } catch (error) {
-        this.log('warn', 'ESPN connection test failed:', error);
-        results.espn = false;
+        this.log('warn', `${definition.name} connection test failed:`, error);
+        results[definition.configKey] = false;
       }
-    } else {
-      results.espn = false;
     }
 
-    // Test Yahoo connection
-    if (this.yahooClient) {
-      try {
-        await this.yahooClient.authenticate();
-        results.yahoo = this.yahooClient.isAuthenticated() || false;
-      } catch (error) {
-        this.log('warn', 'Yahoo connection test failed:', error);
-        results.yahoo = false;
+    return results;
+  }
+
+  private createPlatformClients(): ActivePlatform[] {
+    const platforms: ActivePlatform[] = [];
+
+    this.platformRegistry.list().forEach(definition => {
+      const settings = this.config.platforms[definition.configKey];
+      if (!settings?.enabled) {
+        return;
       }
-    } else {
-      results.yahoo = false;
-    }
 
-    // Test Sleeper connection
-    if (this.sleeperClient) {
-      try {
-        await this.sleeperClient.authenticate();
-        results.sleeper = this.sleeperClient.isAuthenticated() || false;
-      } catch (error) {
-        this.log('warn', 'Sleeper connection test failed:', error);
-        results.sleeper = false;
+      const missingAuth = FantasyPlatformRegistry.getMissingAuth(definition, settings.auth);
+      if (missingAuth.length > 0) {
+        this.log('warn', `Skipping ${definition.name}: missing ${missingAuth.join(', ')}`);
+        return;
       }
-    } else {
-      results.sleeper = false;
-    }
 
-    return results;
+      platforms.push({ definition, client: definition.createClient(settings.config, settings.auth) });
+    });
+
+    Object.keys(this.config.platforms)
+      .filter(configKey => !this.platformRegistry.list().some(definition => definition.configKey === configKey))
+      .forEach(configKey => this.log('warn', `No fantasy platform is registered for ${configKey}`));
+
+    return platforms;
+  }
+
+  private createEmptyMetrics(): DataCollectionMetrics {
+    const platformStats: DataCollectionMetrics['platformStats'] = {};
+    this.platformRegistry.getNames().forEach(name => {
+      platformStats[name] = { requests: 0, successes: 0, failures: 0, averageResponseTime: 0 };
+    });
+
+    return {
+      totalRequests: 0,
+      successfulRequests: 0,
+      failedRequests: 0,
+      cacheHits: 0,
+      cacheMisses: 0,
+      averageResponseTime: 0,
+      platformStats
+    };
+  }
+
+  private getAdditionSignalRules(): Record<string, AdditionSignalRules> {
+    const rules: Record<string, AdditionSignalRules> = {};
+    this.platformRegistry.list().forEach(definition => {
+      rules[definition.name] = definition.additionSignal;
+    });
+    return rules;
+  }
+
+  private getPlatformCount(): number {
+    return Math.max(this.platforms.length, 1);
   }
 }
\ No newline at end of file
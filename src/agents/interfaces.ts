@@ -2,31 +2,52 @@
 
 import { 
   PlayerAdditionData, 
+  PlayerDropData,
   PlayerSummary, 
   PlayerResearch, 
   PlayerAnalysis, 
+  DropAnalysis,
+  AnalysisContext,
   BlogPost, 
   PublicationResult,
   ExecutionResult,
   ExecutionStatus,
-  DataQualityIssue
+  DataQualityIssue,
+  PlayerSelectionPolicy,
+  PlayerSelectionResult,
+  StreamerRankings,
+  ConcurrencyConfig,
+  PlayerTiming
 } from '../models';
 
 export interface DataCollectionAgent {
   getMostAddedPlayers(): Promise<PlayerAdditionData[]>;
-  filterToTopTen(players: PlayerAdditionData[]): PlayerSummary[];
+  selectPlayers(
+    players: PlayerAdditionData[],
+    policy: PlayerSelectionPolicy,
+    recentlyFeatured?: string[]
+  ): PlayerSelectionResult;
+  getMostDroppedPlayers(): Promise<PlayerDropData[]>;
+  filterTopDropped(players: PlayerDropData[]): PlayerSummary[];
+}
+
+export interface ResearchOptions {
+  concurrency?: ConcurrencyConfig;
+  signal?: AbortSignal; // Aborting cancels the players still being researched
+  onPlayerTimed?: (timing: PlayerTiming) => void;
 }
 
 export interface ResearchAgent {
-  gatherPlayerResearch(players: PlayerSummary[]): Promise<PlayerResearch[]>;
+  gatherPlayerResearch(players: PlayerSummary[], options?: ResearchOptions): Promise<PlayerResearch[]>;
 }
 
 export interface AnalysisAgent {
-  analyzePlayer(research: PlayerResearch): Promise<PlayerAnalysis>;
+  analyzePlayer(research: PlayerResearch, context?: AnalysisContext): Promise<PlayerAnalysis>;
+  analyzeDropCandidate(research: PlayerResearch, context?: AnalysisContext): Promise<DropAnalysis>;
 }
 
 export interface WriterAgent {
-  createBlogPost(analyses: PlayerAnalysis[]): Promise<BlogPost>;
+  createBlogPost(analyses: PlayerAnalysis[], dropAnalyses?: DropAnalysis[], streamers?: StreamerRankings): Promise<BlogPost>;
 }
 
 export interface PublisherAgent {
@@ -3,6 +3,7 @@
 import { BlogPost, PublicationResult } from '../models/blog';
 import { BlogPlatformClient } from '../api/blog-platform/types';
 import { PublicationStatus } from './publisher-agent';
+import { TextSimilarity } from '../utils/text-similarity';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -210,11 +211,11 @@ export class PublicationValidator {
 
   private validateContent(original: BlogPost, published: BlogPost): boolean {
     // Basic content validation - can be enhanced based on platform specifics
-    const originalTitle = this.normalizeText(original.title);
-    const publishedTitle = this.normalizeText(published.title);
+    const originalTitle = TextSimilarity.normalize(original.title);
+    const publishedTitle = TextSimilarity.normalize(published.title);
     
-    const originalContent = this.normalizeText(this.stripHtml(original.content));
-    const publishedContent = this.normalizeText(this.stripHtml(published.content));
+    const originalContent = TextSimilarity.normalize(this.stripHtml(original.content));
+    const publishedContent = TextSimilarity.normalize(this.stripHtml(published.content));
 
     // Allow for minor differences due to platform formatting
     const titleMatch = this.fuzzyMatch(originalTitle, publishedTitle, 0.85);
@@ -232,21 +233,13 @@ export class PublicationValidator {
     const publishedCategories = new Set(published.metadata.categories.map(cat => cat.toLowerCase()));
 
     // Check if most tags and categories are preserved
-    const tagOverlap = this.setOverlap(originalTags, publishedTags);
-    const categoryOverlap = this.setOverlap(originalCategories, publishedCategories);
+    const tagOverlap = TextSimilarity.setOverlap(originalTags, publishedTags);
+    const categoryOverlap = TextSimilarity.setOverlap(originalCategories, publishedCategories);
 
     // Allow for some differences due to platform limitations
     return tagOverlap >= 0.7 && categoryOverlap >= 0.7;
   }
 
-  private normalizeText(text: string): string {
-    return text
-      .toLowerCase()
-      .replace(/\s+/g, ' ')
-      .replace(/[^\w\s]/g, '')
-      .trim();
-  }
-
   private stripHtml(html: string): string {
     return html.replace(/<[^>]*>/g, '').trim();
   }
@@ -256,50 +249,10 @@ export class PublicationValidator {
     if (str1.length === 0 && str2.length === 0) return true;
     if (str1.length === 0 || str2.length === 0) return false;
 
-    const similarity = this.calculateSimilarity(str1, str2);
+    const similarity = TextSimilarity.similarity(str1, str2);
     return similarity >= threshold;
   }
 
-  private calculateSimilarity(str1: string, str2: string): number {
-    const longer = str1.length > str2.length ? str1 : str2;
-    const shorter = str1.length > str2.length ? str2 : str1;
-    
-    if (longer.length === 0) return 1.0;
-    
-    const editDistance = this.levenshteinDistance(longer, shorter);
-    return (longer.length - editDistance) / longer.length;
-  }
-
-  private levenshteinDistance(str1: string, str2: string): number {
-    const matrix: number[][] = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(0));
-
-    for (let i = 0; i <= str1.length; i++) matrix[0]![i] = i;
-    for (let j = 0; j <= str2.length; j++) matrix[j]![0] = j;
-
-    for (let j = 1; j <= str2.length; j++) {
-      for (let i = 1; i <= str1.length; i++) {
-        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[j]![i] = Math.min(
-          matrix[j]![i - 1]! + 1,     // deletion
-          matrix[j - 1]![i]! + 1,     // insertion
-          matrix[j - 1]![i - 1]! + indicator // substitution
-        );
-      }
-    }
-
-    return matrix[str2.length]![str1.length]!;
-  }
-
-  private setOverlap(set1: Set<string>, set2: Set<string>): number {
-    if (set1.size === 0 && set2.size === 0) return 1.0;
-    if (set1.size === 0 || set2.size === 0) return 0.0;
-
-    const intersection = new Set([...set1].filter(x => set2.has(x)));
-    const union = new Set([...set1, ...set2]);
-    
-    return intersection.size / union.size;
-  }
-
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
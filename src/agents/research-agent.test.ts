@@ -4,6 +4,8 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ResearchAgent } from './research-agent';
 import { PlayerSummary, NewsArticle, PlayerStats, InjuryReport } from '../models/player';
 import { NewsServiceConfig } from '../models/config';
+import { PlayerTiming } from '../models/concurrency';
+import { PlayerIdentityRegistry } from '../services/player-identity-registry';
 
 // Mock the API clients
 vi.mock('../api/news-services/espn-news-client');
@@ -32,7 +34,8 @@ describe('ResearchAgent', () => {
       enabled: true
     };
 
-    researchAgent = new ResearchAgent(mockESPNConfig, mockSportsDataConfig);
+    // An in-memory registry, so tests don't write the real identity file
+    researchAgent = new ResearchAgent(mockESPNConfig, mockSportsDataConfig, new PlayerIdentityRegistry(null));
   });
 
   afterEach(() => {
@@ -96,6 +99,41 @@ describe('ResearchAgent', () => {
       expect(playerResearch).toHaveProperty('recentPerformance');
     });
 
+    it('should research players concurrently and report each player\'s timing', async () => {
+      const timings: PlayerTiming[] = [];
+      let running = 0;
+      let peak = 0;
+      vi.spyOn(researchAgent as any, 'researchSinglePlayer').mockImplementation(async (player: any) => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, player.playerId === '1' ? 500 : 20));
+        running--;
+        return { player, news: [], stats: {}, injuryStatus: {}, upcomingMatchups: [], recentPerformance: {} };
+      });
+
+      const research = await researchAgent.gatherPlayerResearch(mockPlayers, {
+        concurrency: { maxConcurrentPlayers: 2, playerTimeoutMs: 100 },
+        onPlayerTimed: timing => timings.push(timing)
+      });
+
+      expect(peak).toBe(2);
+      expect(research.map(playerResearch => playerResearch.player.name)).toEqual(['Josh Allen', 'Christian McCaffrey']);
+      expect(research[0]?.news).toEqual([]);
+      expect(research[0]?.recentPerformance.trend).toBe('stable');
+      expect(timings.map(timing => [timing.name, timing.stage, timing.status])).toEqual([
+        ['Josh Allen', 'research', 'timed_out'],
+        ['Christian McCaffrey', 'research', 'completed']
+      ]);
+    });
+
+    it('should stop researching when cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(researchAgent.gatherPlayerResearch(mockPlayers, { signal: controller.signal }))
+        .rejects.toThrow('Research cancelled');
+    });
+
     it('should handle API failures gracefully', async () => {
       // Mock API failure
       const mockESPNClient = await import('../api/news-services/espn-news-client');
@@ -239,11 +277,30 @@ describe('ResearchAgent', () => {
       impactLevel: 'medium'
     };
 
+    let sportsDataId: ReturnType<typeof vi.spyOn>;
+
     beforeEach(async () => {
       await researchAgent.initialize();
       
-      const mockSportsDataClient = await import('../api/news-services/sports-data-client');
-      vi.spyOn(mockSportsDataClient.SportsDataClient.prototype, 'getPlayerInjuryStatus').mockResolvedValue(mockInjuryReport);
+      vi.spyOn(researchAgent['sportsDataClient'], 'getPlayerInjuryStatus').mockResolvedValue(mockInjuryReport);
+      // With stats in hand the research completes instead of falling back as a whole
+      vi.spyOn(researchAgent['sportsDataClient'], 'getPlayerStats').mockResolvedValue({
+        season: 2024,
+        week: 6,
+        fantasyPoints: 22.1,
+        projectedPoints: 20.5,
+        usage: { snapCount: 70 },
+        efficiency: { yardsPerTarget: 7.5 }
+      });
+      // The injury report is looked up by SportsData ID
+      sportsDataId = vi.spyOn(researchAgent['identityRegistry'], 'getPlatformId').mockReturnValue('sd-1');
+      // Friday of 2024 week 7, which opened Tuesday 10/15
+      researchAgent['seasonCalendar'].setReferenceDate(new Date('2024-10-18T12:00:00Z'));
+    });
+
+    afterEach(() => {
+      sportsDataId.mockRestore();
+      researchAgent['seasonCalendar'].setReferenceDate();
     });
 
     it('should gather injury status', async () => {
@@ -263,8 +320,7 @@ describe('ResearchAgent', () => {
     });
 
     it('should default to healthy when no injury found', async () => {
-      const mockSportsDataClient = await import('../api/news-services/sports-data-client');
-      vi.spyOn(mockSportsDataClient.SportsDataClient.prototype, 'getPlayerInjuryStatus').mockResolvedValue(null);
+      vi.spyOn(researchAgent['sportsDataClient'], 'getPlayerInjuryStatus').mockResolvedValue(null);
 
       const research = await researchAgent.gatherPlayerResearch([{
         playerId: '1',
@@ -280,6 +336,93 @@ describe('ResearchAgent', () => {
       expect(injury?.status).toBe('healthy');
       expect(injury?.impactLevel).toBe('low');
     });
+
+    it('should mark the status unknown rather than healthy when the lookup fails', async () => {
+      vi.spyOn(researchAgent['sportsDataClient'], 'getPlayerInjuryStatus').mockRejectedValue(new Error('Service unavailable'));
+
+      const research = await researchAgent.gatherPlayerResearch([{
+        playerId: '1',
+        name: 'Josh Allen',
+        position: 'QB',
+        team: 'BUF',
+        additionCount: 100,
+        additionPercentage: 15.5,
+        platforms: ['ESPN']
+      }]);
+
+      expect(research[0]?.injuryStatus.status).toBe('unknown');
+    });
+
+    it('should attach this week\'s practice trajectory from the injury report and news', async () => {
+      vi.spyOn(researchAgent['sportsDataClient'], 'getInjuryReports').mockResolvedValue([{
+        ...mockInjuryReport,
+        practice: 'limited',
+        playerId: 'sd-1',
+        name: 'Josh Allen',
+        team: 'BUF',
+        position: 'QB',
+        updatedAt: new Date('2024-10-17T20:00:00Z')
+      }]);
+      vi.spyOn(researchAgent as any, 'gatherPlayerNews').mockResolvedValue([{
+        title: 'Josh Allen did not practice Wednesday',
+        source: 'ESPN',
+        publishDate: new Date('2024-10-16T20:00:00Z'),
+        summary: 'Allen sat out with a shoulder injury.',
+        url: 'https://example.com/allen-dnp',
+        sentiment: 'negative'
+      }]);
+
+      const research = await researchAgent.gatherPlayerResearch([{
+        playerId: '1',
+        name: 'Josh Allen',
+        position: 'QB',
+        team: 'BUF',
+        additionCount: 100,
+        additionPercentage: 15.5,
+        platforms: ['ESPN']
+      }]);
+
+      expect(research[0]?.injuryTimeline).toMatchObject({
+        trend: 'improving',
+        summary: 'DNP Wednesday, upgraded to limited Thursday, listed questionable Thursday'
+      });
+    });
+
+    it('should leave injury news from before this week out of the timeline', async () => {
+      vi.spyOn(researchAgent['sportsDataClient'], 'getInjuryReports').mockResolvedValue([{
+        ...mockInjuryReport,
+        practice: 'limited',
+        playerId: 'sd-1',
+        name: 'Josh Allen',
+        team: 'BUF',
+        position: 'QB',
+        updatedAt: new Date('2024-10-17T20:00:00Z')
+      }]);
+      vi.spyOn(researchAgent as any, 'gatherPlayerNews').mockResolvedValue([{
+        title: 'Josh Allen did not practice Wednesday',
+        source: 'ESPN',
+        publishDate: new Date('2024-10-09T20:00:00Z'),
+        summary: 'Allen sat out with a shoulder injury.',
+        url: 'https://example.com/allen-dnp-week-6',
+        sentiment: 'negative'
+      }]);
+
+      const research = await researchAgent.gatherPlayerResearch([{
+        playerId: '1',
+        name: 'Josh Allen',
+        position: 'QB',
+        team: 'BUF',
+        additionCount: 100,
+        additionPercentage: 15.5,
+        platforms: ['ESPN']
+      }]);
+
+      expect(research[0]?.injuryTimeline).toMatchObject({
+        trend: 'steady',
+        summary: 'limited Thursday, listed questionable Thursday'
+      });
+      expect(research[0]?.injuryTimeline?.entries).toHaveLength(1);
+    });
   });
 
   describe('research data validation', () => {
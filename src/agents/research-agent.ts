@@ -1,36 +1,89 @@
 // Research Agent implementation for gathering player news, stats, and analysis data
 
-import { BaseAgent, ResearchAgent as IResearchAgent } from './interfaces';
+import { BaseAgent, ResearchAgent as IResearchAgent, ResearchOptions } from './interfaces';
 import { 
   PlayerSummary, 
   PlayerResearch, 
   NewsArticle, 
   PlayerStats, 
   InjuryReport, 
-  Matchup, 
+  PlayerInjuryReport,
   PerformanceMetrics 
 } from '../models/player';
 import { ESPNNewsClient } from '../api/news-services/espn-news-client';
 import { SportsDataClient } from '../api/news-services/sports-data-client';
+import { FeedNewsClient } from '../api/news-services/feed-news-client';
 import { SentimentAnalyzer } from '../api/news-services/sentiment-analyzer';
 import { NewsServiceConfig } from '../models/config';
 import { NewsAndAnalysisValidator } from '../models/player';
+import { PlayerIdentityRegistry, getPlayerIdentityRegistry } from '../services/player-identity-registry';
+import { SeasonCalendar, getSeasonCalendar } from '../models/season';
+import { DEFAULT_CONCURRENCY_CONFIG } from '../models/concurrency';
+import { DEFAULT_MATCHUP_CONFIG, MatchupConfig } from '../models/matchup';
+import { DEFAULT_OPPORTUNITY_CONFIG, OpportunityConfig } from '../models/opportunity';
+import { StarterInjury } from '../models/starter-injury';
+import { DEFAULT_NEWS_FEED_CONFIG, NewsFeedConfig } from '../models/news-feed';
+import { InjuryTimeline, InjuryTimelineEntry, InjuryTimelineUtils } from '../models/injury-timeline';
+import { WorkerPool } from '../utils/worker-pool';
+import { NewsClusterer } from '../utils/news-clustering';
+import { MatchupService, ScheduleOutlook } from '../services/matchup-service';
+import { OpportunityService } from '../services/opportunity-service';
+import { SportsDataOpportunityProvider } from '../services/opportunity-providers';
+import { StarterInjuryDetector } from '../services/starter-injury-detector';
+import { InjuryHistoryService } from '../services/injury-history-service';
+
+// Requests one player's research makes against each API, reserved before the player starts:
+// ESPN news once; SportsData stats, injury status and three weeks of stats. The schedule and
+// defensive game logs behind matchups, the weekly stats behind team shares and the injury
+// report behind starter injuries and injury timelines are loaded once per run and shared.
+// News feeds are also read once per run, by whichever player needs them first, so each player
+// reserves one feed request rather than one per feed.
+const ESPN_REQUESTS_PER_PLAYER = 1;
+const SPORTS_DATA_REQUESTS_PER_PLAYER = 5;
+const FEED_REQUESTS_PER_PLAYER = 1;
 
 export class ResearchAgent implements BaseAgent, IResearchAgent {
   public readonly name = 'ResearchAgent';
   
   private espnNewsClient: ESPNNewsClient;
   private sportsDataClient: SportsDataClient;
+  private feedNewsClient: FeedNewsClient | null;
   private sentimentAnalyzer: SentimentAnalyzer;
+  private matchupService: MatchupService;
+  private opportunityService: OpportunityService;
+  private starterInjuryDetector: StarterInjuryDetector;
+  private injuryHistory: InjuryHistoryService | null;
+  private identityRegistry: PlayerIdentityRegistry;
+  private seasonCalendar: SeasonCalendar;
+  private sportsDataLinking: Promise<void> | null = null;
   private initialized = false;
 
   constructor(
     espnConfig: NewsServiceConfig,
-    sportsDataConfig: NewsServiceConfig
+    sportsDataConfig: NewsServiceConfig,
+    identityRegistry: PlayerIdentityRegistry = getPlayerIdentityRegistry(),
+    seasonCalendar: SeasonCalendar = getSeasonCalendar(),
+    matchupConfig: MatchupConfig = DEFAULT_MATCHUP_CONFIG,
+    opportunityConfig: OpportunityConfig = DEFAULT_OPPORTUNITY_CONFIG,
+    newsFeedConfig: NewsFeedConfig = DEFAULT_NEWS_FEED_CONFIG,
+    injuryHistory: InjuryHistoryService | null = null
   ) {
     this.espnNewsClient = new ESPNNewsClient(espnConfig);
     this.sportsDataClient = new SportsDataClient(sportsDataConfig);
+    this.feedNewsClient = newsFeedConfig.enabled && newsFeedConfig.sources.length > 0
+      ? new FeedNewsClient(newsFeedConfig)
+      : null;
+    this.matchupService = new MatchupService(this.sportsDataClient, matchupConfig, seasonCalendar);
+    this.opportunityService = new OpportunityService(
+      new SportsDataOpportunityProvider(this.sportsDataClient, identityRegistry, seasonCalendar),
+      opportunityConfig,
+      seasonCalendar
+    );
+    this.starterInjuryDetector = new StarterInjuryDetector(this.sportsDataClient, identityRegistry, seasonCalendar);
     this.sentimentAnalyzer = new SentimentAnalyzer();
+    this.injuryHistory = injuryHistory;
+    this.identityRegistry = identityRegistry;
+    this.seasonCalendar = seasonCalendar;
   }
 
   public async initialize(): Promise<void> {
@@ -77,45 +130,144 @@ export class ResearchAgent implements BaseAgent, IResearchAgent {
     // Clear caches and cleanup resources
     this.espnNewsClient.clearCache();
     this.sportsDataClient.clearCache();
+    this.feedNewsClient?.clearCache();
     console.log('Research Agent cleanup completed');
   }
 
-  public async gatherPlayerResearch(players: PlayerSummary[]): Promise<PlayerResearch[]> {
-    console.log(`Starting research for ${players.length} players...`);
+  /**
+   * Research players concurrently within the news and stats APIs' rate limits. A player that
+   * fails or times out gets fallback research rather than failing the run.
+   */
+  public async gatherPlayerResearch(players: PlayerSummary[], options: ResearchOptions = {}): Promise<PlayerResearch[]> {
+    const { maxConcurrentPlayers, playerTimeoutMs } = options.concurrency || DEFAULT_CONCURRENCY_CONFIG;
+    console.log(`Starting research for ${players.length} players (${maxConcurrentPlayers} at a time)...`);
+    const startTime = Date.now();
     
-    const research: PlayerResearch[] = [];
+    await this.identityRegistry.load();
+    this.sportsDataLinking = null;
+    this.feedNewsClient?.refresh();
     
-    for (const player of players) {
-      try {
+    const pool = new WorkerPool<PlayerSummary, PlayerResearch>({
+      concurrency: maxConcurrentPlayers,
+      taskTimeoutMs: playerTimeoutMs,
+      ...(options.signal && { signal: options.signal }),
+      rateLimits: [
+        { client: this.espnNewsClient, requestsPerTask: ESPN_REQUESTS_PER_PLAYER },
+        { client: this.sportsDataClient, requestsPerTask: SPORTS_DATA_REQUESTS_PER_PLAYER },
+        ...(this.feedNewsClient ? [{ client: this.feedNewsClient, requestsPerTask: FEED_REQUESTS_PER_PLAYER }] : [])
+      ]
+    });
+    // Team shares and teammates' injuries come from league-wide data, so they're loaded once beside the pool
+    const [results, opportunities, starterInjuries] = await Promise.all([
+      pool.run(players, async (player, signal) => {
         console.log(`Researching player: ${player.name} (${player.position}, ${player.team})`);
-        
-        const playerResearch = await this.researchSinglePlayer(player);
-        research.push(playerResearch);
-        
-        // Add small delay to respect rate limits
-        await this.delay(100);
-      } catch (error) {
-        console.error(`Failed to research player ${player.name}:`, error);
-        
-        // Create minimal research object for failed players
-        const fallbackResearch: PlayerResearch = {
-          player,
-          news: [],
-          stats: this.createFallbackStats(),
-          injuryStatus: { status: 'healthy', impactLevel: 'low' },
-          upcomingMatchups: [],
-          recentPerformance: this.createFallbackPerformance()
-        };
-        
-        research.push(fallbackResearch);
-      }
+        return await this.researchSinglePlayer(player, signal);
+      }),
+      this.opportunityService.getOpportunities(players),
+      this.detectStarterInjuries(players)
+    ]);
+
+    if (options.signal?.aborted) {
+      throw new Error('Research cancelled');
     }
     
-    console.log(`Research completed for ${research.length} players`);
+    const researched = results.map((result, index) => {
+      const player = players[index]!;
+      const teamContext = {
+        ...(opportunities.has(player.playerId) && { opportunity: opportunities.get(player.playerId)! }),
+        ...(starterInjuries.has(player.playerId) && { starterInjury: starterInjuries.get(player.playerId)! })
+      };
+      options.onPlayerTimed?.({
+        playerId: player.playerId,
+        name: player.name,
+        stage: 'research',
+        status: result.status,
+        durationMs: result.durationMs
+      });
+
+      if (result.status === 'completed') {
+        console.log(`Researched ${player.name} in ${result.durationMs}ms`);
+        return { ...result.value!, ...teamContext };
+      }
+
+      if (result.status === 'timed_out') {
+        console.warn(`Research for ${player.name} timed out after ${result.durationMs}ms, using fallback data`);
+      } else {
+        console.error(`Failed to research player ${player.name}:`, result.error);
+      }
+      return { ...this.createFallbackResearch(player), ...teamContext };
+    });
+    const research = await this.trackInjuryTimelines(researched);
+    
+    await this.identityRegistry.save();
+    
+    console.log(`Research completed for ${research.length} players in ${Date.now() - startTime}ms`);
     return research;
   }
 
-  private async researchSinglePlayer(player: PlayerSummary): Promise<PlayerResearch> {
+  /**
+   * Injured starters ahead of each player; a failed lookup just leaves the alerts out
+   */
+  private async detectStarterInjuries(players: PlayerSummary[]): Promise<Map<string, StarterInjury>> {
+    try {
+      return await this.starterInjuryDetector.detect(players);
+    } catch (error) {
+      console.error('Failed to check for injured starters:', error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Add each player's injury report entry and injury news to the week's history and attach the
+   * resulting timelines. Without a history store only this run's observations count.
+   */
+  private async trackInjuryTimelines(research: PlayerResearch[]): Promise<PlayerResearch[]> {
+    let reports: PlayerInjuryReport[] = [];
+    try {
+      reports = await this.sportsDataClient.getInjuryReports() || [];
+    } catch (error) {
+      console.warn('Failed to load the injury report for injury timelines:', error);
+    }
+    const reportsById = new Map(reports.map(report => [report.playerId, report]));
+
+    const season = this.seasonCalendar.getCurrentSeason();
+    const week = this.seasonCalendar.getLookupWeek();
+    // News reaches back further than the week; last week's practice reports belong to last week's timeline
+    const weekStart = this.seasonCalendar.getWeekWindow(season, week).start;
+
+    const observations = new Map<string, InjuryTimelineEntry[]>();
+    research.forEach(playerResearch => {
+      const { player } = playerResearch;
+      const entries = playerResearch.news
+        .map(article => InjuryTimelineUtils.fromArticle(article, player.name))
+        .filter((entry): entry is InjuryTimelineEntry => entry !== null && entry.recordedAt >= weekStart);
+
+      const sportsDataId = this.identityRegistry.getPlatformId(player.playerId, 'SportsData');
+      const report = sportsDataId ? reportsById.get(sportsDataId) : undefined;
+      if (report) {
+        entries.push(InjuryTimelineUtils.fromReport(report, report.updatedAt || new Date(), 'SportsData'));
+      }
+      observations.set(player.playerId, entries);
+    });
+
+    let timelines = new Map<string, InjuryTimeline>();
+    try {
+      timelines = this.injuryHistory
+        ? await this.injuryHistory.recordObservations(season, week, observations)
+        : new Map(Array.from(observations)
+          .filter(([, entries]) => entries.length > 0)
+          .map(([playerId, entries]) => [playerId, InjuryTimelineUtils.buildTimeline(entries)]));
+    } catch (error) {
+      console.error('Failed to record injury history:', error);
+    }
+
+    return research.map(playerResearch => {
+      const injuryTimeline = timelines.get(playerResearch.player.playerId);
+      return injuryTimeline ? { ...playerResearch, injuryTimeline } : playerResearch;
+    });
+  }
+
+  private async researchSinglePlayer(player: PlayerSummary, signal?: AbortSignal): Promise<PlayerResearch> {
     // Gather all research data in parallel where possible
     const [news, stats, injuryStatus, upcomingMatchups] = await Promise.allSettled([
       this.gatherPlayerNews(player),
@@ -127,8 +279,13 @@ export class ResearchAgent implements BaseAgent, IResearchAgent {
     // Extract successful results or use fallbacks
     const playerNews = news.status === 'fulfilled' ? news.value : [];
     const playerStats = stats.status === 'fulfilled' ? stats.value : this.createFallbackStats();
-    const playerInjury = injuryStatus.status === 'fulfilled' ? injuryStatus.value : { status: 'healthy' as const, impactLevel: 'low' as const };
-    const playerMatchups = upcomingMatchups.status === 'fulfilled' ? upcomingMatchups.value : [];
+    const playerInjury = injuryStatus.status === 'fulfilled' ? injuryStatus.value : { status: 'unknown' as const, impactLevel: 'low' as const };
+    const outlook = upcomingMatchups.status === 'fulfilled' ? upcomingMatchups.value : { matchups: [], playoffMatchups: [] };
+
+    // Skip the weekly stat lookups for a player that has already timed out
+    if (signal?.aborted) {
+      throw new Error(`Research for ${player.name} was abandoned`);
+    }
 
     // Generate recent performance metrics
     const recentPerformance = await this.gatherRecentPerformance(player, playerStats);
@@ -138,7 +295,8 @@ export class ResearchAgent implements BaseAgent, IResearchAgent {
       news: playerNews,
       stats: playerStats,
       injuryStatus: playerInjury,
-      upcomingMatchups: playerMatchups,
+      upcomingMatchups: outlook.matchups,
+      ...(outlook.strengthOfSchedule && { strengthOfSchedule: outlook.strengthOfSchedule }),
       recentPerformance
     };
 
@@ -156,25 +314,34 @@ export class ResearchAgent implements BaseAgent, IResearchAgent {
     try {
       console.log(`Gathering news for ${player.name}...`);
       
-      // Get news from ESPN
-      const espnNews = await this.espnNewsClient.getPlayerNews(player.playerId, player.name);
+      // Get news from ESPN, by athlete ID when the registry knows it, alongside the configured feeds
+      const espnId = this.identityRegistry.getPlatformId(player.playerId, 'ESPN');
+      const [espnNews, feedNews] = await Promise.all([
+        espnId
+          ? this.espnNewsClient.getPlayerNews(espnId, player.name)
+          : this.espnNewsClient.searchNews(player.name, 10),
+        this.gatherFeedNews(player)
+      ]);
       
       // Filter for recent and relevant news (last 14 days)
-      const recentNews = this.filterRecentNews(espnNews, 14);
+      const recentNews = this.filterRecentNews((Array.isArray(espnNews) ? espnNews : []).concat(feedNews), 14);
       
       // Apply sentiment analysis
       const newsWithSentiment = await this.applySentimentAnalysis(recentNews);
       
-      // Filter for fantasy-relevant news
-      const relevantNews = this.filterRelevantNews(newsWithSentiment, player);
+      // Filter for fantasy-relevant news; feed articles were already matched to the player
+      const relevantNews = this.filterRelevantNews(newsWithSentiment, player, new Set(feedNews.map(article => article.url)));
+      
+      // One story per event, however many outlets ran it, so it isn't weighed several times
+      const stories = NewsClusterer.cluster(relevantNews);
       
       // Sort by relevance and date
-      const sortedNews = this.sortNewsByRelevance(relevantNews);
+      const sortedNews = this.sortNewsByRelevance(stories);
       
-      // Limit to top 10 most relevant articles
+      // Limit to top 10 most relevant stories
       const topNews = sortedNews.slice(0, 10);
       
-      console.log(`Found ${topNews.length} relevant news articles for ${player.name}`);
+      console.log(`Found ${topNews.length} relevant news stories for ${player.name}`);
       return topNews;
     } catch (error) {
       console.error(`Failed to gather news for ${player.name}:`, error);
@@ -182,6 +349,23 @@ export class ResearchAgent implements BaseAgent, IResearchAgent {
     }
   }
 
+  /**
+   * Articles about the player from the RSS/Atom feeds, each credited to its feed. A feed that
+   * can't be read leaves the player with their ESPN news.
+   */
+  private async gatherFeedNews(player: PlayerSummary): Promise<NewsArticle[]> {
+    if (!this.feedNewsClient) {
+      return [];
+    }
+
+    try {
+      return await this.feedNewsClient.getArticlesForPlayer(player);
+    } catch (error) {
+      console.warn(`Failed to gather feed news for ${player.name}:`, error);
+      return [];
+    }
+  }
+
   private filterRecentNews(articles: NewsArticle[], daysBack: number): NewsArticle[] {
     if (!Array.isArray(articles)) {
       return [];
@@ -203,11 +387,15 @@ export class ResearchAgent implements BaseAgent, IResearchAgent {
     });
   }
 
-  private filterRelevantNews(articles: NewsArticle[], player: PlayerSummary): NewsArticle[] {
+  private filterRelevantNews(articles: NewsArticle[], player: PlayerSummary, matchedUrls: Set<string> = new Set()): NewsArticle[] {
     const playerNameLower = player.name.toLowerCase();
     const teamLower = player.team.toLowerCase();
     
     return articles.filter(article => {
+      if (matchedUrls.has(article.url)) {
+        return true;
+      }
+      
       const titleLower = article.title.toLowerCase();
       const summaryLower = article.summary.toLowerCase();
       
@@ -251,9 +439,15 @@ export class ResearchAgent implements BaseAgent, IResearchAgent {
     try {
       console.log(`Gathering stats for ${player.name}...`);
       
+      const sportsDataId = await this.resolveSportsDataId(player);
+      if (!sportsDataId) {
+        console.warn(`No SportsData ID known for ${player.name}, using fallback stats`);
+        return this.createFallbackStats();
+      }
+      
       // Get current season stats
-      const currentSeason = new Date().getFullYear();
-      const stats = await this.sportsDataClient.getPlayerStats(player.playerId, currentSeason);
+      const currentSeason = this.seasonCalendar.getCurrentSeason();
+      const stats = await this.sportsDataClient.getPlayerStats(sportsDataId, currentSeason);
       
       console.log(`Retrieved stats for ${player.name}`);
       return stats;
@@ -267,14 +461,23 @@ export class ResearchAgent implements BaseAgent, IResearchAgent {
     try {
       console.log(`Checking injury status for ${player.name}...`);
       
-      const injuryStatus = await this.sportsDataClient.getPlayerInjuryStatus(player.playerId);
+      const sportsDataId = await this.resolveSportsDataId(player);
+      if (!sportsDataId) {
+        // Without a SportsData ID the report can't be checked, which says nothing about their health
+        return {
+          status: 'unknown',
+          impactLevel: 'low'
+        };
+      }
+
+      const injuryStatus = await this.sportsDataClient.getPlayerInjuryStatus(sportsDataId);
       
       if (injuryStatus) {
         console.log(`Found injury report for ${player.name}: ${injuryStatus.status}`);
         return injuryStatus;
       }
       
-      // No injury found, player is healthy
+      // Not on the injury report, player is healthy
       return {
         status: 'healthy',
         impactLevel: 'low'
@@ -282,38 +485,23 @@ export class ResearchAgent implements BaseAgent, IResearchAgent {
     } catch (error) {
       console.error(`Failed to check injury status for ${player.name}:`, error);
       return {
-        status: 'healthy',
+        status: 'unknown',
         impactLevel: 'low'
       };
     }
   }
 
-  private async gatherUpcomingMatchups(player: PlayerSummary): Promise<Matchup[]> {
+  private async gatherUpcomingMatchups(player: PlayerSummary): Promise<ScheduleOutlook> {
     try {
       console.log(`Gathering upcoming matchups for ${player.name}...`);
       
-      // Get next 3 weeks of schedule
-      const matchups: Matchup[] = [];
-      const currentWeek = this.getCurrentNFLWeek();
-      
-      for (let week = currentWeek; week <= currentWeek + 2 && week <= 18; week++) {
-        try {
-          const schedule = await this.sportsDataClient.getSchedule(week);
-          const teamMatchup = this.findTeamMatchup(schedule, player.team, week);
-          
-          if (teamMatchup) {
-            matchups.push(teamMatchup);
-          }
-        } catch (error) {
-          console.warn(`Failed to get schedule for week ${week}:`, error);
-        }
-      }
+      const outlook = await this.matchupService.getScheduleOutlook(player.team, player.position, this.getCurrentNFLWeek());
       
-      console.log(`Found ${matchups.length} upcoming matchups for ${player.name}`);
-      return matchups;
+      console.log(`Found ${outlook.matchups.length} upcoming matchups for ${player.name}`);
+      return outlook;
     } catch (error) {
       console.error(`Failed to gather matchups for ${player.name}:`, error);
-      return [];
+      return { matchups: [], playoffMatchups: [] };
     }
   }
 
@@ -323,13 +511,14 @@ export class ResearchAgent implements BaseAgent, IResearchAgent {
       
       const currentWeek = this.getCurrentNFLWeek();
       const lastThreeWeeks: PlayerStats[] = [];
+      const sportsDataId = await this.resolveSportsDataId(player);
       
       // Get stats for last 3 weeks
-      for (let week = Math.max(1, currentWeek - 2); week <= currentWeek; week++) {
+      for (let week = Math.max(1, currentWeek - 2); sportsDataId && week <= currentWeek; week++) {
         try {
           const weekStats = await this.sportsDataClient.getPlayerStats(
-            player.playerId, 
-            currentStats?.season || new Date().getFullYear(), 
+            sportsDataId, 
+            currentStats?.season || this.seasonCalendar.getCurrentSeason(), 
             week
           );
           lastThreeWeeks.push(weekStats);
@@ -383,62 +572,52 @@ export class ResearchAgent implements BaseAgent, IResearchAgent {
     }
   }
 
-  private findTeamMatchup(schedule: any[], team: string, _week: number): Matchup | null {
-    try {
-      if (!Array.isArray(schedule)) {
-        return null;
-      }
-      
-      const game = schedule.find(game => 
-        game.HomeTeam === team || game.AwayTeam === team
-      );
-      
-      if (!game) {
-        return null;
-      }
-      
-      const isHome = game.HomeTeam === team;
-      const opponent = isHome ? game.AwayTeam : game.HomeTeam;
-      
-      return {
-        opponent,
-        isHome,
-        gameDate: new Date(game.DateTime || game.Date),
-        difficulty: this.assessMatchupDifficulty(opponent, team)
-      };
-    } catch (error) {
-      console.warn(`Failed to parse matchup data for ${team}:`, error);
-      return null;
+  /**
+   * Look up the SportsData player ID for a canonical player, learning the
+   * SportsData roster into the identity registry on first use
+   */
+  private async resolveSportsDataId(player: PlayerSummary): Promise<string | undefined> {
+    const known = this.identityRegistry.getPlatformId(player.playerId, 'SportsData');
+    if (known) {
+      return known;
     }
+
+    // Players researched at the same time share one roster load
+    if (!this.sportsDataLinking) {
+      this.sportsDataLinking = this.linkSportsDataPlayers();
+    }
+    await this.sportsDataLinking;
+
+    return this.identityRegistry.getPlatformId(player.playerId, 'SportsData');
   }
 
-  private assessMatchupDifficulty(opponent: string, _team: string): Matchup['difficulty'] {
-    // This is a simplified difficulty assessment
-    // In a real implementation, you'd use defensive rankings, etc.
-    const toughDefenses = ['SF', 'BAL', 'BUF', 'DAL', 'PIT'];
-    const easyDefenses = ['DET', 'LV', 'ARI', 'CAR', 'WAS'];
-    
-    if (toughDefenses.includes(opponent)) {
-      return 'hard';
-    } else if (easyDefenses.includes(opponent)) {
-      return 'easy';
-    } else {
-      return 'medium';
+  private async linkSportsDataPlayers(): Promise<void> {
+    try {
+      const sportsDataPlayers = await this.sportsDataClient.getAllPlayers();
+      const linked = this.identityRegistry.linkPlatformPlayers(
+        (sportsDataPlayers || []).map(sdPlayer => ({
+          platform: 'SportsData',
+          platformId: String(sdPlayer.PlayerID),
+          name: sdPlayer.Name,
+          team: sdPlayer.Team,
+          position: sdPlayer.FantasyPosition || sdPlayer.Position
+        }))
+      );
+      console.log(`Linked ${linked} SportsData players to known identities`);
+    } catch (error) {
+      console.warn('Failed to load SportsData players for identity matching:', error);
     }
   }
 
   private getCurrentNFLWeek(): number {
-    // Simplified week calculation - in reality you'd use NFL schedule data
-    const now = new Date();
-    const seasonStart = new Date(now.getFullYear(), 8, 1); // September 1st
-    const weeksSinceStart = Math.floor((now.getTime() - seasonStart.getTime()) / (7 * 24 * 60 * 60 * 1000));
-    return Math.max(1, Math.min(18, weeksSinceStart + 1));
+    // Clamped so offseason runs still look up real regular-season weeks
+    return this.seasonCalendar.getLookupWeek();
   }
 
   // Utility methods for fallback data
   private createFallbackStats(): PlayerStats {
     return {
-      season: new Date().getFullYear(),
+      season: this.seasonCalendar.getCurrentSeason(),
       week: this.getCurrentNFLWeek(),
       fantasyPoints: 0,
       projectedPoints: 0,
@@ -461,16 +640,12 @@ export class ResearchAgent implements BaseAgent, IResearchAgent {
       player,
       news: [],
       stats: this.createFallbackStats(),
-      injuryStatus: { status: 'healthy', impactLevel: 'low' },
+      injuryStatus: { status: 'unknown', impactLevel: 'low' },
       upcomingMatchups: [],
       recentPerformance: this.createFallbackPerformance()
     };
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   // Public methods for testing and monitoring
   public getClientStatus() {
     return {
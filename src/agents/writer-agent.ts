@@ -3,16 +3,39 @@
 import { BaseAgent, WriterAgent as IWriterAgent } from './interfaces';
 import { 
   PlayerAnalysis, 
+  DropAnalysis,
+  AdditionTrend,
   BlogPost, 
-  BlogMetadata
+  BlogMetadata,
+  LeagueBid,
+  DynastyAssessment,
+  StreamerPosition,
+  StreamerRankings,
+  STREAMER_POSITIONS
 } from '../models';
 import { BlogValidator, BlogTransformer } from '../models/blog';
+import { SeasonCalendar, getSeasonCalendar } from '../models/season';
+import { IDPUtils } from '../models/idp';
+import { StarterInjuryUtils } from '../models/starter-injury';
+import { InjuryTimelineUtils } from '../models/injury-timeline';
+
+// Streak lengths as written in the post; longer streaks fall back to "11th"
+const ORDINAL_WORDS = ['First', 'Second', 'Third', 'Fourth', 'Fifth', 'Sixth', 'Seventh', 'Eighth', 'Ninth', 'Tenth'];
+
+const STREAMER_HEADINGS: Record<StreamerPosition, string> = {
+  QB: 'Quarterbacks',
+  K: 'Kickers',
+  DST: 'Defenses'
+};
 
 export class WriterAgent implements BaseAgent, IWriterAgent {
   public readonly name = 'WriterAgent';
   private initialized = false;
+  private seasonCalendar: SeasonCalendar;
 
-  constructor() {}
+  constructor(seasonCalendar: SeasonCalendar = getSeasonCalendar()) {
+    this.seasonCalendar = seasonCalendar;
+  }
 
   public async initialize(): Promise<void> {
     if (this.initialized) {
@@ -47,7 +70,11 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
 
   // Task 7.1: Create blog post structure generation
 
-  public async createBlogPost(analyses: PlayerAnalysis[]): Promise<BlogPost> {
+  public async createBlogPost(
+    analyses: PlayerAnalysis[],
+    dropAnalyses: DropAnalysis[] = [],
+    streamers?: StreamerRankings
+  ): Promise<BlogPost> {
     console.log('Generating blog post structure...');
 
     // Validate input
@@ -55,15 +82,27 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
       throw new Error('Cannot create blog post with empty analyses array');
     }
 
+    // In the IDP edition, defenders get their own section instead of competing with offensive players
+    const offensiveAnalyses = analyses.filter(analysis => !IDPUtils.isIDPPosition(analysis.player.position));
+    const [featuredAnalyses, idpAnalyses] = offensiveAnalyses.length > 0
+      ? [offensiveAnalyses, analyses.filter(analysis => IDPUtils.isIDPPosition(analysis.player.position))]
+      : [analyses, []];
+
+    // Special editions are named in the title
+    const editions = [
+      ...(analyses.some(analysis => analysis.dynasty) ? ['Dynasty'] : []),
+      ...(idpAnalyses.length > 0 ? ['IDP'] : [])
+    ];
+
     // Generate title and summary
-    const title = this.generateEngagingTitle(analyses);
-    const summary = this.generateSummary(analyses);
+    const title = this.generateEngagingTitle(featuredAnalyses, editions);
+    const summary = this.generateSummary(featuredAnalyses);
 
     // Create blog post outline and sections
-    const content = this.createBlogPostContent(analyses);
+    const content = this.createBlogPostContent(featuredAnalyses, dropAnalyses, streamers, idpAnalyses);
 
     // Generate metadata and SEO optimization (Task 7.3)
-    const metadata = this.generateBlogMetadata(analyses, title, summary);
+    const metadata = this.generateBlogMetadata(analyses, title, summary, content);
 
     const blogPost: BlogPost = {
       title,
@@ -84,11 +123,10 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
   /**
    * Generate engaging headlines and introduction text
    */
-  private generateEngagingTitle(analyses: PlayerAnalysis[]): string {
+  private generateEngagingTitle(analyses: PlayerAnalysis[], editions: string[] = []): string {
     const buyCount = analyses.filter(a => a.recommendation === 'BUY').length;
     const totalCount = analyses.length;
     
-    // Get current week (simplified - would normally get from system)
     const currentWeek = this.getCurrentWeek();
     
     const titleTemplates = [
@@ -109,6 +147,10 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
       selectedTitle = titleTemplates[Math.floor(Math.random() * titleTemplates.length)]!;
     }
 
+    if (editions.length > 0) {
+      selectedTitle += ` - ${editions.join(' ')} Edition`;
+    }
+
     return BlogTransformer.sanitizeTitle(selectedTitle);
   }
 
@@ -147,7 +189,12 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
   /**
    * Create blog post outline and sections
    */
-  private createBlogPostContent(analyses: PlayerAnalysis[]): string {
+  private createBlogPostContent(
+    analyses: PlayerAnalysis[],
+    dropAnalyses: DropAnalysis[] = [],
+    streamers?: StreamerRankings,
+    idpAnalyses: PlayerAnalysis[] = []
+  ): string {
     let content = '';
 
     // Introduction section
@@ -162,6 +209,38 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
     content += this.createPlayerAnalysisSections(analyses);
     content += '\n\n';
 
+    // Long-term rankings for dynasty and keeper leagues
+    const dynastyAnalyses = [...analyses, ...idpAnalyses].filter(analysis => analysis.dynasty);
+    if (dynastyAnalyses.length > 0) {
+      content += this.createDynastySection(dynastyAnalyses);
+      content += '\n\n';
+    }
+
+    // Defenders for IDP leagues
+    if (idpAnalyses.length > 0) {
+      content += this.createIDPSection(idpAnalyses);
+      content += '\n\n';
+    }
+
+    // Personalized bid tables for our registered leagues
+    const biddable = [...analyses, ...idpAnalyses];
+    if (biddable.some(analysis => analysis.leagueBids && analysis.leagueBids.length > 0)) {
+      content += this.createLeagueBidSection(biddable);
+      content += '\n\n';
+    }
+
+    // Most-dropped players, with whether to follow the crowd
+    if (dropAnalyses.length > 0) {
+      content += this.createCuttingSection(dropAnalyses);
+      content += '\n\n';
+    }
+
+    // One-week QB, K and DST pickups for the coming week's matchups
+    if (streamers && streamers.streamers.length > 0) {
+      content += this.createStreamersSection(streamers);
+      content += '\n\n';
+    }
+
     // Conclusion section
     content += this.createConclusionSection(analyses);
 
@@ -222,6 +301,16 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
       summary += '\n';
     }
 
+    // Backups stepping in for injured starters are the week's biggest FAAB swings
+    const injuryOpenings = analyses.filter(a => a.starterInjury);
+    if (injuryOpenings.length > 0) {
+      summary += `**🚑 Injury Openings:**\n`;
+      injuryOpenings.forEach(analysis => {
+        summary += `- **${analysis.player.name}** (${analysis.player.position}, ${analysis.player.team}): ${StarterInjuryUtils.describe(analysis.starterInjury!)}\n`;
+      });
+      summary += '\n';
+    }
+
     // Key themes
     summary += this.identifyKeyThemes(analyses);
 
@@ -317,16 +406,8 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
 
   private createPlayerAnalysisSections(analyses: PlayerAnalysis[]): string {
     let content = `## Player Analysis\n\n`;
-    
-    // Sort players by recommendation (BUY first) then by confidence
-    const sortedAnalyses = [...analyses].sort((a, b) => {
-      if (a.recommendation !== b.recommendation) {
-        return a.recommendation === 'BUY' ? -1 : 1;
-      }
-      return b.confidence - a.confidence;
-    });
 
-    sortedAnalyses.forEach((analysis, index) => {
+    this.sortByRecommendation(analyses).forEach((analysis, index) => {
       content += this.createPlayerSection(analysis, index + 1);
       content += '\n\n';
     });
@@ -334,6 +415,32 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
     return content;
   }
 
+  /**
+   * Defenders for the IDP edition, written up like the offensive players
+   */
+  private createIDPSection(idpAnalyses: PlayerAnalysis[]): string {
+    let section = `## IDP Pickups\n\n`;
+    section += `For leagues that start individual defensive players, these are the defenders managers are adding. `;
+    section += `Tackle volume sets the floor; sacks and interceptions provide the ceiling.\n\n`;
+
+    this.sortByRecommendation(idpAnalyses).forEach((analysis, index) => {
+      section += this.createPlayerSection(analysis, index + 1);
+      section += '\n\n';
+    });
+
+    return section.trimEnd();
+  }
+
+  // BUY first, then by confidence
+  private sortByRecommendation(analyses: PlayerAnalysis[]): PlayerAnalysis[] {
+    return [...analyses].sort((a, b) => {
+      if (a.recommendation !== b.recommendation) {
+        return a.recommendation === 'BUY' ? -1 : 1;
+      }
+      return b.confidence - a.confidence;
+    });
+  }
+
   private createPlayerSection(analysis: PlayerAnalysis, rank: number): string {
     const player = analysis.player;
     const recommendation = analysis.recommendation;
@@ -350,7 +457,30 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
     
     // Addition stats
     section += `**Manager Interest:** ${player.additionPercentage}% of leagues adding `;
-    section += `(${player.additionCount.toLocaleString()} additions across ${player.platforms.join(', ')})\n\n`;
+    if (player.additionSignals?.length) {
+      // Per-platform shares; raw counts aren't comparable across platforms
+      const shares = player.additionSignals.map(signal => `${signal.platform} ${signal.percentOfLeagues}%`);
+      section += `(${shares.join(', ')})\n\n`;
+    } else {
+      section += `(${player.additionCount.toLocaleString()} additions across ${player.platforms.join(', ')})\n\n`;
+    }
+    
+    // Week-over-week movement
+    if (player.trend) {
+      section += `**Trend:** ${this.describeTrend(player.trend)}\n\n`;
+    }
+    
+    // Handcuff alert when the player ahead of them is out
+    if (analysis.starterInjury) {
+      const role = analysis.starterInjury.nextInLine ? 'is next in line for the work' : 'is in line for extra work';
+      section += `**🚑 Starter Injury:** ${StarterInjuryUtils.describe(analysis.starterInjury)}. ${player.name} ${role}.\n\n`;
+    }
+
+    // The player's own practice reports and designation changes this week
+    const injuryTrend = analysis.injuryTimeline && InjuryTimelineUtils.describe(analysis.injuryTimeline);
+    if (injuryTrend) {
+      section += `**🩹 Injury Trend:** ${injuryTrend.charAt(0).toUpperCase()}${injuryTrend.slice(1)}\n\n`;
+    }
     
     // Analysis reasoning
     section += `**Analysis:**\n`;
@@ -377,6 +507,11 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
       section += '\n';
     }
     
+    // Long-term call for dynasty leagues
+    if (analysis.dynasty) {
+      section += this.createDynastyOutlook(analysis.dynasty);
+    }
+    
     // Bottom line recommendation
     section += `**Bottom Line:** `;
     if (recommendation === 'BUY') {
@@ -390,6 +525,180 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
     return section;
   }
 
+  private createDynastyOutlook(dynasty: DynastyAssessment): string {
+    const badge = dynasty.recommendation === 'BUY' ? '🟢 **BUY**' : '🔴 **PASS**';
+    const faabText = dynasty.suggestedFAABPercentage ? ` | **Dynasty FAAB:** ${dynasty.suggestedFAABPercentage}%` : '';
+
+    let outlook = `**Dynasty Outlook:** ${badge} | **Value:** ${dynasty.value}/100${faabText}\n`;
+    dynasty.reasoning.forEach(reason => {
+      outlook += `- ${reason}\n`;
+    });
+    outlook += '\n';
+    return outlook;
+  }
+
+  /**
+   * Every featured player ranked by multi-season value, for dynasty and keeper leagues
+   */
+  private createDynastySection(analyses: PlayerAnalysis[]): string {
+    const horizon = analyses[0]!.dynasty!.horizonSeasons;
+    let section = `## Dynasty Rankings\n\n`;
+    section += `Looking beyond this week: how this week's adds rank over the next ${horizon} season${horizon === 1 ? '' : 's'}, `;
+    section += `weighing age, draft capital and role security alongside current production.\n\n`;
+
+    section += `| Rank | Player | Age | Exp | Dynasty Value | Call | Dynasty FAAB |\n`;
+    section += `|------|--------|-----|-----|---------------|------|--------------|\n`;
+
+    [...analyses]
+      .sort((a, b) => b.dynasty!.value - a.dynasty!.value)
+      .forEach((analysis, index) => {
+        const { player } = analysis;
+        const dynasty = analysis.dynasty!;
+        const profile = player.dynastyProfile || {};
+        const age = profile.age ?? '-';
+        const experience = profile.yearsExperience === 0 ? 'R' : profile.yearsExperience ?? '-';
+        const faab = dynasty.suggestedFAABPercentage ? `${dynasty.suggestedFAABPercentage}%` : '-';
+
+        section += `| ${index + 1} | ${player.name} (${player.position}, ${player.team}) | ${age} | ${experience} | `;
+        section += `${dynasty.value} | ${dynasty.recommendation} | ${faab} |\n`;
+      });
+
+    return section.trimEnd();
+  }
+
+  /**
+   * Describe a player's movement versus earlier weeks, e.g. "Third straight week in the top 10"
+   */
+  private describeTrend(trend: AdditionTrend): string {
+    if (trend.status === 'new') {
+      return '🆕 New this week';
+    }
+    if (trend.status === 'returning') {
+      return `🔁 Back in the top 10 (${trend.appearances} appearances this season)`;
+    }
+
+    const streak = trend.consecutiveWeeks <= ORDINAL_WORDS.length
+      ? ORDINAL_WORDS[trend.consecutiveWeeks - 1]!
+      : `${trend.consecutiveWeeks}th`;
+    let description = `📈 ${streak} straight week in the top 10`;
+
+    if (trend.rankChange !== undefined && trend.previousRank !== undefined) {
+      if (trend.rankChange > 0) {
+        description += `, up ${trend.rankChange} from #${trend.previousRank}`;
+      } else if (trend.rankChange < 0) {
+        description += `, down ${-trend.rankChange} from #${trend.previousRank}`;
+      } else {
+        description += `, holding at #${trend.previousRank}`;
+      }
+    }
+
+    if (trend.additionPercentageChange) {
+      const sign = trend.additionPercentageChange > 0 ? '+' : '';
+      description += ` (${sign}${trend.additionPercentageChange}% adds vs last week)`;
+    }
+
+    return description;
+  }
+
+  /**
+   * One bid table per league, with low/expected/aggressive dollar tiers for each BUY
+   */
+  private createLeagueBidSection(analyses: PlayerAnalysis[]): string {
+    let section = `## Your League Bids\n\n`;
+    section += `Suggested bids for each of our leagues, based on league size, the FAAB other managers have left, `;
+    section += `and our roster needs.\n\n`;
+
+    const bidsByLeague = new Map<string, Array<{ analysis: PlayerAnalysis; bid: LeagueBid }>>();
+    for (const analysis of analyses) {
+      for (const bid of analysis.leagueBids || []) {
+        const key = `${bid.platform}:${bid.leagueId}`;
+        bidsByLeague.set(key, [...(bidsByLeague.get(key) || []), { analysis, bid }]);
+      }
+    }
+
+    for (const rows of bidsByLeague.values()) {
+      const league = rows[0]!.bid;
+      section += `### ${league.leagueName} (${league.platform})\n\n`;
+      section += `*Remaining FAAB: $${league.remainingBudget}*\n\n`;
+      section += `| Player | Pos | Roster Need | Low | Expected | Aggressive |\n`;
+      section += `|---|---|---|---|---|---|\n`;
+
+      [...rows]
+        .sort((a, b) => b.bid.expected - a.bid.expected)
+        .forEach(({ analysis, bid }) => {
+          const need = bid.rosterNeed.charAt(0).toUpperCase() + bid.rosterNeed.slice(1);
+          section += `| ${analysis.player.name} | ${analysis.player.position} | ${need} | `;
+          section += `$${bid.low} | $${bid.expected} | $${bid.aggressive} |\n`;
+        });
+      section += '\n';
+    }
+
+    return section.trimEnd();
+  }
+
+  /**
+   * SELL/HOLD calls on the players managers are dropping
+   */
+  private createCuttingSection(dropAnalyses: DropAnalysis[]): string {
+    let section = `## Players Managers Are Cutting\n\n`;
+    section += `These players are being dropped across platforms this week. `;
+    section += `Here's whether you should follow the crowd.\n\n`;
+
+    dropAnalyses.forEach((analysis, index) => {
+      const player = analysis.player;
+      const badge = analysis.recommendation === 'SELL' ? '🔴 **SELL**' : '🟡 **HOLD**';
+
+      section += `### ${index + 1}. ${player.name} (${player.position}, ${player.team})\n\n`;
+      section += `${badge} | **Confidence:** ${analysis.confidence}%\n\n`;
+      section += player.dropPercentage !== undefined
+        ? `**Drop Activity:** ${player.dropPercentage}% of leagues dropping across ${player.platforms.join(', ')}\n\n`
+        : `**Drop Activity:** ${(player.dropCount || 0).toLocaleString()} drops across ${player.platforms.join(', ')}\n\n`;
+
+      section += `**Analysis:**\n`;
+      analysis.reasoning.forEach(reason => {
+        section += `- ${reason}\n`;
+      });
+      section += '\n';
+
+      section += `**Bottom Line:** `;
+      section += analysis.recommendation === 'SELL'
+        ? `Safe to cut if you need the roster spot.\n\n`
+        : `Don't panic; hold through the dip.\n\n`;
+    });
+
+    return section.trimEnd();
+  }
+
+  /**
+   * Week-to-week pickups at QB, K and DST, ranked by matchup
+   */
+  private createStreamersSection(rankings: StreamerRankings): string {
+    let section = `## Streamers\n\n`;
+    section += `Not every pickup needs to be a long-term add. `;
+    section += `These are the best one-week plays for Week ${rankings.week} based on matchups.\n\n`;
+
+    STREAMER_POSITIONS.forEach(position => {
+      const streamers = rankings.streamers.filter(streamer => streamer.position === position);
+      if (streamers.length === 0) {
+        return;
+      }
+
+      section += `### ${STREAMER_HEADINGS[position]}\n\n`;
+      streamers.forEach(streamer => {
+        const matchup = `${streamer.isHome ? 'vs' : '@'} ${streamer.opponent}`;
+        const label = position === 'DST' ? streamer.name : `${streamer.name} (${streamer.team})`;
+
+        section += `**${streamer.rank}. ${label}** ${matchup} | **Matchup Score:** ${streamer.score}/100\n`;
+        streamer.rationale.forEach(reason => {
+          section += `- ${reason}\n`;
+        });
+        section += '\n';
+      });
+    });
+
+    return section.trimEnd();
+  }
+
   private createConclusionSection(analyses: PlayerAnalysis[]): string {
     let conclusion = `## Final Thoughts\n\n`;
     
@@ -435,7 +744,7 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
   /**
    * Generate blog post metadata with SEO optimization
    */
-  private generateBlogMetadata(analyses: PlayerAnalysis[], title: string, summary: string): BlogMetadata {
+  private generateBlogMetadata(analyses: PlayerAnalysis[], title: string, summary: string, content: string): BlogMetadata {
     const currentWeek = this.getCurrentWeek();
     
     // Generate SEO-optimized title and description
@@ -456,11 +765,11 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
       seoDescription,
       customFields: {
         week: currentWeek,
-        season: new Date().getFullYear(),
+        season: this.seasonCalendar.getCurrentSeason(),
         analysisCount: analyses.length,
         buyRecommendations: analyses.filter(a => a.recommendation === 'BUY').length,
         averageConfidence: Math.round(analyses.reduce((sum, a) => sum + a.confidence, 0) / analyses.length),
-        readingTime: BlogTransformer.estimateReadingTime(this.createBlogPostContent(analyses))
+        readingTime: BlogTransformer.estimateReadingTime(content)
       }
     };
 
@@ -513,6 +822,14 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
     if (hasBreakout) {
       baseTags.push('breakout candidate', 'sleeper pick');
     }
+
+    if (analyses.some(a => IDPUtils.isIDPPosition(a.player.position))) {
+      baseTags.push('idp', 'idp waiver wire');
+    }
+
+    if (analyses.some(a => a.dynasty)) {
+      baseTags.push('dynasty', 'keeper league');
+    }
     
     return baseTags;
   }
@@ -540,6 +857,14 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
       categories.push(`${dominantPosition[0]} Analysis`);
     }
     
+    if (analyses.some(a => IDPUtils.isIDPPosition(a.player.position))) {
+      categories.push('IDP');
+    }
+    
+    if (analyses.some(a => a.dynasty)) {
+      categories.push('Dynasty');
+    }
+    
     // Add strategy category based on recommendations
     const buyCount = analyses.filter(a => a.recommendation === 'BUY').length;
     if (buyCount === 0) {
@@ -781,7 +1106,7 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
       `seo_description: "${blogPost.metadata.seoDescription || blogPost.summary}"`,
       `reading_time: ${blogPost.metadata.customFields?.readingTime || 5}`,
       `week: ${blogPost.metadata.customFields?.week || this.getCurrentWeek()}`,
-      `season: ${blogPost.metadata.customFields?.season || new Date().getFullYear()}`,
+      `season: ${blogPost.metadata.customFields?.season || this.seasonCalendar.getCurrentSeason()}`,
       '---',
       ''
     ].join('\n');
@@ -933,10 +1258,6 @@ export class WriterAgent implements BaseAgent, IWriterAgent {
   }
 
   private getCurrentWeek(): number {
-    // Simplified week calculation - in real implementation would use proper NFL week calculation
-    const now = new Date();
-    const seasonStart = new Date(now.getFullYear(), 8, 1); // September 1st
-    const weeksSinceStart = Math.floor((now.getTime() - seasonStart.getTime()) / (7 * 24 * 60 * 60 * 1000));
-    return Math.max(1, Math.min(weeksSinceStart + 1, 18));
+    return this.seasonCalendar.getCurrentWeek();
   }
 }
\ No newline at end of file
@@ -3,6 +3,7 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import { RateLimiter } from '../rate-limiter';
 import { CacheManager } from '../cache-manager';
+import { FixtureErrorMapping, FixtureRequest, getFixtureRecorder } from '../fixture-recorder';
 import { BlogPlatformConfig } from '../../models/config';
 import { BlogPost } from '../../models/blog';
 import { BlogAPIError, PublicationResult, BlogAuthConfig, APIResponse } from './types';
@@ -98,44 +99,46 @@ export abstract class BaseBlogClient {
     cacheTTL?: number
   ): Promise<APIResponse<T>> {
     const cacheKey = `${method}:${endpoint}:${JSON.stringify(data || {})}`;
+    const fixtures = getFixtureRecorder();
+    // Fixture runs bypass the response cache: a cached hit would skip recording or stand in for the
+    // recorded response, and replayed responses mustn't end up in the live cache
+    const cacheable = method === 'GET' && useCache && fixtures.getMode() === 'off';
     
     // Check cache first for GET requests
-    if (method === 'GET' && useCache) {
+    if (cacheable) {
       const cached = this.cache.get(cacheKey);
       if (cached) {
         return cached as APIResponse<T>;
       }
     }
 
+    const fixtureRequest: FixtureRequest = {
+      source: this.config.name,
+      method,
+      baseUrl: this.config.baseUrl,
+      endpoint,
+      ...(data !== undefined && { data })
+    };
+
     try {
-      let response: AxiosResponse<T>;
-      
-      switch (method) {
-        case 'GET':
-          response = await this.axios.get(endpoint, { params: data });
-          break;
-        case 'POST':
-          response = await this.axios.post(endpoint, data);
-          break;
-        case 'PUT':
-          response = await this.axios.put(endpoint, data);
-          break;
-        case 'DELETE':
-          response = await this.axios.delete(endpoint);
-          break;
-        default:
-          throw new Error(`Unsupported HTTP method: ${method}`);
-      }
+      const response = await fixtures.send(
+        fixtureRequest,
+        async () => {
+          const sent = await this.sendRequest<T>(method, endpoint, data);
+          return { data: sent.data, status: sent.status, headers: sent.headers as Record<string, string> };
+        },
+        this.fixtureErrors
+      );
 
       const apiResponse: APIResponse<T> = {
         data: response.data,
         status: response.status,
-        headers: response.headers as Record<string, string>,
+        headers: response.headers,
         timestamp: new Date()
       };
 
       // Cache successful GET responses
-      if (method === 'GET' && useCache && response.status === 200) {
+      if (cacheable && response.status === 200) {
         this.cache.set(cacheKey, apiResponse, cacheTTL);
       }
 
@@ -154,6 +157,33 @@ export abstract class BaseBlogClient {
     }
   }
 
+  private async sendRequest<T>(
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+    endpoint: string,
+    data?: any
+  ): Promise<AxiosResponse<T>> {
+    switch (method) {
+      case 'GET':
+        return this.axios.get(endpoint, { params: data });
+      case 'POST':
+        return this.axios.post(endpoint, data);
+      case 'PUT':
+        return this.axios.put(endpoint, data);
+      case 'DELETE':
+        return this.axios.delete(endpoint);
+      default:
+        throw new Error(`Unsupported HTTP method: ${method}`);
+    }
+  }
+
+  // Fixtures keep HTTP failures so replays raise the same BlogAPIError
+  private fixtureErrors: FixtureErrorMapping = {
+    toFixture: error => error instanceof BlogAPIError && error.statusCode
+      ? { data: error.response ?? null, status: error.statusCode, headers: {}, error: error.message }
+      : null,
+    fromFixture: recorded => new BlogAPIError(recorded.error || 'Recorded request failed', this.config.name, recorded.status, recorded.data)
+  };
+
   protected async get<T>(endpoint: string, params?: any, useCache: boolean = false, cacheTTL?: number): Promise<APIResponse<T>> {
     return this.makeRequest<T>('GET', endpoint, params, useCache, cacheTTL);
   }
@@ -1,5 +1,7 @@
 // Caching utilities for API responses
 
+import type { DiskCacheStore } from './disk-cache-store';
+
 export interface CacheEntry<T> {
   data: T;
   timestamp: number;
@@ -11,12 +13,27 @@ export interface CacheConfig {
   maxSize: number;    // Maximum number of entries
 }
 
+// Where a cache writes through to disk; the namespace keeps each client's entries apart
+export interface CachePersistence {
+  store: DiskCacheStore;
+  namespace: string;
+}
+
 export class CacheManager<T = any> {
   private cache: Map<string, CacheEntry<T>> = new Map();
   private config: CacheConfig;
+  private persistence: CachePersistence | undefined;
+  private pendingWrites: Set<Promise<void>> = new Set();
+  // Outstanding writes across every persistent cache, for flushing at shutdown
+  private static pendingDiskWrites: Set<Promise<void>> = new Set();
 
-  constructor(config: CacheConfig) {
+  constructor(config: CacheConfig, persistence?: CachePersistence) {
     this.config = config;
+    this.persistence = persistence;
+  }
+
+  isPersistent(): boolean {
+    return this.persistence !== undefined;
   }
 
   set(key: string, data: T, ttl?: number): void {
@@ -36,11 +53,54 @@ export class CacheManager<T = any> {
       }
     }
     
-    this.cache.set(key, {
+    const entry: CacheEntry<T> = {
       data,
       timestamp: now,
       expiresAt: now + timeToLive
-    });
+    };
+    this.cache.set(key, entry);
+    this.persist(key, entry);
+  }
+
+  /**
+   * Like get, but checks the disk store when the entry isn't in memory (e.g. after a restart)
+   */
+  async getOrLoad(key: string): Promise<T | null> {
+    const cached = this.get(key);
+    if (cached !== null || !this.persistence) {
+      return cached;
+    }
+
+    const stored = await this.readStored(key);
+    if (!stored || Date.now() > stored.expiresAt) {
+      return null;
+    }
+
+    this.cache.set(key, stored);
+    return stored.data;
+  }
+
+  /**
+   * Last stored value for a key even if it has expired, for falling back when a fresh fetch fails.
+   * Only persistent caches keep expired entries.
+   */
+  async getStale(key: string): Promise<{ data: T; timestamp: Date } | null> {
+    const stored = await this.readStored(key);
+    return stored ? { data: stored.data, timestamp: new Date(stored.timestamp) } : null;
+  }
+
+  /**
+   * Wait for outstanding disk writes, e.g. before shutting down
+   */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.pendingWrites));
+  }
+
+  /**
+   * Wait for every persistent cache's outstanding disk writes, so shutdown doesn't cut them off
+   */
+  static async flushAll(): Promise<void> {
+    await Promise.all(Array.from(CacheManager.pendingDiskWrites));
   }
 
   get(key: string): T | null {
@@ -76,10 +136,18 @@ export class CacheManager<T = any> {
   }
 
   delete(key: string): boolean {
+    if (this.persistence) {
+      const { store, namespace } = this.persistence;
+      this.track(store.delete(namespace, key), `delete ${key}`);
+    }
     return this.cache.delete(key);
   }
 
   clear(): void {
+    if (this.persistence) {
+      const { store, namespace } = this.persistence;
+      this.track(store.clear(namespace), 'clear');
+    }
     this.cache.clear();
   }
 
@@ -131,6 +199,40 @@ export class CacheManager<T = any> {
     };
   }
 
+  private persist(key: string, entry: CacheEntry<T>): void {
+    if (this.persistence) {
+      const { store, namespace } = this.persistence;
+      this.track(store.write(namespace, key, entry), `write ${key}`);
+    }
+  }
+
+  // Writes run in the background so set() stays synchronous; failures only cost durability
+  private track(operation: Promise<void>, description: string): void {
+    const pending: Promise<void> = operation
+      .catch(error => console.warn(`Disk cache failed to ${description}:`, error))
+      .finally(() => {
+        this.pendingWrites.delete(pending);
+        CacheManager.pendingDiskWrites.delete(pending);
+      });
+    this.pendingWrites.add(pending);
+    CacheManager.pendingDiskWrites.add(pending);
+  }
+
+  private async readStored(key: string): Promise<CacheEntry<T> | null> {
+    if (!this.persistence) {
+      return null;
+    }
+
+    // Wait for a write to the same key that may still be in flight
+    await this.flush();
+    try {
+      return await this.persistence.store.read<T>(this.persistence.namespace, key);
+    } catch (error) {
+      console.warn(`Disk cache failed to read ${key}:`, error);
+      return null;
+    }
+  }
+
   private getOldestKey(): string | null {
     let oldestKey: string | null = null;
     let oldestTimestamp = Infinity;
@@ -0,0 +1,120 @@
+// Tests for the disk-backed cache store
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DiskCacheStore, configureDiskCache, resetDiskCacheStore } from './disk-cache-store';
+import { CacheManager } from './cache-manager';
+import { configureFixtures, resetFixtureRecorder } from './fixture-recorder';
+import { SleeperClient } from './fantasy-platforms/sleeper-client';
+import { PlatformConfig } from '../models/config';
+
+describe('DiskCacheStore', () => {
+  let directory: string;
+
+  const sleeperConfig: PlatformConfig = {
+    name: 'Sleeper',
+    apiKey: '',
+    baseUrl: 'https://api.sleeper.app/v1',
+    rateLimit: { requestsPerMinute: 100, requestsPerHour: 1000 },
+    enabled: true
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'disk-cache-'));
+  });
+
+  afterEach(async () => {
+    resetDiskCacheStore();
+    resetFixtureRecorder();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write entries atomically and read them back', async () => {
+    const store = new DiskCacheStore(directory);
+    const entry = { data: { players: ['4983'] }, timestamp: 1000, expiresAt: 2000 };
+
+    await store.write('Sleeper', 'GET:/players', entry);
+
+    expect(await store.read('Sleeper', 'GET:/players')).toEqual(entry);
+    expect(await store.read('ESPN', 'GET:/players')).toBeNull();
+    expect(await fs.readdir(path.dirname(store.getEntryPath('Sleeper', 'GET:/players')))).toHaveLength(1);
+
+    await store.clear('Sleeper');
+    expect(await store.read('Sleeper', 'GET:/players')).toBeNull();
+  });
+
+  it('should ignore a corrupt entry', async () => {
+    const store = new DiskCacheStore(directory);
+    const entryPath = store.getEntryPath('Sleeper', 'GET:/players');
+    await fs.mkdir(path.dirname(entryPath), { recursive: true });
+    await fs.writeFile(entryPath, '{"key": "GET:/pla');
+
+    expect(await store.read('Sleeper', 'GET:/players')).toBeNull();
+  });
+
+  it('should reload entries in a new cache manager and keep expired ones for stale reads', async () => {
+    const store = new DiskCacheStore(directory);
+    const first = new CacheManager<string>({ defaultTTL: 60000, maxSize: 10 }, { store, namespace: 'test' });
+    first.set('fresh', 'last good data');
+    first.set('expiring', 'old data', 1);
+    await first.flush();
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    // A new manager stands in for a restarted process
+    const restarted = new CacheManager<string>({ defaultTTL: 60000, maxSize: 10 }, { store, namespace: 'test' });
+
+    expect(restarted.get('fresh')).toBeNull();
+    expect(await restarted.getOrLoad('fresh')).toBe('last good data');
+    expect(await restarted.getOrLoad('expiring')).toBeNull();
+    expect((await restarted.getStale('expiring'))?.data).toBe('old data');
+    expect(await new CacheManager({ defaultTTL: 60000, maxSize: 10 }).getStale('expiring')).toBeNull();
+  });
+
+  it('should let a restarted client fall back to its last good response', async () => {
+    configureDiskCache({ enabled: true, directory: path.join(directory, 'cache') });
+
+    const client = new SleeperClient(sleeperConfig);
+    vi.spyOn((client as any).axios, 'get').mockResolvedValue({ data: [{ player_id: '4983', count: 812 }], status: 200, headers: {} });
+    await client.getTrendingPlayers('add');
+    await CacheManager.flushAll();
+
+    // Expire everything, then restart with the network down
+    const [entryFile] = await fs.readdir(path.join(directory, 'cache', 'sleeper'));
+    const entryPath = path.join(directory, 'cache', 'sleeper', entryFile!);
+    const stored = JSON.parse(await fs.readFile(entryPath, 'utf-8'));
+    await fs.writeFile(entryPath, JSON.stringify({ ...stored, expiresAt: 0 }));
+
+    const restarted = new SleeperClient(sleeperConfig);
+    vi.spyOn((restarted as any).axios, 'get').mockRejectedValue(new Error('connect ECONNREFUSED'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await restarted.getTrendingPlayers('add')).toEqual([{ player_id: '4983', count: 812 }]);
+  });
+
+  it('should keep fixture recording and replay clear of a warm cache', async () => {
+    const fixtureDirectory = path.join(directory, 'fixtures');
+    configureDiskCache({ enabled: true, directory: path.join(directory, 'cache') });
+
+    // A live run leaves an older response in the cache
+    const live = new SleeperClient(sleeperConfig);
+    vi.spyOn((live as any).axios, 'get').mockResolvedValue({ data: [{ player_id: 'cached', count: 1 }], status: 200, headers: {} });
+    await live.getTrendingPlayers('add');
+    await CacheManager.flushAll();
+
+    configureFixtures({ mode: 'record', directory: fixtureDirectory });
+    const recording = new SleeperClient(sleeperConfig);
+    const network = vi.spyOn((recording as any).axios, 'get')
+      .mockResolvedValue({ data: [{ player_id: '4983', count: 812 }], status: 200, headers: {} });
+    expect(await recording.getTrendingPlayers('add')).toEqual([{ player_id: '4983', count: 812 }]);
+    expect(network).toHaveBeenCalledTimes(1);
+
+    configureFixtures({ mode: 'replay', directory: fixtureDirectory });
+    expect(await new SleeperClient(sleeperConfig).getTrendingPlayers('add')).toEqual([{ player_id: '4983', count: 812 }]);
+
+    // Neither run wrote into the live cache
+    configureFixtures({ mode: 'off', directory: fixtureDirectory });
+    expect(await new SleeperClient(sleeperConfig).getTrendingPlayers('add')).toEqual([{ player_id: 'cached', count: 1 }]);
+  });
+});
@@ -0,0 +1,102 @@
+// Disk persistence for cached API responses and collected data
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DiskCacheConfig } from '../models/config';
+import { CacheEntry } from './cache-manager';
+
+export const DEFAULT_DISK_CACHE_CONFIG: DiskCacheConfig = {
+  enabled: false,
+  directory: './data/cache'
+};
+
+interface StoredEntry<T> extends CacheEntry<T> {
+  key: string;
+}
+
+/**
+ * Stores cache entries as <directory>/<namespace>/<hash>.json. Entries are kept past their
+ * TTL so callers can fall back to the last good data; writes go through a temp file and a
+ * rename, so a crash mid-write never leaves a truncated entry behind.
+ */
+export class DiskCacheStore {
+  constructor(private directory: string = DEFAULT_DISK_CACHE_CONFIG.directory) {}
+
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  getEntryPath(namespace: string, key: string): string {
+    const hash = crypto.createHash('sha1').update(key).digest('hex');
+    return path.join(this.directory, DiskCacheStore.slugify(namespace) || 'default', `${hash}.json`);
+  }
+
+  /**
+   * Stored entry whether or not it has expired; null when nothing was stored or the file is unreadable
+   */
+  async read<T>(namespace: string, key: string): Promise<CacheEntry<T> | null> {
+    try {
+      const content = await fs.readFile(this.getEntryPath(namespace, key), 'utf-8');
+      const stored = JSON.parse(content) as StoredEntry<T>;
+      if (stored.key !== key) {
+        return null;
+      }
+      return { data: stored.data, timestamp: stored.timestamp, expiresAt: stored.expiresAt };
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT' || error instanceof SyntaxError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async write<T>(namespace: string, key: string, entry: CacheEntry<T>): Promise<void> {
+    const entryPath = this.getEntryPath(namespace, key);
+    const tempPath = `${entryPath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    const stored: StoredEntry<T> = { key, ...entry };
+
+    await fs.mkdir(path.dirname(entryPath), { recursive: true });
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(stored));
+      await fs.rename(tempPath, entryPath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    await fs.rm(this.getEntryPath(namespace, key), { force: true });
+  }
+
+  async clear(namespace: string): Promise<void> {
+    await fs.rm(path.join(this.directory, DiskCacheStore.slugify(namespace) || 'default'), {
+      recursive: true,
+      force: true
+    });
+  }
+
+  private static slugify(value: string): string {
+    return value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+}
+
+// Shared store used by every cache that persists; null while the disk cache is off
+let diskCacheStoreInstance: DiskCacheStore | null = null;
+
+export function getDiskCacheStore(): DiskCacheStore | null {
+  return diskCacheStoreInstance;
+}
+
+export function configureDiskCache(config: DiskCacheConfig): DiskCacheStore | null {
+  diskCacheStoreInstance = config.enabled ? new DiskCacheStore(config.directory) : null;
+  return diskCacheStoreInstance;
+}
+
+export function resetDiskCacheStore(): void {
+  diskCacheStoreInstance = null;
+}
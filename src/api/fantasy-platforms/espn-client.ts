@@ -2,8 +2,9 @@
 
 import { AxiosRequestConfig } from 'axios';
 import { BaseFantasyClient } from './base-client';
-import { PlayerAdditionData } from '../../models/player';
+import { PlayerAdditionData, PlayerDropData } from '../../models/player';
 import { PlatformConfig } from '../../models/config';
+import { getSeasonCalendar } from '../../models/season';
 import { 
   ESPNPlayerData, 
   PlatformAuthConfig, 
@@ -18,7 +19,7 @@ export class ESPNClient extends BaseFantasyClient {
 
   constructor(config: PlatformConfig, authConfig: PlatformAuthConfig = {}) {
     super(config, authConfig);
-    this.seasonId = new Date().getFullYear();
+    this.seasonId = getSeasonCalendar().getCurrentSeason();
     
     // ESPN API doesn't require authentication for public data
     this.authenticated = true;
@@ -67,6 +68,29 @@ export class ESPNClient extends BaseFantasyClient {
     }
   }
 
+  public async getMostDroppedPlayers(): Promise<PlayerDropData[]> {
+    try {
+      const endpoint = `/games/ffl/seasons/${this.seasonId}/segments/0/leagues/0/players`;
+      
+      const params = {
+        view: ['kona_player_info', 'kona_ownership'],
+        scoringPeriodId: this.getCurrentWeek(),
+        sortPercOwnedDelta: 'asc',
+        limit: 50
+      };
+
+      const response = await this.get<{ players: ESPNPlayerData[] }>(endpoint, params);
+      
+      if (!response.data.players) {
+        throw new PlatformAPIError('No players data in ESPN response', this.config.name);
+      }
+
+      return this.transformESPNDrops(response.data.players);
+    } catch (error) {
+      this.handleError(error, 'Failed to fetch most dropped players from ESPN');
+    }
+  }
+
   public async getPlayerInfo(playerId: string): Promise<ESPNPlayerData> {
     try {
       const endpoint = `/games/ffl/seasons/${this.seasonId}/segments/0/leagues/0/players`;
@@ -138,6 +162,21 @@ export class ESPNClient extends BaseFantasyClient {
       .sort((a, b) => b.additionCount - a.additionCount);
   }
 
+  private transformESPNDrops(players: ESPNPlayerData[]): PlayerDropData[] {
+    return players
+      .filter(player => player.ownership && player.ownership.percentChange < 0)
+      .map(player => ({
+        playerId: player.id.toString(),
+        name: player.fullName,
+        position: ESPN_POSITION_IDS[player.defaultPositionId] || 'UNKNOWN',
+        team: this.getTeamAbbreviation(player.proTeamId),
+        dropCount: Math.round(-player.ownership!.percentChange * 100), // Convert to count approximation
+        platform: 'ESPN',
+        timestamp: new Date()
+      }))
+      .sort((a, b) => b.dropCount - a.dropCount);
+  }
+
   private getTeamAbbreviation(teamId: number): string {
     // Reverse lookup in ESPN_TEAM_IDS
     for (const [abbr, id] of Object.entries(ESPN_TEAM_IDS)) {
@@ -149,14 +188,8 @@ export class ESPNClient extends BaseFantasyClient {
   }
 
   private getCurrentWeek(): number {
-    // Calculate current NFL week based on season start
-    const seasonStart = new Date(this.seasonId, 8, 1); // September 1st
-    const now = new Date();
-    const diffTime = now.getTime() - seasonStart.getTime();
-    const diffWeeks = Math.ceil(diffTime / (1000 * 60 * 60 * 24 * 7));
-    
-    // NFL season is typically weeks 1-18
-    return Math.max(1, Math.min(18, diffWeeks));
+    // ESPN scoring periods only exist for regular-season weeks
+    return getSeasonCalendar().getLookupWeek();
   }
 
   public async getLeagueInfo(leagueId: string): Promise<any> {
@@ -4,4 +4,6 @@ export * from './base-client';
 export * from './espn-client';
 export * from './yahoo-client';
 export * from './sleeper-client';
+export * from './mfl-client';
+export * from './platform-registry';
 export * from './types';
\ No newline at end of file
@@ -0,0 +1,95 @@
+// Tests for the MyFantasyLeague client against recorded responses
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { MFLClient } from './mfl-client';
+import { configureFixtures, FixtureRecorder, resetFixtureRecorder } from '../fixture-recorder';
+import { getSeasonCalendar } from '../../models/season';
+import { PlatformConfig } from '../../models/config';
+
+describe('MFLClient', () => {
+  let directory: string;
+
+  const mflConfig: PlatformConfig = {
+    name: 'MFL',
+    apiKey: '',
+    baseUrl: 'https://api.myfantasyleague.com',
+    rateLimit: { requestsPerMinute: 100, requestsPerHour: 1000 },
+    enabled: true
+  };
+
+  async function recordExport(type: string, data: unknown, params: Record<string, unknown> = {}): Promise<void> {
+    await new FixtureRecorder({ mode: 'record', directory }).record({
+      source: 'MFL',
+      method: 'GET',
+      baseUrl: mflConfig.baseUrl,
+      endpoint: `/${getSeasonCalendar().getCurrentSeason()}/export`,
+      data: { TYPE: type, JSON: 1, ...params }
+    }, { status: 200, headers: {}, data });
+  }
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mfl-fixtures-'));
+    await recordExport('players', {
+      players: {
+        timestamp: '1728950400',
+        player: [
+          { id: '15241', name: "Chase, Ja'Marr", position: 'WR', team: 'CIN' },
+          { id: '16150', name: 'Pacheco, Isiah', position: 'RB', team: 'KCC' },
+          { id: '0510', name: 'Packers, Green Bay', position: 'Def', team: 'GBP' },
+          { id: '13299', name: 'Butker, Harrison', position: 'PK', team: 'KCC' },
+          { id: '0531', name: 'Chiefs, Kansas City', position: 'TMQB', team: 'KCC' }
+        ]
+      }
+    }, { DETAILS: 1 });
+    configureFixtures({ mode: 'replay', directory });
+  });
+
+  afterEach(async () => {
+    resetFixtureRecorder();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should map top adds into player addition data', async () => {
+    await recordExport('topAdds', {
+      topAdds: {
+        week: '6',
+        player: [
+          { id: '0510', percent: '4.21' },
+          { id: '16150', percent: '31.07' },
+          { id: '0531', percent: '2.00' },
+          { id: '99999', percent: '12.50' },
+          { id: '13299', percent: '6.5' }
+        ]
+      }
+    });
+
+    const players = await new MFLClient(mflConfig).getMostAddedPlayers();
+
+    expect(players).toEqual([
+      { playerId: '16150', name: 'Isiah Pacheco', position: 'RB', team: 'KC', additionCount: 3107, platform: 'MFL', timestamp: expect.any(Date) },
+      { playerId: '13299', name: 'Harrison Butker', position: 'K', team: 'KC', additionCount: 650, platform: 'MFL', timestamp: expect.any(Date) },
+      { playerId: '0510', name: 'Green Bay Packers', position: 'DST', team: 'GB', additionCount: 421, platform: 'MFL', timestamp: expect.any(Date) }
+    ]);
+  });
+
+  it('should handle a single top drop and look up player info', async () => {
+    await recordExport('topDrops', { topDrops: { player: { id: '15241', percent: '1.25' } } });
+    const client = new MFLClient(mflConfig);
+
+    const drops = await client.getMostDroppedPlayers();
+
+    expect(drops).toHaveLength(1);
+    expect(drops[0]).toMatchObject({ playerId: '15241', name: "Ja'Marr Chase", team: 'CIN', dropCount: 125 });
+    expect(await client.getPlayerInfo('16150')).toMatchObject({ position: 'RB', team: 'KCC' });
+    await expect(client.getPlayerInfo('404')).rejects.toThrow('Player 404 not found');
+  });
+
+  it('should surface an error reported in the response body', async () => {
+    await recordExport('topAdds', { error: { $t: 'Invalid request type' } });
+
+    await expect(new MFLClient(mflConfig).getMostAddedPlayers()).rejects.toThrow('Invalid request type');
+  });
+});
@@ -0,0 +1,196 @@
+// MyFantasyLeague (MFL) API client implementation
+
+import { AxiosRequestConfig } from 'axios';
+import { BaseFantasyClient } from './base-client';
+import { PlayerAdditionData, PlayerDropData } from '../../models/player';
+import { PlatformConfig } from '../../models/config';
+import { getSeasonCalendar } from '../../models/season';
+import {
+  MFLPlayerData,
+  MFLTrendingData,
+  PlatformAuthConfig,
+  MFL_POSITION_MAPPING,
+  MFL_TEAM_MAPPING,
+  PlatformAPIError
+} from './types';
+
+// MFL's JSON export turns a one-element list into a bare object
+type MFLList<T> = T | T[] | undefined;
+
+interface MFLTopAddsResponse {
+  topAdds?: { week?: string; player?: MFLList<MFLTrendingData> };
+}
+
+interface MFLTopDropsResponse {
+  topDrops?: { week?: string; player?: MFLList<MFLTrendingData> };
+}
+
+interface MFLPlayersResponse {
+  players?: { timestamp?: string; player?: MFLList<MFLPlayerData> };
+}
+
+export class MFLClient extends BaseFantasyClient {
+  private season: number;
+  private playersCache: Map<string, MFLPlayerData> = new Map();
+  private playersCacheExpiry?: Date;
+
+  constructor(config: PlatformConfig, authConfig: PlatformAuthConfig = {}) {
+    super(config, authConfig);
+    this.season = getSeasonCalendar().getCurrentSeason();
+    // MFL's league-wide add/drop reports are public
+    this.authenticated = true;
+  }
+
+  protected addAuthHeaders(config: AxiosRequestConfig): AxiosRequestConfig {
+    // MFL takes its API key as a query parameter rather than a header
+    if (this.authConfig.apiKey) {
+      config.params = {
+        ...config.params,
+        APIKEY: this.authConfig.apiKey
+      };
+    }
+    return config;
+  }
+
+  public async authenticate(): Promise<void> {
+    // Public export endpoints don't require a login
+    this.authenticated = true;
+  }
+
+  public async getMostAddedPlayers(): Promise<PlayerAdditionData[]> {
+    try {
+      const response = await this.exportData<MFLTopAddsResponse>('topAdds', undefined, 300000); // 5 min cache
+      await this.ensurePlayersCache();
+
+      return this.transformMFLTrending(MFLClient.toList(response.topAdds?.player));
+    } catch (error) {
+      this.handleError(error, 'Failed to fetch most added players from MFL');
+    }
+  }
+
+  public async getMostDroppedPlayers(): Promise<PlayerDropData[]> {
+    try {
+      const response = await this.exportData<MFLTopDropsResponse>('topDrops', undefined, 300000);
+      await this.ensurePlayersCache();
+
+      // Same shape as top adds, only the percent means drops
+      return this.transformMFLTrending(MFLClient.toList(response.topDrops?.player)).map(({ additionCount, ...player }) => ({
+        ...player,
+        dropCount: additionCount
+      }));
+    } catch (error) {
+      this.handleError(error, 'Failed to fetch most dropped players from MFL');
+    }
+  }
+
+  public async getPlayerInfo(playerId: string): Promise<MFLPlayerData> {
+    try {
+      await this.ensurePlayersCache();
+
+      const player = this.playersCache.get(playerId);
+      if (!player) {
+        throw new PlatformAPIError(`Player ${playerId} not found`, this.config.name);
+      }
+
+      return player;
+    } catch (error) {
+      this.handleError(error, `Failed to fetch player info for ${playerId} from MFL`);
+    }
+  }
+
+  public async getAllPlayers(): Promise<Map<string, MFLPlayerData>> {
+    try {
+      const response = await this.exportData<MFLPlayersResponse>('players', { DETAILS: 1 }, 3600000); // 1 hour cache
+
+      const playersMap = new Map<string, MFLPlayerData>();
+      MFLClient.toList(response.players?.player).forEach(player => playersMap.set(player.id, player));
+
+      return playersMap;
+    } catch (error) {
+      this.handleError(error, 'Failed to fetch all players from MFL');
+    }
+  }
+
+  /**
+   * MFL player names are "Last, First"; team defenses are "City Nickname"
+   */
+  static formatPlayerName(name: string): string {
+    const [last, first] = name.split(',').map(part => part.trim());
+    return first ? `${first} ${last}` : name.trim();
+  }
+
+  static mapTeam(team: string | undefined): string {
+    if (!team || team.startsWith('FA')) {
+      return 'FA';
+    }
+    return MFL_TEAM_MAPPING[team] || team;
+  }
+
+  private static toList<T>(value: MFLList<T>): T[] {
+    if (value === undefined) {
+      return [];
+    }
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private async exportData<T>(type: string, params: Record<string, unknown> = {}, cacheTTL?: number): Promise<T> {
+    const response = await this.get<T>(`/${this.season}/export`, { TYPE: type, JSON: 1, ...params }, true, cacheTTL);
+
+    if (!response.data || typeof response.data !== 'object') {
+      throw new PlatformAPIError(`No ${type} data in MFL response`, this.config.name);
+    }
+
+    // MFL reports problems such as an unknown export type in the body of a 200 response
+    const error = (response.data as { error?: { $t?: string } }).error;
+    if (error) {
+      throw new PlatformAPIError(`MFL ${type} export failed: ${error.$t || 'Unknown error'}`, this.config.name);
+    }
+
+    return response.data;
+  }
+
+  private async ensurePlayersCache(): Promise<void> {
+    const now = new Date();
+
+    // Refresh cache if it's empty or expired (cache for 1 hour)
+    if (this.playersCache.size === 0 ||
+        !this.playersCacheExpiry ||
+        now > this.playersCacheExpiry) {
+
+      this.playersCache = await this.getAllPlayers();
+      this.playersCacheExpiry = new Date(now.getTime() + 3600000); // 1 hour from now
+    }
+  }
+
+  private transformMFLTrending(trendingData: MFLTrendingData[]): PlayerAdditionData[] {
+    const result: PlayerAdditionData[] = [];
+
+    for (const trending of trendingData) {
+      const player = this.playersCache.get(trending.id);
+      const percent = parseFloat(trending.percent);
+
+      // Skip players we can't identify and non-player entries such as team QBs
+      const position = player ? MFL_POSITION_MAPPING[player.position] : undefined;
+      if (!player || !position || !Number.isFinite(percent)) {
+        continue;
+      }
+
+      result.push({
+        playerId: trending.id,
+        name: MFLClient.formatPlayerName(player.name),
+        position,
+        team: MFLClient.mapTeam(player.team),
+        additionCount: Math.round(percent * 100), // Percent × 100 (basis points), not a count of adds
+        platform: 'MFL',
+        timestamp: new Date()
+      });
+    }
+
+    return result.sort((a, b) => b.additionCount - a.additionCount);
+  }
+
+  public clearPlayersCache(): void {
+    this.playersCache.clear();
+    delete this.playersCacheExpiry;
+  }
+}
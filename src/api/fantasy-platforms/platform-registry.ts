@@ -0,0 +1,140 @@
+// Registry of the fantasy platforms the data collection agent can pull from
+
+import { PlatformConfig } from '../../models/config';
+import { AdditionSignalRules } from '../../models/addition-signal';
+import { ESPNClient } from './espn-client';
+import { YahooClient } from './yahoo-client';
+import { SleeperClient } from './sleeper-client';
+import { MFLClient } from './mfl-client';
+import { FantasyPlatformClient, PlatformAuthConfig } from './types';
+
+export interface PlatformNormalizationRules {
+  positionAliases?: Record<string, string>; // Platform position label -> shared position, matched uppercased
+  teamAliases?: Record<string, string>; // Platform team abbreviation -> shared abbreviation, matched uppercased
+}
+
+export interface FantasyPlatformDefinition {
+  name: string; // Label used in player data, metrics and logs, e.g. 'ESPN'
+  configKey: string; // Key under DataCollectionConfig.platforms, e.g. 'espn'
+  requiredAuth: Array<keyof PlatformAuthConfig>; // Empty when public data needs no credentials
+  normalization: PlatformNormalizationRules;
+  additionSignal: AdditionSignalRules; // How to read the platform's additionCount
+  createClient(config: PlatformConfig, auth?: PlatformAuthConfig): FantasyPlatformClient;
+}
+
+/**
+ * Platforms in registration order. The data collection agent builds a client for every
+ * registered platform that is enabled in its config, so adding a platform means
+ * registering a definition rather than touching the agent.
+ */
+export class FantasyPlatformRegistry {
+  private definitions = new Map<string, FantasyPlatformDefinition>();
+
+  register(definition: FantasyPlatformDefinition): void {
+    const duplicate = this.list().find(existing =>
+      existing.name === definition.name || existing.configKey === definition.configKey
+    );
+    if (duplicate) {
+      throw new Error(`Fantasy platform ${definition.name} (${definition.configKey}) is already registered`);
+    }
+    this.definitions.set(definition.name, definition);
+  }
+
+  unregister(name: string): boolean {
+    return this.definitions.delete(name);
+  }
+
+  get(name: string): FantasyPlatformDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  list(): FantasyPlatformDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  getNames(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Credentials the platform needs that the given auth config doesn't provide
+   */
+  static getMissingAuth(definition: FantasyPlatformDefinition, auth?: PlatformAuthConfig): Array<keyof PlatformAuthConfig> {
+    return definition.requiredAuth.filter(field => !auth?.[field]);
+  }
+
+  static normalizePosition(definition: FantasyPlatformDefinition | undefined, position: string): string {
+    const normalized = position.toUpperCase();
+    return definition?.normalization.positionAliases?.[normalized] || normalized;
+  }
+
+  static normalizeTeam(definition: FantasyPlatformDefinition | undefined, team: string): string {
+    const normalized = team.toUpperCase();
+    return definition?.normalization.teamAliases?.[normalized] || normalized;
+  }
+}
+
+export const BUILT_IN_PLATFORMS: FantasyPlatformDefinition[] = [
+  {
+    name: 'ESPN',
+    configKey: 'espn',
+    requiredAuth: [],
+    normalization: {
+      positionAliases: { 'D/ST': 'DST' },
+      teamAliases: { 'WSH': 'WAS' }
+    },
+    additionSignal: { unit: 'basisPoints', estimatedLeagues: 5000000, weight: 0.35 }, // percentChange x 100
+    createClient: (config, auth) => new ESPNClient(config, auth)
+  },
+  {
+    name: 'Yahoo',
+    configKey: 'yahoo',
+    requiredAuth: ['clientId', 'clientSecret'],
+    normalization: {
+      positionAliases: { 'DEF': 'DST' },
+      teamAliases: { 'JAC': 'JAX' }
+    },
+    additionSignal: { unit: 'basisPoints', estimatedLeagues: 3000000, weight: 0.25 }, // percent_owned_delta x 100
+    createClient: (config, auth) => new YahooClient(config, auth)
+  },
+  {
+    name: 'Sleeper',
+    configKey: 'sleeper',
+    requiredAuth: [],
+    normalization: {
+      positionAliases: { 'DEF': 'DST' },
+      teamAliases: { 'LA': 'LAR' }
+    },
+    additionSignal: { unit: 'adds', estimatedLeagues: 2000000, weight: 0.3 }, // Trending add counts
+    createClient: (config, auth) => new SleeperClient(config, auth)
+  },
+  {
+    name: 'MFL',
+    configKey: 'mfl',
+    requiredAuth: [],
+    normalization: {
+      positionAliases: { 'PK': 'K', 'DEF': 'DST' }
+    },
+    additionSignal: { unit: 'basisPoints', estimatedLeagues: 50000, weight: 0.1 }, // topAdds percent x 100
+    createClient: (config, auth) => new MFLClient(config, auth)
+  }
+];
+
+// Shared registry with the built-in platforms, created on first use
+let platformRegistryInstance: FantasyPlatformRegistry | null = null;
+
+export function getFantasyPlatformRegistry(): FantasyPlatformRegistry {
+  if (!platformRegistryInstance) {
+    platformRegistryInstance = new FantasyPlatformRegistry();
+    BUILT_IN_PLATFORMS.forEach(definition => platformRegistryInstance!.register(definition));
+  }
+  return platformRegistryInstance;
+}
+
+export function registerFantasyPlatform(definition: FantasyPlatformDefinition): void {
+  getFantasyPlatformRegistry().register(definition);
+}
+
+export function resetFantasyPlatformRegistry(): void {
+  platformRegistryInstance = null;
+}
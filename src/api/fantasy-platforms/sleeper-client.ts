@@ -2,8 +2,9 @@
 
 import { AxiosRequestConfig } from 'axios';
 import { BaseFantasyClient } from './base-client';
-import { PlayerAdditionData } from '../../models/player';
+import { PlayerAdditionData, PlayerDropData } from '../../models/player';
 import { PlatformConfig } from '../../models/config';
+import { getSeasonCalendar } from '../../models/season';
 import { 
   SleeperPlayerData, 
   SleeperTrendingData,
@@ -53,6 +54,21 @@ export class SleeperClient extends BaseFantasyClient {
     }
   }
 
+  public async getMostDroppedPlayers(): Promise<PlayerDropData[]> {
+    try {
+      const trendingData = await this.getTrendingPlayers('drop');
+      await this.ensurePlayersCache();
+      
+      // Same shape as trending adds, only the count means drops
+      return this.transformSleeperTrending(trendingData).map(({ additionCount, ...player }) => ({
+        ...player,
+        dropCount: additionCount
+      }));
+    } catch (error) {
+      this.handleError(error, 'Failed to fetch most dropped players from Sleeper');
+    }
+  }
+
   public async getPlayerInfo(playerId: string): Promise<SleeperPlayerData> {
     try {
       await this.ensurePlayersCache();
@@ -155,7 +171,7 @@ export class SleeperClient extends BaseFantasyClient {
 
   public async getLeagues(userId: string): Promise<any[]> {
     try {
-      const currentSeason = new Date().getFullYear();
+      const currentSeason = getSeasonCalendar().getCurrentSeason();
       const endpoint = `/user/${userId}/leagues/nfl/${currentSeason}`;
       
       const response = await this.get<any[]>(endpoint);
@@ -200,7 +216,7 @@ export class SleeperClient extends BaseFantasyClient {
 
   public async getPlayerStats(playerId: string, season?: number): Promise<any> {
     try {
-      const currentSeason = season || new Date().getFullYear();
+      const currentSeason = season || getSeasonCalendar().getCurrentSeason();
       const endpoint = `/stats/nfl/regular/${currentSeason}/${playerId}`;
       
       const response = await this.get<any>(endpoint);
@@ -212,7 +228,7 @@ export class SleeperClient extends BaseFantasyClient {
 
   public async getWeeklyStats(week: number, season?: number): Promise<Record<string, any>> {
     try {
-      const currentSeason = season || new Date().getFullYear();
+      const currentSeason = season || getSeasonCalendar().getCurrentSeason();
       const endpoint = `/stats/nfl/regular/${currentSeason}/${week}`;
       
       const response = await this.get<Record<string, any>>(endpoint);
@@ -1,9 +1,10 @@
 // Common types for fantasy platform API clients
 
-import { PlayerAdditionData } from '../../models/player';
+import { PlayerAdditionData, PlayerDropData } from '../../models/player';
 
 export interface FantasyPlatformClient {
   getMostAddedPlayers(timeframe?: string): Promise<PlayerAdditionData[]>;
+  getMostDroppedPlayers(timeframe?: string): Promise<PlayerDropData[]>;
   getPlayerInfo(playerId: string): Promise<any>;
   authenticate(): Promise<void>;
   isAuthenticated(): boolean;
@@ -52,6 +53,11 @@ export interface SleeperPlayerData {
   number: number;
   status: string;
   fantasy_positions: string[];
+  age?: number | null;
+  birth_date?: string | null; // YYYY-MM-DD
+  years_exp?: number | null;
+  depth_chart_order?: number | null;
+  metadata?: { draft_round?: string; draft_pick?: string } | null; // Filled for some players only
 }
 
 export interface SleeperTrendingData {
@@ -59,6 +65,50 @@ export interface SleeperTrendingData {
   count: number;
 }
 
+export interface MFLPlayerData {
+  id: string;
+  name: string; // "Last, First"
+  position: string;
+  team: string;
+}
+
+export interface MFLTrendingData {
+  id: string;
+  percent: string; // Percent of MFL leagues that made the move this week
+}
+
+// League payloads, trimmed to the fields used for FAAB settings and budgets
+export interface SleeperLeagueData {
+  name?: string;
+  total_rosters?: number;
+  roster_positions?: string[]; // Starter and bench slots, e.g. "QB", "FLEX", "BN"
+  settings?: { waiver_budget?: number };
+}
+
+export interface SleeperRosterData {
+  roster_id: number;
+  owner_id?: string | null;
+  players?: string[] | null;
+  settings?: { waiver_budget_used?: number };
+}
+
+export interface YahooLeagueData {
+  league_key: string;
+  league_id: string;
+  name?: string;
+  num_teams?: number | string;
+}
+
+export interface ESPNLeagueData {
+  settings?: {
+    name?: string;
+    size?: number;
+    acquisitionSettings?: { acquisitionBudget?: number };
+    rosterSettings?: { lineupSlotCounts?: Record<string, number> }; // Lineup slot ID -> count
+  };
+  teams?: Array<{ id: number; transactionCounter?: { acquisitionBudgetSpent?: number } }>;
+}
+
 export interface PlatformAuthConfig {
   apiKey?: string;
   clientId?: string;
@@ -104,14 +154,29 @@ export const ESPN_TEAM_IDS: Record<string, number> = {
   'TEN': 10, 'WAS': 28
 };
 
+// Defenders map to their IDP group: DL, LB or DB
 export const ESPN_POSITION_IDS: Record<number, string> = {
-  1: 'QB', 2: 'RB', 3: 'WR', 4: 'TE', 5: 'K', 16: 'DST'
+  1: 'QB', 2: 'RB', 3: 'WR', 4: 'TE', 5: 'K', 16: 'DST',
+  9: 'DL', 10: 'DL', 11: 'LB', 12: 'DB', 13: 'DB'
 };
 
 export const YAHOO_POSITION_MAPPING: Record<string, string> = {
-  'QB': 'QB', 'RB': 'RB', 'WR': 'WR', 'TE': 'TE', 'K': 'K', 'DEF': 'DST'
+  'QB': 'QB', 'RB': 'RB', 'WR': 'WR', 'TE': 'TE', 'K': 'K', 'DEF': 'DST',
+  'DL': 'DL', 'DE': 'DL', 'DT': 'DL', 'LB': 'LB', 'DB': 'DB', 'CB': 'DB', 'S': 'DB'
 };
 
 export const SLEEPER_POSITION_MAPPING: Record<string, string> = {
-  'QB': 'QB', 'RB': 'RB', 'WR': 'WR', 'TE': 'TE', 'K': 'K', 'DEF': 'DST'
-};
\ No newline at end of file
+  'QB': 'QB', 'RB': 'RB', 'WR': 'WR', 'TE': 'TE', 'K': 'K', 'DEF': 'DST',
+  'DL': 'DL', 'DE': 'DL', 'DT': 'DL', 'LB': 'LB', 'DB': 'DB', 'CB': 'DB', 'S': 'DB'
+};
+
+export const MFL_POSITION_MAPPING: Record<string, string> = {
+  'QB': 'QB', 'RB': 'RB', 'WR': 'WR', 'TE': 'TE', 'PK': 'K', 'Def': 'DST',
+  'DE': 'DL', 'DT': 'DL', 'LB': 'LB', 'CB': 'DB', 'S': 'DB'
+};
+
+// MFL team codes that differ from the abbreviations used everywhere else
+export const MFL_TEAM_MAPPING: Record<string, string> = {
+  'GBP': 'GB', 'JAC': 'JAX', 'KCC': 'KC', 'LVR': 'LV', 'NEP': 'NE',
+  'NOS': 'NO', 'SFO': 'SF', 'TBB': 'TB'
+};
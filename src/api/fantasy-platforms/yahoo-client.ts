@@ -2,8 +2,9 @@
 
 import { AxiosRequestConfig } from 'axios';
 import { BaseFantasyClient } from './base-client';
-import { PlayerAdditionData } from '../../models/player';
+import { PlayerAdditionData, PlayerDropData } from '../../models/player';
 import { PlatformConfig } from '../../models/config';
+import { getSeasonCalendar } from '../../models/season';
 import { 
   YahooPlayerData, 
   PlatformAuthConfig, 
@@ -108,6 +109,24 @@ export class YahooClient extends BaseFantasyClient {
     }
   }
 
+  public async getMostDroppedPlayers(): Promise<PlayerDropData[]> {
+    if (!this.authenticated) {
+      await this.authenticate();
+    }
+
+    try {
+      const gameKey = await this.getCurrentGameKey();
+      const endpoint = `/fantasy/v2/game/${gameKey}/players;sort=percent_owned_delta;sort_type=asc;count=50`;
+
+      const response = await this.get<any>(endpoint);
+      const players = this.parseYahooPlayersResponse(response.data);
+      
+      return this.transformYahooDrops(players);
+    } catch (error) {
+      this.handleError(error, 'Failed to fetch most dropped players from Yahoo');
+    }
+  }
+
   public async getPlayerInfo(playerId: string): Promise<YahooPlayerData> {
     if (!this.authenticated) {
       await this.authenticate();
@@ -153,7 +172,7 @@ export class YahooClient extends BaseFantasyClient {
   private async getCurrentGameKey(): Promise<string> {
     try {
       // Yahoo uses game keys like "nfl.l.{league_id}" for NFL
-      const currentYear = new Date().getFullYear();
+      const currentYear = getSeasonCalendar().getCurrentSeason();
       const endpoint = `/fantasy/v2/games;game_codes=nfl;seasons=${currentYear}`;
       
       await this.get<any>(endpoint);
@@ -163,7 +182,7 @@ export class YahooClient extends BaseFantasyClient {
       return `nfl.l.${currentYear}`;
     } catch (error) {
       // Fallback to current year format
-      return `nfl.l.${new Date().getFullYear()}`;
+      return `nfl.l.${getSeasonCalendar().getCurrentSeason()}`;
     }
   }
 
@@ -214,6 +233,21 @@ export class YahooClient extends BaseFantasyClient {
       .sort((a, b) => b.additionCount - a.additionCount);
   }
 
+  private transformYahooDrops(players: any[]): PlayerDropData[] {
+    return players
+      .filter(player => player.ownership && player.ownership.percent_owned_delta < 0)
+      .map(player => ({
+        playerId: player.player_id,
+        name: player.name.full,
+        position: YAHOO_POSITION_MAPPING[player.display_position] || player.display_position,
+        team: player.editorial_team_abbr,
+        dropCount: Math.round(-player.ownership.percent_owned_delta * 100),
+        platform: 'Yahoo',
+        timestamp: new Date()
+      }))
+      .sort((a, b) => b.dropCount - a.dropCount);
+  }
+
   public async getLeagues(): Promise<any[]> {
     if (!this.authenticated) {
       await this.authenticate();
@@ -0,0 +1,105 @@
+// Tests for API fixture recording and replay
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  FixtureRecorder,
+  FixtureRequest,
+  configureFixtures,
+  resetFixtureRecorder,
+  resolveFixtureConfig
+} from './fixture-recorder';
+import { SleeperClient } from './fantasy-platforms/sleeper-client';
+import { PlatformConfig } from '../models/config';
+
+describe('FixtureRecorder', () => {
+  let directory: string;
+
+  const sleeperConfig: PlatformConfig = {
+    name: 'Sleeper',
+    apiKey: '',
+    baseUrl: 'https://api.sleeper.app/v1',
+    rateLimit: { requestsPerMinute: 100, requestsPerHour: 1000 },
+    enabled: true
+  };
+
+  const trendingRequest: FixtureRequest = {
+    source: 'Sleeper',
+    method: 'GET',
+    baseUrl: sleeperConfig.baseUrl,
+    endpoint: '/players/nfl/trending/add'
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'api-fixtures-'));
+  });
+
+  afterEach(async () => {
+    resetFixtureRecorder();
+    delete process.env.FAAB_FIXTURE_MODE;
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should replay a recorded response for the same request', async () => {
+    const recorder = new FixtureRecorder({ mode: 'record', directory });
+    await recorder.record(trendingRequest, { status: 200, headers: {}, data: [{ player_id: '4983', count: 812 }] });
+
+    const replayer = new FixtureRecorder({ mode: 'replay', directory });
+    const response = await replayer.replay(trendingRequest);
+
+    expect(response.data).toEqual([{ player_id: '4983', count: 812 }]);
+    expect(replayer.getFixturePath(trendingRequest)).toContain(path.join('sleeper', 'get-players-nfl-trending-add-'));
+  });
+
+  it('should key fixtures on the request payload without storing it', async () => {
+    const recorder = new FixtureRecorder({ mode: 'record', directory });
+    const withToken = { ...trendingRequest, data: { access_token: 'secret' } };
+    await recorder.record(withToken, { status: 200, headers: {}, data: [] });
+
+    expect(recorder.getFixturePath(withToken)).not.toBe(recorder.getFixturePath(trendingRequest));
+    expect(await fs.readFile(recorder.getFixturePath(withToken), 'utf-8')).not.toContain('secret');
+  });
+
+  it('should serve client requests from fixtures in replay mode', async () => {
+    await new FixtureRecorder({ mode: 'record', directory }).record(trendingRequest, {
+      status: 200,
+      headers: {},
+      data: [{ player_id: '4983', count: 812 }]
+    });
+    configureFixtures({ mode: 'replay', directory });
+
+    const client = new SleeperClient(sleeperConfig);
+    const trending = await client.getTrendingPlayers('add');
+
+    expect(trending).toEqual([{ player_id: '4983', count: 812 }]);
+    await expect(client.getTrendingPlayers('drop')).rejects.toThrow('No recorded fixture');
+  });
+
+  it('should replay recorded HTTP errors as client errors', async () => {
+    await new FixtureRecorder({ mode: 'record', directory }).record(trendingRequest, {
+      status: 503,
+      headers: {},
+      data: null,
+      error: 'Request failed with status code 503'
+    });
+    configureFixtures({ mode: 'replay', directory });
+
+    const client = new SleeperClient(sleeperConfig);
+
+    await expect(client.getTrendingPlayers('add')).rejects.toMatchObject({
+      name: 'PlatformAPIError',
+      statusCode: 503
+    });
+  });
+
+  it('should let the environment override the configured mode', () => {
+    process.env.FAAB_FIXTURE_MODE = 'replay';
+
+    expect(resolveFixtureConfig({ mode: 'record', directory })).toEqual({ mode: 'replay', directory });
+
+    process.env.FAAB_FIXTURE_MODE = 'rewind';
+    expect(() => resolveFixtureConfig()).toThrow('Invalid FAAB_FIXTURE_MODE');
+  });
+});
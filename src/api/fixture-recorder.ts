@@ -0,0 +1,207 @@
+// Record/replay of external API traffic for offline runs
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FixtureConfig, FixtureMode } from '../models/config';
+
+export interface FixtureRequest {
+  source: string; // Client config name, e.g. "Sleeper" or "ESPN News"
+  method: string;
+  baseUrl: string;
+  endpoint: string;
+  data?: any;
+}
+
+export interface FixtureResponse {
+  status: number;
+  headers: Record<string, string>;
+  data: any;
+  error?: string; // Set when the recorded request failed with an HTTP error
+}
+
+export interface RecordedFixture {
+  request: Omit<FixtureRequest, 'data'>; // Payloads only feed the key; they may carry credentials
+  response: FixtureResponse;
+  recordedAt: string;
+}
+
+// How a client's HTTP errors are saved as fixtures and rebuilt on replay
+export interface FixtureErrorMapping {
+  toFixture(error: unknown): FixtureResponse | null; // null for failures with no HTTP response to record
+  fromFixture(recorded: FixtureResponse): Error;
+}
+
+export const FIXTURE_MODES: FixtureMode[] = ['off', 'record', 'replay'];
+
+export const DEFAULT_FIXTURE_CONFIG: FixtureConfig = {
+  mode: 'off',
+  directory: './data/fixtures'
+};
+
+export class FixtureNotFoundError extends Error {
+  constructor(public request: FixtureRequest, public fixturePath: string) {
+    super(`No recorded fixture for ${request.method} ${request.endpoint} (${request.source}) at ${fixturePath}`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+/**
+ * Saves request/response pairs in record mode and serves them back in replay mode.
+ * Fixtures are keyed by client, method, endpoint and payload, so replays are deterministic.
+ */
+export class FixtureRecorder {
+  constructor(private config: FixtureConfig = DEFAULT_FIXTURE_CONFIG) {}
+
+  static isFixtureMode(value: string): value is FixtureMode {
+    return (FIXTURE_MODES as string[]).includes(value);
+  }
+
+  getMode(): FixtureMode {
+    return this.config.mode;
+  }
+
+  getDirectory(): string {
+    return this.config.directory;
+  }
+
+  isRecording(): boolean {
+    return this.config.mode === 'record';
+  }
+
+  isReplaying(): boolean {
+    return this.config.mode === 'replay';
+  }
+
+  getFixturePath(request: FixtureRequest): string {
+    const hash = crypto
+      .createHash('sha1')
+      .update(JSON.stringify([request.method, request.baseUrl, request.endpoint, request.data ?? null]))
+      .digest('hex')
+      .substring(0, 10);
+    const endpointSlug = FixtureRecorder.slugify(request.endpoint).substring(0, 80) || 'root';
+
+    return path.join(
+      this.config.directory,
+      FixtureRecorder.slugify(request.source),
+      `${request.method.toLowerCase()}-${endpointSlug}-${hash}.json`
+    );
+  }
+
+  async record(request: FixtureRequest, response: FixtureResponse): Promise<void> {
+    const fixturePath = this.getFixturePath(request);
+    const fixture: RecordedFixture = {
+      request: {
+        source: request.source,
+        method: request.method,
+        baseUrl: request.baseUrl,
+        endpoint: request.endpoint
+      },
+      response,
+      recordedAt: new Date().toISOString()
+    };
+
+    await fs.mkdir(path.dirname(fixturePath), { recursive: true });
+    await fs.writeFile(fixturePath, JSON.stringify(fixture, null, 2));
+  }
+
+  /**
+   * Recorded response for a request; throws FixtureNotFoundError rather than falling back to the network
+   */
+  async replay(request: FixtureRequest): Promise<FixtureResponse> {
+    const fixturePath = this.getFixturePath(request);
+
+    try {
+      const content = await fs.readFile(fixturePath, 'utf-8');
+      return (JSON.parse(content) as RecordedFixture).response;
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        throw new FixtureNotFoundError(request, fixturePath);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a client request under the current mode: replay serves the recorded response without
+   * touching the network, record saves whatever the network returns, including HTTP failures
+   */
+  async send(
+    request: FixtureRequest,
+    sendRequest: () => Promise<FixtureResponse>,
+    errors: FixtureErrorMapping
+  ): Promise<FixtureResponse> {
+    if (this.isReplaying()) {
+      const recorded = await this.replay(request);
+      // Recorded HTTP failures are replayed as the same error
+      if (recorded.error) {
+        throw errors.fromFixture(recorded);
+      }
+      return recorded;
+    }
+
+    try {
+      const response = await sendRequest();
+      if (this.isRecording()) {
+        await this.recordQuietly(request, response);
+      }
+      return response;
+    } catch (error) {
+      const failure = this.isRecording() ? errors.toFixture(error) : null;
+      if (failure) {
+        await this.recordQuietly(request, failure);
+      }
+      throw error;
+    }
+  }
+
+  // A fixture that fails to save shouldn't fail the request it records
+  private async recordQuietly(request: FixtureRequest, response: FixtureResponse): Promise<void> {
+    try {
+      await this.record(request, response);
+    } catch (error) {
+      console.warn(`Failed to record fixture for ${request.method} ${request.endpoint}:`, error);
+    }
+  }
+
+  private static slugify(value: string): string {
+    return value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+}
+
+/**
+ * Fixture settings from config, overridden by FAAB_FIXTURE_MODE / FAAB_FIXTURE_DIR (set by the CLI flags)
+ */
+export function resolveFixtureConfig(config: Partial<FixtureConfig> = {}): FixtureConfig {
+  const envMode = process.env.FAAB_FIXTURE_MODE;
+  if (envMode && !FixtureRecorder.isFixtureMode(envMode)) {
+    throw new Error(`Invalid FAAB_FIXTURE_MODE "${envMode}". Expected one of: ${FIXTURE_MODES.join(', ')}`);
+  }
+
+  return {
+    mode: (envMode as FixtureMode | undefined) || config.mode || DEFAULT_FIXTURE_CONFIG.mode,
+    directory: process.env.FAAB_FIXTURE_DIR || config.directory || DEFAULT_FIXTURE_CONFIG.directory
+  };
+}
+
+// Shared recorder used by every API base client
+let fixtureRecorderInstance: FixtureRecorder | null = null;
+
+export function getFixtureRecorder(): FixtureRecorder {
+  if (!fixtureRecorderInstance) {
+    fixtureRecorderInstance = new FixtureRecorder(resolveFixtureConfig());
+  }
+  return fixtureRecorderInstance;
+}
+
+export function configureFixtures(config: FixtureConfig): FixtureRecorder {
+  fixtureRecorderInstance = new FixtureRecorder(config);
+  return fixtureRecorderInstance;
+}
+
+export function resetFixtureRecorder(): void {
+  fixtureRecorderInstance = null;
+}
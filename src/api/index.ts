@@ -38,4 +38,6 @@ export {
 } from './blog-platform';
 
 export * from './rate-limiter';
-export * from './cache-manager';
\ No newline at end of file
+export * from './cache-manager';
+export * from './fixture-recorder';
+export * from './disk-cache-store';
\ No newline at end of file
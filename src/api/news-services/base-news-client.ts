@@ -2,7 +2,9 @@
 
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import { RateLimiter } from '../rate-limiter';
-import { CacheManager } from '../cache-manager';
+import { CacheManager, CachePersistence } from '../cache-manager';
+import { getDiskCacheStore } from '../disk-cache-store';
+import { FixtureErrorMapping, FixtureRequest, getFixtureRecorder } from '../fixture-recorder';
 import { NewsServiceConfig } from '../../models/config';
 import { NewsAPIError, APIResponse } from './types';
 
@@ -30,7 +32,7 @@ export abstract class BaseNewsClient {
     this.cache = new CacheManager({
       defaultTTL: 600000, // 10 minutes for news
       maxSize: 500
-    });
+    }, this.getCachePersistence());
 
     this.setupInterceptors();
   }
@@ -80,49 +82,60 @@ export abstract class BaseNewsClient {
     cacheTTL?: number
   ): Promise<APIResponse<T>> {
     const cacheKey = `${method}:${endpoint}:${JSON.stringify(data || {})}`;
+    const fixtures = getFixtureRecorder();
+    // Fixture runs bypass the response cache: a cached hit would skip recording or stand in for the
+    // recorded response, and replayed responses mustn't end up in the live cache
+    const cacheable = method === 'GET' && useCache && fixtures.getMode() === 'off';
     
     // Check cache first for GET requests
-    if (method === 'GET' && useCache) {
-      const cached = this.cache.get(cacheKey);
+    if (cacheable) {
+      const cached = await this.cache.getOrLoad(cacheKey);
       if (cached) {
-        return cached as APIResponse<T>;
+        return this.reviveResponse<T>(cached);
       }
     }
 
+    const fixtureRequest: FixtureRequest = {
+      source: this.config.name,
+      method,
+      baseUrl: this.config.baseUrl,
+      endpoint,
+      ...(data !== undefined && { data })
+    };
+
     try {
-      let response: AxiosResponse<T>;
-      
-      switch (method) {
-        case 'GET':
-          response = await this.axios.get(endpoint, { params: data });
-          break;
-        case 'POST':
-          response = await this.axios.post(endpoint, data);
-          break;
-        case 'PUT':
-          response = await this.axios.put(endpoint, data);
-          break;
-        case 'DELETE':
-          response = await this.axios.delete(endpoint);
-          break;
-        default:
-          throw new Error(`Unsupported HTTP method: ${method}`);
-      }
+      const response = await fixtures.send(
+        fixtureRequest,
+        async () => {
+          const sent = await this.sendRequest<T>(method, endpoint, data);
+          return { data: sent.data, status: sent.status, headers: sent.headers as Record<string, string> };
+        },
+        this.fixtureErrors
+      );
 
       const apiResponse: APIResponse<T> = {
         data: response.data,
         status: response.status,
-        headers: response.headers as Record<string, string>,
+        headers: response.headers,
         timestamp: new Date()
       };
 
       // Cache successful GET responses
-      if (method === 'GET' && useCache && response.status === 200) {
+      if (cacheable && response.status === 200) {
         this.cache.set(cacheKey, apiResponse, cacheTTL);
       }
 
       return apiResponse;
     } catch (error) {
+      // Fall back to the last good response when the disk cache kept one
+      if (cacheable) {
+        const stale = await this.cache.getStale(cacheKey);
+        if (stale) {
+          console.warn(`${this.config.name} request to ${endpoint} failed, using the response cached at ${stale.timestamp.toISOString()}`);
+          return this.reviveResponse<T>(stale.data);
+        }
+      }
+      
       if (error instanceof NewsAPIError) {
         throw error;
       }
@@ -136,6 +149,43 @@ export abstract class BaseNewsClient {
     }
   }
 
+  private getCachePersistence(): CachePersistence | undefined {
+    const store = getDiskCacheStore();
+    return store ? { store, namespace: this.config.name } : undefined;
+  }
+
+  // Responses read back from disk carry their timestamp as a string
+  private reviveResponse<T>(response: APIResponse<unknown>): APIResponse<T> {
+    return { ...response, timestamp: new Date(response.timestamp) } as APIResponse<T>;
+  }
+
+  private async sendRequest<T>(
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+    endpoint: string,
+    data?: any
+  ): Promise<AxiosResponse<T>> {
+    switch (method) {
+      case 'GET':
+        return this.axios.get(endpoint, { params: data });
+      case 'POST':
+        return this.axios.post(endpoint, data);
+      case 'PUT':
+        return this.axios.put(endpoint, data);
+      case 'DELETE':
+        return this.axios.delete(endpoint);
+      default:
+        throw new Error(`Unsupported HTTP method: ${method}`);
+    }
+  }
+
+  // Fixtures keep HTTP failures so replays raise the same NewsAPIError
+  private fixtureErrors: FixtureErrorMapping = {
+    toFixture: error => error instanceof NewsAPIError && error.statusCode
+      ? { data: error.response ?? null, status: error.statusCode, headers: {}, error: error.message }
+      : null,
+    fromFixture: recorded => new NewsAPIError(recorded.error || 'Recorded request failed', this.config.name, recorded.status, recorded.data)
+  };
+
   protected async get<T>(endpoint: string, params?: any, useCache: boolean = true, cacheTTL?: number): Promise<APIResponse<T>> {
     return this.makeRequest<T>('GET', endpoint, params, useCache, cacheTTL);
   }
@@ -0,0 +1,156 @@
+// Tests for reading RSS and Atom feeds into player news
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { FeedNewsClient } from './feed-news-client';
+import { PlayerSummary } from '../../models/player';
+
+const RSS_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>Commanders Beat</title>
+    <item>
+      <title>Robinson limited again as McNichols takes first-team reps</title>
+      <link>https://example.com/commanders/robinson-limited</link>
+      <pubDate>Wed, 16 Oct 2024 18:30:00 GMT</pubDate>
+      <description><![CDATA[<p>Brian Robinson Jr. was <b>limited</b> with a hamstring injury.</p>]]></description>
+    </item>
+    <item>
+      <title>McNichols could lead the backfield Sunday</title>
+      <link>https://example.com/commanders/mcnichols-lead</link>
+      <dc:date>2024-10-17T12:00:00Z</dc:date>
+      <description>McNichols handled most of the work in practice.</description>
+    </item>
+    <item>
+      <title>Entry without a date</title>
+      <link>https://example.com/commanders/undated</link>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM_FEED = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Injury Wire</title>
+  <entry>
+    <title type="html">Jeremy McNichols expected to start for Washington</title>
+    <link rel="alternate" href="https://example.com/injuries/mcnichols-start"/>
+    <published>2024-10-18T09:15:00Z</published>
+    <summary type="html">&lt;p&gt;With Robinson out, the backup steps in.&lt;/p&gt;</summary>
+  </entry>
+</feed>`;
+
+const player: PlayerSummary = {
+  playerId: 'p1',
+  name: 'Jeremy McNichols',
+  position: 'RB',
+  team: 'WAS',
+  additionCount: 1200,
+  additionPercentage: 35,
+  platforms: ['ESPN']
+};
+
+describe('FeedNewsClient', () => {
+  let tempDir: string;
+  let rssFile: string;
+  let atomFile: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'feeds-'));
+    rssFile = path.join(tempDir, 'commanders.xml');
+    atomFile = path.join(tempDir, 'injuries.atom');
+    await fs.writeFile(rssFile, RSS_FEED);
+    await fs.writeFile(atomFile, ATOM_FEED);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should parse RSS items, stripping HTML and skipping undated entries', () => {
+    const articles = FeedNewsClient.parseFeed(RSS_FEED, 'Commanders Beat');
+
+    expect(articles).toHaveLength(2);
+    expect(articles[0]).toEqual({
+      title: 'Robinson limited again as McNichols takes first-team reps',
+      source: 'Commanders Beat',
+      publishDate: new Date('2024-10-16T18:30:00Z'),
+      summary: 'Brian Robinson Jr. was limited with a hamstring injury.',
+      url: 'https://example.com/commanders/robinson-limited',
+      sentiment: 'neutral'
+    });
+    expect(articles[1]?.publishDate).toEqual(new Date('2024-10-17T12:00:00Z'));
+  });
+
+  it('should parse Atom entries', () => {
+    const [article] = FeedNewsClient.parseFeed(ATOM_FEED, 'Injury Wire');
+
+    expect(article).toMatchObject({
+      title: 'Jeremy McNichols expected to start for Washington',
+      url: 'https://example.com/injuries/mcnichols-start',
+      summary: 'With Robinson out, the backup steps in.',
+      publishDate: new Date('2024-10-18T09:15:00Z')
+    });
+  });
+
+  it('should match players by full name, and by last name in their team beat feed', async () => {
+    const client = new FeedNewsClient({
+      enabled: true,
+      maxArticlesPerFeed: 50,
+      sources: [
+        { name: 'Commanders Beat', url: rssFile, team: 'WAS' },
+        { name: 'Injury Wire', url: pathToFileURL(atomFile).href }
+      ]
+    });
+
+    const articles = await client.getArticlesForPlayer(player);
+    const otherTeam = await client.getArticlesForPlayer({ ...player, name: 'Tony McNichols', team: 'DAL' });
+
+    expect(articles.map(article => `${article.source}: ${article.title}`)).toEqual([
+      'Commanders Beat: McNichols could lead the backfield Sunday',
+      'Commanders Beat: Robinson limited again as McNichols takes first-team reps',
+      'Injury Wire: Jeremy McNichols expected to start for Washington'
+    ]);
+    expect(otherTeam).toEqual([]);
+  });
+
+  it('should keep the newest entries per feed and skip feeds that cannot be read', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const client = new FeedNewsClient({
+      enabled: true,
+      maxArticlesPerFeed: 1,
+      sources: [
+        { name: 'Commanders Beat', url: rssFile },
+        { name: 'Missing', url: path.join(tempDir, 'missing.xml') }
+      ]
+    });
+
+    const articles = await client.getRecentNews();
+
+    expect(articles.map(article => article.url)).toEqual(['https://example.com/commanders/mcnichols-lead']);
+    expect(warn).toHaveBeenCalledWith('Failed to read news feed Missing:', expect.anything());
+    warn.mockRestore();
+  });
+
+  it('should read the feeds again for each run', async () => {
+    const client = new FeedNewsClient({
+      enabled: true,
+      maxArticlesPerFeed: 10,
+      sources: [{ name: 'Injury Wire', url: atomFile }]
+    });
+    expect(await client.getRecentNews()).toHaveLength(1);
+
+    await fs.writeFile(atomFile, ATOM_FEED.replace('</feed>', `  <entry>
+    <title>Jeremy McNichols limited in practice</title>
+    <link rel="alternate" href="https://example.com/injuries/mcnichols-limited"/>
+    <published>2024-10-24T09:15:00Z</published>
+  </entry>
+</feed>`));
+    expect(await client.getRecentNews()).toHaveLength(1);
+
+    client.refresh();
+    expect((await client.getRecentNews())[0]?.url).toBe('https://example.com/injuries/mcnichols-limited');
+  });
+});
@@ -0,0 +1,188 @@
+// RSS/Atom feed client for team beat writers, injury feeds and other configured sources
+
+import * as fs from 'fs/promises';
+import { fileURLToPath } from 'url';
+import * as cheerio from 'cheerio';
+import { AxiosRequestConfig } from 'axios';
+import { BaseNewsClient } from './base-news-client';
+import { NewsArticle, PlayerSummary } from '../../models/player';
+import { NewsServiceConfig } from '../../models/config';
+import { DEFAULT_NEWS_FEED_CONFIG, NewsFeedConfig, NewsFeedSource } from '../../models/news-feed';
+
+// Feeds are public, so the client needs no key; the limits just keep it polite
+const FEED_SERVICE_CONFIG: NewsServiceConfig = {
+  name: 'News Feeds',
+  apiKey: '',
+  baseUrl: '',
+  rateLimit: {
+    requestsPerMinute: 30,
+    requestsPerHour: 500
+  },
+  enabled: true
+};
+
+// Feeds are refetched at most this often within a run
+const FEED_CACHE_TTL = 900000;
+
+const NAME_SUFFIXES = ['jr', 'jr.', 'sr', 'sr.', 'ii', 'iii', 'iv', 'v'];
+
+interface FeedArticle {
+  article: NewsArticle;
+  feed: NewsFeedSource;
+}
+
+export class FeedNewsClient extends BaseNewsClient {
+  private feedConfig: NewsFeedConfig;
+  private articles: Promise<FeedArticle[]> | null = null;
+
+  constructor(feedConfig: NewsFeedConfig = DEFAULT_NEWS_FEED_CONFIG, serviceConfig: NewsServiceConfig = FEED_SERVICE_CONFIG) {
+    super(serviceConfig);
+    this.feedConfig = feedConfig;
+    this.authenticated = true;
+    this.axios.defaults.headers.common['Accept'] = 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8';
+    this.axios.defaults.responseType = 'text';
+  }
+
+  protected addAuthHeaders(config: AxiosRequestConfig): AxiosRequestConfig {
+    return config;
+  }
+
+  public async getPlayerNews(_playerId: string, playerName: string): Promise<NewsArticle[]> {
+    return this.searchNews(playerName);
+  }
+
+  public async getRecentNews(limit: number = 50): Promise<NewsArticle[]> {
+    const articles = await this.loadArticles();
+    return articles
+      .map(({ article }) => article)
+      .sort((a, b) => b.publishDate.getTime() - a.publishDate.getTime())
+      .slice(0, limit);
+  }
+
+  public async searchNews(query: string, limit: number = 20): Promise<NewsArticle[]> {
+    const queryLower = query.toLowerCase();
+    const articles = await this.loadArticles();
+    return articles
+      .filter(({ article }) => `${article.title} ${article.summary}`.toLowerCase().includes(queryLower))
+      .map(({ article }) => article)
+      .slice(0, limit);
+  }
+
+  /**
+   * Articles naming the player in full, plus articles from their team's beat feeds that use
+   * only their last name, as beat writers usually do after the first mention
+   */
+  public async getArticlesForPlayer(player: PlayerSummary): Promise<NewsArticle[]> {
+    const articles = await this.loadArticles();
+    return articles
+      .filter(({ article, feed }) => FeedNewsClient.mentionsPlayer(article, feed, player))
+      .map(({ article }) => article);
+  }
+
+  /**
+   * Parse an RSS 2.0 or Atom document into articles credited to the given source. Entries
+   * without a title, link or readable date are skipped.
+   */
+  static parseFeed(xml: string, sourceName: string): NewsArticle[] {
+    const $ = cheerio.load(xml, { xml: true });
+    const toText = (html: string) => cheerio.load(html).text().replace(/\s+/g, ' ').trim();
+    const articles: NewsArticle[] = [];
+
+    $('item, entry').each((_, element) => {
+      const entry = $(element);
+      const title = toText(entry.children('title').first().text());
+      const atomLink = entry.children('link[rel="alternate"]').first().attr('href') || entry.children('link').first().attr('href');
+      const url = (atomLink || entry.children('link').first().text() || entry.children('guid').first().text()).trim();
+      const dateText = entry.children('pubDate, published, updated, dc\\:date').first().text().trim();
+      const publishDate = new Date(dateText);
+      const body = entry.children('description, summary, content').first().text();
+
+      if (!title || !url || isNaN(publishDate.getTime())) {
+        return;
+      }
+
+      articles.push({
+        title,
+        source: sourceName,
+        publishDate,
+        summary: toText(body) || title,
+        url,
+        sentiment: 'neutral' // Analyzed with the rest of the player's news
+      });
+    });
+
+    return articles;
+  }
+
+  /**
+   * Read the feeds again on next use rather than serving the last run's articles. Fetches still
+   * go through the response cache, so a feed is downloaded at most once per FEED_CACHE_TTL.
+   */
+  public refresh(): void {
+    this.articles = null;
+  }
+
+  public override clearCache(): void {
+    super.clearCache();
+    this.articles = null;
+  }
+
+  // Every feed is read once and shared by all the players researched in a run
+  private loadArticles(): Promise<FeedArticle[]> {
+    if (!this.articles) {
+      this.articles = this.loadAllFeeds();
+    }
+    return this.articles;
+  }
+
+  private async loadAllFeeds(): Promise<FeedArticle[]> {
+    const results = await Promise.allSettled(this.feedConfig.sources.map(async feed => {
+      const articles = FeedNewsClient.parseFeed(await this.readFeed(feed.url), feed.name)
+        .sort((a, b) => b.publishDate.getTime() - a.publishDate.getTime())
+        .slice(0, this.feedConfig.maxArticlesPerFeed);
+      return articles.map(article => ({ article, feed }));
+    }));
+
+    return results.flatMap((result, index) => {
+      if (result.status === 'rejected') {
+        console.warn(`Failed to read news feed ${this.feedConfig.sources[index]!.name}:`, result.reason);
+        return [];
+      }
+      return result.value;
+    });
+  }
+
+  private async readFeed(location: string): Promise<string> {
+    if (location.startsWith('file://')) {
+      return fs.readFile(fileURLToPath(location), 'utf-8');
+    }
+    if (!/^https?:\/\//i.test(location)) {
+      return fs.readFile(location, 'utf-8');
+    }
+
+    try {
+      const response = await this.get<string>(location, undefined, true, FEED_CACHE_TTL);
+      return String(response.data ?? '');
+    } catch (error) {
+      this.handleError(error, `Failed to fetch feed ${location}`);
+    }
+  }
+
+  private static mentionsPlayer(article: NewsArticle, feed: NewsFeedSource, player: PlayerSummary): boolean {
+    const text = `${article.title} ${article.summary}`.toLowerCase();
+    if (text.includes(player.name.toLowerCase())) {
+      return true;
+    }
+
+    if (!feed.team || feed.team.toUpperCase() !== player.team.toUpperCase()) {
+      return false;
+    }
+
+    const lastName = player.name.toLowerCase().split(/\s+/).filter(part => !NAME_SUFFIXES.includes(part)).pop();
+    if (!lastName || lastName.length < 3) {
+      return false;
+    }
+    const escaped = lastName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`\\b${escaped}\\b`).test(text);
+  }
+}
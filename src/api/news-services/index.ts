@@ -3,6 +3,7 @@
 export { BaseNewsClient } from './base-news-client';
 export { ESPNNewsClient } from './espn-news-client';
 export { SportsDataClient } from './sports-data-client';
+export { FeedNewsClient } from './feed-news-client';
 export { SentimentAnalyzer } from './sentiment-analyzer';
 export { 
   NewsAPIError,
@@ -2,8 +2,11 @@
 
 import { AxiosRequestConfig } from 'axios';
 import { BaseNewsClient } from './base-news-client';
-import { PlayerStats, InjuryReport } from '../../models/player';
+import { PlayerStats, InjuryReport, PlayerInjuryReport } from '../../models/player';
 import { NewsServiceConfig } from '../../models/config';
+import { getSeasonCalendar } from '../../models/season';
+import { IDPUtils } from '../../models/idp';
+import { InjuryTimelineUtils } from '../../models/injury-timeline';
 import { 
   SportsDataPlayerStats, 
   SportsDataGameStats, 
@@ -44,7 +47,7 @@ export class SportsDataClient extends BaseNewsClient {
 
   public async getPlayerStats(playerId: string, season?: number, week?: number): Promise<PlayerStats> {
     try {
-      const currentSeason = season || new Date().getFullYear();
+      const currentSeason = season || getSeasonCalendar().getCurrentSeason();
       
       let endpoint: string;
       if (week) {
@@ -90,7 +93,7 @@ export class SportsDataClient extends BaseNewsClient {
     }
   }
 
-  public async getInjuryReports(): Promise<InjuryReport[]> {
+  public async getInjuryReports(): Promise<PlayerInjuryReport[]> {
     try {
       const endpoint = '/scores/json/Injuries';
       
@@ -100,7 +103,16 @@ export class SportsDataClient extends BaseNewsClient {
         return [];
       }
 
-      return this.transformInjuryReports(response.data);
+      // Keep who each report is about, so teammates' injuries can be cross-referenced
+      const reports = this.transformInjuryReports(response.data);
+      return response.data.map((injury, index) => ({
+        ...reports[index]!,
+        playerId: String(injury.PlayerID),
+        name: injury.Name,
+        team: injury.Team,
+        position: injury.Position,
+        ...(injury.Updated && { updatedAt: new Date(injury.Updated) })
+      }));
     } catch (error) {
       this.handleError(error, 'Failed to fetch injury reports');
     }
@@ -108,23 +120,23 @@ export class SportsDataClient extends BaseNewsClient {
 
   public async getPlayerInjuryStatus(playerId: string): Promise<InjuryReport | null> {
     try {
-      const allInjuries = await this.getInjuryReports();
+      const response = await this.get<InjuryReportData[]>('/scores/json/Injuries');
       
-      // Find injury report for specific player
-      const playerInjury = allInjuries.find(injury => 
-        injury.description?.includes(playerId) // This would need better player matching
+      // Find injury report for specific player by SportsData player ID
+      const playerInjury = (response.data || []).find(injury => 
+        String(injury.PlayerID) === playerId
       );
       
-      return playerInjury || null;
+      return playerInjury ? this.transformInjuryReports([playerInjury])[0] || null : null;
     } catch (error) {
-      console.warn(`Failed to fetch injury status for player ${playerId}:`, error);
-      return null;
+      // Not being on the report means healthy, so a failed lookup has to surface rather than return null
+      this.handleError(error, `Failed to fetch injury status for player ${playerId}`);
     }
   }
 
   public async getSchedule(week?: number): Promise<any[]> {
     try {
-      const currentSeason = new Date().getFullYear();
+      const currentSeason = getSeasonCalendar().getCurrentSeason();
       
       let endpoint: string;
       if (week) {
@@ -143,7 +155,7 @@ export class SportsDataClient extends BaseNewsClient {
 
   public async getTeamStats(team: string, season?: number): Promise<any> {
     try {
-      const currentSeason = season || new Date().getFullYear();
+      const currentSeason = season || getSeasonCalendar().getCurrentSeason();
       const endpoint = `/scores/json/TeamSeasonStats/${currentSeason}REG`;
       
       const response = await this.get<any[]>(endpoint);
@@ -165,7 +177,7 @@ export class SportsDataClient extends BaseNewsClient {
 
   public async getWeeklyStats(week: number, season?: number): Promise<SportsDataGameStats[]> {
     try {
-      const currentSeason = season || new Date().getFullYear();
+      const currentSeason = season || getSeasonCalendar().getCurrentSeason();
       const endpoint = `/stats/json/PlayerGameStatsByWeek/${currentSeason}REG/${week}`;
       
       const response = await this.get<SportsDataGameStats[]>(endpoint);
@@ -176,9 +188,25 @@ export class SportsDataClient extends BaseNewsClient {
     }
   }
 
+  /**
+   * Every player's stats inside the opponent's 20 for one week, in the same shape as the weekly stats
+   */
+  public async getRedZoneStats(week: number, season?: number): Promise<SportsDataGameStats[]> {
+    try {
+      const currentSeason = season || getSeasonCalendar().getCurrentSeason();
+      const endpoint = `/stats/json/PlayerGameRedZoneStats/${currentSeason}REG/${week}`;
+      
+      const response = await this.get<SportsDataGameStats[]>(endpoint);
+      
+      return response.data || [];
+    } catch (error) {
+      this.handleError(error, `Failed to fetch red zone stats for week ${week}`);
+    }
+  }
+
   public async getPlayerProjections(playerId: string, week?: number): Promise<any> {
     try {
-      const currentSeason = new Date().getFullYear();
+      const currentSeason = getSeasonCalendar().getCurrentSeason();
       
       let endpoint: string;
       if (week) {
@@ -196,14 +224,23 @@ export class SportsDataClient extends BaseNewsClient {
   }
 
   private transformSportsDataStats(stats: SportsDataGameStats): PlayerStats {
+    const isDefender = IDPUtils.isIDPPosition(IDPUtils.normalizePosition(stats.Position));
+    const tackles = (stats.SoloTackles || 0) + (stats.AssistedTackles || 0);
+
     return {
       season: stats.Season,
       week: stats.Week,
-      fantasyPoints: stats.FantasyPoints || 0,
+      // SportsData's fantasy points only count offensive stats, so defenders are scored from their IDP stats
+      fantasyPoints: isDefender ? SportsDataClient.calculateIDPFantasyPoints(stats) : stats.FantasyPoints || 0,
       projectedPoints: 0, // Would need separate projection call
       usage: {
         ...(stats.ReceivingTargets !== undefined && { targets: stats.ReceivingTargets }),
-        ...(stats.RushingAttempts !== undefined && { carries: stats.RushingAttempts })
+        ...(stats.RushingAttempts !== undefined && { carries: stats.RushingAttempts }),
+        ...(isDefender && {
+          tackles,
+          sacks: stats.Sacks || 0,
+          interceptions: stats.Interceptions || 0
+        })
       },
       efficiency: {
         ...(stats.ReceivingYardsPerTarget !== undefined && { yardsPerTarget: stats.ReceivingYardsPerTarget }),
@@ -212,6 +249,17 @@ export class SportsDataClient extends BaseNewsClient {
     };
   }
 
+  private static calculateIDPFantasyPoints(stats: SportsDataGameStats): number {
+    return IDPUtils.calculateFantasyPoints({
+      soloTackles: stats.SoloTackles || 0,
+      assistedTackles: stats.AssistedTackles || 0,
+      sacks: stats.Sacks || 0,
+      interceptions: stats.Interceptions || 0,
+      passesDefended: stats.PassesDefended || 0,
+      fumblesRecovered: stats.FumblesRecovered || 0
+    });
+  }
+
   private transformInjuryReports(reports: InjuryReportData[]): InjuryReport[] {
     return reports.map(report => {
       const injuryReport: InjuryReport = {
@@ -220,8 +268,18 @@ export class SportsDataClient extends BaseNewsClient {
         impactLevel: this.assessInjuryImpact(report.InjuryStatus, report.InjuryBodyPart)
       };
       
-      if (report.InjuryStartDate) {
-        injuryReport.expectedReturn = new Date(report.InjuryStartDate);
+      // InjuryStartDate is when the injury happened; a return estimate only comes from the notes
+      const expectedReturn = InjuryTimelineUtils.parseReturnEstimate(
+        `${report.InjuryDetails || ''} ${report.PracticeDescription || ''}`,
+        report.Updated ? new Date(report.Updated) : new Date()
+      );
+      if (expectedReturn) {
+        injuryReport.expectedReturn = expectedReturn;
+      }
+
+      const practice = InjuryTimelineUtils.parsePractice(report.Practice);
+      if (practice) {
+        injuryReport.practice = practice;
       }
       
       return injuryReport;
@@ -229,7 +287,7 @@ export class SportsDataClient extends BaseNewsClient {
   }
 
   private mapInjuryStatus(status: string): InjuryReport['status'] {
-    const statusLower = status.toLowerCase();
+    const statusLower = (status || '').toLowerCase().trim();
     
     if (statusLower.includes('out') || statusLower.includes('inactive')) {
       return 'out';
@@ -244,7 +302,9 @@ export class SportsDataClient extends BaseNewsClient {
       return 'ir';
     }
     
-    return 'healthy';
+    // Listed without a game designation (e.g. a full participant in practice) is healthy;
+    // a designation we don't recognize shouldn't pass for one
+    return statusLower === '' || statusLower === 'probable' ? 'healthy' : 'unknown';
   }
 
   private assessInjuryImpact(status: string, bodyPart: string): InjuryReport['impactLevel'] {
@@ -271,7 +331,7 @@ export class SportsDataClient extends BaseNewsClient {
 
   public async getDefenseVsPositionStats(position: string): Promise<any[]> {
     try {
-      const currentSeason = new Date().getFullYear();
+      const currentSeason = getSeasonCalendar().getCurrentSeason();
       const endpoint = `/scores/json/FantasyDefenseByGame/${currentSeason}REG`;
       
       const response = await this.get<any[]>(endpoint);
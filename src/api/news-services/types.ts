@@ -110,6 +110,43 @@ export interface SportsDataPlayerStats {
   UpcomingSalary: number;
 }
 
+// Fields we read from SportsData's Scores, FantasyDefenseByGame and TeamSeasonStats feeds
+export interface SportsDataScheduleGame {
+  Week: number;
+  HomeTeam: string;
+  AwayTeam: string; // 'BYE' on bye-week rows
+  DateTime?: string;
+  Date?: string;
+  PointSpread?: number | null; // Home team's spread; negative when the home team is favored
+  OverUnder?: number | null;
+}
+
+export interface SportsDataDefenseGame {
+  Team: string;
+  Opponent: string;
+  Week: number;
+  FantasyPoints: number;
+  PointsAllowed: number;
+  Sacks: number;
+  Interceptions: number;
+  FumblesRecovered: number;
+  // Fantasy points the defense allowed to each position in the game
+  QuarterbackFantasyPointsAllowed?: number;
+  RunningbackFantasyPointsAllowed?: number;
+  WideReceiverFantasyPointsAllowed?: number;
+  TightEndFantasyPointsAllowed?: number;
+  KickerFantasyPointsAllowed?: number;
+}
+
+export interface SportsDataTeamSeasonStats {
+  Team: string;
+  Games: number;
+  Score: number;
+  OpponentScore: number;
+  FieldGoalAttempts: number;
+  FieldGoalsMade: number;
+}
+
 export interface SportsDataGameStats {
   StatID: number;
   TeamID: number;
@@ -148,6 +185,14 @@ export interface SportsDataGameStats {
   RushingYardsPerAttempt: number;
   ReceivingYardsPerReception: number;
   ReceivingYardsPerTarget: number;
+  OffensiveSnapsPlayed?: number;
+  OffensiveTeamSnaps?: number;
+  SoloTackles?: number;
+  AssistedTackles?: number;
+  Sacks?: number;
+  Interceptions?: number;
+  PassesDefended?: number;
+  FumblesRecovered?: number;
 }
 
 export interface InjuryReportData {
@@ -161,6 +206,8 @@ export interface InjuryReportData {
   InjuryStartDate: string;
   InjuryDetails: string;
   DeclaredInactive: boolean;
+  Practice?: string; // e.g. "Limited Participation in Practice"
+  PracticeDescription?: string;
   Updated: string;
 }
 
@@ -5,6 +5,16 @@ export interface RateLimitConfig {
   requestsPerHour: number;
 }
 
+// The remaining budget API clients report through getRateLimitStatus
+export interface RateLimitStatus {
+  remaining: { minute: number; hour: number };
+  resetTimes: { minute: Date; hour: Date };
+}
+
+export interface RateLimitedClient {
+  getRateLimitStatus(): RateLimitStatus;
+}
+
 export interface RateLimitState {
   minuteRequests: number;
   hourRequests: number;
@@ -5,6 +5,12 @@
 import { Command } from 'commander';
 import { FantasyFootballFAABBlogApp } from './index';
 import { getContainer } from './container';
+import { getPlayerIdentityRegistry } from './services/player-identity-registry';
+import { PipelineSnapshotStore, PIPELINE_STAGES } from './services/pipeline-snapshot-store';
+import { DryRunResult } from './services/orchestrator';
+import { BacktestService, DEFAULT_BACKTEST_HORIZON } from './services/backtest-service';
+import { BacktestReport, ExecutionResult, ScoringModelUtils } from './models';
+import { FixtureRecorder, FIXTURE_MODES } from './api/fixture-recorder';
 import { Logger } from './utils';
 
 const program = new Command();
@@ -13,7 +19,27 @@ const logger = new Logger('CLI');
 program
   .name('faab-blog')
   .description('Fantasy Football FAAB Blog System CLI')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--fixtures <mode>', `Record or replay external API calls (${FIXTURE_MODES.join(', ')})`)
+  .option('--fixture-dir <directory>', 'Directory for recorded API fixtures')
+  .option('--scoring-model <name>', 'Named scoring model to analyze players with (defaults to the configured active model)')
+  .hook('preAction', () => {
+    const { fixtures, fixtureDir, scoringModel } = program.opts();
+    
+    if (fixtures) {
+      if (!FixtureRecorder.isFixtureMode(fixtures)) {
+        console.error(`❌ Unknown fixture mode "${fixtures}". Expected one of: ${FIXTURE_MODES.join(', ')}`);
+        process.exit(1);
+      }
+      process.env.FAAB_FIXTURE_MODE = fixtures;
+    }
+    if (fixtureDir) {
+      process.env.FAAB_FIXTURE_DIR = fixtureDir;
+    }
+    if (scoringModel) {
+      process.env.FAAB_SCORING_MODEL = scoringModel;
+    }
+  });
 
 program
   .command('start')
@@ -51,10 +77,25 @@ program
 program
   .command('run')
   .description('Execute a single blog post generation manually')
-  .action(async () => {
-    const app = new FantasyFootballFAABBlogApp();
-    
+  .option('-d, --dry-run', 'Stop after the writer and save a preview instead of publishing')
+  .option('-o, --out <directory>', 'Directory for dry-run preview files', './preview')
+  .action(async (options) => {
     try {
+      if (options.dryRun) {
+        console.log('🚀 Starting dry run (nothing will be published)...');
+        
+        // A preview needs the pipeline only, not the scheduler or the health checks against the blog
+        const container = getContainer();
+        await container.initialize();
+        
+        const dryRun = await container.getService('orchestrator').executeDryRun(options.out);
+        await container.shutdown();
+        
+        printDryRunReport(dryRun);
+        return;
+      }
+      
+      const app = new FantasyFootballFAABBlogApp();
       console.log('🚀 Starting manual blog post generation...');
       
       await app.start();
@@ -63,11 +104,15 @@ program
       
       if (result.success) {
         console.log('✅ Blog post generated successfully!');
+        if (result.executionId) {
+          console.log(`🆔 Execution ID: ${result.executionId}`);
+        }
         if (result.publishedPostId) {
           console.log(`📝 Published post ID: ${result.publishedPostId}`);
         }
         console.log(`⏱️  Execution time: ${result.endTime.getTime() - result.startTime.getTime()}ms`);
         console.log(`🤖 Agents executed: ${result.agentsExecuted.join(', ')}`);
+        printSelection(result);
       } else {
         console.log('❌ Blog post generation failed');
         result.errors.forEach(error => {
@@ -76,6 +121,9 @@ program
         result.warnings.forEach(warning => {
           console.warn(`   Warning: ${warning}`);
         });
+        if (result.executionId) {
+          console.log(`🔁 Resume with: faab-blog resume ${result.executionId}`);
+        }
       }
       
     } catch (error) {
@@ -84,6 +132,92 @@ program
     }
   });
 
+function printSelection({ selection }: ExecutionResult): void {
+  if (!selection || selection.length === 0) {
+    return;
+  }
+
+  const featured = selection.filter(decision => decision.selected);
+  console.log(`🎯 Featured ${featured.length} of ${selection.length} candidates:`);
+  featured.forEach(decision => {
+    console.log(`   ✅ ${decision.name} (${decision.position}) - ${decision.reason}`);
+  });
+
+  // Skipped players ranked above the last featured one are the interesting ones
+  const lastFeaturedRank = Math.max(0, ...featured.map(decision => decision.rank));
+  selection
+    .filter(decision => !decision.selected && decision.rank < lastFeaturedRank)
+    .forEach(decision => {
+      console.log(`   ⏭️  ${decision.name} (${decision.position}) - ${decision.reason}`);
+    });
+}
+
+function printDryRunReport({ result, report }: DryRunResult): void {
+  if (!result.success || !report) {
+    console.log('❌ Dry run failed');
+    result.errors.forEach(error => {
+      console.error(`   Error: ${error.message}`);
+    });
+    return;
+  }
+
+  const { analysisQuality } = report;
+  
+  console.log(`✅ Preview of "${report.title}" written to ${report.outputDirectory}`);
+  report.files.forEach(file => console.log(`   📄 ${file}`));
+  
+  console.log('🔎 Validation Report:');
+  console.log(`   Blog post: ${report.blogPostValid ? '✅ Valid' : '❌ Invalid'}`);
+  console.log(`   Metadata: ${report.metadataValid ? '✅ Valid' : '❌ Invalid'}`);
+  console.log(`   Analyses: ${analysisQuality.valid} valid, ${analysisQuality.invalid} invalid`);
+  analysisQuality.issues.forEach(issue => console.log(`   ⚠️  ${issue}`));
+  analysisQuality.consistencyIssues.forEach(issue => console.log(`   ⚠️  ${issue}`));
+  result.warnings.forEach(warning => console.warn(`   Warning: ${warning}`));
+  printSelection(result);
+  
+  if (result.executionId) {
+    console.log(`🔁 Publish this preview with: faab-blog resume ${result.executionId}`);
+  }
+}
+
+program
+  .command('resume <executionId>')
+  .description('Resume an execution from its saved stage snapshots')
+  .option('-f, --from-stage <stage>', `Stage to rerun from (${PIPELINE_STAGES.join(', ')})`)
+  .action(async (executionId: string, options) => {
+    if (options.fromStage && !PipelineSnapshotStore.isPipelineStage(options.fromStage)) {
+      console.error(`❌ Unknown stage "${options.fromStage}". Expected one of: ${PIPELINE_STAGES.join(', ')}`);
+      process.exit(1);
+    }
+
+    const app = new FantasyFootballFAABBlogApp();
+    
+    try {
+      console.log(`🔁 Resuming execution ${executionId}...`);
+      
+      await app.start();
+      const result = await app.resumeExecution(executionId, options.fromStage);
+      await app.stop();
+      
+      if (result.success) {
+        console.log('✅ Blog post generated successfully!');
+        if (result.publishedPostId) {
+          console.log(`📝 Published post ID: ${result.publishedPostId}`);
+        }
+        console.log(`🤖 Agents executed: ${result.agentsExecuted.join(', ')}`);
+      } else {
+        console.log('❌ Resumed execution failed');
+        result.errors.forEach(error => {
+          console.error(`   Error: ${error.message}`);
+        });
+      }
+      
+    } catch (error) {
+      console.error('❌ Resume failed:', (error as Error).message);
+      process.exit(1);
+    }
+  });
+
 program
   .command('status')
   .description('Check the current status of the system')
@@ -146,6 +280,9 @@ program
             'N/A';
           
           console.log(`   ${index + 1}. ${status} ${date} (${duration})`);
+          if (execution.result?.executionId) {
+            console.log(`      🆔 Execution ID: ${execution.result.executionId}`);
+          }
           if (execution.publishedPostId) {
             console.log(`      📝 Post ID: ${execution.publishedPostId}`);
           }
@@ -185,6 +322,9 @@ program
       console.log(`   Fantasy Platforms: ${config.apis.fantasyPlatforms.map(p => p.name).join(', ')}`);
       console.log(`   News Services: ${config.apis.newsServices.map(s => s.name).join(', ')}`);
       
+      const scoringModel = ScoringModelUtils.resolveScoringModel(config.scoring, process.env.FAAB_SCORING_MODEL);
+      console.log(`   Scoring Model: ${scoringModel.name}@${scoringModel.version} (${scoringModel.scoringType})`);
+      
       await container.shutdown();
       
     } catch (error) {
@@ -228,6 +368,141 @@ program
     }
   });
 
+program
+  .command('backtest')
+  .description('Grade past BUY/PASS recommendations against actual fantasy points')
+  .requiredOption('-s, --season <season>', 'Season to backtest')
+  .requiredOption('-w, --weeks <weeks>', 'Recommendation weeks, e.g. 3-10 or 3,5,7')
+  .option('-H, --horizon <weeks>', 'Weeks of games graded after each recommendation', String(DEFAULT_BACKTEST_HORIZON))
+  .option('--json', 'Print the full report as JSON')
+  .action(async (options) => {
+    const season = parseInt(options.season, 10);
+    const horizon = parseInt(options.horizon, 10);
+    let weeks: number[];
+    
+    try {
+      weeks = BacktestService.parseWeekRange(options.weeks);
+    } catch (error) {
+      console.error(`❌ ${(error as Error).message}`);
+      process.exit(1);
+    }
+    
+    if (isNaN(season) || isNaN(horizon)) {
+      console.error('❌ Season and horizon must be numbers');
+      process.exit(1);
+    }
+
+    try {
+      const container = getContainer();
+      await container.initialize();
+      
+      const report = await container.getService('backtestService').runBacktest(season, weeks, horizon);
+      
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        printBacktestReport(report);
+      }
+      
+      await container.shutdown();
+      
+    } catch (error) {
+      console.error('❌ Backtest failed:', (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+function printBacktestReport(report: BacktestReport): void {
+  const weekRange = `${report.weeks[0]}-${report.weeks[report.weeks.length - 1]}`;
+  console.log(`📈 Backtest: ${report.season} weeks ${weekRange} (${report.horizon}-week horizon)`);
+  console.log(`   Recommendations: ${report.recommendations} (${report.evaluated} graded, ${report.unresolved} unresolved)`);
+  
+  if (report.missingWeeks.length > 0) {
+    console.log(`   ⚠️  No recorded analyses for week(s) ${report.missingWeeks.join(', ')}`);
+  }
+  
+  if (report.evaluated === 0) {
+    console.log('   Nothing to grade yet');
+    return;
+  }
+  
+  console.log(`   Hit rate: ${report.hitRate}%`);
+  console.log(`   BUY: ${report.buy.hits}/${report.buy.count} hits (${report.buy.hitRate}%), ${report.buy.averagePoints} pts/week`);
+  console.log(`   PASS: ${report.pass.hits}/${report.pass.count} hits (${report.pass.hitRate}%), ${report.pass.averagePoints} pts/week`);
+  
+  if (report.models.length > 1) {
+    console.log('🧪 By scoring model:');
+    report.models.forEach(model => {
+      console.log(`   ${model.model}: ${model.hits}/${model.count} hits (${model.hitRate}%)`);
+    });
+  }
+  
+  console.log(`🎯 Calibration (average gap ${report.calibrationError} pts):`);
+  report.calibration.forEach(bucket => {
+    console.log(`   ${bucket.minConfidence}-${bucket.maxConfidence}% confidence: ${bucket.hitRate}% hit rate over ${bucket.count}`);
+  });
+  
+  console.log('🧮 Factor value (correlation with weekly points):');
+  report.factors.forEach(factor => {
+    console.log(`   ${factor.factor}: r=${factor.correlation}, hits ${factor.averageWhenHit} vs misses ${factor.averageWhenMiss} (n=${factor.sampleSize})`);
+  });
+}
+
+const identity = program
+  .command('identity')
+  .description('Inspect and override cross-platform player identities');
+
+identity
+  .command('show <name>')
+  .description('Show canonical IDs and platform IDs for players matching a name')
+  .action(async (name: string) => {
+    try {
+      const registry = getPlayerIdentityRegistry();
+      await registry.load();
+      
+      const matches = registry.findByName(name);
+      if (matches.length === 0) {
+        console.log(`   No identities found for "${name}"`);
+        return;
+      }
+      
+      console.log('🪪 Player Identities:');
+      matches.forEach(match => {
+        console.log(`   ${match.canonicalId}: ${match.name} (${match.position}, ${match.team})`);
+        Object.entries(match.platformIds).forEach(([platform, platformId]) => {
+          console.log(`      ${platform}: ${platformId}`);
+        });
+      });
+    } catch (error) {
+      console.error('❌ Failed to read identities:', (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+identity
+  .command('link <platform> <platformId> <canonicalId>')
+  .description('Manually map a platform player ID to a canonical player ID')
+  .option('-n, --note <text>', 'Reason for the override')
+  .action(async (platform: string, platformId: string, canonicalId: string, options) => {
+    try {
+      const registry = getPlayerIdentityRegistry();
+      await registry.load();
+      
+      registry.setOverride({
+        platform,
+        platformId,
+        canonicalId,
+        ...(options.note && { note: options.note })
+      });
+      await registry.save();
+      
+      console.log(`✅ ${platform} player ${platformId} now resolves to ${canonicalId}`);
+    } catch (error) {
+      console.error('❌ Failed to save override:', (error as Error).message);
+      process.exit(1);
+    }
+  });
+
 // Handle unhandled promise rejections
 process.on('unhandledRejection', (reason, promise) => {
   logger.error('Unhandled Rejection at:', { promise, reason });
@@ -46,6 +46,16 @@ export const DEFAULT_CONFIG: SystemConfig = {
           requestsPerHour: 1000
         },
         enabled: true
+      },
+      {
+        name: 'MFL',
+        apiKey: '',
+        baseUrl: 'https://api.myfantasyleague.com',
+        rateLimit: {
+          requestsPerMinute: 30,
+          requestsPerHour: 500
+        },
+        enabled: true
       }
     ],
     newsServices: [
@@ -2,9 +2,11 @@
 
 import { join } from 'path';
 import { SystemConfig } from './models/config';
+import { SeasonCalendar, getSeasonCalendar } from './models/season';
+import { DEFAULT_STREAMING_CONFIG } from './models/streaming';
 import { ConfigManager } from './config/config-manager';
 import { CredentialManager } from './config/credential-manager';
-import { DataCollectionAgentImpl } from './agents/data-collection-agent';
+import { DataCollectionAgentImpl, DataCollectionConfig } from './agents/data-collection-agent';
 import { ResearchAgent } from './agents/research-agent';
 import { AnalysisAgent } from './agents/analysis-agent';
 import { WriterAgent } from './agents/writer-agent';
@@ -14,9 +16,18 @@ import { OrchestratorService } from './services/orchestrator';
 import { ErrorHandler } from './services/error-handler';
 import { ExecutionTracker } from './services/execution-tracker';
 import { HealthMonitor } from './services/health-monitor';
+import { PreviewWriter } from './services/preview-writer';
+import { LeagueService } from './services/league-service';
+import { BacktestService } from './services/backtest-service';
+import { AdditionHistoryService } from './services/addition-history-service';
+import { InjuryHistoryService } from './services/injury-history-service';
+import { StreamingService } from './services/streaming-service';
+import { DynastyProfileService } from './services/dynasty-profile-service';
+import { PlayerIdentityRegistry, getPlayerIdentityRegistry } from './services/player-identity-registry';
 import { ESPNClient } from './api/fantasy-platforms/espn-client';
 import { YahooClient } from './api/fantasy-platforms/yahoo-client';
 import { SleeperClient } from './api/fantasy-platforms/sleeper-client';
+import { getFantasyPlatformRegistry } from './api/fantasy-platforms/platform-registry';
 import { ESPNNewsClient } from './api/news-services/espn-news-client';
 import { SportsDataClient } from './api/news-services/sports-data-client';
 import { SentimentAnalyzer } from './api/news-services/sentiment-analyzer';
@@ -24,6 +35,8 @@ import { WordPressClient } from './api/blog-platform/wordpress-client';
 import { MediumClient } from './api/blog-platform/medium-client';
 import { RateLimiter } from './api/rate-limiter';
 import { CacheManager } from './api/cache-manager';
+import { configureFixtures, resolveFixtureConfig } from './api/fixture-recorder';
+import { configureDiskCache, DEFAULT_DISK_CACHE_CONFIG } from './api/disk-cache-store';
 import { Logger } from './utils';
 
 export interface ServiceContainer {
@@ -31,12 +44,19 @@ export interface ServiceContainer {
   configManager: ConfigManager;
   credentialManager: CredentialManager;
   systemConfig: SystemConfig;
+  seasonCalendar: SeasonCalendar;
   
   // Core Services
   orchestrator: OrchestratorService;
   errorHandler: ErrorHandler;
   executionTracker: ExecutionTracker;
   healthMonitor: HealthMonitor;
+  playerIdentityRegistry: PlayerIdentityRegistry;
+  leagueService: LeagueService;
+  backtestService: BacktestService;
+  additionHistoryService: AdditionHistoryService;
+  streamingService: StreamingService;
+  dynastyProfileService: DynastyProfileService;
   
   // Agents
   dataCollectionAgent: DataCollectionAgentImpl;
@@ -117,6 +137,9 @@ export class Container {
     // Load system configuration
     this.services.systemConfig = await this.services.configManager.loadConfig();
     
+    // Load the NFL season calendar (bundled data plus config/nfl-seasons.json overrides)
+    this.services.seasonCalendar = getSeasonCalendar();
+    
     logger.info('Configuration services initialized');
   }
 
@@ -138,6 +161,10 @@ export class Container {
       maxSize: 1000
     });
     
+    // Initialize player identity registry shared by collection and research
+    this.services.playerIdentityRegistry = getPlayerIdentityRegistry();
+    await this.services.playerIdentityRegistry.load();
+    
     logger.info('Utility services initialized');
   }
 
@@ -145,6 +172,18 @@ export class Container {
     const logger = new Logger('Container:API');
     const config = this.services.systemConfig!;
 
+    // Record or replay API traffic when configured (CLI flags override the config file)
+    const fixtures = configureFixtures(resolveFixtureConfig(config.fixtures));
+    if (fixtures.getMode() !== 'off') {
+      logger.info(`API fixtures in ${fixtures.getMode()} mode: ${fixtures.getDirectory()}`);
+    }
+
+    // Keep cached responses on disk so a restart can still fall back to the last good data
+    const diskCache = configureDiskCache(config.cache || DEFAULT_DISK_CACHE_CONFIG);
+    if (diskCache) {
+      logger.info(`Disk cache enabled: ${diskCache.getDirectory()}`);
+    }
+
     // Initialize fantasy platform clients
     const espnPlatform = config.apis.fantasyPlatforms.find((p: any) => p.name === 'ESPN')!;
     this.services.espnClient = new ESPNClient(espnPlatform);
@@ -179,31 +218,26 @@ export class Container {
     const agentLogger = new Logger('Container:Agents');
     const config = this.services.systemConfig!;
 
-    // Initialize data collection agent
-    const espnPlatformConfig = config.apis.fantasyPlatforms.find((p: any) => p.name === 'ESPN')!;
-    const yahooPlatformConfig = config.apis.fantasyPlatforms.find((p: any) => p.name === 'Yahoo')!;
-    const sleeperPlatformConfig = config.apis.fantasyPlatforms.find((p: any) => p.name === 'Sleeper')!;
+    // Initialize data collection agent with every registered platform that has a config entry
+    const platforms: DataCollectionConfig['platforms'] = {};
+    getFantasyPlatformRegistry().list().forEach(definition => {
+      const platformConfig = config.apis.fantasyPlatforms.find(p => p.name === definition.name);
+      if (platformConfig) {
+        platforms[definition.configKey] = {
+          config: platformConfig,
+          ...(platformConfig.apiKey && { auth: { apiKey: platformConfig.apiKey } }),
+          enabled: platformConfig.enabled
+        };
+      }
+    });
     
     this.services.dataCollectionAgent = new DataCollectionAgentImpl({
-      platforms: {
-        espn: { 
-          config: espnPlatformConfig,
-          enabled: true 
-        },
-        yahoo: { 
-          config: yahooPlatformConfig,
-          enabled: true 
-        },
-        sleeper: { 
-          config: sleeperPlatformConfig,
-          enabled: true 
-        }
-      },
+      platforms,
       caching: {
         enabled: true,
         ttl: 300000, // 5 minutes
         maxSize: 1000,
-        persistToDisk: false
+        persistToDisk: config.cache?.enabled ?? false
       },
       fallback: {
         enabled: true,
@@ -218,17 +252,26 @@ export class Container {
         logLevel: 'info',
         metricsCollection: true
       }
-    });
+    }, this.services.playerIdentityRegistry!);
 
     // Initialize research agent
     const espnNewsConfig = config.apis.newsServices.find((s: any) => s.name === 'ESPN News')!;
-    this.services.researchAgent = new ResearchAgent(espnNewsConfig, config.apis.sportsData);
+    this.services.researchAgent = new ResearchAgent(
+      espnNewsConfig,
+      config.apis.sportsData,
+      this.services.playerIdentityRegistry!,
+      this.services.seasonCalendar!,
+      config.matchups,
+      config.opportunity,
+      config.newsFeeds,
+      new InjuryHistoryService()
+    );
 
     // Initialize analysis agent
     this.services.analysisAgent = new AnalysisAgent();
 
     // Initialize writer agent
-    this.services.writerAgent = new WriterAgent();
+    this.services.writerAgent = new WriterAgent(this.services.seasonCalendar!);
 
     // Initialize publication validator
     const blogClients = new Map();
@@ -305,6 +348,41 @@ export class Container {
       }
     });
 
+    // Initialize league service for personalized FAAB bids
+    this.services.leagueService = new LeagueService(config.leagues || [], {
+      sleeper: this.services.sleeperClient!,
+      yahoo: this.services.yahooClient!,
+      espn: this.services.espnClient!
+    });
+
+    // Initialize backtest service for grading past recommendations
+    this.services.backtestService = new BacktestService(
+      {
+        sleeper: this.services.sleeperClient!,
+        sportsData: this.services.sportsDataClient!
+      },
+      this.services.playerIdentityRegistry!,
+      this.services.seasonCalendar!
+    );
+
+    // Initialize addition history for week-over-week trends
+    this.services.additionHistoryService = new AdditionHistoryService();
+
+    // Initialize streamer rankings for the QB, K and DST section
+    const streamingConfig = config.streaming || DEFAULT_STREAMING_CONFIG;
+    this.services.streamingService = new StreamingService(
+      this.services.sportsDataClient!,
+      streamingConfig,
+      this.services.seasonCalendar!
+    );
+
+    // Initialize dynasty profiles (age, experience, draft capital) for the dynasty edition
+    this.services.dynastyProfileService = new DynastyProfileService(
+      this.services.sleeperClient!,
+      this.services.playerIdentityRegistry!,
+      this.services.seasonCalendar!
+    );
+
     // Initialize orchestrator service
     this.services.orchestrator = new OrchestratorService(
       config,
@@ -312,7 +390,16 @@ export class Container {
       this.services.researchAgent!,
       this.services.analysisAgent!,
       this.services.writerAgent!,
-      this.services.publisherAgent!
+      this.services.publisherAgent!,
+      {
+        seasonCalendar: this.services.seasonCalendar!,
+        previewWriter: new PreviewWriter(this.services.writerAgent!, this.services.analysisAgent!),
+        leagueService: this.services.leagueService!,
+        backtestService: this.services.backtestService!,
+        additionHistoryService: this.services.additionHistoryService!,
+        ...(streamingConfig.enabled && { streamingService: this.services.streamingService! }),
+        ...(config.dynasty?.enabled && { dynastyProfileService: this.services.dynastyProfileService! })
+      }
     );
 
     serviceLogger.info('Core services initialized');
@@ -352,6 +439,9 @@ export class Container {
         await this.services.cacheManager.clear();
       }
 
+      // Let responses still being written to the disk cache land before exiting
+      await CacheManager.flushAll();
+
       logger.info('Container shutdown completed');
     } catch (error) {
       logger.error('Error during container shutdown', error);
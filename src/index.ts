@@ -3,6 +3,7 @@
 import { initializeContainer, shutdownContainer, getContainer } from './container';
 import { Logger } from './utils';
 import { ExecutionResult } from './models';
+import { PipelineStage } from './services/pipeline-snapshot-store';
 
 // Export all modules for library usage
 export {
@@ -151,6 +152,40 @@ export class FantasyFootballFAABBlogApp {
     }
   }
 
+  async resumeExecution(executionId: string, fromStage?: PipelineStage): Promise<ExecutionResult> {
+    if (!this.isRunning) {
+      throw new Error('Application must be started before resuming an execution');
+    }
+
+    try {
+      this.logger.info(`Resuming execution ${executionId}`, { fromStage });
+      
+      const container = getContainer();
+      const orchestrator = container.getService('orchestrator');
+      
+      const result = await orchestrator.resumeExecution(executionId, fromStage);
+      
+      if (result.success) {
+        this.logger.info('Resumed execution completed successfully', {
+          duration: result.endTime.getTime() - result.startTime.getTime(),
+          agentsExecuted: result.agentsExecuted,
+          publishedPostId: result.publishedPostId
+        });
+      } else {
+        this.logger.error('Resumed execution failed', {
+          errors: result.errors,
+          warnings: result.warnings
+        });
+      }
+      
+      return result;
+      
+    } catch (error) {
+      this.logger.error('Resumed execution failed', error);
+      throw error;
+    }
+  }
+
   getStatus(): { isRunning: boolean; nextExecution?: Date } {
     const status: { isRunning: boolean; nextExecution?: Date } = { isRunning: this.isRunning };
     
@@ -0,0 +1,61 @@
+// Tests for platform-normalized addition signals
+
+import { describe, it, expect } from 'vitest';
+import { AdditionSignalNormalizer, AdditionSignalRules } from './addition-signal';
+import { PlayerAdditionData } from './player';
+
+const rules: Record<string, AdditionSignalRules> = {
+  ESPN: { unit: 'basisPoints', estimatedLeagues: 5000000, weight: 0.5 },
+  Sleeper: { unit: 'adds', estimatedLeagues: 2000000, weight: 0.5 }
+};
+
+function added(playerId: string, platform: string, additionCount: number): PlayerAdditionData {
+  return {
+    playerId,
+    name: `Player ${playerId}`,
+    position: 'WR',
+    team: 'KC',
+    additionCount,
+    platform,
+    timestamp: new Date()
+  };
+}
+
+describe('AdditionSignalNormalizer', () => {
+  it('should convert percent changes and raw counts to percent of leagues', () => {
+    expect(AdditionSignalNormalizer.toPercentOfLeagues(1250, rules.ESPN!)).toBe(12.5);
+    expect(AdditionSignalNormalizer.toPercentOfLeagues(300000, rules.Sleeper!)).toBe(15);
+    expect(AdditionSignalNormalizer.toPercentOfLeagues(-50, rules.ESPN!)).toBe(0);
+  });
+
+  it('should keep raw values and weight platforms that did not list the player as zero', () => {
+    const summaries = AdditionSignalNormalizer.summarize([
+      added('a', 'ESPN', 2000),
+      added('a', 'Sleeper', 100000),
+      added('b', 'Sleeper', 400000)
+    ], rules);
+
+    expect(summaries).toEqual([
+      expect.objectContaining({
+        playerId: 'a',
+        additionCount: 102000,
+        additionPercentage: 12.5,
+        platforms: ['ESPN', 'Sleeper'],
+        additionSignals: [
+          { platform: 'ESPN', rawValue: 2000, percentOfLeagues: 20, weight: 0.5 },
+          { platform: 'Sleeper', rawValue: 100000, percentOfLeagues: 5, weight: 0.5 }
+        ]
+      }),
+      expect.objectContaining({ playerId: 'b', additionCount: 400000, additionPercentage: 10 })
+    ]);
+  });
+
+  it('should fall back to default rules for platforms it does not know', () => {
+    const [summary] = AdditionSignalNormalizer.summarize([added('a', 'Fleaflicker', 5000)], {});
+
+    expect(summary!.additionSignals).toEqual([
+      { platform: 'Fleaflicker', rawValue: 5000, percentOfLeagues: 5, weight: 0.1 }
+    ]);
+    expect(summary!.additionPercentage).toBe(5);
+  });
+});
@@ -0,0 +1,93 @@
+// Normalization of each platform's addition signal into a comparable percent of leagues adding
+
+import { PlatformAdditionSignal, PlayerAdditionData, PlayerSummary } from './player';
+
+export interface AdditionSignalRules {
+  unit: 'adds' | 'basisPoints'; // Raw add counts, or percent of leagues x 100 (from percent-owned change)
+  estimatedLeagues: number; // Leagues on the platform, used to turn raw adds into a percent
+  weight: number; // Relative share of the audience the platform stands for when combining platforms
+}
+
+// Used for platforms that don't describe their signal
+export const DEFAULT_ADDITION_SIGNAL: AdditionSignalRules = {
+  unit: 'adds',
+  estimatedLeagues: 100000,
+  weight: 0.1
+};
+
+export class AdditionSignalNormalizer {
+  static toPercentOfLeagues(rawValue: number, rules: AdditionSignalRules): number {
+    const percent = rules.unit === 'basisPoints'
+      ? rawValue / 100
+      : (rawValue / Math.max(rules.estimatedLeagues, 1)) * 100;
+
+    return Math.min(Math.max(percent, 0), 100);
+  }
+
+  /**
+   * Aggregate addition data per player. additionCount stays the raw total; additionPercentage
+   * is the weighted percent of leagues adding the player across every platform collected from,
+   * counting a platform that didn't list the player as zero.
+   */
+  static summarize(
+    additionData: PlayerAdditionData[],
+    rulesByPlatform: Record<string, AdditionSignalRules>,
+    platforms: string[] = []
+  ): PlayerSummary[] {
+    const rulesFor = (platform: string) => rulesByPlatform[platform] || DEFAULT_ADDITION_SIGNAL;
+    const allPlatforms = new Set([...platforms, ...additionData.map(data => data.platform)]);
+    const totalWeight = Array.from(allPlatforms).reduce((sum, platform) => sum + rulesFor(platform).weight, 0);
+
+    const playerMap = new Map<string, { summary: PlayerSummary; rawByPlatform: Map<string, number> }>();
+
+    additionData.forEach(data => {
+      const existing = playerMap.get(data.playerId);
+      if (existing) {
+        existing.summary.additionCount += data.additionCount;
+        if (!existing.summary.platforms.includes(data.platform)) {
+          existing.summary.platforms.push(data.platform);
+        }
+        existing.rawByPlatform.set(data.platform, (existing.rawByPlatform.get(data.platform) || 0) + data.additionCount);
+      } else {
+        playerMap.set(data.playerId, {
+          summary: {
+            playerId: data.playerId,
+            name: data.name,
+            position: data.position,
+            team: data.team,
+            additionCount: data.additionCount,
+            additionPercentage: 0, // Set below once every platform is counted
+            platforms: [data.platform]
+          },
+          rawByPlatform: new Map([[data.platform, data.additionCount]])
+        });
+      }
+    });
+
+    return Array.from(playerMap.values()).map(({ summary, rawByPlatform }) => {
+      const signals: PlatformAdditionSignal[] = Array.from(rawByPlatform.entries()).map(([platform, rawValue]) => {
+        const rules = rulesFor(platform);
+        return {
+          platform,
+          rawValue,
+          percentOfLeagues: AdditionSignalNormalizer.toPercentOfLeagues(rawValue, rules),
+          weight: rules.weight
+        };
+      });
+      const weighted = signals.reduce((sum, signal) => sum + signal.percentOfLeagues * signal.weight, 0);
+
+      return {
+        ...summary,
+        additionPercentage: totalWeight > 0 ? AdditionSignalNormalizer.round(weighted / totalWeight) : 0,
+        additionSignals: signals.map(signal => ({
+          ...signal,
+          percentOfLeagues: AdditionSignalNormalizer.round(signal.percentOfLeagues)
+        }))
+      };
+    });
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,76 @@
+// Backtesting data models for grading past FAAB recommendations
+
+import { FAABFactorScores, PlayerAnalysis } from './player';
+import { ScoringType } from './scoring';
+
+// Analyses produced for one week, saved so they can be graded once the games are played.
+// Runs with different scoring models in the same week are kept side by side.
+export interface BacktestRecord {
+  season: number;
+  week: number;
+  recordedAt: Date;
+  analyses: PlayerAnalysis[];
+}
+
+export interface BacktestOutcome {
+  season: number;
+  week: number;
+  playerId: string;
+  name: string;
+  position: string;
+  recommendation: 'BUY' | 'PASS';
+  confidence: number;
+  model: string; // Scoring model as name@version
+  scoringType: ScoringType; // Which fantasy points the player was graded on
+  averagePoints: number; // Per week over the evaluation window
+  threshold: number; // Weekly points that make a pickup worth rostering at this position
+  weeksEvaluated: number[];
+  hit: boolean;
+  factorScores?: FAABFactorScores;
+}
+
+export interface RecommendationSummary {
+  count: number;
+  hits: number;
+  hitRate: number; // 0-100
+  averagePoints: number;
+}
+
+export interface ModelSummary extends RecommendationSummary {
+  model: string;
+}
+
+export interface CalibrationBucket {
+  minConfidence: number;
+  maxConfidence: number;
+  count: number;
+  averageConfidence: number;
+  hitRate: number; // 0-100, compare against averageConfidence
+}
+
+export interface FactorValue {
+  factor: keyof FAABFactorScores;
+  sampleSize: number;
+  correlation: number; // Pearson correlation with average weekly points, -1 to 1
+  averageWhenHit: number;
+  averageWhenMiss: number;
+}
+
+export interface BacktestReport {
+  season: number;
+  weeks: number[];
+  horizon: number; // Weeks of games graded after each recommendation
+  generatedAt: Date;
+  missingWeeks: number[]; // Requested weeks with no recorded analyses
+  recommendations: number;
+  evaluated: number;
+  unresolved: number; // Players with no stats found, or whose games haven't been played yet
+  hitRate: number;
+  buy: RecommendationSummary;
+  pass: RecommendationSummary;
+  models: ModelSummary[]; // Hit rates per scoring model, for comparing models run the same weeks
+  calibration: CalibrationBucket[];
+  calibrationError: number; // Count-weighted gap between confidence and hit rate, in points
+  factors: FactorValue[];
+  outcomes: BacktestOutcome[];
+}
@@ -0,0 +1,33 @@
+// How many players are researched and analyzed at once, and how per-player work is timed
+
+export interface ConcurrencyConfig {
+  maxConcurrentPlayers: number; // Players researched or analyzed at the same time
+  playerTimeoutMs: number; // A player still running after this gets fallback research
+}
+
+// What happened to one unit of work in a worker pool
+export type WorkerTaskStatus = 'completed' | 'failed' | 'timed_out' | 'cancelled';
+
+// Time spent on one player in one stage, reported with the execution result
+export interface PlayerTiming {
+  playerId: string;
+  name: string;
+  stage: 'research' | 'analysis';
+  status: WorkerTaskStatus;
+  durationMs: number;
+}
+
+export const DEFAULT_CONCURRENCY_CONFIG: ConcurrencyConfig = {
+  maxConcurrentPlayers: 4,
+  playerTimeoutMs: 45000
+};
+
+export class ConcurrencyConfigValidator {
+  static validateConcurrencyConfig(config: ConcurrencyConfig): boolean {
+    if (!Number.isInteger(config.maxConcurrentPlayers) || config.maxConcurrentPlayers < 1 || config.maxConcurrentPlayers > 20) {
+      return false;
+    }
+
+    return typeof config.playerTimeoutMs === 'number' && config.playerTimeoutMs >= 1000;
+  }
+}
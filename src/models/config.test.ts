@@ -131,6 +131,40 @@ describe('ConfigValidator', () => {
 
       expect(ConfigValidator.validateSystemConfig(invalidConfig)).toBe(false);
     });
+
+    it('should reject a selection idpCount that disagrees with the IDP config', () => {
+      const config: SystemConfig = {
+        schedule: { dayOfWeek: 2, hour: 9, timezone: 'America/New_York' },
+        apis: {
+          fantasyPlatforms: [],
+          newsServices: [],
+          sportsData: {
+            name: 'Sports Data API',
+            apiKey: 'test-key',
+            baseUrl: 'https://api.sportsdata.io',
+            rateLimit: { requestsPerMinute: 60, requestsPerHour: 1000 },
+            enabled: true
+          }
+        },
+        blog: {
+          name: 'WordPress',
+          apiKey: 'test-key',
+          baseUrl: 'https://myblog.com',
+          defaultTags: ['fantasy'],
+          defaultCategories: ['Sports']
+        },
+        agents: [{ name: 'DataCollectionAgent', enabled: true, timeout: 300000, retryAttempts: 3, retryDelay: 5000 }],
+        idp: { enabled: true, count: 5 }
+      };
+
+      expect(ConfigValidator.validateSystemConfig({ ...config, selection: { count: 10, idpCount: 5 } })).toBe(true);
+      expect(ConfigValidator.validateSystemConfig({ ...config, selection: { count: 10, idpCount: 3 } })).toBe(false);
+      expect(ConfigValidator.validateSystemConfig({
+        ...config,
+        idp: { enabled: false, count: 5 },
+        selection: { count: 10, idpCount: 5 }
+      })).toBe(false);
+    });
   });
 
   describe('validateScheduleConfig', () => {
@@ -1,5 +1,16 @@
 // Configuration-related data models and interfaces
 
+import { LeagueRegistration, LeagueValidator } from './league';
+import { ScoringConfig, ScoringModelValidator } from './scoring';
+import { PlayerSelectionDecision, PlayerSelectionPolicy, SelectionPolicyValidator } from './selection';
+import { StreamingConfig, StreamingConfigValidator } from './streaming';
+import { IDPConfig, IDPConfigValidator } from './idp';
+import { DynastyConfig, DynastyConfigValidator } from './dynasty';
+import { ConcurrencyConfig, ConcurrencyConfigValidator, PlayerTiming } from './concurrency';
+import { MatchupConfig, MatchupConfigValidator } from './matchup';
+import { OpportunityConfig, OpportunityConfigValidator } from './opportunity';
+import { NewsFeedConfig, NewsFeedConfigValidator } from './news-feed';
+
 export interface SystemConfig {
   schedule: {
     dayOfWeek: number; // 0-6, Sunday = 0
@@ -13,6 +24,18 @@ export interface SystemConfig {
   };
   blog: BlogPlatformConfig;
   agents: AgentConfig[];
+  fixtures?: FixtureConfig;
+  cache?: DiskCacheConfig; // Keeps cached API responses and collected data across restarts
+  leagues?: LeagueRegistration[]; // Our leagues, for personalized FAAB bids
+  scoring?: ScoringConfig; // Named scoring models; the built-in default is used when absent
+  selection?: PlayerSelectionPolicy; // Which most-added players are featured; ten players with no quotas when absent
+  streaming?: StreamingConfig; // Weekly QB, K and DST streamer rankings; on with defaults when absent
+  idp?: IDPConfig; // IDP-league edition; defenders are left out when absent
+  dynasty?: DynastyConfig; // Dynasty edition with long-term calls; redraft only when absent
+  concurrency?: ConcurrencyConfig; // Players researched and analyzed at once; four with a 45 second timeout when absent
+  matchups?: MatchupConfig; // Defense-vs-position window and schedule horizon; six and three weeks when absent
+  opportunity?: OpportunityConfig; // Depth chart and team share window, plus an import file; three weeks when absent
+  newsFeeds?: NewsFeedConfig; // RSS/Atom feeds merged into player news; none when absent
 }
 
 export interface PlatformConfig {
@@ -58,6 +81,18 @@ export interface BlogPlatformConfig {
   defaultCategories: string[];
 }
 
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface FixtureConfig {
+  mode: FixtureMode; // record saves API responses, replay serves them back with no network
+  directory: string;
+}
+
+export interface DiskCacheConfig {
+  enabled: boolean;
+  directory: string;
+}
+
 export interface AgentConfig {
   name: string;
   enabled: boolean;
@@ -75,6 +110,9 @@ export interface ExecutionResult {
   errors: Error[];
   warnings: string[];
   publishedPostId?: string;
+  executionId?: string; // Key for the run's stage snapshots, used to resume it
+  selection?: PlayerSelectionDecision[]; // Why each candidate was featured or skipped
+  playerTimings?: PlayerTiming[]; // Research and analysis time for each player
 }
 
 export interface ExecutionStatus {
@@ -108,6 +146,58 @@ export class ConfigValidator {
       return false;
     }
     
+    if (config.leagues !== undefined && 
+        (!Array.isArray(config.leagues) || !config.leagues.every(league => LeagueValidator.validateLeagueRegistration(league)))) {
+      return false;
+    }
+    
+    if (config.scoring !== undefined && !ScoringModelValidator.validateScoringConfig(config.scoring)) {
+      return false;
+    }
+    
+    if (config.selection !== undefined && !SelectionPolicyValidator.validateSelectionPolicy(config.selection)) {
+      return false;
+    }
+    
+    if (config.streaming !== undefined && !StreamingConfigValidator.validateStreamingConfig(config.streaming)) {
+      return false;
+    }
+    
+    if (config.idp !== undefined && !IDPConfigValidator.validateIDPConfig(config.idp)) {
+      return false;
+    }
+    
+    // idp.count decides how many defenders are featured; a selection idpCount may only repeat it
+    if (config.selection?.idpCount !== undefined &&
+        config.selection.idpCount !== (config.idp?.enabled ? config.idp.count : 0)) {
+      return false;
+    }
+    
+    if (config.dynasty !== undefined && !DynastyConfigValidator.validateDynastyConfig(config.dynasty)) {
+      return false;
+    }
+    
+    if (config.concurrency !== undefined && !ConcurrencyConfigValidator.validateConcurrencyConfig(config.concurrency)) {
+      return false;
+    }
+    
+    if (config.matchups !== undefined && !MatchupConfigValidator.validateMatchupConfig(config.matchups)) {
+      return false;
+    }
+    
+    if (config.opportunity !== undefined && !OpportunityConfigValidator.validateOpportunityConfig(config.opportunity)) {
+      return false;
+    }
+    
+    if (config.newsFeeds !== undefined && !NewsFeedConfigValidator.validateNewsFeedConfig(config.newsFeeds)) {
+      return false;
+    }
+    
+    if (config.cache !== undefined &&
+        (typeof config.cache.enabled !== 'boolean' || typeof config.cache.directory !== 'string' || config.cache.directory.trim() === '')) {
+      return false;
+    }
+    
     return true;
   }
 
@@ -596,7 +686,8 @@ export class ConfigUtils {
     agentsExecuted: string[],
     errors: Error[] = [],
     warnings: string[] = [],
-    publishedPostId?: string
+    publishedPostId?: string,
+    executionId?: string
   ): ExecutionResult {
     return {
       success,
@@ -606,7 +697,8 @@ export class ConfigUtils {
       agentsExecuted,
       errors,
       warnings,
-      ...(publishedPostId && { publishedPostId })
+      ...(publishedPostId && { publishedPostId }),
+      ...(executionId && { executionId })
     };
   }
 
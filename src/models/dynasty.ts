@@ -0,0 +1,109 @@
+// Dynasty and keeper league mode: long-term player value beyond next week
+
+// Career facts that matter over several seasons, read from Sleeper's player data
+export interface DynastyProfile {
+  age?: number;
+  yearsExperience?: number; // 0 for rookies
+  draftRound?: number;
+  draftPick?: number; // Pick within the round
+  depthChartOrder?: number; // 1 for the starter
+}
+
+export interface DynastyConfig {
+  enabled: boolean; // Publish the dynasty edition, with a long-term call for every player
+  horizonSeasons: number; // Seasons of value the dynasty score looks ahead
+  buyThreshold: number; // Dynasty value (0-100) needed for a dynasty BUY
+}
+
+// The long-term call on a player, kept beside the redraft recommendation
+export interface DynastyAssessment {
+  recommendation: 'BUY' | 'PASS';
+  value: number; // Multi-season value, 0-100
+  confidence: number;
+  horizonSeasons: number;
+  suggestedFAABPercentage?: number;
+  reasoning: string[];
+}
+
+// Ages at which a position is at its best, and the age by which its value is gone
+export interface AgeCurve {
+  peakStart: number;
+  peakEnd: number;
+  declineEnd: number;
+}
+
+export const DEFAULT_DYNASTY_CONFIG: DynastyConfig = {
+  enabled: false,
+  horizonSeasons: 3,
+  buyThreshold: 55
+};
+
+export const DYNASTY_AGE_CURVES: Record<string, AgeCurve> = {
+  'QB': { peakStart: 25, peakEnd: 33, declineEnd: 39 },
+  'RB': { peakStart: 22, peakEnd: 26, declineEnd: 31 },
+  'WR': { peakStart: 23, peakEnd: 29, declineEnd: 34 },
+  'TE': { peakStart: 25, peakEnd: 30, declineEnd: 35 },
+  'K': { peakStart: 24, peakEnd: 36, declineEnd: 42 },
+  'DL': { peakStart: 24, peakEnd: 29, declineEnd: 34 },
+  'LB': { peakStart: 23, peakEnd: 28, declineEnd: 33 },
+  'DB': { peakStart: 23, peakEnd: 28, declineEnd: 33 }
+};
+
+// Used for positions without a curve of their own
+const DEFAULT_AGE_CURVE: AgeCurve = { peakStart: 24, peakEnd: 29, declineEnd: 34 };
+
+// Rookies below peak age are still worth most of a peak season
+const PRE_PEAK_VALUE = 0.8;
+
+export class DynastyUtils {
+  static getAgeCurve(position: string): AgeCurve {
+    return DYNASTY_AGE_CURVES[position] || DEFAULT_AGE_CURVE;
+  }
+
+  /**
+   * Share of peak value (0-1) expected in each of the coming seasons, from the position's age curve
+   */
+  static projectSeasonValues(position: string, age: number, horizonSeasons: number): number[] {
+    const curve = this.getAgeCurve(position);
+
+    return Array.from({ length: horizonSeasons }, (_, season) => {
+      const seasonAge = age + season;
+      if (seasonAge < curve.peakStart) {
+        return PRE_PEAK_VALUE;
+      }
+      if (seasonAge <= curve.peakEnd) {
+        return 1;
+      }
+      if (seasonAge >= curve.declineEnd) {
+        return 0;
+      }
+      return Math.round((1 - (seasonAge - curve.peakEnd) / (curve.declineEnd - curve.peakEnd)) * 100) / 100;
+    });
+  }
+
+  /**
+   * What a team invested to get the player (0-100); early picks get more chances to earn a role.
+   * Sleeper doesn't record draft details for every player, so an unknown round is neutral.
+   */
+  static scoreDraftCapital(draftRound: number | undefined): number {
+    if (draftRound === undefined) {
+      return 50;
+    }
+    const byRound: Record<number, number> = { 1: 100, 2: 80, 3: 60, 4: 45, 5: 35 };
+    return byRound[draftRound] ?? 25;
+  }
+}
+
+export class DynastyConfigValidator {
+  static validateDynastyConfig(config: DynastyConfig): boolean {
+    if (typeof config.enabled !== 'boolean') {
+      return false;
+    }
+
+    if (!Number.isInteger(config.horizonSeasons) || config.horizonSeasons < 1 || config.horizonSeasons > 10) {
+      return false;
+    }
+
+    return typeof config.buyThreshold === 'number' && config.buyThreshold >= 0 && config.buyThreshold <= 100;
+  }
+}
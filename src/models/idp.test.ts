@@ -0,0 +1,34 @@
+// Tests for IDP positions, scoring and config
+
+import { describe, it, expect } from 'vitest';
+import { IDPConfigValidator, IDPUtils, DEFAULT_IDP_CONFIG } from './idp';
+import { PlayerValidator } from './player';
+
+describe('IDPUtils', () => {
+  it('should group depth chart positions into DL, LB and DB', () => {
+    expect(['DE', 'OLB', 'SS', 'LB', 'WR'].map(position => IDPUtils.normalizePosition(position)))
+      .toEqual(['DL', 'LB', 'DB', 'LB', 'WR']);
+    expect(IDPUtils.isIDPPosition('DB')).toBe(true);
+    expect(IDPUtils.isIDPPosition('DST')).toBe(false);
+    expect(PlayerValidator.validatePlayer({ id: '1', name: 'Fred Warner', position: 'LB', team: 'SF' })).toBe(true);
+  });
+
+  it('should score defensive stats with the default IDP rules', () => {
+    expect(IDPUtils.calculateFantasyPoints({
+      soloTackles: 7,
+      assistedTackles: 3,
+      sacks: 1.5,
+      interceptions: 1,
+      passesDefended: 2,
+      fumblesRecovered: 0
+    })).toBe(16.5);
+  });
+});
+
+describe('IDPConfigValidator', () => {
+  it('should require a positive whole number of defenders', () => {
+    expect(IDPConfigValidator.validateIDPConfig(DEFAULT_IDP_CONFIG)).toBe(true);
+    expect(IDPConfigValidator.validateIDPConfig({ enabled: true, count: 0 })).toBe(false);
+    expect(IDPConfigValidator.validateIDPConfig({ enabled: true, count: 2.5 })).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+// Individual defensive player (IDP) positions and the IDP-league edition of the post
+
+export type IDPPosition = 'DL' | 'LB' | 'DB';
+
+export const IDP_POSITIONS: IDPPosition[] = ['DL', 'LB', 'DB'];
+
+// Depth chart positions as platforms and stat providers report them
+export const IDP_POSITION_ALIASES: Record<string, IDPPosition> = {
+  'DE': 'DL',
+  'DT': 'DL',
+  'NT': 'DL',
+  'EDGE': 'DL',
+  'ILB': 'LB',
+  'OLB': 'LB',
+  'MLB': 'LB',
+  'CB': 'DB',
+  'S': 'DB',
+  'FS': 'DB',
+  'SS': 'DB'
+};
+
+export interface IDPConfig {
+  enabled: boolean; // Publish the IDP-league edition, with defenders featured in their own section
+  count: number; // Defenders featured on top of the selection policy's count
+}
+
+// Common IDP scoring, for stat providers that only report offensive fantasy points
+export interface IDPScoringRules {
+  soloTackle: number;
+  assistedTackle: number;
+  sack: number;
+  interception: number;
+  passDefended: number;
+  fumbleRecovered: number;
+}
+
+export const DEFAULT_IDP_CONFIG: IDPConfig = {
+  enabled: false,
+  count: 5
+};
+
+export const DEFAULT_IDP_SCORING: IDPScoringRules = {
+  soloTackle: 1,
+  assistedTackle: 0.5,
+  sack: 2,
+  interception: 3,
+  passDefended: 1,
+  fumbleRecovered: 2
+};
+
+export class IDPUtils {
+  static isIDPPosition(position: string): position is IDPPosition {
+    return IDP_POSITIONS.includes(position as IDPPosition);
+  }
+
+  /**
+   * Map a depth chart position such as "OLB" or "CB" to its IDP group; other positions pass through
+   */
+  static normalizePosition(position: string): string {
+    return IDP_POSITION_ALIASES[position] || position;
+  }
+
+  static calculateFantasyPoints(
+    stats: { soloTackles: number; assistedTackles: number; sacks: number; interceptions: number; passesDefended: number; fumblesRecovered: number },
+    rules: IDPScoringRules = DEFAULT_IDP_SCORING
+  ): number {
+    const points =
+      stats.soloTackles * rules.soloTackle +
+      stats.assistedTackles * rules.assistedTackle +
+      stats.sacks * rules.sack +
+      stats.interceptions * rules.interception +
+      stats.passesDefended * rules.passDefended +
+      stats.fumblesRecovered * rules.fumbleRecovered;
+
+    return Math.round(points * 100) / 100;
+  }
+}
+
+export class IDPConfigValidator {
+  static validateIDPConfig(config: IDPConfig): boolean {
+    if (typeof config.enabled !== 'boolean') {
+      return false;
+    }
+
+    return Number.isInteger(config.count) && config.count >= 1;
+  }
+}
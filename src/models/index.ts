@@ -1,4 +1,19 @@
 // Model exports will be added here
 export * from './player';
 export * from './blog';
-export * from './config';
\ No newline at end of file
+export * from './config';
+export * from './season';
+export * from './league';
+export * from './backtest';
+export * from './scoring';
+export * from './selection';
+export * from './addition-signal';
+export * from './streaming';
+export * from './idp';
+export * from './dynasty';
+export * from './concurrency';
+export * from './matchup';
+export * from './opportunity';
+export * from './starter-injury';
+export * from './news-feed';
+export * from './injury-timeline';
@@ -0,0 +1,241 @@
+// A player's injury history through the week: practice participation, game designations and return estimates
+
+import { InjuryReport, NewsArticle } from './player';
+
+export type PracticeParticipation = 'DNP' | 'limited' | 'full';
+
+// One observation of a player's injury, from the league injury report or a news story
+export interface InjuryTimelineEntry {
+  recordedAt: Date;
+  source: string;
+  status?: InjuryReport['status']; // Game designation, when the observation gives one
+  practice?: PracticeParticipation;
+  description?: string;
+  expectedReturn?: Date;
+}
+
+export interface InjuryTimeline {
+  entries: InjuryTimelineEntry[]; // Oldest first
+  trend: 'improving' | 'worsening' | 'steady'; // Direction of the latest practice or designation change
+  summary?: string; // e.g. "DNP Wednesday, upgraded to limited Thursday"
+  expectedReturn?: Date; // Most recent estimate
+}
+
+// Saved under <directory>/<season>/week-<week>.json, keyed by canonical player ID
+export interface InjuryHistoryRecord {
+  season: number;
+  week: number;
+  updatedAt: Date;
+  players: Record<string, InjuryTimelineEntry[]>;
+}
+
+const PRACTICE_SEVERITY: Record<PracticeParticipation, number> = { full: 0, limited: 1, DNP: 2 };
+const STATUS_SEVERITY: Record<Exclude<InjuryReport['status'], 'unknown'>, number> = {
+  healthy: 0,
+  questionable: 1,
+  doubtful: 2,
+  out: 3,
+  ir: 4
+};
+
+// Practice reports are dated by the team's local week, which the Eastern time zone approximates
+const REPORT_TIME_ZONE = 'America/New_York';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class InjuryTimelineUtils {
+  /**
+   * Practice participation from report or news text ("Did Not Participate In Practice",
+   * "was limited Thursday", "upgraded to a full participant")
+   */
+  static parsePractice(text: string | undefined): PracticeParticipation | undefined {
+    const lower = (text || '').toLowerCase();
+    const change = lower.match(/(?:upgraded|downgraded) to (?:a )?(dnp|limited|full)/);
+    if (change) {
+      return change[1] === 'dnp' ? 'DNP' : change[1] as PracticeParticipation;
+    }
+
+    const patterns: Array<[PracticeParticipation, RegExp]> = [
+      ['DNP', /\bdnp\b|did not (?:practice|participate)|didn't practice|(?:sat|held) out of practice|missed practice/],
+      ['limited', /limited participa|\blimited\b[^.]{0,20}\bpractice|\bpractice[^.]{0,20}\blimited\b|\bwas limited\b|\blimited (?:again|wednesday|thursday|friday)\b/],
+      ['full', /full participa|practiced fully|fully participated|full practice|\bfull go\b/]
+    ];
+    const matches = patterns
+      .map(([participation, pattern]) => ({ participation, index: lower.search(pattern) }))
+      .filter(match => match.index >= 0)
+      .sort((a, b) => a.index - b.index);
+    return matches[0]?.participation;
+  }
+
+  /**
+   * Game designation from news text; undefined when the text doesn't give one
+   */
+  static parseDesignation(text: string | undefined): InjuryReport['status'] | undefined {
+    const lower = (text || '').toLowerCase();
+    if (/placed on (?:injured reserve|ir)\b|\bto (?:injured reserve|ir)\b/.test(lower)) {
+      return 'ir';
+    }
+    if (/ruled out|\bwill not play\b|\bwon't play\b|\bdeclared inactive\b/.test(lower)) {
+      return 'out';
+    }
+    if (/\bdoubtful\b/.test(lower)) {
+      return 'doubtful';
+    }
+    if (/\bquestionable\b/.test(lower)) {
+      return 'questionable';
+    }
+    if (/no injury designation|without a designation|cleared to play|removed from the injury report|activated from/.test(lower)) {
+      return 'healthy';
+    }
+    return undefined;
+  }
+
+  /**
+   * Return date from an absence estimate in the text ("expected to miss 2-4 weeks"), taking
+   * the longer end of a range
+   */
+  static parseReturnEstimate(text: string | undefined, from: Date): Date | undefined {
+    const lower = (text || '').toLowerCase();
+    const estimate = lower.match(/(?:miss|out|sidelined)(?: for)?(?: about| roughly| an estimated| at least)? (\d+)(?:\s*(?:-|to)\s*(\d+))? weeks?\b/);
+    if (!estimate) {
+      return undefined;
+    }
+
+    const weeks = parseInt(estimate[2] || estimate[1]!, 10);
+    return new Date(from.getTime() + weeks * 7 * DAY_MS);
+  }
+
+  /**
+   * Timeline entry for an injury report snapshot; an unknown status is left off rather than recorded
+   */
+  static fromReport(report: InjuryReport, recordedAt: Date, source: string): InjuryTimelineEntry {
+    return {
+      recordedAt,
+      source,
+      ...(report.status !== 'unknown' && { status: report.status }),
+      ...(report.practice && { practice: report.practice }),
+      ...(report.description && { description: report.description }),
+      ...(report.expectedReturn && { expectedReturn: report.expectedReturn })
+    };
+  }
+
+  /**
+   * Timeline entry for a news story about the player, or null when it says nothing about their
+   * practice, designation or return. Only clauses naming the player count, so "Robinson limited
+   * again as McNichols takes first-team reps" says nothing about McNichols' practice.
+   */
+  static fromArticle(article: NewsArticle, playerName: string): InjuryTimelineEntry | null {
+    const lastName = playerName.trim().split(/\s+/).filter(part => !/^(?:jr|sr|ii|iii|iv)\.?$/i.test(part)).pop()?.toLowerCase();
+    if (!lastName) {
+      return null;
+    }
+
+    const text = `${article.title}. ${article.summary}`
+      .split(/[.!?]\s+(?=[A-Z])|[,;]\s+|\s+(?:as|while|but|with|after)\s+/)
+      .filter(clause => clause.toLowerCase().includes(lastName))
+      .join('. ');
+    const practice = this.parsePractice(text);
+    const status = this.parseDesignation(text);
+    const expectedReturn = this.parseReturnEstimate(text, article.publishDate);
+    if (!practice && !status && !expectedReturn) {
+      return null;
+    }
+
+    return {
+      recordedAt: article.publishDate,
+      source: article.source,
+      ...(status && { status }),
+      ...(practice && { practice }),
+      description: article.title,
+      ...(expectedReturn && { expectedReturn })
+    };
+  }
+
+  /**
+   * Order entries, drop repeats of the same observation and read the trajectory from them
+   */
+  static buildTimeline(entries: InjuryTimelineEntry[]): InjuryTimeline {
+    const seen = new Set<string>();
+    const ordered = [...entries]
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+      .filter(entry => {
+        const key = [
+          entry.source,
+          this.reportDate(entry.recordedAt),
+          entry.status,
+          entry.practice,
+          entry.expectedReturn?.getTime()
+        ].join('|');
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+
+    const events: string[] = [];
+    let trend: InjuryTimeline['trend'] = 'steady';
+    let practice: PracticeParticipation | undefined;
+    let status: Exclude<InjuryReport['status'], 'unknown'> | undefined;
+
+    ordered.forEach(entry => {
+      const day = this.weekday(entry.recordedAt);
+
+      if (entry.practice && entry.practice !== practice) {
+        if (practice) {
+          const upgraded = PRACTICE_SEVERITY[entry.practice] < PRACTICE_SEVERITY[practice];
+          trend = upgraded ? 'improving' : 'worsening';
+          events.push(`${upgraded ? 'upgraded' : 'downgraded'} to ${entry.practice} ${day}`);
+        } else {
+          events.push(`${entry.practice} ${day}`);
+        }
+        practice = entry.practice;
+      }
+
+      if (entry.status && entry.status !== 'unknown' && entry.status !== status) {
+        if (status) {
+          const upgraded = STATUS_SEVERITY[entry.status] < STATUS_SEVERITY[status];
+          trend = upgraded ? 'improving' : 'worsening';
+          events.push(entry.status === 'healthy'
+            ? `cleared ${day}`
+            : `${upgraded ? 'upgraded' : 'downgraded'} to ${this.designationLabel(entry.status)} ${day}`);
+        } else if (entry.status !== 'healthy') {
+          events.push(`listed ${this.designationLabel(entry.status)} ${day}`);
+        }
+        status = entry.status;
+      }
+    });
+
+    const expectedReturn = [...ordered].reverse().find(entry => entry.expectedReturn)?.expectedReturn;
+    return {
+      entries: ordered,
+      trend,
+      ...(events.length > 0 && { summary: events.join(', ') }),
+      ...(expectedReturn && { expectedReturn })
+    };
+  }
+
+  /**
+   * One line for the post, e.g. "DNP Wednesday, upgraded to limited Thursday (expected back by 11/3/2024)"
+   */
+  static describe(timeline: InjuryTimeline): string | undefined {
+    if (!timeline.summary) {
+      return undefined;
+    }
+
+    return timeline.expectedReturn
+      ? `${timeline.summary} (expected back by ${timeline.expectedReturn.toLocaleDateString()})`
+      : timeline.summary;
+  }
+
+  private static designationLabel(status: InjuryReport['status']): string {
+    return status === 'ir' ? 'IR' : status;
+  }
+
+  private static weekday(date: Date): string {
+    return date.toLocaleDateString('en-US', { weekday: 'long', timeZone: REPORT_TIME_ZONE });
+  }
+
+  private static reportDate(date: Date): string {
+    return date.toLocaleDateString('en-US', { timeZone: REPORT_TIME_ZONE });
+  }
+}
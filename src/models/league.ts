@@ -0,0 +1,88 @@
+// League-related data models for personalized FAAB bids
+
+export type LeaguePlatform = 'Sleeper' | 'Yahoo' | 'ESPN';
+
+export const LEAGUE_PLATFORMS: LeaguePlatform[] = ['Sleeper', 'Yahoo', 'ESPN'];
+
+export interface LeagueRegistration {
+  platform: LeaguePlatform;
+  leagueId: string;
+  teamId?: string; // Our team: Sleeper roster or owner ID, ESPN team ID, Yahoo team key
+  name?: string;
+  faabBudget?: number; // Used when the platform does not report the league budget
+  remainingBudget?: number; // Used when the platform does not report what we have left
+}
+
+export interface LeagueTeamBudget {
+  teamId: string;
+  remainingBudget: number;
+}
+
+export interface LeagueSettings {
+  platform: LeaguePlatform;
+  leagueId: string;
+  name: string;
+  teamCount: number;
+  faabBudget: number;
+  teams: LeagueTeamBudget[];
+  ourTeamId?: string;
+  ourRemainingBudget: number;
+  starterSlots: Record<string, number>; // Position (or FLEX / SUPER_FLEX) -> starting slots
+  ourPositionCounts?: Record<string, number>; // Rostered players by position, when the roster is known
+}
+
+export type RosterNeed = 'high' | 'medium' | 'low';
+
+export interface LeagueBid {
+  platform: LeaguePlatform;
+  leagueId: string;
+  leagueName: string;
+  low: number;
+  expected: number;
+  aggressive: number;
+  remainingBudget: number;
+  rosterNeed: RosterNeed;
+}
+
+// Validation functions for league data integrity
+export class LeagueValidator {
+  static validateLeagueRegistration(registration: LeagueRegistration): boolean {
+    if (!LEAGUE_PLATFORMS.includes(registration.platform)) {
+      return false;
+    }
+
+    if (!registration.leagueId || typeof registration.leagueId !== 'string' || registration.leagueId.trim() === '') {
+      return false;
+    }
+
+    if (registration.faabBudget !== undefined &&
+        (typeof registration.faabBudget !== 'number' || registration.faabBudget < 0)) {
+      return false;
+    }
+
+    if (registration.remainingBudget !== undefined &&
+        (typeof registration.remainingBudget !== 'number' || registration.remainingBudget < 0)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  static validateLeagueBid(bid: LeagueBid): boolean {
+    if (!bid.leagueId || !bid.leagueName) {
+      return false;
+    }
+
+    const amounts = [bid.low, bid.expected, bid.aggressive, bid.remainingBudget];
+    if (!amounts.every(amount => typeof amount === 'number' && Number.isFinite(amount) && amount >= 0)) {
+      return false;
+    }
+
+    // Tiers must be ordered and affordable
+    if (bid.low > bid.expected || bid.expected > bid.aggressive || bid.aggressive > bid.remainingBudget) {
+      return false;
+    }
+
+    return ['high', 'medium', 'low'].includes(bid.rosterNeed);
+  }
+}
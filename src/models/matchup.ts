@@ -0,0 +1,59 @@
+// Matchup difficulty from defense-vs-position data, and strength of schedule
+
+export interface MatchupConfig {
+  windowWeeks: number; // Recent weeks of defensive games used to rank defenses
+  horizonWeeks: number; // Upcoming weeks scored for strength of schedule
+}
+
+// How one defense has fared against one position over the window
+export interface DefenseRanking {
+  team: string;
+  position: string;
+  pointsAllowed: number; // Fantasy points per game allowed to the position
+  rank: number; // 1 allows the most points, so it's the easiest matchup
+  difficulty: number; // 0 (easiest) to 100 (toughest)
+}
+
+export interface StrengthOfSchedule {
+  upcoming: number; // Average matchup difficulty (0-100) over the next horizonWeeks
+  upcomingWeeks: number[];
+  playoffs?: number; // Average over the fantasy playoff weeks still to come
+  playoffWeeks?: number[];
+}
+
+export const DEFAULT_MATCHUP_CONFIG: MatchupConfig = {
+  windowWeeks: 6,
+  horizonWeeks: 3
+};
+
+export class MatchupUtils {
+  /**
+   * Bucket a 0-100 difficulty into the label shown in posts; the middle third is medium
+   */
+  static labelDifficulty(difficulty: number | undefined): 'easy' | 'medium' | 'hard' {
+    if (difficulty === undefined) {
+      return 'medium';
+    }
+    if (difficulty < 34) {
+      return 'easy';
+    }
+    return difficulty > 66 ? 'hard' : 'medium';
+  }
+
+  static averageDifficulty(difficulties: number[]): number | undefined {
+    if (difficulties.length === 0) {
+      return undefined;
+    }
+    return Math.round(difficulties.reduce((sum, difficulty) => sum + difficulty, 0) / difficulties.length);
+  }
+}
+
+export class MatchupConfigValidator {
+  static validateMatchupConfig(config: MatchupConfig): boolean {
+    if (!Number.isInteger(config.windowWeeks) || config.windowWeeks < 1 || config.windowWeeks > 18) {
+      return false;
+    }
+
+    return Number.isInteger(config.horizonWeeks) && config.horizonWeeks >= 1 && config.horizonWeeks <= 8;
+  }
+}
@@ -0,0 +1,37 @@
+// RSS and Atom feeds (team beat writers, injury reporters) merged into player news
+
+export interface NewsFeedSource {
+  name: string; // Credited as the article's source
+  url: string; // http(s) URL, or a local file path or file:// URL
+  team?: string; // A beat feed's team; its articles also match players on that team by last name
+}
+
+export interface NewsFeedConfig {
+  enabled: boolean;
+  sources: NewsFeedSource[];
+  maxArticlesPerFeed: number; // Newest entries kept from each feed
+}
+
+export const DEFAULT_NEWS_FEED_CONFIG: NewsFeedConfig = {
+  enabled: false,
+  sources: [],
+  maxArticlesPerFeed: 50
+};
+
+export class NewsFeedConfigValidator {
+  static validateNewsFeedConfig(config: NewsFeedConfig): boolean {
+    if (typeof config.enabled !== 'boolean' || !Array.isArray(config.sources)) {
+      return false;
+    }
+
+    if (!Number.isInteger(config.maxArticlesPerFeed) || config.maxArticlesPerFeed < 1) {
+      return false;
+    }
+
+    return config.sources.every(source =>
+      typeof source.name === 'string' && source.name.trim() !== '' &&
+      typeof source.url === 'string' && source.url.trim() !== '' &&
+      (source.team === undefined || typeof source.team === 'string')
+    );
+  }
+}
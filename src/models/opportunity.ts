@@ -0,0 +1,63 @@
+// Depth chart position and share of team volume, for opportunity and role scoring
+
+// A player's place in the offense over recent weeks; shares are percents of the team's total
+export interface PlayerOpportunity {
+  depthChartSlot?: number; // 1 for the starter at the position
+  snapShare?: number;
+  targetShare?: number;
+  carryShare?: number;
+  redZoneShare?: number; // Targets and carries inside the opponent's 20
+  weeks: number[]; // Weeks the shares average over; empty when only the depth chart is known
+  source: string; // Provider the numbers came from
+}
+
+export interface OpportunityConfig {
+  weeks: number; // Recent weeks the shares average over
+  importFile?: string; // CSV or JSON file for players the provider has no data on
+}
+
+export const DEFAULT_OPPORTUNITY_CONFIG: OpportunityConfig = {
+  weeks: 3
+};
+
+export const OPPORTUNITY_SHARE_FIELDS = ['snapShare', 'targetShare', 'carryShare', 'redZoneShare'] as const;
+
+export class OpportunityUtils {
+  /**
+   * Average per-week readings into one opportunity; a share missing from every week stays unset
+   */
+  static average(readings: Array<Partial<PlayerOpportunity>>, weeks: number[], source: string): PlayerOpportunity {
+    const opportunity: PlayerOpportunity = { weeks, source };
+
+    const slots = readings.map(reading => reading.depthChartSlot).filter((slot): slot is number => slot !== undefined);
+    if (slots.length > 0) {
+      opportunity.depthChartSlot = slots[slots.length - 1]!;
+    }
+
+    OPPORTUNITY_SHARE_FIELDS.forEach(field => {
+      const values = readings.map(reading => reading[field]).filter((value): value is number => typeof value === 'number');
+      if (values.length > 0) {
+        opportunity[field] = Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+      }
+    });
+
+    return opportunity;
+  }
+
+  static share(part: number | undefined, total: number | undefined): number | undefined {
+    if (part === undefined || !total) {
+      return undefined;
+    }
+    return Math.round((part / total) * 1000) / 10;
+  }
+}
+
+export class OpportunityConfigValidator {
+  static validateOpportunityConfig(config: OpportunityConfig): boolean {
+    if (!Number.isInteger(config.weeks) || config.weeks < 1 || config.weeks > 8) {
+      return false;
+    }
+
+    return config.importFile === undefined || (typeof config.importFile === 'string' && config.importFile.trim() !== '');
+  }
+}
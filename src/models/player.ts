@@ -1,9 +1,25 @@
 // Player-related data models and interfaces
 
+import { getSeasonCalendar } from './season';
+import { LeagueBid, LeagueSettings, LeagueValidator } from './league';
+import { ScoringModel, ScoringModelReference } from './scoring';
+import { IDPPosition, IDP_POSITIONS } from './idp';
+import { DynastyAssessment, DynastyConfig, DynastyProfile } from './dynasty';
+import { StrengthOfSchedule } from './matchup';
+import { PlayerOpportunity } from './opportunity';
+import { StarterInjury } from './starter-injury';
+import { InjuryTimeline, PracticeParticipation } from './injury-timeline';
+
+export type OffensivePosition = 'QB' | 'RB' | 'WR' | 'TE' | 'K' | 'DST';
+
+export type FantasyPosition = OffensivePosition | IDPPosition;
+
+export const FANTASY_POSITIONS: FantasyPosition[] = ['QB', 'RB', 'WR', 'TE', 'K', 'DST', ...IDP_POSITIONS];
+
 export interface Player {
   id: string;
   name: string;
-  position: 'QB' | 'RB' | 'WR' | 'TE' | 'K' | 'DST';
+  position: FantasyPosition;
   team: string;
   jerseyNumber?: number;
 }
@@ -16,6 +32,40 @@ export interface PlayerSummary {
   additionCount: number;
   additionPercentage: number;
   platforms: string[];
+  dropCount?: number; // Set on players from the most-dropped track
+  dropPercentage?: number; // Weighted percent of leagues dropping the player, like additionPercentage
+  trend?: AdditionTrend; // Movement versus earlier weeks' top 10
+  trendingStatus?: 'hot' | 'rising' | 'steady'; // Read from the week-over-week deltas; unset without last week's list
+  additionSignals?: PlatformAdditionSignal[]; // Per-platform values behind additionPercentage
+  dynastyProfile?: DynastyProfile; // Age, experience and draft capital, added in dynasty mode
+}
+
+// One platform's addition signal for a player, as reported and as a share of that platform's leagues
+export interface PlatformAdditionSignal {
+  platform: string;
+  rawValue: number; // additionCount as the platform reported it
+  percentOfLeagues: number; // Share of the platform's leagues adding the player, 0-100
+  weight: number; // The platform's weight when combining platforms
+}
+
+// How a top-10 player compares with the lists saved in earlier weeks
+export interface AdditionTrend {
+  status: 'new' | 'repeat' | 'returning'; // First top-10 week this season, also in last week's list, or back after missing
+  consecutiveWeeks: number; // Weeks in a row in the top 10, including this one
+  appearances: number; // Top-10 weeks this season, including this one
+  previousRank?: number; // Rank among every player collected last week, when they were collected
+  rankChange?: number; // Spots gained since last week; negative when falling
+  previousAdditionPercentage?: number;
+  additionPercentageChange?: number;
+}
+
+// One week's ranked players, saved so the following weeks can compute trends
+export interface AdditionHistoryRecord {
+  season: number;
+  week: number;
+  recordedAt: Date;
+  players: PlayerSummary[]; // Every aggregated player in rank order
+  featured?: string[]; // IDs of the players featured that week; lists saved without it only held them
 }
 
 export interface PlayerStats {
@@ -28,6 +78,9 @@ export interface PlayerStats {
     targets?: number;
     carries?: number;
     redZoneTargets?: number;
+    tackles?: number; // Solo plus assisted, for defenders
+    sacks?: number;
+    interceptions?: number;
   };
   efficiency: {
     yardsPerTarget?: number;
@@ -44,6 +97,34 @@ export interface PlayerAdditionData {
   additionCount: number;
   platform: string;
   timestamp: Date;
+  platformPlayerId?: string; // Original platform ID once playerId holds the canonical ID
+}
+
+export interface PlayerDropData {
+  playerId: string;
+  name: string;
+  position: string;
+  team: string;
+  dropCount: number;
+  platform: string;
+  timestamp: Date;
+  platformPlayerId?: string; // Original platform ID once playerId holds the canonical ID
+}
+
+export interface PlayerIdentity {
+  canonicalId: string;
+  name: string;
+  position: string;
+  team: string;
+  platformIds: Record<string, string>;
+  updatedAt: Date;
+}
+
+export interface PlayerIdentityOverride {
+  platform: string;
+  platformId: string;
+  canonicalId: string;
+  note?: string;
 }
 
 export interface NewsArticle {
@@ -53,20 +134,42 @@ export interface NewsArticle {
   summary: string;
   url: string;
   sentiment: 'positive' | 'neutral' | 'negative';
+  coverage?: StoryCoverage[]; // Every outlet that ran the story, earliest first, once articles are clustered
+}
+
+// One outlet's article on a story that several sources covered
+export interface StoryCoverage {
+  source: string;
+  url: string;
+  publishDate: Date;
 }
 
 export interface InjuryReport {
-  status: 'healthy' | 'questionable' | 'doubtful' | 'out' | 'ir';
+  status: 'healthy' | 'questionable' | 'doubtful' | 'out' | 'ir' | 'unknown'; // 'unknown' when the lookup failed
   description?: string;
   expectedReturn?: Date;
+  practice?: PracticeParticipation; // Latest practice participation on the report
   impactLevel: 'low' | 'medium' | 'high';
 }
 
+// A league-wide injury report entry, with the SportsData player it's about
+export interface PlayerInjuryReport extends InjuryReport {
+  playerId: string; // SportsData player ID
+  name: string;
+  team: string;
+  position: string;
+  updatedAt?: Date; // When the report entry last changed
+}
+
 export interface Matchup {
   opponent: string;
   isHome: boolean;
   gameDate: Date;
   difficulty: 'easy' | 'medium' | 'hard';
+  week?: number;
+  difficultyScore?: number; // 0 (easiest) to 100 (toughest), from the opponent's defense against the position
+  defenseRank?: number; // 1 when the opponent allows the most fantasy points to the position
+  isFantasyPlayoff?: boolean;
 }
 
 export interface PerformanceMetrics {
@@ -81,6 +184,10 @@ export interface PlayerResearch {
   stats: PlayerStats;
   injuryStatus: InjuryReport;
   upcomingMatchups: Matchup[];
+  strengthOfSchedule?: StrengthOfSchedule;
+  opportunity?: PlayerOpportunity;
+  starterInjury?: StarterInjury; // Teammate ahead on the depth chart who is out or on IR
+  injuryTimeline?: InjuryTimeline; // This week's practice reports and designation changes
   recentPerformance: PerformanceMetrics;
 }
 
@@ -92,6 +199,39 @@ export interface PlayerAnalysis {
   suggestedFAABPercentage?: number;
   riskFactors: string[];
   upside: string[];
+  leagueBids?: LeagueBid[]; // Personalized bids for each registered league
+  factorScores?: FAABFactorScores; // Inputs to the FAAB value, kept for backtesting
+  scoringModel?: ScoringModelReference; // Model that produced the recommendation
+  dynasty?: DynastyAssessment; // Long-term call, in dynasty mode only
+  starterInjury?: StarterInjury; // Carried from research so the post can call out the opening
+  injuryTimeline?: InjuryTimeline; // Carried from research so the post can show the week's trajectory
+}
+
+// Whether managers holding a widely dropped player should cut them too
+export interface DropAnalysis {
+  player: PlayerSummary;
+  recommendation: 'SELL' | 'HOLD';
+  confidence: number;
+  reasoning: string[];
+  riskFactors: string[];
+  upside: string[];
+  scoringModel?: ScoringModelReference;
+}
+
+// Component scores behind AnalysisAgent.assessFAABValue
+export interface FAABFactorScores {
+  addition: number;
+  performance: number;
+  opportunity: number;
+  matchup: number;
+  scarcityMultiplier: number;
+}
+
+// Optional inputs that tailor an analysis beyond the player's own research
+export interface AnalysisContext {
+  leagues?: LeagueSettings[];
+  scoringModel?: ScoringModel; // Defaults to DEFAULT_SCORING_MODEL
+  dynasty?: DynastyConfig; // Adds a dynasty assessment to each analysis when enabled
 }
 
 // Validation functions for player data integrity
@@ -105,8 +245,7 @@ export class PlayerValidator {
       return false;
     }
     
-    const validPositions = ['QB', 'RB', 'WR', 'TE', 'K', 'DST'];
-    if (!validPositions.includes(player.position)) {
+    if (!FANTASY_POSITIONS.includes(player.position)) {
       return false;
     }
     
@@ -160,7 +299,7 @@ export class PlayerValidator {
       return false;
     }
     
-    if (typeof stats.week !== 'number' || stats.week < 1 || stats.week > 18) {
+    if (typeof stats.week !== 'number' || !getSeasonCalendar().isRegularSeasonWeek(stats.week, stats.season)) {
       return false;
     }
     
@@ -188,6 +327,11 @@ export class PlayerValidator {
       return false;
     }
     
+    const defensiveUsage = [stats.usage.tackles, stats.usage.sacks, stats.usage.interceptions];
+    if (defensiveUsage.some(value => value !== undefined && (typeof value !== 'number' || value < 0))) {
+      return false;
+    }
+    
     // Validate efficiency stats if provided
     if (stats.efficiency.yardsPerTarget !== undefined && 
         (typeof stats.efficiency.yardsPerTarget !== 'number' || stats.efficiency.yardsPerTarget < 0)) {
@@ -309,6 +453,9 @@ export class PlayerDataTransformer {
     const totalTargets = stats.reduce((sum, stat) => sum + (stat.usage.targets || 0), 0);
     const totalCarries = stats.reduce((sum, stat) => sum + (stat.usage.carries || 0), 0);
     const totalRedZoneTargets = stats.reduce((sum, stat) => sum + (stat.usage.redZoneTargets || 0), 0);
+    const totalTackles = stats.reduce((sum, stat) => sum + (stat.usage.tackles || 0), 0);
+    const totalSacks = stats.reduce((sum, stat) => sum + (stat.usage.sacks || 0), 0);
+    const totalInterceptions = stats.reduce((sum, stat) => sum + (stat.usage.interceptions || 0), 0);
     
     return {
       season: stats[0]!.season,
@@ -319,7 +466,11 @@ export class PlayerDataTransformer {
         ...(totalSnapCount > 0 && { snapCount: Math.round(totalSnapCount / stats.length) }),
         ...(totalTargets > 0 && { targets: Math.round(totalTargets / stats.length) }),
         ...(totalCarries > 0 && { carries: Math.round(totalCarries / stats.length) }),
-        ...(totalRedZoneTargets > 0 && { redZoneTargets: Math.round(totalRedZoneTargets / stats.length) })
+        ...(totalRedZoneTargets > 0 && { redZoneTargets: Math.round(totalRedZoneTargets / stats.length) }),
+        ...(totalTackles > 0 && { tackles: Math.round(totalTackles / stats.length * 10) / 10 }),
+        // Sacks and interceptions are rare enough that whole-number averages would hide them
+        ...(totalSacks > 0 && { sacks: Math.round(totalSacks / stats.length * 100) / 100 }),
+        ...(totalInterceptions > 0 && { interceptions: Math.round(totalInterceptions / stats.length * 100) / 100 })
       },
       efficiency: (() => {
         const efficiency: PlayerStats['efficiency'] = {};
@@ -380,7 +531,7 @@ export class NewsAndAnalysisValidator {
   }
 
   static validateInjuryReport(report: InjuryReport): boolean {
-    const validStatuses = ['healthy', 'questionable', 'doubtful', 'out', 'ir'];
+    const validStatuses = ['healthy', 'questionable', 'doubtful', 'out', 'ir', 'unknown'];
     if (!validStatuses.includes(report.status)) {
       return false;
     }
@@ -448,9 +599,40 @@ export class NewsAndAnalysisValidator {
       return false;
     }
     
+    if (analysis.leagueBids !== undefined && 
+        (!Array.isArray(analysis.leagueBids) || !analysis.leagueBids.every(bid => LeagueValidator.validateLeagueBid(bid)))) {
+      return false;
+    }
+    
+    if (analysis.scoringModel !== undefined && (!analysis.scoringModel.name || !analysis.scoringModel.version)) {
+      return false;
+    }
+    
     return true;
   }
 
+  static validateDropAnalysis(analysis: DropAnalysis): boolean {
+    if (!PlayerValidator.validatePlayerSummary(analysis.player)) {
+      return false;
+    }
+    
+    if (!['SELL', 'HOLD'].includes(analysis.recommendation)) {
+      return false;
+    }
+    
+    if (typeof analysis.confidence !== 'number' || 
+        analysis.confidence < 0 || analysis.confidence > 100) {
+      return false;
+    }
+    
+    if (!Array.isArray(analysis.reasoning) || analysis.reasoning.length === 0 ||
+        !analysis.reasoning.every(reason => typeof reason === 'string' && reason.trim() !== '')) {
+      return false;
+    }
+    
+    return Array.isArray(analysis.riskFactors) && Array.isArray(analysis.upside);
+  }
+
   static validateMatchup(matchup: Matchup): boolean {
     if (!matchup.opponent || typeof matchup.opponent !== 'string' || matchup.opponent.trim() === '') {
       return false;
@@ -589,7 +771,8 @@ export class NewsAndAnalysisTransformer {
       questionable: 'Limited practice, game-time decision',
       doubtful: 'Unlikely to play',
       out: 'Will not play',
-      ir: 'On injured reserve, out for extended period'
+      ir: 'On injured reserve, out for extended period',
+      unknown: 'Injury status could not be confirmed'
     };
     
     let summary = statusDescriptions[report.status];
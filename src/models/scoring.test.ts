@@ -0,0 +1,63 @@
+// Tests for scoring model validation and resolution
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SCORING_MODEL,
+  ScoringConfig,
+  ScoringModel,
+  ScoringModelUtils,
+  ScoringModelValidator
+} from './scoring';
+
+const aggressiveModel: ScoringModel = {
+  ...DEFAULT_SCORING_MODEL,
+  name: 'aggressive',
+  version: '2.1.0',
+  scoringType: 'superflex',
+  buyThreshold: 50
+};
+
+describe('ScoringModelValidator', () => {
+  it('should accept the default model', () => {
+    expect(ScoringModelValidator.validateScoringModel(DEFAULT_SCORING_MODEL)).toBe(true);
+  });
+
+  it('should reject weights that do not sum to 1', () => {
+    const model = { ...aggressiveModel, weights: { faabValue: 0.5, rosterImpact: 0.5, sustainability: 0.5 } };
+    expect(ScoringModelValidator.validateScoringModel(model)).toBe(false);
+  });
+
+  it('should reject unknown scoring types and out-of-range thresholds', () => {
+    expect(ScoringModelValidator.validateScoringModel({ ...aggressiveModel, scoringType: 'two-qb' as any })).toBe(false);
+    expect(ScoringModelValidator.validateScoringModel({ ...aggressiveModel, buyThreshold: 120 })).toBe(false);
+  });
+
+  it('should require a known active model and unique names', () => {
+    expect(ScoringModelValidator.validateScoringConfig({ activeModel: 'aggressive', models: [aggressiveModel] })).toBe(true);
+    expect(ScoringModelValidator.validateScoringConfig({ activeModel: 'default', models: [aggressiveModel] })).toBe(true);
+    expect(ScoringModelValidator.validateScoringConfig({ activeModel: 'missing', models: [aggressiveModel] })).toBe(false);
+    expect(ScoringModelValidator.validateScoringConfig({
+      activeModel: 'aggressive',
+      models: [aggressiveModel, aggressiveModel]
+    })).toBe(false);
+  });
+});
+
+describe('ScoringModelUtils', () => {
+  const config: ScoringConfig = { activeModel: 'aggressive', models: [aggressiveModel] };
+
+  it('should resolve the active model unless another is requested', () => {
+    expect(ScoringModelUtils.resolveScoringModel(config)).toBe(aggressiveModel);
+    expect(ScoringModelUtils.resolveScoringModel(config, 'default')).toBe(DEFAULT_SCORING_MODEL);
+    expect(ScoringModelUtils.resolveScoringModel(undefined)).toBe(DEFAULT_SCORING_MODEL);
+    expect(() => ScoringModelUtils.resolveScoringModel(config, 'conservative'))
+      .toThrow('Unknown scoring model "conservative". Available: default, aggressive');
+  });
+
+  it('should adjust position multipliers for the scoring type', () => {
+    expect(ScoringModelUtils.getPositionMultiplier(DEFAULT_SCORING_MODEL, 'QB')).toBe(0.8);
+    expect(ScoringModelUtils.getPositionMultiplier(aggressiveModel, 'QB')).toBeCloseTo(1.4);
+    expect(ScoringModelUtils.getPositionMultiplier({ ...DEFAULT_SCORING_MODEL, scoringType: 'standard' }, 'WR')).toBe(0.9);
+    expect(ScoringModelUtils.getPositionMultiplier(DEFAULT_SCORING_MODEL, 'LB')).toBe(1.0);
+  });
+});
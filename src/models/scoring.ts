@@ -0,0 +1,146 @@
+// Scoring model definitions for configurable BUY/PASS decisions
+
+export type ScoringType = 'ppr' | 'half-ppr' | 'standard' | 'superflex';
+
+export const SCORING_TYPES: ScoringType[] = ['ppr', 'half-ppr', 'standard', 'superflex'];
+
+export interface ScoringWeights {
+  faabValue: number;
+  rosterImpact: number;
+  sustainability: number;
+}
+
+export interface ScoringModel {
+  name: string;
+  version: string;
+  scoringType: ScoringType;
+  weights: ScoringWeights; // Blend of the three component scores, should sum to 1
+  buyThreshold: number; // Risk-adjusted composite score (0-100) needed for a BUY
+  riskPenalty: {
+    perRiskFactor: number;
+    max: number;
+  };
+  positionMultipliers: Record<string, number>; // Position scarcity, before scoring type adjustments
+}
+
+export interface ScoringConfig {
+  activeModel: string; // Name of the model used when a run doesn't ask for one
+  models: ScoringModel[];
+}
+
+// Identifies the model that produced an analysis, so runs with different models can be compared
+export interface ScoringModelReference {
+  name: string;
+  version: string;
+  scoringType: ScoringType;
+}
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  name: 'default',
+  version: '1.0.0',
+  scoringType: 'ppr',
+  weights: { faabValue: 0.4, rosterImpact: 0.35, sustainability: 0.25 },
+  buyThreshold: 60,
+  riskPenalty: { perRiskFactor: 5, max: 20 },
+  positionMultipliers: {
+    'RB': 1.2,  // RBs are typically more scarce
+    'WR': 1.0,  // Baseline
+    'TE': 1.1,  // Slightly more scarce than WR
+    'QB': 0.8,  // Usually more available
+    'K': 0.5,   // Least valuable
+    'DST': 0.6  // Low value
+  }
+};
+
+// Applied on top of a model's position multipliers: fewer points per catch
+// lowers pass catchers, and a second QB slot makes QBs scarce
+const SCORING_TYPE_ADJUSTMENTS: Record<ScoringType, Record<string, number>> = {
+  'ppr': {},
+  'half-ppr': { 'WR': 0.95, 'TE': 0.95 },
+  'standard': { 'WR': 0.9, 'TE': 0.9, 'RB': 1.05 },
+  'superflex': { 'QB': 1.75 }
+};
+
+export class ScoringModelValidator {
+  static validateScoringModel(model: ScoringModel): boolean {
+    if (!model.name || typeof model.name !== 'string' || model.name.trim() === '') {
+      return false;
+    }
+
+    if (!model.version || typeof model.version !== 'string' || model.version.trim() === '') {
+      return false;
+    }
+
+    if (!SCORING_TYPES.includes(model.scoringType)) {
+      return false;
+    }
+
+    const weights = [model.weights?.faabValue, model.weights?.rosterImpact, model.weights?.sustainability];
+    if (!weights.every(weight => typeof weight === 'number' && weight >= 0)) {
+      return false;
+    }
+
+    const weightTotal = (weights as number[]).reduce((sum, weight) => sum + weight, 0);
+    if (Math.abs(weightTotal - 1) > 0.001) {
+      return false;
+    }
+
+    if (typeof model.buyThreshold !== 'number' || model.buyThreshold < 0 || model.buyThreshold > 100) {
+      return false;
+    }
+
+    if (typeof model.riskPenalty?.perRiskFactor !== 'number' || model.riskPenalty.perRiskFactor < 0 ||
+        typeof model.riskPenalty.max !== 'number' || model.riskPenalty.max < 0) {
+      return false;
+    }
+
+    if (!model.positionMultipliers || typeof model.positionMultipliers !== 'object') {
+      return false;
+    }
+
+    return Object.values(model.positionMultipliers).every(multiplier => typeof multiplier === 'number' && multiplier >= 0);
+  }
+
+  static validateScoringConfig(config: ScoringConfig): boolean {
+    if (!Array.isArray(config.models) || !config.models.every(model => this.validateScoringModel(model))) {
+      return false;
+    }
+
+    const names = config.models.map(model => model.name);
+    if (new Set(names).size !== names.length) {
+      return false;
+    }
+
+    // The active model may be one of ours or the built-in default
+    return config.activeModel === DEFAULT_SCORING_MODEL.name || names.includes(config.activeModel);
+  }
+}
+
+export class ScoringModelUtils {
+  /**
+   * Pick a model by name (defaulting to the configured active model); the built-in default is always available
+   */
+  static resolveScoringModel(config?: ScoringConfig, name?: string): ScoringModel {
+    const requested = name || config?.activeModel || DEFAULT_SCORING_MODEL.name;
+    const model = config?.models.find(candidate => candidate.name === requested);
+
+    if (model) {
+      return model;
+    }
+    if (requested === DEFAULT_SCORING_MODEL.name) {
+      return DEFAULT_SCORING_MODEL;
+    }
+
+    const available = [DEFAULT_SCORING_MODEL.name, ...(config?.models || []).map(candidate => candidate.name)];
+    throw new Error(`Unknown scoring model "${requested}". Available: ${Array.from(new Set(available)).join(', ')}`);
+  }
+
+  static getPositionMultiplier(model: ScoringModel, position: string): number {
+    const base = model.positionMultipliers[position] ?? 1.0;
+    return base * (SCORING_TYPE_ADJUSTMENTS[model.scoringType][position] ?? 1.0);
+  }
+
+  static toReference(model: ScoringModel): ScoringModelReference {
+    return { name: model.name, version: model.version, scoringType: model.scoringType };
+  }
+}
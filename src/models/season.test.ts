@@ -0,0 +1,114 @@
+// Unit tests for the NFL season calendar
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SeasonCalendar, SeasonDefinition } from './season';
+
+describe('SeasonCalendar', () => {
+  let calendar: SeasonCalendar;
+
+  beforeEach(() => {
+    calendar = new SeasonCalendar();
+  });
+
+  describe('season and week lookups', () => {
+    it('should assign January and February to the previous season', () => {
+      expect(calendar.getSeasonForDate(new Date('2026-01-20T12:00:00Z'))).toBe(2025);
+      expect(calendar.getSeasonForDate(new Date('2025-10-01T12:00:00Z'))).toBe(2025);
+    });
+
+    it('should start week 1 on the Tuesday before kickoff', () => {
+      expect(calendar.getWeekForDate(new Date('2025-09-01T12:00:00Z'))).toBe(0);
+      expect(calendar.getWeekForDate(new Date('2025-09-02T12:00:00Z'))).toBe(1);
+      expect(calendar.getWeekForDate(new Date('2025-09-08T23:00:00Z'))).toBe(1);
+      expect(calendar.getWeekForDate(new Date('2025-09-09T12:00:00Z'))).toBe(2);
+    });
+
+    it('should report weeks past the regular season without clamping', () => {
+      const afterSeason = new Date('2026-01-07T12:00:00Z');
+
+      expect(calendar.getWeekForDate(afterSeason)).toBe(19);
+      expect(calendar.getLookupWeek(afterSeason)).toBe(18);
+      expect(calendar.isRegularSeasonWeek(19, 2025)).toBe(false);
+      expect(calendar.isRegularSeasonWeek(0, 2025)).toBe(false);
+    });
+
+    it('should honour a pinned reference date', () => {
+      calendar.setReferenceDate(new Date('2024-10-16T12:00:00Z'));
+
+      expect(calendar.getCurrentSeason()).toBe(2024);
+      expect(calendar.getCurrentWeek()).toBe(7);
+    });
+  });
+
+  describe('season phases', () => {
+    it('should distinguish offseason, preseason, regular season and postseason', () => {
+      expect(calendar.getPhase(new Date('2025-05-01T12:00:00Z'))).toBe('offseason');
+      expect(calendar.getPhase(new Date('2025-08-15T12:00:00Z'))).toBe('preseason');
+      expect(calendar.getPhase(new Date('2025-11-01T12:00:00Z'))).toBe('regular');
+      expect(calendar.getPhase(new Date('2026-01-25T12:00:00Z'))).toBe('postseason');
+      expect(calendar.getPhase(new Date('2026-02-20T12:00:00Z'))).toBe('offseason');
+    });
+  });
+
+  describe('bye and playoff weeks', () => {
+    it('should look up bye weeks from the bundled data', () => {
+      expect(calendar.getByeWeek('DET', 2025)).toBe(8);
+      expect(calendar.getByeTeams(14, 2024)).toContain('BAL');
+      expect(calendar.isOnBye('sf', 14, 2025)).toBe(true);
+    });
+
+    it('should expose fantasy playoff weeks', () => {
+      expect(calendar.getFantasyPlayoffWeeks(2025)).toEqual([15, 16, 17]);
+      expect(calendar.isFantasyPlayoffWeek(16, 2025)).toBe(true);
+      expect(calendar.isFantasyPlayoffWeek(14, 2025)).toBe(false);
+    });
+
+    it('should derive kickoff for seasons missing from the data file', () => {
+      const derived = calendar.getSeasonDefinition(2030);
+
+      expect(derived.kickoff).toBe('2030-09-05');
+      expect(derived.regularSeasonWeeks).toBe(18);
+      expect(derived.byeWeeks).toEqual({});
+    });
+  });
+
+  describe('overrides', () => {
+    let overridePath: string;
+
+    beforeEach(() => {
+      overridePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'season-calendar-')), 'nfl-seasons.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(path.dirname(overridePath), { recursive: true, force: true });
+    });
+
+    it('should replace bundled seasons with entries from the override file', () => {
+      const override: SeasonDefinition = {
+        season: 2025,
+        kickoff: '2025-09-11',
+        regularSeasonWeeks: 18,
+        fantasyPlayoffWeeks: [14, 15, 16],
+        byeWeeks: { '6': ['KC'] }
+      };
+      fs.writeFileSync(overridePath, JSON.stringify({ seasons: [override] }));
+
+      const overridden = SeasonCalendar.load(overridePath);
+
+      expect(overridden.getWeekForDate(new Date('2025-09-10T12:00:00Z'))).toBe(1);
+      expect(overridden.getByeWeek('KC', 2025)).toBe(6);
+      expect(overridden.getByeWeek('DET', 2024)).toBe(5);
+    });
+
+    it('should reject invalid season definitions', () => {
+      fs.writeFileSync(overridePath, JSON.stringify({
+        seasons: [{ season: 2025, kickoff: 'soon', regularSeasonWeeks: 18, fantasyPlayoffWeeks: [], byeWeeks: {} }]
+      }));
+
+      expect(() => SeasonCalendar.load(overridePath)).toThrow('Invalid season definition');
+    });
+  });
+});
@@ -0,0 +1,243 @@
+// NFL season calendar models and lookups
+
+import * as fs from 'fs';
+import bundledSeasonData from '../data/nfl-seasons.json';
+
+export type SeasonPhase = 'offseason' | 'preseason' | 'regular' | 'postseason';
+
+export interface SeasonDefinition {
+  season: number;
+  kickoff: string; // Date of the opening Thursday night game (YYYY-MM-DD)
+  regularSeasonWeeks: number;
+  fantasyPlayoffWeeks: number[];
+  postseasonEnd?: string; // Super Bowl date (YYYY-MM-DD)
+  byeWeeks: Record<string, string[]>; // Week number -> teams on bye
+}
+
+export interface SeasonDataFile {
+  seasons: SeasonDefinition[];
+}
+
+export interface WeekWindow {
+  season: number;
+  week: number;
+  start: Date;
+  end: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const PRESEASON_DAYS = 35; // Roughly when preseason games and fantasy drafts start
+const POSTSEASON_WEEKS = 5; // Wild card through Super Bowl, including the bye before it
+
+export const SEASON_CALENDAR_OVERRIDE_PATH = './config/nfl-seasons.json';
+
+/**
+ * Single source of truth for NFL weeks, bye weeks, fantasy playoffs and the offseason.
+ * Weeks roll over on Tuesday, when most leagues process waivers.
+ */
+export class SeasonCalendar {
+  private seasons = new Map<number, SeasonDefinition>();
+  private referenceDate: Date | undefined;
+
+  constructor(definitions: SeasonDefinition[] = (bundledSeasonData as SeasonDataFile).seasons) {
+    definitions.forEach(definition => this.seasons.set(definition.season, definition));
+  }
+
+  /**
+   * Build a calendar from the bundled season data, with any seasons in the override file replacing bundled ones
+   */
+  static load(overridePath: string = process.env.NFL_SEASON_CALENDAR_FILE || SEASON_CALENDAR_OVERRIDE_PATH): SeasonCalendar {
+    const calendar = new SeasonCalendar();
+
+    if (fs.existsSync(overridePath)) {
+      const data = JSON.parse(fs.readFileSync(overridePath, 'utf-8')) as SeasonDataFile;
+      (data.seasons || []).forEach(definition => {
+        if (!SeasonCalendar.validateSeasonDefinition(definition)) {
+          throw new Error(`Invalid season definition for ${definition.season} in ${overridePath}`);
+        }
+        calendar.seasons.set(definition.season, definition);
+      });
+    }
+
+    return calendar;
+  }
+
+  static validateSeasonDefinition(definition: SeasonDefinition): boolean {
+    if (typeof definition.season !== 'number' || definition.season < 2000) {
+      return false;
+    }
+
+    if (!definition.kickoff || isNaN(new Date(definition.kickoff).getTime())) {
+      return false;
+    }
+
+    if (typeof definition.regularSeasonWeeks !== 'number' ||
+        definition.regularSeasonWeeks < 1 || definition.regularSeasonWeeks > 20) {
+      return false;
+    }
+
+    if (!Array.isArray(definition.fantasyPlayoffWeeks) ||
+        definition.fantasyPlayoffWeeks.some(week => week < 1 || week > definition.regularSeasonWeeks)) {
+      return false;
+    }
+
+    return typeof definition.byeWeeks === 'object' && definition.byeWeeks !== null;
+  }
+
+  /**
+   * Pin "now" to a fixed date, e.g. when re-running a past week. Pass nothing to use the clock again.
+   */
+  setReferenceDate(date?: Date): void {
+    this.referenceDate = date;
+  }
+
+  getReferenceDate(): Date | undefined {
+    return this.referenceDate ? new Date(this.referenceDate) : undefined;
+  }
+
+  today(): Date {
+    return this.referenceDate ? new Date(this.referenceDate) : new Date();
+  }
+
+  getSeasonDefinition(season: number): SeasonDefinition {
+    return this.seasons.get(season) || this.deriveSeasonDefinition(season);
+  }
+
+  /**
+   * NFL season a date belongs to; January and February belong to the previous year's season
+   */
+  getSeasonForDate(date: Date = this.today()): number {
+    const year = date.getUTCFullYear();
+    return date.getUTCMonth() <= 1 ? year - 1 : year;
+  }
+
+  getCurrentSeason(): number {
+    return this.getSeasonForDate(this.today());
+  }
+
+  getRegularSeasonWeeks(season: number = this.getCurrentSeason()): number {
+    return this.getSeasonDefinition(season).regularSeasonWeeks;
+  }
+
+  /**
+   * Week number for a date: 0 before week 1 starts, above the regular season length once it ends
+   */
+  getWeekForDate(date: Date = this.today()): number {
+    const season = this.getSeasonForDate(date);
+    const weekOneStart = this.getWeekOneStart(season);
+    const elapsedWeeks = Math.floor((date.getTime() - weekOneStart.getTime()) / WEEK_MS);
+    return Math.max(0, elapsedWeeks + 1);
+  }
+
+  getCurrentWeek(): number {
+    return this.getWeekForDate(this.today());
+  }
+
+  /**
+   * Current week clamped into the regular season, for stat and schedule lookups outside of it
+   */
+  getLookupWeek(date: Date = this.today()): number {
+    const season = this.getSeasonForDate(date);
+    return Math.min(this.getRegularSeasonWeeks(season), Math.max(1, this.getWeekForDate(date)));
+  }
+
+  isRegularSeasonWeek(week: number, season: number = this.getCurrentSeason()): boolean {
+    return Number.isInteger(week) && week >= 1 && week <= this.getRegularSeasonWeeks(season);
+  }
+
+  getPhase(date: Date = this.today()): SeasonPhase {
+    const season = this.getSeasonForDate(date);
+    const definition = this.getSeasonDefinition(season);
+    const weekOneStart = this.getWeekOneStart(season);
+    const regularSeasonEnd = this.getWeekWindow(season, definition.regularSeasonWeeks).end;
+
+    if (date < weekOneStart) {
+      return date.getTime() >= weekOneStart.getTime() - PRESEASON_DAYS * DAY_MS ? 'preseason' : 'offseason';
+    }
+
+    if (date <= regularSeasonEnd) {
+      return 'regular';
+    }
+
+    return date <= this.getPostseasonEnd(season) ? 'postseason' : 'offseason';
+  }
+
+  isInSeason(date: Date = this.today()): boolean {
+    return this.getPhase(date) === 'regular';
+  }
+
+  getWeekWindow(season: number, week: number): WeekWindow {
+    const start = new Date(this.getWeekOneStart(season).getTime() + (week - 1) * WEEK_MS);
+    const end = new Date(start.getTime() + WEEK_MS - 1);
+    return { season, week, start, end };
+  }
+
+  getByeTeams(week: number, season: number = this.getCurrentSeason()): string[] {
+    return this.getSeasonDefinition(season).byeWeeks[String(week)] || [];
+  }
+
+  getByeWeek(team: string, season: number = this.getCurrentSeason()): number | undefined {
+    const byeWeeks = this.getSeasonDefinition(season).byeWeeks;
+    const entry = Object.entries(byeWeeks).find(([, teams]) => teams.includes(team.toUpperCase()));
+    return entry ? parseInt(entry[0], 10) : undefined;
+  }
+
+  isOnBye(team: string, week: number, season: number = this.getCurrentSeason()): boolean {
+    return this.getByeTeams(week, season).includes(team.toUpperCase());
+  }
+
+  getFantasyPlayoffWeeks(season: number = this.getCurrentSeason()): number[] {
+    return [...this.getSeasonDefinition(season).fantasyPlayoffWeeks];
+  }
+
+  isFantasyPlayoffWeek(week: number, season: number = this.getCurrentSeason()): boolean {
+    return this.getFantasyPlayoffWeeks(season).includes(week);
+  }
+
+  private getWeekOneStart(season: number): Date {
+    // Week 1 opens on the Tuesday before the Thursday kickoff
+    const kickoff = new Date(`${this.getSeasonDefinition(season).kickoff}T00:00:00Z`);
+    return new Date(kickoff.getTime() - 2 * DAY_MS);
+  }
+
+  private getPostseasonEnd(season: number): Date {
+    const definition = this.getSeasonDefinition(season);
+    if (definition.postseasonEnd) {
+      return new Date(new Date(`${definition.postseasonEnd}T00:00:00Z`).getTime() + DAY_MS - 1);
+    }
+    return this.getWeekWindow(season, definition.regularSeasonWeeks + POSTSEASON_WEEKS).end;
+  }
+
+  /**
+   * Fallback for seasons missing from the data file: kickoff on the Thursday after Labor Day, no bye data
+   */
+  private deriveSeasonDefinition(season: number): SeasonDefinition {
+    const septemberFirst = new Date(Date.UTC(season, 8, 1));
+    const daysUntilMonday = (8 - septemberFirst.getUTCDay()) % 7;
+    const kickoff = new Date(septemberFirst.getTime() + (daysUntilMonday + 3) * DAY_MS);
+    const regularSeasonWeeks = season >= 2021 ? 18 : 17;
+
+    return {
+      season,
+      kickoff: kickoff.toISOString().slice(0, 10),
+      regularSeasonWeeks,
+      fantasyPlayoffWeeks: [regularSeasonWeeks - 3, regularSeasonWeeks - 2, regularSeasonWeeks - 1],
+      byeWeeks: {}
+    };
+  }
+}
+
+// Shared calendar instance for global access
+let seasonCalendarInstance: SeasonCalendar | null = null;
+
+export function getSeasonCalendar(): SeasonCalendar {
+  if (!seasonCalendarInstance) {
+    seasonCalendarInstance = SeasonCalendar.load();
+  }
+  return seasonCalendarInstance;
+}
+
+export function resetSeasonCalendar(): void {
+  seasonCalendarInstance = null;
+}
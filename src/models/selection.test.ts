@@ -0,0 +1,41 @@
+// Tests for player selection policy validation
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SELECTION_POLICY, SelectionPolicyValidator } from './selection';
+
+describe('SelectionPolicyValidator', () => {
+  it('should accept the default policy and full policies', () => {
+    expect(SelectionPolicyValidator.validateSelectionPolicy(DEFAULT_SELECTION_POLICY)).toBe(true);
+    expect(SelectionPolicyValidator.validateSelectionPolicy({
+      count: 8,
+      positionLimits: { QB: { min: 1 }, TE: { min: 1, max: 2 }, RB: { max: 3 } },
+      excludedPositions: ['K'],
+      cooldownWeeks: 1
+    })).toBe(true);
+  });
+
+  it('should reject counts, cooldowns and limits that cannot work', () => {
+    expect(SelectionPolicyValidator.validateSelectionPolicy({ count: 0 })).toBe(false);
+    expect(SelectionPolicyValidator.validateSelectionPolicy({ count: 10, cooldownWeeks: -1 })).toBe(false);
+    expect(SelectionPolicyValidator.validateSelectionPolicy({ count: 10, positionLimits: { RB: { min: 3, max: 2 } } })).toBe(false);
+    expect(SelectionPolicyValidator.validateSelectionPolicy({
+      count: 2,
+      positionLimits: { QB: { min: 2 }, TE: { min: 1 } }
+    })).toBe(false);
+    expect(SelectionPolicyValidator.validateSelectionPolicy({
+      count: 10,
+      positionLimits: { K: { min: 1 } },
+      excludedPositions: ['K']
+    })).toBe(false);
+  });
+
+  it('should check defender minimums against the IDP slots', () => {
+    expect(SelectionPolicyValidator.validateSelectionPolicy({
+      count: 1,
+      idpCount: 2,
+      positionLimits: { QB: { min: 1 }, LB: { min: 1 }, DB: { min: 1 } }
+    })).toBe(true);
+    expect(SelectionPolicyValidator.validateSelectionPolicy({ count: 10, positionLimits: { LB: { min: 1 } } })).toBe(false);
+    expect(SelectionPolicyValidator.validateSelectionPolicy({ count: 10, idpCount: -1 })).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+// Player selection policy for choosing which most-added players get written up
+
+import { PlayerSummary } from './player';
+import { IDPUtils } from './idp';
+
+export interface PositionLimit {
+  min?: number; // Filled before the remaining slots, when enough players at the position were added
+  max?: number;
+}
+
+export interface PlayerSelectionPolicy {
+  count: number; // Players featured in the post
+  idpCount?: number; // Defenders featured on top of count, from idp.count; defenders are skipped when absent or 0
+  positionLimits?: Record<string, PositionLimit>;
+  excludedPositions?: string[];
+  cooldownWeeks?: number; // Skip players featured in any of this many previous weeks; 0 turns it off
+}
+
+// Why a candidate made the list or not, kept in the run output
+export interface PlayerSelectionDecision {
+  playerId: string;
+  name: string;
+  position: string;
+  rank: number; // Position in the ranked candidate list, 1-based
+  selected: boolean;
+  reason: string;
+}
+
+export interface PlayerSelectionResult {
+  players: PlayerSummary[];
+  decisions: PlayerSelectionDecision[];
+  ranked: PlayerSummary[]; // Every aggregated candidate in rank order, selected or not
+}
+
+export const DEFAULT_SELECTION_POLICY: PlayerSelectionPolicy = {
+  count: 10
+};
+
+export class SelectionPolicyValidator {
+  static validateSelectionPolicy(policy: PlayerSelectionPolicy): boolean {
+    if (!Number.isInteger(policy.count) || policy.count < 1) {
+      return false;
+    }
+
+    if (policy.cooldownWeeks !== undefined && (!Number.isInteger(policy.cooldownWeeks) || policy.cooldownWeeks < 0)) {
+      return false;
+    }
+
+    if (policy.idpCount !== undefined && (!Number.isInteger(policy.idpCount) || policy.idpCount < 0)) {
+      return false;
+    }
+
+    if (policy.excludedPositions !== undefined &&
+        (!Array.isArray(policy.excludedPositions) || !policy.excludedPositions.every(position => typeof position === 'string'))) {
+      return false;
+    }
+
+    if (policy.positionLimits === undefined) {
+      return true;
+    }
+    if (typeof policy.positionLimits !== 'object' || policy.positionLimits === null) {
+      return false;
+    }
+
+    // Defenders fill their own slots, so their minimums are checked against idpCount
+    let minimumTotal = 0;
+    let idpMinimumTotal = 0;
+    for (const [position, limit] of Object.entries(policy.positionLimits)) {
+      const { min, max } = limit;
+      if (min !== undefined && (!Number.isInteger(min) || min < 0)) {
+        return false;
+      }
+      if (max !== undefined && (!Number.isInteger(max) || max < 0)) {
+        return false;
+      }
+      if (min !== undefined && max !== undefined && min > max) {
+        return false;
+      }
+      // A minimum for a position we never feature can't be met
+      if (min && policy.excludedPositions?.includes(position)) {
+        return false;
+      }
+      if (IDPUtils.isIDPPosition(position)) {
+        idpMinimumTotal += min || 0;
+      } else {
+        minimumTotal += min || 0;
+      }
+    }
+
+    return minimumTotal <= policy.count && idpMinimumTotal <= (policy.idpCount || 0);
+  }
+}
@@ -0,0 +1,63 @@
+// Injured starters whose absence opens a role for the player behind them on the depth chart
+
+// The teammate ahead of a researched player who is out or on injured reserve
+export interface StarterInjury {
+  injuredPlayer: string;
+  position: string;
+  depthChartSlot?: number; // Injured player's slot; unset once they've been taken off the depth chart
+  status: 'out' | 'ir';
+  description?: string;
+  expectedWeeksOut: number;
+  seasonEnding: boolean;
+  nextInLine: boolean; // The researched player is the direct backup, not further down the chart
+}
+
+// Players on injured reserve miss at least four games
+export const IR_MINIMUM_WEEKS = 4;
+
+const SEASON_ENDING_KEYWORDS = ['acl', 'achilles', 'season-ending', 'season ending'];
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class StarterInjuryUtils {
+  /**
+   * Absence length from the report: the weeks until its expected return when it has one (never
+   * under the IR minimum for injured reserve), otherwise a week for an out designation and the IR
+   * minimum for injured reserve. Injuries that usually end the season run to its end.
+   */
+  static estimateAbsence(
+    status: StarterInjury['status'],
+    description: string | undefined,
+    weeksLeft: number,
+    expectedReturn?: Date,
+    today: Date = new Date()
+  ): Pick<StarterInjury, 'expectedWeeksOut' | 'seasonEnding'> {
+    const minimumWeeks = status === 'ir' ? IR_MINIMUM_WEEKS : 1;
+    if (expectedReturn) {
+      const weeksUntilReturn = Math.max(minimumWeeks, Math.ceil((expectedReturn.getTime() - today.getTime()) / WEEK_MS));
+      return {
+        expectedWeeksOut: Math.min(weeksUntilReturn, Math.max(weeksLeft, 1)),
+        seasonEnding: weeksUntilReturn >= weeksLeft
+      };
+    }
+
+    const text = (description || '').toLowerCase();
+    if (SEASON_ENDING_KEYWORDS.some(keyword => text.includes(keyword))) {
+      return { expectedWeeksOut: Math.max(weeksLeft, 1), seasonEnding: true };
+    }
+
+    return { expectedWeeksOut: Math.min(minimumWeeks, Math.max(weeksLeft, 1)), seasonEnding: false };
+  }
+
+  /**
+   * e.g. "Brian Robinson (RB1) is on IR (Hamstring) for about 4 weeks"
+   */
+  static describe(injury: StarterInjury): string {
+    const slot = injury.depthChartSlot !== undefined ? `${injury.position}${injury.depthChartSlot}` : injury.position;
+    const status = injury.status === 'ir' ? 'on IR' : 'out';
+    const detail = injury.description ? ` (${injury.description})` : '';
+    const absence = injury.seasonEnding
+      ? 'for the season'
+      : `for about ${injury.expectedWeeksOut} week${injury.expectedWeeksOut === 1 ? '' : 's'}`;
+    return `${injury.injuredPlayer} (${slot}) is ${status}${detail} ${absence}`;
+  }
+}
@@ -0,0 +1,56 @@
+// Weekly streamer rankings for one-week QB, K and DST pickups
+
+export type StreamerPosition = 'QB' | 'K' | 'DST';
+
+export const STREAMER_POSITIONS: StreamerPosition[] = ['QB', 'K', 'DST'];
+
+export interface StreamingConfig {
+  enabled: boolean;
+  perPosition: number; // Streamers listed for each position
+  rosteredCutoff: Record<StreamerPosition, number>; // The top N at each position are assumed rostered and skipped
+}
+
+export interface StreamerRecommendation {
+  position: StreamerPosition;
+  name: string; // Player name, or the team name for a defense
+  team: string;
+  opponent: string;
+  isHome: boolean;
+  rank: number; // 1-based within the position
+  score: number; // Matchup score, 0-100
+  impliedTeamTotal?: number; // Points the betting line expects the team to score
+  rationale: string[];
+}
+
+export interface StreamerRankings {
+  season: number;
+  week: number;
+  streamers: StreamerRecommendation[]; // Grouped by position in STREAMER_POSITIONS order, best first
+}
+
+export const DEFAULT_STREAMING_CONFIG: StreamingConfig = {
+  enabled: true,
+  perPosition: 3,
+  rosteredCutoff: { QB: 12, K: 8, DST: 8 }
+};
+
+export class StreamingConfigValidator {
+  static validateStreamingConfig(config: StreamingConfig): boolean {
+    if (typeof config.enabled !== 'boolean') {
+      return false;
+    }
+
+    if (!Number.isInteger(config.perPosition) || config.perPosition < 1) {
+      return false;
+    }
+
+    if (typeof config.rosteredCutoff !== 'object' || config.rosteredCutoff === null) {
+      return false;
+    }
+
+    return STREAMER_POSITIONS.every(position => {
+      const cutoff = config.rosteredCutoff[position];
+      return Number.isInteger(cutoff) && cutoff >= 0;
+    });
+  }
+}
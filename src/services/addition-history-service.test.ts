@@ -0,0 +1,160 @@
+// Tests for week-over-week addition trends
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AdditionHistoryService } from './addition-history-service';
+import { PlayerSummary } from '../models';
+
+// Mock Logger
+vi.mock('../utils/logger', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+function createPlayer(playerId: string, additionPercentage: number): PlayerSummary {
+  return {
+    playerId,
+    name: `Player ${playerId}`,
+    position: 'WR',
+    team: 'KC',
+    additionCount: 500,
+    additionPercentage,
+    platforms: ['Sleeper']
+  };
+}
+
+describe('AdditionHistoryService', () => {
+  let directory: string;
+  let service: AdditionHistoryService;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'addition-history-'));
+    service = new AdditionHistoryService(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should mark new, repeat and returning players against earlier weeks', async () => {
+    await service.recordWeek(2025, 3, [createPlayer('a', 20), createPlayer('c', 15)]);
+    await service.recordWeek(2025, 4, [createPlayer('b', 30), createPlayer('a', 25)]);
+    await service.recordWeek(2025, 5, [createPlayer('a', 18), createPlayer('b', 22)]);
+
+    const trended = await service.applyTrends(2025, 6, [
+      createPlayer('a', 28.5),
+      createPlayer('b', 12),
+      createPlayer('c', 10),
+      createPlayer('d', 9)
+    ]);
+
+    expect(trended.map(player => player.trend)).toEqual([
+      {
+        status: 'repeat',
+        consecutiveWeeks: 4,
+        appearances: 4,
+        previousRank: 1,
+        rankChange: 0,
+        previousAdditionPercentage: 18,
+        additionPercentageChange: 10.5
+      },
+      {
+        status: 'repeat',
+        consecutiveWeeks: 3,
+        appearances: 3,
+        previousRank: 2,
+        rankChange: 0,
+        previousAdditionPercentage: 22,
+        additionPercentageChange: -10
+      },
+      { status: 'returning', consecutiveWeeks: 1, appearances: 2 },
+      { status: 'new', consecutiveWeeks: 1, appearances: 1 }
+    ]);
+  });
+
+  it('should save the week so re-runs and later weeks see it', async () => {
+    await service.recordWeek(2025, 4, [createPlayer('a', 10), createPlayer('b', 20)]);
+
+    const first = await service.applyTrends(2025, 5, [createPlayer('b', 25), createPlayer('a', 12)]);
+    const rerun = await service.applyTrends(2025, 5, [createPlayer('b', 25), createPlayer('a', 12)]);
+
+    expect(rerun).toEqual(first);
+    expect(first[0]!.trend).toMatchObject({ status: 'repeat', previousRank: 2, rankChange: 1 });
+    expect(first[1]!.trend).toMatchObject({ status: 'repeat', previousRank: 1, rankChange: -1 });
+
+    const saved = await service.loadWeek(2025, 5);
+    expect(saved?.players.map(player => player.playerId)).toEqual(['b', 'a']);
+    expect(await service.loadWeek(2025, 6)).toBeNull();
+  });
+
+  it('should read ranks and deltas from last week\'s full ranking', async () => {
+    // Only 'a' was featured in week 4, but 'b' and 'c' were collected too
+    await service.recordWeek(2025, 4, [createPlayer('a', 20)], [createPlayer('a', 20), createPlayer('b', 12), createPlayer('c', 9)]);
+
+    const trended = await service.applyTrends(
+      2025,
+      5,
+      [createPlayer('b', 19), createPlayer('c', 9), createPlayer('e', 8)],
+      [createPlayer('b', 19), createPlayer('a', 15), createPlayer('c', 9), createPlayer('e', 8)]
+    );
+
+    expect(trended[0]!.trend).toEqual({
+      status: 'new',
+      consecutiveWeeks: 1,
+      appearances: 1,
+      previousRank: 2,
+      rankChange: 1,
+      previousAdditionPercentage: 12,
+      additionPercentageChange: 7
+    });
+    expect(trended.map(player => player.trendingStatus)).toEqual(['hot', 'steady', 'hot']);
+    expect(trended[1]!.trend).toMatchObject({ previousRank: 3, rankChange: 0, additionPercentageChange: 0 });
+
+    const saved = await service.loadWeek(2025, 5);
+    expect(saved?.players.map(player => player.playerId)).toEqual(['b', 'a', 'c', 'e']);
+    expect(saved?.featured).toEqual(['b', 'c', 'e']);
+    expect(await service.getFeaturedPlayerIds(2025, 6, 1)).toEqual(['b', 'c', 'e']);
+  });
+
+  it('should leave the trending status unset without last week\'s list', async () => {
+    const trended = await service.applyTrends(2025, 5, [createPlayer('a', 20)]);
+
+    expect(trended[0]!.trendingStatus).toBeUndefined();
+    expect(AdditionHistoryService.getTrendingStatus({
+      status: 'repeat', consecutiveWeeks: 2, appearances: 2, previousRank: 4, rankChange: 2, additionPercentageChange: -0.5
+    })).toBe('rising');
+  });
+
+  it('should compute trends without saving the week', async () => {
+    await service.recordWeek(2025, 4, [createPlayer('a', 10)]);
+
+    const trended = await service.computeTrends(2025, 5, [createPlayer('a', 12)]);
+
+    expect(trended[0]!.trend).toMatchObject({ status: 'repeat', previousRank: 1 });
+    expect(await service.loadWeek(2025, 5)).toBeNull();
+    expect(await service.getFeaturedPlayerIds(2025, 6, 1)).toEqual([]);
+  });
+
+  it('should list players featured within the cooldown window', async () => {
+    await service.recordWeek(2025, 3, [createPlayer('a', 10)]);
+    await service.recordWeek(2025, 4, [createPlayer('b', 10)]);
+    await service.recordWeek(2025, 5, [createPlayer('c', 10), createPlayer('b', 8)]);
+
+    expect(await service.getFeaturedPlayerIds(2025, 6, 1)).toEqual(['c', 'b']);
+    expect((await service.getFeaturedPlayerIds(2025, 6, 3)).sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should break a streak on a week with no saved list', () => {
+    const trend = AdditionHistoryService.computeTrend(createPlayer('a', 10), 3, 6, [
+      { season: 2025, week: 3, recordedAt: new Date(), players: [createPlayer('a', 8)] }
+    ]);
+
+    expect(trend).toEqual({ status: 'returning', consecutiveWeeks: 1, appearances: 2 });
+  });
+});
@@ -0,0 +1,189 @@
+// Week-over-week trends for the most added players
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AdditionHistoryRecord, AdditionTrend, PlayerSummary } from '../models';
+import { Logger } from '../utils/logger';
+
+// A player gaining this many points of the percent of leagues adding them in a week is hot
+const HOT_PERCENTAGE_GAIN = 5;
+
+/**
+ * Stores each week's ranked players and featured top 10 under <directory>/<season>/week-<week>.json
+ * and compares the current week against earlier ones. A week with no saved list breaks a streak.
+ */
+export class AdditionHistoryService {
+  private logger: Logger;
+
+  constructor(private historyDirectory: string = './data/history') {
+    this.logger = new Logger('AdditionHistoryService');
+  }
+
+  /**
+   * Attach trends to this week's featured players and save the week for the weeks that follow.
+   * Only earlier weeks are compared, so re-running a week gives the same trends.
+   */
+  async applyTrends(
+    season: number,
+    week: number,
+    players: PlayerSummary[],
+    ranked: PlayerSummary[] = players
+  ): Promise<PlayerSummary[]> {
+    const trended = await this.computeTrends(season, week, players, ranked);
+    await this.recordWeek(season, week, trended, ranked);
+    return trended;
+  }
+
+  /**
+   * Trends for this week's featured players without saving the week. `ranked` is every
+   * aggregated player in rank order; ranks and deltas are read from it.
+   */
+  async computeTrends(
+    season: number,
+    week: number,
+    players: PlayerSummary[],
+    ranked: PlayerSummary[] = players
+  ): Promise<PlayerSummary[]> {
+    const history = await this.loadHistory(season, week);
+    const hasLastWeek = history.some(record => record.week === week - 1);
+    return players.map((player, index) => {
+      const rankIndex = ranked.findIndex(candidate => candidate.playerId === player.playerId);
+      const trend = AdditionHistoryService.computeTrend(player, rankIndex >= 0 ? rankIndex + 1 : index + 1, week, history);
+      return {
+        ...player,
+        trend,
+        ...(hasLastWeek && { trendingStatus: AdditionHistoryService.getTrendingStatus(trend) })
+      };
+    });
+  }
+
+  /**
+   * Save a week's featured players along with every ranked player, defaulting to just the featured ones
+   */
+  async recordWeek(
+    season: number,
+    week: number,
+    players: PlayerSummary[],
+    ranked: PlayerSummary[] = players
+  ): Promise<AdditionHistoryRecord> {
+    const record: AdditionHistoryRecord = {
+      season,
+      week,
+      recordedAt: new Date(),
+      players: ranked,
+      featured: players.map(player => player.playerId)
+    };
+    const recordPath = this.getRecordPath(season, week);
+
+    await fs.mkdir(path.dirname(recordPath), { recursive: true });
+    await fs.writeFile(recordPath, JSON.stringify(record, null, 2));
+
+    this.logger.debug(`Recorded ${ranked.length} ranked and ${players.length} featured players for ${season} week ${week}`);
+    return record;
+  }
+
+  async loadWeek(season: number, week: number): Promise<AdditionHistoryRecord | null> {
+    try {
+      const content = await fs.readFile(this.getRecordPath(season, week), 'utf-8');
+      const record = JSON.parse(content) as AdditionHistoryRecord;
+      return { ...record, recordedAt: new Date(record.recordedAt) };
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Players featured in any of the given number of weeks before this one
+   */
+  async getFeaturedPlayerIds(season: number, week: number, weeks: number): Promise<string[]> {
+    const featured = new Set<string>();
+
+    for (let earlierWeek = week - 1; earlierWeek >= Math.max(week - weeks, 1); earlierWeek--) {
+      const record = await this.loadWeek(season, earlierWeek);
+      if (record) {
+        AdditionHistoryService.getFeaturedIds(record).forEach(playerId => featured.add(playerId));
+      }
+    }
+
+    return Array.from(featured);
+  }
+
+  /**
+   * Compare one player against earlier weeks' lists (any order); rank is 1-based among every
+   * ranked player. Appearances count featured weeks; rank and percentage deltas come from last
+   * week's full ranking, so they're set whenever the player was collected last week.
+   */
+  static computeTrend(
+    player: PlayerSummary,
+    rank: number,
+    week: number,
+    history: AdditionHistoryRecord[]
+  ): AdditionTrend {
+    const listedIn = new Set(
+      history
+        .filter(record => record.week < week && this.getFeaturedIds(record).includes(player.playerId))
+        .map(record => record.week)
+    );
+
+    let consecutiveWeeks = 1;
+    while (listedIn.has(week - consecutiveWeeks)) {
+      consecutiveWeeks++;
+    }
+
+    const lastWeek = history.find(record => record.week === week - 1);
+    const previousIndex = lastWeek ? lastWeek.players.findIndex(listed => listed.playerId === player.playerId) : -1;
+    const previous = previousIndex >= 0 ? lastWeek!.players[previousIndex] : undefined;
+
+    const status: AdditionTrend['status'] = listedIn.has(week - 1) ? 'repeat' : listedIn.size > 0 ? 'returning' : 'new';
+
+    return {
+      status,
+      consecutiveWeeks,
+      appearances: listedIn.size + 1,
+      ...(previous && {
+        previousRank: previousIndex + 1,
+        rankChange: previousIndex + 1 - rank,
+        previousAdditionPercentage: previous.additionPercentage,
+        additionPercentageChange: Math.round((player.additionPercentage - previous.additionPercentage) * 10) / 10
+      })
+    };
+  }
+
+  /**
+   * Hot when the player surged onto last week's board or gained HOT_PERCENTAGE_GAIN points,
+   * rising on any gain in percentage or rank, steady otherwise
+   */
+  static getTrendingStatus(trend: AdditionTrend): NonNullable<PlayerSummary['trendingStatus']> {
+    if (trend.previousRank === undefined) {
+      return 'hot';
+    }
+    if ((trend.additionPercentageChange || 0) >= HOT_PERCENTAGE_GAIN) {
+      return 'hot';
+    }
+    return (trend.additionPercentageChange || 0) > 0 || (trend.rankChange || 0) > 0 ? 'rising' : 'steady';
+  }
+
+  private static getFeaturedIds(record: AdditionHistoryRecord): string[] {
+    return record.featured || record.players.map(player => player.playerId);
+  }
+
+  private async loadHistory(season: number, week: number): Promise<AdditionHistoryRecord[]> {
+    const records: AdditionHistoryRecord[] = [];
+
+    for (let earlierWeek = week - 1; earlierWeek >= 1; earlierWeek--) {
+      const record = await this.loadWeek(season, earlierWeek);
+      if (record) {
+        records.push(record);
+      }
+    }
+
+    return records;
+  }
+
+  private getRecordPath(season: number, week: number): string {
+    return path.join(this.historyDirectory, String(season), `week-${week}.json`);
+  }
+}
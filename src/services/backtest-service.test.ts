@@ -0,0 +1,166 @@
+// Tests for recording and grading past FAAB recommendations
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { BacktestService } from './backtest-service';
+import { PlayerIdentityRegistry } from './player-identity-registry';
+import { SeasonCalendar, PlayerAnalysis } from '../models';
+import { SleeperClient } from '../api/fantasy-platforms/sleeper-client';
+import { SportsDataClient } from '../api/news-services/sports-data-client';
+
+// Mock Logger
+vi.mock('../utils/logger', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+function createAnalysis(
+  playerId: string,
+  name: string,
+  position: string,
+  recommendation: 'BUY' | 'PASS',
+  confidence: number,
+  opportunity: number
+): PlayerAnalysis {
+  return {
+    player: { playerId, name, position, team: 'KC', additionCount: 500, additionPercentage: 40, platforms: ['Sleeper'] },
+    recommendation,
+    confidence,
+    reasoning: ['Test reasoning'],
+    riskFactors: [],
+    upside: [],
+    factorScores: { addition: 4, performance: 10, opportunity, matchup: 5, scarcityMultiplier: 1 }
+  };
+}
+
+describe('BacktestService', () => {
+  let directory: string;
+  let registry: PlayerIdentityRegistry;
+  let calendar: SeasonCalendar;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'backtest-'));
+    registry = new PlayerIdentityRegistry(null);
+    registry.resolve({ platform: 'Sleeper', platformId: '100', name: 'Rashee Rice', team: 'KC', position: 'WR' });
+    registry.resolve({ platform: 'Sleeper', platformId: '200', name: 'Jerome Ford', team: 'CLE', position: 'RB' });
+    calendar = new SeasonCalendar();
+    calendar.setReferenceDate(new Date('2026-03-01T12:00:00Z'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('parseWeekRange', () => {
+    it('should expand ranges and lists', () => {
+      expect(BacktestService.parseWeekRange('3-6')).toEqual([3, 4, 5, 6]);
+      expect(BacktestService.parseWeekRange('7,3,5-6')).toEqual([3, 5, 6, 7]);
+      expect(() => BacktestService.parseWeekRange('10-3')).toThrow('Invalid week range');
+      expect(() => BacktestService.parseWeekRange('three')).toThrow('Invalid week range');
+    });
+  });
+
+  it('should round-trip recorded analyses', async () => {
+    const service = new BacktestService({}, registry, calendar, directory);
+    await service.recordAnalyses(2025, 4, [createAnalysis('rashee-rice-wr', 'Rashee Rice', 'WR', 'BUY', 80, 6)]);
+
+    const record = await service.loadRecord(2025, 4);
+
+    expect(record?.analyses).toHaveLength(1);
+    expect(record?.recordedAt).toBeInstanceOf(Date);
+    expect(await service.loadRecord(2025, 5)).toBeNull();
+  });
+
+  it('should keep runs from different scoring models in the same week', async () => {
+    const service = new BacktestService({}, registry, calendar, directory);
+    const withModel = (name: string) => ({
+      ...createAnalysis('rashee-rice-wr', 'Rashee Rice', 'WR', 'BUY', 80, 6),
+      scoringModel: { name, version: '1.0.0', scoringType: 'ppr' as const }
+    });
+
+    await service.recordAnalyses(2025, 4, [withModel('default')]);
+    await service.recordAnalyses(2025, 4, [withModel('aggressive')]);
+    await service.recordAnalyses(2025, 4, [withModel('aggressive')]);
+
+    const record = await service.loadRecord(2025, 4);
+    expect(record?.analyses.map(analysis => BacktestService.getModelName(analysis))).toEqual([
+      'default@1.0.0',
+      'aggressive@1.0.0'
+    ]);
+  });
+
+  it('should grade recommendations against actual points over the horizon', async () => {
+    const sleeper = {
+      getWeeklyStats: vi.fn().mockImplementation(async (week: number) => ({
+        '100': { pts_ppr: week === 3 ? 18 : 14 },
+        '200': { pts_ppr: 4 }
+      }))
+    } as unknown as SleeperClient;
+    const sportsData = {
+      getWeeklyStats: vi.fn().mockResolvedValue([
+        { Name: 'Tucker Kraft', Position: 'TE', FantasyPosition: 'TE', FantasyPointsPPR: 3 }
+      ])
+    } as unknown as SportsDataClient;
+    const service = new BacktestService({ sleeper, sportsData }, registry, calendar, directory);
+
+    await service.recordAnalyses(2025, 3, [
+      createAnalysis('rashee-rice-wr', 'Rashee Rice', 'WR', 'BUY', 85, 8),
+      createAnalysis('jerome-ford-rb', 'Jerome Ford', 'RB', 'BUY', 65, 2),
+      createAnalysis('tucker-kraft-te', 'Tucker Kraft', 'TE', 'PASS', 55, 1),
+      createAnalysis('unknown-player-qb', 'Nobody Known', 'QB', 'PASS', 40, 0)
+    ]);
+
+    const report = await service.runBacktest(2025, [3, 4], 2);
+
+    expect(report.missingWeeks).toEqual([4]);
+    expect(report.recommendations).toBe(4);
+    expect(report.evaluated).toBe(3);
+    expect(report.unresolved).toBe(1);
+    expect(report.buy).toMatchObject({ count: 2, hits: 1, hitRate: 50 });
+    expect(report.pass).toMatchObject({ count: 1, hits: 1, hitRate: 100 });
+
+    const rice = report.outcomes.find(outcome => outcome.playerId === 'rashee-rice-wr');
+    expect(rice).toMatchObject({ averagePoints: 16, weeksEvaluated: [3, 4], hit: true });
+
+    const opportunity = report.factors.find(factor => factor.factor === 'opportunity');
+    expect(opportunity?.sampleSize).toBe(3);
+    expect(opportunity?.correlation).toBeGreaterThan(0.9);
+    expect(opportunity?.averageWhenHit).toBe(4.5);
+    expect(opportunity?.averageWhenMiss).toBe(2);
+
+    // Stats are fetched once per game week and shared across players
+    expect(sleeper.getWeeklyStats).toHaveBeenCalledTimes(2);
+  });
+
+  it('should bucket outcomes by confidence for calibration', () => {
+    const outcome = (confidence: number, hit: boolean) => ({
+      season: 2025,
+      week: 3,
+      playerId: `p-${confidence}`,
+      name: 'Player',
+      position: 'WR',
+      recommendation: 'BUY' as const,
+      confidence,
+      model: 'default@1.0.0',
+      scoringType: 'ppr' as const,
+      averagePoints: 10,
+      threshold: 11,
+      weeksEvaluated: [3],
+      hit
+    });
+
+    const buckets = BacktestService.calibrate([outcome(85, true), outcome(95, false), outcome(30, false)]);
+
+    expect(buckets).toEqual([
+      { minConfidence: 20, maxConfidence: 39, count: 1, averageConfidence: 30, hitRate: 0 },
+      { minConfidence: 80, maxConfidence: 100, count: 2, averageConfidence: 90, hitRate: 50 }
+    ]);
+    expect(BacktestService.calibrationError(buckets)).toBe(36.7);
+  });
+});
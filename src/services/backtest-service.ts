@@ -0,0 +1,439 @@
+// Grades past FAAB recommendations against the fantasy points players actually scored
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  BacktestOutcome,
+  BacktestRecord,
+  BacktestReport,
+  CalibrationBucket,
+  FactorValue,
+  FAABFactorScores,
+  ModelSummary,
+  PlayerAnalysis,
+  PlayerSummary,
+  RecommendationSummary,
+  ScoringType,
+  SeasonCalendar,
+  getSeasonCalendar,
+  DEFAULT_SCORING_MODEL
+} from '../models';
+import { SleeperClient } from '../api/fantasy-platforms/sleeper-client';
+import { SportsDataClient } from '../api/news-services/sports-data-client';
+import { SportsDataGameStats } from '../api/news-services/types';
+import { Logger } from '../utils/logger';
+import { PlayerIdentityRegistry, getPlayerIdentityRegistry } from './player-identity-registry';
+
+export interface BacktestStatsClients {
+  sleeper?: SleeperClient;
+  sportsData?: SportsDataClient;
+}
+
+// One week of actual results from whichever sources answered
+interface WeeklyPoints {
+  sleeper?: Record<string, any>;
+  sportsData?: SportsDataGameStats[];
+}
+
+export const DEFAULT_BACKTEST_HORIZON = 3;
+
+// Weekly points that make a waiver pickup worth rostering
+const POSITION_THRESHOLDS: Record<string, number> = {
+  QB: 17,
+  RB: 11,
+  WR: 11,
+  TE: 8,
+  K: 8,
+  DST: 7
+};
+const DEFAULT_THRESHOLD = 10;
+
+// Actual points for each scoring type in Sleeper and SportsData weekly stats
+const SLEEPER_POINTS: Record<ScoringType, string> = {
+  'ppr': 'pts_ppr',
+  'half-ppr': 'pts_half_ppr',
+  'standard': 'pts_std',
+  'superflex': 'pts_ppr'
+};
+const SPORTS_DATA_POINTS: Record<ScoringType, 'FantasyPointsPPR' | 'FantasyPointsHalfPPR' | 'FantasyPoints'> = {
+  'ppr': 'FantasyPointsPPR',
+  'half-ppr': 'FantasyPointsHalfPPR',
+  'standard': 'FantasyPoints',
+  'superflex': 'FantasyPointsPPR'
+};
+
+const CALIBRATION_BUCKET_SIZE = 20;
+
+const FACTORS: Array<keyof FAABFactorScores> = ['addition', 'performance', 'opportunity', 'matchup', 'scarcityMultiplier'];
+
+/**
+ * Stores each week's analyses under <directory>/<season>/week-<week>.json and later
+ * scores them: a BUY is a hit when the player averaged at least the position threshold
+ * over the following weeks, a PASS is a hit when the player fell short.
+ */
+export class BacktestService {
+  private logger: Logger;
+  private weeklyPoints = new Map<string, Promise<WeeklyPoints>>();
+
+  constructor(
+    private clients: BacktestStatsClients,
+    private identityRegistry: PlayerIdentityRegistry = getPlayerIdentityRegistry(),
+    private seasonCalendar: SeasonCalendar = getSeasonCalendar(),
+    private backtestDirectory: string = './data/backtest'
+  ) {
+    this.logger = new Logger('BacktestService');
+  }
+
+  /**
+   * Parse "3-10", "3,5,7" or "4" into a sorted list of weeks
+   */
+  static parseWeekRange(value: string): number[] {
+    const weeks = new Set<number>();
+
+    for (const part of value.split(',').map(segment => segment.trim()).filter(Boolean)) {
+      const match = part.match(/^(\d+)(?:-(\d+))?$/);
+      if (!match) {
+        throw new Error(`Invalid week range "${value}". Use e.g. 3-10 or 3,5,7`);
+      }
+
+      const start = parseInt(match[1]!, 10);
+      const end = match[2] ? parseInt(match[2], 10) : start;
+      if (start < 1 || end < start) {
+        throw new Error(`Invalid week range "${part}"`);
+      }
+      for (let week = start; week <= end; week++) {
+        weeks.add(week);
+      }
+    }
+
+    if (weeks.size === 0) {
+      throw new Error('No weeks given');
+    }
+    return Array.from(weeks).sort((a, b) => a - b);
+  }
+
+  /**
+   * Save a week's analyses; recording the same week with the same scoring model replaces the earlier run
+   */
+  async recordAnalyses(season: number, week: number, analyses: PlayerAnalysis[]): Promise<BacktestRecord> {
+    const models = new Set(analyses.map(analysis => BacktestService.getModelName(analysis)));
+    const existing = await this.loadRecord(season, week);
+    const kept = (existing?.analyses || []).filter(analysis => !models.has(BacktestService.getModelName(analysis)));
+
+    const record: BacktestRecord = { season, week, recordedAt: new Date(), analyses: [...kept, ...analyses] };
+    const recordPath = this.getRecordPath(season, week);
+
+    await fs.mkdir(path.dirname(recordPath), { recursive: true });
+    await fs.writeFile(recordPath, JSON.stringify(record, null, 2));
+
+    this.logger.debug(`Recorded ${analyses.length} analyses for ${season} week ${week}`);
+    return record;
+  }
+
+  async loadRecord(season: number, week: number): Promise<BacktestRecord | null> {
+    try {
+      const content = await fs.readFile(this.getRecordPath(season, week), 'utf-8');
+      const record = JSON.parse(content) as BacktestRecord;
+      return { ...record, recordedAt: new Date(record.recordedAt) };
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async runBacktest(season: number, weeks: number[], horizon: number = DEFAULT_BACKTEST_HORIZON): Promise<BacktestReport> {
+    if (!Number.isInteger(horizon) || horizon < 1) {
+      throw new Error(`Invalid backtest horizon: ${horizon}`);
+    }
+
+    await this.identityRegistry.load();
+
+    const lastCompletedWeek = this.getLastCompletedWeek(season);
+    const outcomes: BacktestOutcome[] = [];
+    const missingWeeks: number[] = [];
+    let recommendations = 0;
+
+    for (const week of weeks) {
+      const record = await this.loadRecord(season, week);
+      if (!record) {
+        missingWeeks.push(week);
+        continue;
+      }
+
+      // Players picked up in week N play that week's games, so grade weeks N..N+horizon-1
+      const evaluationWeeks: number[] = [];
+      for (let gameWeek = week; gameWeek < week + horizon && gameWeek <= lastCompletedWeek; gameWeek++) {
+        evaluationWeeks.push(gameWeek);
+      }
+
+      for (const analysis of record.analyses) {
+        recommendations++;
+        const outcome = await this.evaluateAnalysis(season, week, analysis, evaluationWeeks);
+        if (outcome) {
+          outcomes.push(outcome);
+        }
+      }
+    }
+
+    if (missingWeeks.length > 0) {
+      this.logger.warn(`No recorded analyses for ${season} week(s) ${missingWeeks.join(', ')}`);
+    }
+
+    const calibration = BacktestService.calibrate(outcomes);
+    const hits = outcomes.filter(outcome => outcome.hit).length;
+
+    return {
+      season,
+      weeks,
+      horizon,
+      generatedAt: new Date(),
+      missingWeeks,
+      recommendations,
+      evaluated: outcomes.length,
+      unresolved: recommendations - outcomes.length,
+      hitRate: BacktestService.percentage(hits, outcomes.length),
+      buy: BacktestService.summarize(outcomes.filter(outcome => outcome.recommendation === 'BUY')),
+      pass: BacktestService.summarize(outcomes.filter(outcome => outcome.recommendation === 'PASS')),
+      models: BacktestService.summarizeModels(outcomes),
+      calibration,
+      calibrationError: BacktestService.calibrationError(calibration),
+      factors: FACTORS.map(factor => BacktestService.valueFactor(factor, outcomes)),
+      outcomes
+    };
+  }
+
+  static getThreshold(position: string): number {
+    return POSITION_THRESHOLDS[position] ?? DEFAULT_THRESHOLD;
+  }
+
+  static summarize(outcomes: BacktestOutcome[]): RecommendationSummary {
+    const hits = outcomes.filter(outcome => outcome.hit).length;
+    return {
+      count: outcomes.length,
+      hits,
+      hitRate: BacktestService.percentage(hits, outcomes.length),
+      averagePoints: BacktestService.round(BacktestService.average(outcomes.map(outcome => outcome.averagePoints)))
+    };
+  }
+
+  static summarizeModels(outcomes: BacktestOutcome[]): ModelSummary[] {
+    const models = Array.from(new Set(outcomes.map(outcome => outcome.model))).sort();
+    return models.map(model => ({
+      model,
+      ...BacktestService.summarize(outcomes.filter(outcome => outcome.model === model))
+    }));
+  }
+
+  /**
+   * Analyses recorded before scoring models existed were produced by the default model
+   */
+  static getModelName(analysis: PlayerAnalysis): string {
+    const model = analysis.scoringModel || DEFAULT_SCORING_MODEL;
+    return `${model.name}@${model.version}`;
+  }
+
+  /**
+   * Bucket outcomes by confidence; a well-calibrated model hits about as often as it is confident
+   */
+  static calibrate(outcomes: BacktestOutcome[]): CalibrationBucket[] {
+    const buckets: CalibrationBucket[] = [];
+
+    for (let minConfidence = 0; minConfidence < 100; minConfidence += CALIBRATION_BUCKET_SIZE) {
+      const maxConfidence = minConfidence + CALIBRATION_BUCKET_SIZE >= 100 ? 100 : minConfidence + CALIBRATION_BUCKET_SIZE - 1;
+      const inBucket = outcomes.filter(outcome =>
+        outcome.confidence >= minConfidence && outcome.confidence <= maxConfidence
+      );
+      if (inBucket.length === 0) {
+        continue;
+      }
+
+      buckets.push({
+        minConfidence,
+        maxConfidence,
+        count: inBucket.length,
+        averageConfidence: BacktestService.round(BacktestService.average(inBucket.map(outcome => outcome.confidence))),
+        hitRate: BacktestService.percentage(inBucket.filter(outcome => outcome.hit).length, inBucket.length)
+      });
+    }
+
+    return buckets;
+  }
+
+  static calibrationError(buckets: CalibrationBucket[]): number {
+    const total = buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+    if (total === 0) {
+      return 0;
+    }
+
+    const weightedGap = buckets.reduce(
+      (sum, bucket) => sum + bucket.count * Math.abs(bucket.averageConfidence - bucket.hitRate),
+      0
+    );
+    return BacktestService.round(weightedGap / total);
+  }
+
+  /**
+   * How well a factor tracked actual points; only analyses that recorded factor scores count
+   */
+  static valueFactor(factor: keyof FAABFactorScores, outcomes: BacktestOutcome[]): FactorValue {
+    const scored = outcomes.filter(outcome => outcome.factorScores !== undefined);
+    const values = scored.map(outcome => outcome.factorScores![factor]);
+    const hitValues = scored.filter(outcome => outcome.hit).map(outcome => outcome.factorScores![factor]);
+    const missValues = scored.filter(outcome => !outcome.hit).map(outcome => outcome.factorScores![factor]);
+
+    return {
+      factor,
+      sampleSize: scored.length,
+      correlation: BacktestService.round(
+        BacktestService.correlation(values, scored.map(outcome => outcome.averagePoints)),
+        3
+      ),
+      averageWhenHit: BacktestService.round(BacktestService.average(hitValues)),
+      averageWhenMiss: BacktestService.round(BacktestService.average(missValues))
+    };
+  }
+
+  private async evaluateAnalysis(
+    season: number,
+    week: number,
+    analysis: PlayerAnalysis,
+    evaluationWeeks: number[]
+  ): Promise<BacktestOutcome | null> {
+    const scoringType = analysis.scoringModel?.scoringType || DEFAULT_SCORING_MODEL.scoringType;
+    const weeklyScores: Array<number | undefined> = [];
+    for (const gameWeek of evaluationWeeks) {
+      weeklyScores.push(this.lookupPoints(analysis.player, scoringType, await this.getWeeklyPoints(season, gameWeek)));
+    }
+
+    // Unresolved if no source knows the player; once found, weeks without stats count as zero
+    if (!weeklyScores.some(points => points !== undefined)) {
+      return null;
+    }
+
+    const averagePoints = BacktestService.average(weeklyScores.map(points => points ?? 0));
+    const threshold = BacktestService.getThreshold(analysis.player.position);
+    const producedValue = averagePoints >= threshold;
+
+    return {
+      season,
+      week,
+      playerId: analysis.player.playerId,
+      name: analysis.player.name,
+      position: analysis.player.position,
+      recommendation: analysis.recommendation,
+      confidence: analysis.confidence,
+      model: BacktestService.getModelName(analysis),
+      scoringType,
+      averagePoints: BacktestService.round(averagePoints),
+      threshold,
+      weeksEvaluated: evaluationWeeks,
+      hit: analysis.recommendation === 'BUY' ? producedValue : !producedValue,
+      ...(analysis.factorScores && { factorScores: analysis.factorScores })
+    };
+  }
+
+  private lookupPoints(player: PlayerSummary, scoringType: ScoringType, weekly: WeeklyPoints): number | undefined {
+    const sleeperId = this.identityRegistry.getPlatformId(player.playerId, 'Sleeper');
+    const sleeperStats = sleeperId !== undefined ? weekly.sleeper?.[sleeperId] : undefined;
+    const sleeperPoints = sleeperStats?.[SLEEPER_POINTS[scoringType]];
+    if (typeof sleeperPoints === 'number') {
+      return sleeperPoints;
+    }
+
+    // SportsData has no Sleeper IDs, so match on name and position
+    const name = PlayerIdentityRegistry.normalizeName(player.name);
+    const position = PlayerIdentityRegistry.normalizePosition(player.position);
+    const gameStats = weekly.sportsData?.find(stats =>
+      PlayerIdentityRegistry.normalizeName(stats.Name || '') === name &&
+      PlayerIdentityRegistry.normalizePosition(stats.FantasyPosition || stats.Position) === position
+    );
+
+    return gameStats ? gameStats[SPORTS_DATA_POINTS[scoringType]] : undefined;
+  }
+
+  private getWeeklyPoints(season: number, week: number): Promise<WeeklyPoints> {
+    const key = `${season}-${week}`;
+    let weekly = this.weeklyPoints.get(key);
+    if (!weekly) {
+      weekly = this.fetchWeeklyPoints(season, week);
+      this.weeklyPoints.set(key, weekly);
+    }
+    return weekly;
+  }
+
+  private async fetchWeeklyPoints(season: number, week: number): Promise<WeeklyPoints> {
+    const weekly: WeeklyPoints = {};
+
+    if (this.clients.sleeper) {
+      try {
+        weekly.sleeper = await this.clients.sleeper.getWeeklyStats(week, season);
+      } catch (error) {
+        this.logger.warn(`Could not load Sleeper stats for ${season} week ${week}`, error);
+      }
+    }
+
+    if (this.clients.sportsData) {
+      try {
+        weekly.sportsData = await this.clients.sportsData.getWeeklyStats(week, season);
+      } catch (error) {
+        this.logger.warn(`Could not load SportsData stats for ${season} week ${week}`, error);
+      }
+    }
+
+    return weekly;
+  }
+
+  private getLastCompletedWeek(season: number): number {
+    const currentSeason = this.seasonCalendar.getCurrentSeason();
+    const regularSeasonWeeks = this.seasonCalendar.getRegularSeasonWeeks(season);
+
+    if (season < currentSeason) {
+      return regularSeasonWeeks;
+    }
+    if (season > currentSeason) {
+      return 0;
+    }
+    return Math.min(regularSeasonWeeks, this.seasonCalendar.getCurrentWeek() - 1);
+  }
+
+  private getRecordPath(season: number, week: number): string {
+    return path.join(this.backtestDirectory, String(season), `week-${week}.json`);
+  }
+
+  private static correlation(xs: number[], ys: number[]): number {
+    if (xs.length < 2) {
+      return 0;
+    }
+
+    const meanX = BacktestService.average(xs);
+    const meanY = BacktestService.average(ys);
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+
+    xs.forEach((x, index) => {
+      const dx = x - meanX;
+      const dy = ys[index]! - meanY;
+      covariance += dx * dy;
+      varianceX += dx * dx;
+      varianceY += dy * dy;
+    });
+
+    return varianceX === 0 || varianceY === 0 ? 0 : covariance / Math.sqrt(varianceX * varianceY);
+  }
+
+  private static average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private static percentage(part: number, total: number): number {
+    return total > 0 ? BacktestService.round((part / total) * 100) : 0;
+  }
+
+  private static round(value: number, decimals: number = 1): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
@@ -0,0 +1,98 @@
+// Tests for dynasty profiles built from Sleeper's player data
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DynastyProfileService } from './dynasty-profile-service';
+import { PlayerIdentityRegistry } from './player-identity-registry';
+import { PlayerSummary, SeasonCalendar } from '../models';
+import { SleeperClient } from '../api/fantasy-platforms/sleeper-client';
+import { SleeperPlayerData } from '../api/fantasy-platforms/types';
+
+// Mock Logger
+vi.mock('../utils/logger', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+function sleeperPlayer(playerId: string, fullName: string, overrides: Partial<SleeperPlayerData> = {}): SleeperPlayerData {
+  const [firstName = '', lastName = ''] = fullName.split(' ');
+  return {
+    player_id: playerId,
+    first_name: firstName,
+    last_name: lastName,
+    full_name: fullName,
+    position: 'WR',
+    team: 'HOU',
+    fantasy_positions: ['WR'],
+    status: 'Active',
+    active: true,
+    ...overrides
+  } as SleeperPlayerData;
+}
+
+describe('DynastyProfileService', () => {
+  let registry: PlayerIdentityRegistry;
+  let sleeperClient: { getAllPlayers: ReturnType<typeof vi.fn> };
+  let service: DynastyProfileService;
+  let featured: PlayerSummary;
+
+  beforeEach(() => {
+    registry = new PlayerIdentityRegistry(null);
+    const playerId = registry.resolve({ platform: 'ESPN', platformId: '4430', name: 'Tank Dell', team: 'HOU', position: 'WR' });
+    featured = {
+      playerId,
+      name: 'Tank Dell',
+      position: 'WR',
+      team: 'HOU',
+      additionCount: 200,
+      additionPercentage: 30,
+      platforms: ['ESPN']
+    };
+
+    sleeperClient = {
+      getAllPlayers: vi.fn().mockResolvedValue(new Map([
+        ['9999', sleeperPlayer('9999', 'Tank Dell', {
+          birth_date: '1999-09-29',
+          years_exp: 1,
+          depth_chart_order: 2,
+          metadata: { draft_round: '3', draft_pick: '5' }
+        })],
+        ['1234', sleeperPlayer('1234', 'Someone Else', { age: 30 })]
+      ]))
+    };
+
+    const calendar = { getCurrentSeason: () => 2024 } as unknown as SeasonCalendar;
+    service = new DynastyProfileService(sleeperClient as unknown as SleeperClient, registry, calendar);
+  });
+
+  it('should attach age, experience, draft capital and depth chart order to matched players', async () => {
+    const [player] = await service.addProfiles([featured]);
+
+    // Born after September 1, so still 24 when the 2024 season starts
+    expect(player!.dynastyProfile).toEqual({
+      age: 24,
+      yearsExperience: 1,
+      draftRound: 3,
+      draftPick: 5,
+      depthChartOrder: 2
+    });
+    expect(registry.getPlatformId(featured.playerId, 'Sleeper')).toBe('9999');
+  });
+
+  it('should leave players Sleeper does not know unchanged and load the player list once', async () => {
+    const unknown: PlayerSummary = { ...featured, playerId: 'not-registered', name: 'Nobody Known' };
+
+    await service.addProfiles([featured]);
+    const [player] = await service.addProfiles([unknown]);
+
+    expect(player).toEqual(unknown);
+    expect(sleeperClient.getAllPlayers).toHaveBeenCalledTimes(1);
+  });
+
+  it('should prefer the reported age and skip missing draft details', () => {
+    expect(service.buildProfile(sleeperPlayer('1234', 'Someone Else', { age: 30, metadata: null }))).toEqual({ age: 30 });
+  });
+});
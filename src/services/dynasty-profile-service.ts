@@ -0,0 +1,100 @@
+// Adds age, experience and draft capital from Sleeper's player data for dynasty analysis
+
+import { PlayerSummary, DynastyProfile, SeasonCalendar, getSeasonCalendar } from '../models';
+import { SleeperClient } from '../api/fantasy-platforms/sleeper-client';
+import { SleeperPlayerData } from '../api/fantasy-platforms/types';
+import { PlayerIdentityRegistry, getPlayerIdentityRegistry } from './player-identity-registry';
+import { Logger } from '../utils/logger';
+
+/**
+ * Matches featured players to Sleeper's player list through the identity registry and
+ * attaches a dynasty profile. Players Sleeper doesn't know keep going without one.
+ */
+export class DynastyProfileService {
+  private logger: Logger;
+  private sleeperPlayers?: Map<string, SleeperPlayerData>;
+
+  constructor(
+    private sleeperClient: SleeperClient,
+    private identityRegistry: PlayerIdentityRegistry = getPlayerIdentityRegistry(),
+    private seasonCalendar: SeasonCalendar = getSeasonCalendar()
+  ) {
+    this.logger = new Logger('DynastyProfileService');
+  }
+
+  async addProfiles(players: PlayerSummary[]): Promise<PlayerSummary[]> {
+    await this.loadSleeperPlayers();
+
+    let profiled = 0;
+    const enriched = players.map(player => {
+      const sleeperId = this.identityRegistry.getPlatformId(player.playerId, 'Sleeper');
+      const sleeperPlayer = sleeperId ? this.sleeperPlayers!.get(sleeperId) : undefined;
+      if (!sleeperPlayer) {
+        return player;
+      }
+
+      profiled++;
+      return { ...player, dynastyProfile: this.buildProfile(sleeperPlayer) };
+    });
+
+    this.logger.info(`Added dynasty profiles for ${profiled} of ${players.length} players`);
+    return enriched;
+  }
+
+  buildProfile(player: SleeperPlayerData): DynastyProfile {
+    const age = player.age ?? this.ageFromBirthDate(player.birth_date);
+    const draftRound = Number(player.metadata?.draft_round);
+    const draftPick = Number(player.metadata?.draft_pick);
+
+    return {
+      ...(typeof age === 'number' && { age }),
+      ...(typeof player.years_exp === 'number' && { yearsExperience: player.years_exp }),
+      ...(Number.isInteger(draftRound) && draftRound > 0 && { draftRound }),
+      ...(Number.isInteger(draftPick) && draftPick > 0 && { draftPick }),
+      ...(typeof player.depth_chart_order === 'number' && { depthChartOrder: player.depth_chart_order })
+    };
+  }
+
+  /**
+   * Sleeper's full player list is large, so it's loaded and linked once per service
+   */
+  private async loadSleeperPlayers(): Promise<void> {
+    if (this.sleeperPlayers) {
+      return;
+    }
+
+    this.sleeperPlayers = await this.sleeperClient.getAllPlayers();
+    const linked = this.identityRegistry.linkPlatformPlayers(
+      Array.from(this.sleeperPlayers.values())
+        .filter(player => player.team && player.fantasy_positions?.length)
+        .map(player => ({
+          platform: 'Sleeper',
+          platformId: player.player_id,
+          name: player.full_name || `${player.first_name} ${player.last_name}`,
+          team: player.team,
+          position: player.fantasy_positions[0]!
+        }))
+    );
+    this.logger.info(`Linked ${linked} Sleeper players to known identities`);
+  }
+
+  // Age on September 1 of the current season, so it matches the age a player plays the season at
+  private ageFromBirthDate(birthDate: string | null | undefined): number | undefined {
+    if (!birthDate) {
+      return undefined;
+    }
+
+    const born = new Date(`${birthDate}T00:00:00Z`);
+    if (isNaN(born.getTime())) {
+      return undefined;
+    }
+
+    const seasonStart = new Date(Date.UTC(this.seasonCalendar.getCurrentSeason(), 8, 1));
+    let age = seasonStart.getUTCFullYear() - born.getUTCFullYear();
+    if (seasonStart.getUTCMonth() < born.getUTCMonth() ||
+        (seasonStart.getUTCMonth() === born.getUTCMonth() && seasonStart.getUTCDate() < born.getUTCDate())) {
+      age--;
+    }
+    return age;
+  }
+}
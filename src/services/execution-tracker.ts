@@ -184,7 +184,7 @@ export class ExecutionTracker {
     }
   }
 
-  private generateExecutionId(): string {
+  generateExecutionId(): string {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const random = Math.random().toString(36).substring(2, 8);
     return `${timestamp}-${random}`;
@@ -2,4 +2,17 @@
 export * from './orchestrator';
 export * from './error-handler';
 export * from './execution-tracker';
-export * from './health-monitor';
\ No newline at end of file
+export * from './health-monitor';
+export * from './player-identity-registry';
+export * from './pipeline-snapshot-store';
+export * from './preview-writer';
+export * from './league-service';
+export * from './backtest-service';
+export * from './addition-history-service';
+export * from './streaming-service';
+export * from './dynasty-profile-service';
+export * from './matchup-service';
+export * from './opportunity-service';
+export * from './opportunity-providers';
+export * from './starter-injury-detector';
+export * from './injury-history-service';
@@ -0,0 +1,123 @@
+// Tests for injury timelines built across a week's runs
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { InjuryHistoryService } from './injury-history-service';
+import { InjuryTimelineEntry, InjuryTimelineUtils, NewsArticle } from '../models';
+
+// Mock Logger
+vi.mock('../utils/logger', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+function report(recordedAt: string, overrides: Partial<InjuryTimelineEntry> = {}): InjuryTimelineEntry {
+  return {
+    recordedAt: new Date(recordedAt),
+    source: 'SportsData',
+    status: 'questionable',
+    description: 'Hamstring',
+    ...overrides
+  };
+}
+
+function article(title: string, summary: string, publishDate: string): NewsArticle {
+  return {
+    title,
+    source: 'Commanders Beat',
+    publishDate: new Date(publishDate),
+    summary,
+    url: `https://example.com/${encodeURIComponent(title)}`,
+    sentiment: 'neutral'
+  };
+}
+
+describe('InjuryHistoryService', () => {
+  let directory: string;
+  let service: InjuryHistoryService;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'injury-history-'));
+    service = new InjuryHistoryService(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should build one timeline per player across the runs of a week', async () => {
+    await service.recordObservations(2024, 7, new Map([
+      ['robinson', [report('2024-10-16T21:00:00Z', { practice: 'DNP' })]],
+      ['mcnichols', []]
+    ]));
+    const timelines = await service.recordObservations(2024, 7, new Map([
+      ['robinson', [
+        report('2024-10-16T21:00:00Z', { practice: 'DNP' }),
+        report('2024-10-17T21:00:00Z', { practice: 'limited' })
+      ]]
+    ]));
+
+    expect(timelines.get('robinson')).toMatchObject({
+      trend: 'improving',
+      summary: 'DNP Wednesday, listed questionable Wednesday, upgraded to limited Thursday'
+    });
+    expect(timelines.has('mcnichols')).toBe(false);
+
+    const saved = await service.loadWeek(2024, 7);
+    expect(saved?.players.robinson?.map(entry => entry.practice)).toEqual(['DNP', 'limited']);
+    expect(saved?.players.robinson?.[0]?.recordedAt).toEqual(new Date('2024-10-16T21:00:00Z'));
+  });
+
+  it('should start a fresh timeline each week', async () => {
+    await service.recordObservations(2024, 7, new Map([
+      ['robinson', [report('2024-10-18T21:00:00Z', { practice: 'DNP', status: 'out' })]]
+    ]));
+    const timelines = await service.recordObservations(2024, 8, new Map([
+      ['robinson', [report('2024-10-23T21:00:00Z', { practice: 'full', status: 'healthy' })]]
+    ]));
+
+    expect(timelines.get('robinson')).toMatchObject({ trend: 'steady', summary: 'full Wednesday' });
+    expect(await service.loadWeek(2024, 9)).toBeNull();
+  });
+
+  it('should read practice, designations and return estimates from news about the player only', () => {
+    const teammateNews = article(
+      'Robinson limited again as McNichols takes first-team reps',
+      'McNichols handled most of the work.',
+      '2024-10-17T18:00:00Z'
+    );
+    const ruledOut = article(
+      'Brian Robinson Jr. ruled out for Sunday',
+      'Robinson is expected to miss 2-3 weeks with the hamstring injury.',
+      '2024-10-18T18:00:00Z'
+    );
+
+    expect(InjuryTimelineUtils.fromArticle(teammateNews, 'Jeremy McNichols')).toBeNull();
+    expect(InjuryTimelineUtils.fromArticle(teammateNews, 'Brian Robinson Jr.')).toMatchObject({ practice: 'limited' });
+    expect(InjuryTimelineUtils.fromArticle(ruledOut, 'Brian Robinson Jr.')).toEqual({
+      recordedAt: new Date('2024-10-18T18:00:00Z'),
+      source: 'Commanders Beat',
+      status: 'out',
+      description: 'Brian Robinson Jr. ruled out for Sunday',
+      expectedReturn: new Date('2024-11-08T18:00:00Z')
+    });
+    expect(InjuryTimelineUtils.parsePractice('Did Not Participate In Practice')).toBe('DNP');
+  });
+
+  it('should read a downgrade late in the week as a worsening trend', () => {
+    const timeline = InjuryTimelineUtils.buildTimeline([
+      report('2024-10-18T21:00:00Z', { practice: 'DNP', status: 'doubtful' }),
+      report('2024-10-16T21:00:00Z', { practice: 'limited', status: 'healthy' }),
+      report('2024-10-17T21:00:00Z', { practice: 'full', status: 'healthy' })
+    ]);
+
+    expect(timeline.trend).toBe('worsening');
+    expect(timeline.summary).toBe('limited Wednesday, upgraded to full Thursday, downgraded to DNP Friday, downgraded to doubtful Friday');
+  });
+});
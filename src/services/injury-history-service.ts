@@ -0,0 +1,76 @@
+// Injury history for researched players across the days of a week
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { InjuryHistoryRecord, InjuryTimeline, InjuryTimelineEntry, InjuryTimelineUtils } from '../models/injury-timeline';
+import { Logger } from '../utils/logger';
+
+/**
+ * Stores each week's injury observations under <directory>/<season>/week-<week>.json so the
+ * runs through a week build one timeline per player (DNP Wednesday, limited Thursday, ...).
+ * A new week starts a fresh timeline.
+ */
+export class InjuryHistoryService {
+  private logger: Logger;
+
+  constructor(private historyDirectory: string = './data/injuries') {
+    this.logger = new Logger('InjuryHistoryService');
+  }
+
+  /**
+   * Merge this run's observations into the week's history and return the timeline of every
+   * given player who has one, including players with nothing new this run
+   */
+  async recordObservations(
+    season: number,
+    week: number,
+    observations: Map<string, InjuryTimelineEntry[]>
+  ): Promise<Map<string, InjuryTimeline>> {
+    const record = await this.loadWeek(season, week) || { season, week, updatedAt: new Date(), players: {} };
+    const timelines = new Map<string, InjuryTimeline>();
+
+    observations.forEach((entries, playerId) => {
+      const timeline = InjuryTimelineUtils.buildTimeline([...(record.players[playerId] || []), ...entries]);
+      if (timeline.entries.length === 0) {
+        return;
+      }
+      record.players[playerId] = timeline.entries;
+      timelines.set(playerId, timeline);
+    });
+
+    await this.saveWeek({ ...record, updatedAt: new Date() });
+    this.logger.debug(`Recorded injury history for ${timelines.size} players in ${season} week ${week}`);
+    return timelines;
+  }
+
+  async loadWeek(season: number, week: number): Promise<InjuryHistoryRecord | null> {
+    try {
+      const content = await fs.readFile(this.getRecordPath(season, week), 'utf-8');
+      const record = JSON.parse(content) as InjuryHistoryRecord;
+      const players: Record<string, InjuryTimelineEntry[]> = {};
+      Object.entries(record.players).forEach(([playerId, entries]) => {
+        players[playerId] = entries.map(entry => ({
+          ...entry,
+          recordedAt: new Date(entry.recordedAt),
+          ...(entry.expectedReturn && { expectedReturn: new Date(entry.expectedReturn) })
+        }));
+      });
+      return { ...record, updatedAt: new Date(record.updatedAt), players };
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async saveWeek(record: InjuryHistoryRecord): Promise<void> {
+    const recordPath = this.getRecordPath(record.season, record.week);
+    await fs.mkdir(path.dirname(recordPath), { recursive: true });
+    await fs.writeFile(recordPath, JSON.stringify(record, null, 2));
+  }
+
+  private getRecordPath(season: number, week: number): string {
+    return path.join(this.historyDirectory, String(season), `week-${week}.json`);
+  }
+}
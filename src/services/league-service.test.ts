@@ -0,0 +1,112 @@
+// Tests for loading and normalizing registered leagues
+
+import { describe, it, expect, vi } from 'vitest';
+import { LeagueService } from './league-service';
+import { SleeperClient } from '../api/fantasy-platforms/sleeper-client';
+
+// Mock Logger
+vi.mock('../utils/logger', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+describe('LeagueService', () => {
+  describe('fromSleeper', () => {
+    it('should derive budgets, starter slots and our roster from league and rosters', () => {
+      const league = {
+        name: 'Dynasty Degens',
+        total_rosters: 10,
+        settings: { waiver_budget: 200 },
+        roster_positions: ['QB', 'RB', 'RB', 'WR', 'WR', 'TE', 'FLEX', 'SUPER_FLEX', 'DEF', 'BN', 'BN']
+      };
+      const rosters = [
+        { roster_id: 1, owner_id: 'u-ours', players: ['p1', 'p2', 'p3'], settings: { waiver_budget_used: 45 } },
+        { roster_id: 2, owner_id: 'u-other', players: [], settings: { waiver_budget_used: 190 } }
+      ];
+      const positions: Record<string, string> = { p1: 'RB', p2: 'WR', p3: 'DEF' };
+
+      const settings = LeagueService.fromSleeper(
+        { platform: 'Sleeper', leagueId: '9001', teamId: 'u-ours' },
+        league,
+        rosters,
+        playerId => positions[playerId]
+      );
+
+      expect(settings.name).toBe('Dynasty Degens');
+      expect(settings.teamCount).toBe(10);
+      expect(settings.faabBudget).toBe(200);
+      expect(settings.ourTeamId).toBe('1');
+      expect(settings.ourRemainingBudget).toBe(155);
+      expect(settings.teams).toContainEqual({ teamId: '2', remainingBudget: 10 });
+      expect(settings.starterSlots).toEqual({ QB: 1, RB: 2, WR: 2, TE: 1, FLEX: 1, SUPER_FLEX: 1, DST: 1 });
+      expect(settings.ourPositionCounts).toEqual({ RB: 1, WR: 1, DST: 1 });
+    });
+  });
+
+  describe('fromESPN', () => {
+    it('should read the acquisition budget, spending and lineup slots', () => {
+      const data = {
+        settings: {
+          name: 'Office League',
+          size: 14,
+          acquisitionSettings: { acquisitionBudget: 1000 },
+          rosterSettings: { lineupSlotCounts: { '0': 1, '2': 2, '4': 3, '6': 1, '16': 1, '17': 0, '20': 7, '23': 1 } }
+        },
+        teams: [
+          { id: 3, transactionCounter: { acquisitionBudgetSpent: 250 } },
+          { id: 7, transactionCounter: { acquisitionBudgetSpent: 900 } }
+        ]
+      };
+
+      const settings = LeagueService.fromESPN({ platform: 'ESPN', leagueId: '123', teamId: '3' }, data);
+
+      expect(settings.teamCount).toBe(14);
+      expect(settings.ourRemainingBudget).toBe(750);
+      expect(settings.teams).toContainEqual({ teamId: '7', remainingBudget: 100 });
+      expect(settings.starterSlots).toEqual({ QB: 1, RB: 2, WR: 3, TE: 1, DST: 1, FLEX: 1 });
+      expect(settings.ourPositionCounts).toBeUndefined();
+    });
+  });
+
+  describe('fromYahoo', () => {
+    it('should fall back to the registered budget', () => {
+      const settings = LeagueService.fromYahoo(
+        { platform: 'Yahoo', leagueId: '423.l.5555', faabBudget: 100, remainingBudget: 37 },
+        { league_key: '423.l.5555', name: 'College Buddies', num_teams: '8' }
+      );
+
+      expect(settings.name).toBe('College Buddies');
+      expect(settings.teamCount).toBe(8);
+      expect(settings.ourRemainingBudget).toBe(37);
+      expect(settings.teams).toEqual([]);
+    });
+  });
+
+  describe('loadLeagues', () => {
+    it('should skip leagues that fail to load and report why', async () => {
+      const sleeper = {
+        getLeagueInfo: vi.fn().mockRejectedValue(new Error('League not found')),
+        getLeagueRosters: vi.fn()
+      } as unknown as SleeperClient;
+      const service = new LeagueService(
+        [
+          { platform: 'Sleeper', leagueId: 'missing' },
+          { platform: 'ESPN', leagueId: '123' }
+        ],
+        { sleeper }
+      );
+
+      const result = await service.loadLeagues();
+
+      expect(result.leagues).toEqual([]);
+      expect(result.failures).toEqual([
+        'Failed to load Sleeper league missing: League not found',
+        'Failed to load ESPN league 123: No ESPN client configured'
+      ]);
+    });
+  });
+});
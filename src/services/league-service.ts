@@ -0,0 +1,259 @@
+// Loads our registered leagues' FAAB settings, budgets and rosters
+
+import { LeagueRegistration, LeagueSettings, LeagueTeamBudget } from '../models/league';
+import { IDPUtils } from '../models/idp';
+import { SleeperClient } from '../api/fantasy-platforms/sleeper-client';
+import { YahooClient } from '../api/fantasy-platforms/yahoo-client';
+import { ESPNClient } from '../api/fantasy-platforms/espn-client';
+import { ESPNLeagueData, SleeperLeagueData, SleeperRosterData, YahooLeagueData } from '../api/fantasy-platforms/types';
+import { Logger } from '../utils/logger';
+
+export interface LeagueClients {
+  sleeper?: SleeperClient;
+  yahoo?: YahooClient;
+  espn?: ESPNClient;
+}
+
+export interface LeagueLoadResult {
+  leagues: LeagueSettings[];
+  failures: string[];
+}
+
+const DEFAULT_FAAB_BUDGET = 100;
+const DEFAULT_TEAM_COUNT = 12;
+
+// ESPN lineupSlotCounts keys -> positions
+const ESPN_LINEUP_SLOTS: Record<string, string> = {
+  '0': 'QB',
+  '2': 'RB',
+  '4': 'WR',
+  '6': 'TE',
+  '7': 'SUPER_FLEX',
+  '8': 'DL', // DT
+  '9': 'DL', // DE
+  '10': 'LB',
+  '11': 'DL',
+  '12': 'DB', // CB
+  '13': 'DB', // S
+  '14': 'DB',
+  '15': 'IDP_FLEX',
+  '16': 'DST',
+  '17': 'K',
+  '23': 'FLEX'
+};
+
+const SLEEPER_SLOT_ALIASES: Record<string, string> = {
+  'DEF': 'DST',
+  'WRRB_FLEX': 'FLEX',
+  'REC_FLEX': 'FLEX'
+};
+
+/**
+ * Normalizes league settings from each platform so bids can be sized the same way everywhere
+ */
+export class LeagueService {
+  private logger: Logger;
+
+  constructor(
+    private registrations: LeagueRegistration[],
+    private clients: LeagueClients
+  ) {
+    this.logger = new Logger('LeagueService');
+  }
+
+  getRegistrations(): LeagueRegistration[] {
+    return [...this.registrations];
+  }
+
+  /**
+   * Load every registered league; a league that fails to load is reported and skipped
+   */
+  async loadLeagues(): Promise<LeagueLoadResult> {
+    const leagues: LeagueSettings[] = [];
+    const failures: string[] = [];
+
+    for (const registration of this.registrations) {
+      try {
+        leagues.push(await this.loadLeague(registration));
+      } catch (error) {
+        const message = `Failed to load ${registration.platform} league ${registration.leagueId}: ${(error as Error).message}`;
+        this.logger.warn(message);
+        failures.push(message);
+      }
+    }
+
+    return { leagues, failures };
+  }
+
+  async loadLeague(registration: LeagueRegistration): Promise<LeagueSettings> {
+    switch (registration.platform) {
+      case 'Sleeper':
+        return this.loadSleeperLeague(registration);
+      case 'Yahoo':
+        return this.loadYahooLeague(registration);
+      case 'ESPN':
+        return this.loadESPNLeague(registration);
+      default:
+        throw new Error(`Unsupported league platform: ${registration.platform}`);
+    }
+  }
+
+  private async loadSleeperLeague(registration: LeagueRegistration): Promise<LeagueSettings> {
+    const client = this.requireClient(this.clients.sleeper, registration);
+    const league = await client.getLeagueInfo(registration.leagueId);
+    const rosters = await client.getLeagueRosters(registration.leagueId);
+
+    // Positions come from Sleeper's (cached) player database
+    const positions = new Map<string, string>();
+    const ourRoster = rosters.find(roster => LeagueService.isSleeperRoster(roster, registration.teamId));
+    for (const playerId of ourRoster?.players || []) {
+      try {
+        const player = await client.getPlayerInfo(String(playerId));
+        const position = player.fantasy_positions?.[0] || player.position;
+        if (position) {
+          positions.set(String(playerId), position);
+        }
+      } catch (error) {
+        this.logger.debug(`No Sleeper position for player ${playerId}`);
+      }
+    }
+
+    return LeagueService.fromSleeper(registration, league, rosters, playerId => positions.get(playerId));
+  }
+
+  private async loadYahooLeague(registration: LeagueRegistration): Promise<LeagueSettings> {
+    const client = this.requireClient(this.clients.yahoo, registration);
+    const leagues = await client.getLeagues();
+    const league = leagues.find(candidate =>
+      String(candidate.league_key) === registration.leagueId || String(candidate.league_id) === registration.leagueId
+    );
+
+    if (!league) {
+      throw new Error('League not found among the authenticated user\'s Yahoo leagues');
+    }
+
+    return LeagueService.fromYahoo(registration, league);
+  }
+
+  private async loadESPNLeague(registration: LeagueRegistration): Promise<LeagueSettings> {
+    const client = this.requireClient(this.clients.espn, registration);
+    const data = await client.getLeagueInfo(registration.leagueId);
+    return LeagueService.fromESPN(registration, data);
+  }
+
+  static fromSleeper(
+    registration: LeagueRegistration,
+    league: SleeperLeagueData,
+    rosters: SleeperRosterData[],
+    positionOf: (playerId: string) => string | undefined
+  ): LeagueSettings {
+    const faabBudget = league?.settings?.waiver_budget ?? registration.faabBudget ?? DEFAULT_FAAB_BUDGET;
+    const teams: LeagueTeamBudget[] = rosters.map(roster => ({
+      teamId: String(roster.roster_id),
+      remainingBudget: Math.max(0, faabBudget - (roster.settings?.waiver_budget_used || 0))
+    }));
+
+    const ourRoster = rosters.find(roster => LeagueService.isSleeperRoster(roster, registration.teamId));
+    const starterSlots: Record<string, number> = {};
+    for (const slot of league?.roster_positions || []) {
+      if (slot !== 'BN' && slot !== 'IR' && slot !== 'TAXI') {
+        const position = SLEEPER_SLOT_ALIASES[slot] || slot;
+        starterSlots[position] = (starterSlots[position] || 0) + 1;
+      }
+    }
+
+    return {
+      platform: 'Sleeper',
+      leagueId: registration.leagueId,
+      name: registration.name || league?.name || `Sleeper league ${registration.leagueId}`,
+      teamCount: league?.total_rosters || rosters.length || DEFAULT_TEAM_COUNT,
+      faabBudget,
+      teams,
+      ...(ourRoster && { ourTeamId: String(ourRoster.roster_id) }),
+      ourRemainingBudget: LeagueService.resolveOurBudget(registration, teams, ourRoster && String(ourRoster.roster_id), faabBudget),
+      starterSlots,
+      ...(ourRoster && {
+        ourPositionCounts: LeagueService.countPositions((ourRoster.players || []).map(id => positionOf(String(id))))
+      })
+    };
+  }
+
+  static fromYahoo(registration: LeagueRegistration, league: YahooLeagueData): LeagueSettings {
+    // The leagues endpoint does not include budgets or rosters, so rely on the registration
+    const faabBudget = registration.faabBudget ?? DEFAULT_FAAB_BUDGET;
+
+    return {
+      platform: 'Yahoo',
+      leagueId: registration.leagueId,
+      name: registration.name || league.name || `Yahoo league ${registration.leagueId}`,
+      teamCount: parseInt(String(league.num_teams), 10) || DEFAULT_TEAM_COUNT,
+      faabBudget,
+      teams: [],
+      ...(registration.teamId && { ourTeamId: registration.teamId }),
+      ourRemainingBudget: registration.remainingBudget ?? faabBudget,
+      starterSlots: {}
+    };
+  }
+
+  static fromESPN(registration: LeagueRegistration, data: ESPNLeagueData): LeagueSettings {
+    const settings = data?.settings || {};
+    const faabBudget = settings.acquisitionSettings?.acquisitionBudget ?? registration.faabBudget ?? DEFAULT_FAAB_BUDGET;
+    const teams: LeagueTeamBudget[] = (data?.teams || []).map(team => ({
+      teamId: String(team.id),
+      remainingBudget: Math.max(0, faabBudget - (team.transactionCounter?.acquisitionBudgetSpent || 0))
+    }));
+
+    const starterSlots: Record<string, number> = {};
+    for (const [slotId, count] of Object.entries(settings.rosterSettings?.lineupSlotCounts || {})) {
+      const position = ESPN_LINEUP_SLOTS[slotId];
+      if (position && typeof count === 'number' && count > 0) {
+        starterSlots[position] = (starterSlots[position] || 0) + count;
+      }
+    }
+
+    return {
+      platform: 'ESPN',
+      leagueId: registration.leagueId,
+      name: registration.name || settings.name || `ESPN league ${registration.leagueId}`,
+      teamCount: settings.size || teams.length || DEFAULT_TEAM_COUNT,
+      faabBudget,
+      teams,
+      ...(registration.teamId && { ourTeamId: registration.teamId }),
+      ourRemainingBudget: LeagueService.resolveOurBudget(registration, teams, registration.teamId, faabBudget),
+      starterSlots
+    };
+  }
+
+  private static isSleeperRoster(roster: SleeperRosterData, teamId?: string): boolean {
+    return !!teamId && (String(roster.roster_id) === teamId || String(roster.owner_id) === teamId);
+  }
+
+  private static resolveOurBudget(
+    registration: LeagueRegistration,
+    teams: LeagueTeamBudget[],
+    ourTeamId: string | undefined,
+    faabBudget: number
+  ): number {
+    const ourTeam = ourTeamId ? teams.find(team => team.teamId === ourTeamId) : undefined;
+    return ourTeam?.remainingBudget ?? registration.remainingBudget ?? faabBudget;
+  }
+
+  private static countPositions(positions: Array<string | undefined>): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const position of positions) {
+      if (position) {
+        // Defenders are listed by depth chart position (DE, CB) but counted by IDP group
+        const normalized = IDPUtils.normalizePosition(SLEEPER_SLOT_ALIASES[position] || position);
+        counts[normalized] = (counts[normalized] || 0) + 1;
+      }
+    }
+    return counts;
+  }
+
+  private requireClient<T>(client: T | undefined, registration: LeagueRegistration): T {
+    if (!client) {
+      throw new Error(`No ${registration.platform} client configured`);
+    }
+    return client;
+  }
+}
@@ -0,0 +1,134 @@
+// Tests for defense-vs-position rankings and strength of schedule
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MatchupService } from './matchup-service';
+import { SeasonCalendar } from '../models';
+import { SportsDataClient } from '../api/news-services/sports-data-client';
+import { SportsDataDefenseGame, SportsDataScheduleGame } from '../api/news-services/types';
+
+// Mock Logger
+vi.mock('../utils/logger', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+function defenseGame(team: string, opponent: string, week: number, wideReceiverPoints: number, dstPoints: number = 5): SportsDataDefenseGame {
+  return {
+    Team: team,
+    Opponent: opponent,
+    Week: week,
+    FantasyPoints: dstPoints,
+    PointsAllowed: 20,
+    Sacks: 2,
+    Interceptions: 0,
+    FumblesRecovered: 0,
+    WideReceiverFantasyPointsAllowed: wideReceiverPoints
+  };
+}
+
+function game(week: number, homeTeam: string, awayTeam: string): SportsDataScheduleGame {
+  return { Week: week, HomeTeam: homeTeam, AwayTeam: awayTeam, DateTime: `2024-10-${10 + week}T17:00:00` };
+}
+
+const calendar = {
+  getCurrentSeason: () => 2024,
+  getLookupWeek: () => 8,
+  getRegularSeasonWeeks: () => 18,
+  getFantasyPlayoffWeeks: () => [15, 16, 17],
+  isFantasyPlayoffWeek: (week: number) => [15, 16, 17].includes(week)
+} as unknown as SeasonCalendar;
+
+describe('MatchupService', () => {
+  let sportsDataClient: {
+    getSchedule: ReturnType<typeof vi.fn>;
+    getDefenseVsPositionStats: ReturnType<typeof vi.fn>;
+    getTeamStats: ReturnType<typeof vi.fn>;
+  };
+  let service: MatchupService;
+
+  beforeEach(() => {
+    sportsDataClient = {
+      getSchedule: vi.fn().mockResolvedValue([
+        game(8, 'NYJ', 'BUF'),
+        game(9, 'BUF', 'SF'),
+        { Week: 10, HomeTeam: 'BUF', AwayTeam: 'BYE' },
+        game(11, 'DAL', 'BUF'),
+        game(15, 'BUF', 'DAL'),
+        game(16, 'NYJ', 'BUF'),
+        game(17, 'BUF', 'NYJ')
+      ]),
+      getDefenseVsPositionStats: vi.fn().mockResolvedValue([
+        defenseGame('NYJ', 'MIA', 6, 40),
+        defenseGame('NYJ', 'NE', 7, 38),
+        defenseGame('DAL', 'PHI', 7, 20, 12),
+        defenseGame('SF', 'SEA', 7, 10, 2),
+        defenseGame('SF', 'LAR', 1, 90) // Outside the window
+      ]),
+      getTeamStats: vi.fn()
+    };
+    service = new MatchupService(sportsDataClient as unknown as SportsDataClient, { windowWeeks: 6, horizonWeeks: 3 }, calendar);
+  });
+
+  it('should rank defenses by fantasy points allowed to the position over the window', async () => {
+    const rankings = await service.getDefenseRankings('WR');
+
+    expect(rankings.map(ranking => [ranking.team, ranking.pointsAllowed, ranking.rank, ranking.difficulty])).toEqual([
+      ['NYJ', 39, 1, 0],
+      ['DAL', 20, 2, 50],
+      ['SF', 10, 3, 100]
+    ]);
+  });
+
+  it('should rank offenses for DST by the points opposing defenses scored against them', () => {
+    const rankings = MatchupService.rankDefenses([
+      defenseGame('NYJ', 'MIA', 6, 0, 4),
+      defenseGame('DAL', 'NYG', 7, 0, 15)
+    ], 'DST');
+
+    expect(rankings.map(ranking => ranking.team)).toEqual(['NYG', 'MIA']);
+  });
+
+  it('should score the next weeks and the fantasy playoffs, skipping byes', async () => {
+    const outlook = await service.getScheduleOutlook('BUF', 'WR');
+
+    expect(outlook.matchups.map(matchup => [matchup.week, matchup.opponent, matchup.isHome, matchup.difficulty, matchup.difficultyScore]))
+      .toEqual([
+        [8, 'NYJ', false, 'easy', 0],
+        [9, 'SF', true, 'hard', 100]
+      ]);
+    expect(outlook.playoffMatchups.every(matchup => matchup.isFantasyPlayoff)).toBe(true);
+    expect(outlook.strengthOfSchedule).toEqual({
+      upcoming: 50,
+      upcomingWeeks: [8, 9],
+      playoffs: 17,
+      playoffWeeks: [15, 16, 17]
+    });
+
+    await service.getScheduleOutlook('NYJ', 'WR');
+    expect(sportsDataClient.getSchedule).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to last season\'s points allowed before any games are played', async () => {
+    sportsDataClient.getDefenseVsPositionStats.mockResolvedValue([]);
+    sportsDataClient.getTeamStats.mockImplementation(async (team: string) => ({
+      Team: team,
+      Games: 17,
+      Score: 340,
+      OpponentScore: { NYJ: 408, SF: 289, DAL: 340, BUF: 374 }[team] ?? 340,
+      FieldGoalAttempts: 30,
+      FieldGoalsMade: 25
+    }));
+
+    const outlook = await service.getScheduleOutlook('BUF', 'WR');
+    const dstOutlook = await service.getScheduleOutlook('BUF', 'DST');
+
+    expect(sportsDataClient.getTeamStats).toHaveBeenCalledWith('NYJ', 2023);
+    expect(outlook.matchups.map(matchup => matchup.defenseRank)).toEqual([1, 4]);
+    expect(dstOutlook.matchups.map(matchup => matchup.difficulty)).toEqual(['medium', 'medium']);
+    expect(dstOutlook.strengthOfSchedule).toBeUndefined();
+  });
+});
@@ -0,0 +1,241 @@
+// Ranks every defense against each position and scores upcoming schedules from the rankings
+
+import {
+  DEFAULT_MATCHUP_CONFIG,
+  DefenseRanking,
+  MatchupConfig,
+  MatchupUtils,
+  StrengthOfSchedule
+} from '../models/matchup';
+import { Matchup } from '../models/player';
+import { SeasonCalendar, getSeasonCalendar } from '../models/season';
+import { SportsDataClient } from '../api/news-services/sports-data-client';
+import {
+  SportsDataDefenseGame,
+  SportsDataScheduleGame,
+  SportsDataTeamSeasonStats
+} from '../api/news-services/types';
+import { Logger } from '../utils/logger';
+
+// Where FantasyDefenseByGame reports the fantasy points a defense allowed to each position
+const POINTS_ALLOWED_FIELDS: Record<string, keyof SportsDataDefenseGame> = {
+  'QB': 'QuarterbackFantasyPointsAllowed',
+  'RB': 'RunningbackFantasyPointsAllowed',
+  'WR': 'WideReceiverFantasyPointsAllowed',
+  'TE': 'TightEndFantasyPointsAllowed',
+  'K': 'KickerFantasyPointsAllowed'
+};
+
+export const MATCHUP_POSITIONS = [...Object.keys(POINTS_ALLOWED_FIELDS), 'DST'];
+
+export interface ScheduleOutlook {
+  matchups: Matchup[]; // The next horizonWeeks, skipping byes
+  playoffMatchups: Matchup[]; // Fantasy playoff weeks still to come
+  strengthOfSchedule?: StrengthOfSchedule;
+}
+
+// Rankings for every position as of one week, with the season schedule to map opponents
+interface MatchupTable {
+  season: number;
+  week: number;
+  rankings: Map<string, Map<string, DefenseRanking>>; // Position, then opposing team
+  schedule: SportsDataScheduleGame[];
+}
+
+/**
+ * Turns SportsData's per-game defensive logs into defense-vs-position rankings over a rolling
+ * window, then scores each team's upcoming opponents for a position. Before any games have been
+ * played in the window, last season's points allowed stand in for the offensive positions.
+ */
+export class MatchupService {
+  private logger: Logger;
+  private tables = new Map<string, Promise<MatchupTable>>();
+
+  constructor(
+    private sportsDataClient: SportsDataClient,
+    private config: MatchupConfig = DEFAULT_MATCHUP_CONFIG,
+    private seasonCalendar: SeasonCalendar = getSeasonCalendar()
+  ) {
+    this.logger = new Logger('MatchupService');
+  }
+
+  /**
+   * Every defense ranked against a position, easiest matchup first
+   */
+  async getDefenseRankings(position: string, week: number = this.seasonCalendar.getLookupWeek()): Promise<DefenseRanking[]> {
+    const table = await this.loadTable(week);
+    return Array.from(table.rankings.get(position)?.values() || []).sort((a, b) => a.rank - b.rank);
+  }
+
+  async getScheduleOutlook(
+    team: string,
+    position: string,
+    week: number = this.seasonCalendar.getLookupWeek()
+  ): Promise<ScheduleOutlook> {
+    const table = await this.loadTable(week);
+    const lastWeek = this.seasonCalendar.getRegularSeasonWeeks(table.season);
+    const playoffWeeks = this.seasonCalendar.getFantasyPlayoffWeeks(table.season).filter(playoffWeek => playoffWeek >= week);
+
+    const horizon = Array.from({ length: this.config.horizonWeeks }, (_, offset) => week + offset)
+      .filter(upcomingWeek => upcomingWeek <= lastWeek);
+    const matchups = horizon
+      .map(upcomingWeek => this.buildMatchup(table, team, position, upcomingWeek))
+      .filter((matchup): matchup is Matchup => matchup !== null);
+    const playoffMatchups = playoffWeeks
+      .map(playoffWeek => this.buildMatchup(table, team, position, playoffWeek))
+      .filter((matchup): matchup is Matchup => matchup !== null);
+
+    const strengthOfSchedule = MatchupService.buildStrengthOfSchedule(matchups, playoffMatchups);
+    return { matchups, playoffMatchups, ...(strengthOfSchedule && { strengthOfSchedule }) };
+  }
+
+  /**
+   * Rank defenses by fantasy points per game allowed to a position; the most generous is rank 1.
+   * For DST the "defense" faced is the opposing offense, ranked by points its opponents' DSTs scored.
+   */
+  static rankDefenses(defenseGames: SportsDataDefenseGame[], position: string): DefenseRanking[] {
+    const field = POINTS_ALLOWED_FIELDS[position];
+    const allowedByTeam = new Map<string, number[]>();
+
+    defenseGames.forEach(game => {
+      const team = position === 'DST' ? game.Opponent : game.Team;
+      const allowed = position === 'DST' ? game.FantasyPoints : game[field!];
+      if (typeof allowed !== 'number') {
+        return;
+      }
+      allowedByTeam.set(team, [...(allowedByTeam.get(team) || []), allowed]);
+    });
+
+    const averages = Array.from(allowedByTeam.entries()).map(([team, allowed]) => ({
+      team,
+      pointsAllowed: Math.round((allowed.reduce((sum, points) => sum + points, 0) / allowed.length) * 10) / 10
+    }));
+
+    return MatchupService.toRankings(averages, position);
+  }
+
+  static buildStrengthOfSchedule(matchups: Matchup[], playoffMatchups: Matchup[]): StrengthOfSchedule | undefined {
+    const scored = (games: Matchup[]) => games.filter(game => game.difficultyScore !== undefined);
+    const upcoming = scored(matchups);
+    const playoffs = scored(playoffMatchups);
+    const upcomingDifficulty = MatchupUtils.averageDifficulty(upcoming.map(game => game.difficultyScore!));
+    if (upcomingDifficulty === undefined) {
+      return undefined;
+    }
+
+    const playoffDifficulty = MatchupUtils.averageDifficulty(playoffs.map(game => game.difficultyScore!));
+    return {
+      upcoming: upcomingDifficulty,
+      upcomingWeeks: upcoming.map(game => game.week!),
+      ...(playoffDifficulty !== undefined && {
+        playoffs: playoffDifficulty,
+        playoffWeeks: playoffs.map(game => game.week!)
+      })
+    };
+  }
+
+  private static toRankings(averages: Array<{ team: string; pointsAllowed: number }>, position: string): DefenseRanking[] {
+    const sorted = [...averages].sort((a, b) => b.pointsAllowed - a.pointsAllowed);
+    return sorted.map(({ team, pointsAllowed }, index) => ({
+      team,
+      position,
+      pointsAllowed,
+      rank: index + 1,
+      difficulty: sorted.length > 1 ? Math.round((index / (sorted.length - 1)) * 100) : 50
+    }));
+  }
+
+  // One table per week, shared by every player researched against it
+  private loadTable(week: number): Promise<MatchupTable> {
+    const season = this.seasonCalendar.getCurrentSeason();
+    const key = `${season}:${week}`;
+
+    let table = this.tables.get(key);
+    if (!table) {
+      table = this.buildTable(season, week);
+      table.catch(() => this.tables.delete(key));
+      this.tables.set(key, table);
+    }
+    return table;
+  }
+
+  private async buildTable(season: number, week: number): Promise<MatchupTable> {
+    const [schedule, defenseGames] = await Promise.all([
+      this.sportsDataClient.getSchedule() as Promise<SportsDataScheduleGame[]>,
+      this.sportsDataClient.getDefenseVsPositionStats('ALL') as Promise<SportsDataDefenseGame[]>
+    ]);
+
+    const windowStart = week - this.config.windowWeeks;
+    const windowGames = (defenseGames || []).filter(game => game.Week < week && game.Week >= windowStart);
+    const rankings = new Map<string, Map<string, DefenseRanking>>();
+
+    if (windowGames.length > 0) {
+      MATCHUP_POSITIONS.forEach(position => {
+        rankings.set(position, MatchupService.indexByTeam(MatchupService.rankDefenses(windowGames, position)));
+      });
+    } else {
+      const teams = Array.from(new Set((schedule || []).flatMap(game => [game.HomeTeam, game.AwayTeam])))
+        .filter(team => team && team !== 'BYE');
+      await this.addPriorSeasonRankings(rankings, teams, season - 1);
+    }
+
+    this.logger.info(`Ranked defenses against ${rankings.size} positions for week ${week} from ${windowGames.length} games`);
+    return { season, week, rankings, schedule: schedule || [] };
+  }
+
+  /**
+   * Early in the season there's nothing to rank, so last season's points allowed per game rank
+   * the defenses for every offensive position. DST matchups stay unranked until games are played.
+   */
+  private async addPriorSeasonRankings(
+    rankings: Map<string, Map<string, DefenseRanking>>,
+    teams: string[],
+    season: number
+  ): Promise<void> {
+    const allowed: Array<{ team: string; pointsAllowed: number }> = [];
+
+    for (const team of teams) {
+      try {
+        const stats = await this.sportsDataClient.getTeamStats(team, season) as SportsDataTeamSeasonStats | null;
+        if (!stats || !stats.Games) {
+          continue;
+        }
+        allowed.push({ team, pointsAllowed: Math.round((stats.OpponentScore / stats.Games) * 10) / 10 });
+      } catch (error) {
+        this.logger.warn(`Failed to load ${season} team stats for ${team}`, error);
+      }
+    }
+
+    Object.keys(POINTS_ALLOWED_FIELDS).forEach(position => {
+      rankings.set(position, MatchupService.indexByTeam(MatchupService.toRankings(allowed, position)));
+    });
+  }
+
+  private buildMatchup(table: MatchupTable, team: string, position: string, week: number): Matchup | null {
+    const game = table.schedule.find(scheduled =>
+      scheduled.Week === week && scheduled.AwayTeam !== 'BYE' &&
+      (scheduled.HomeTeam === team || scheduled.AwayTeam === team)
+    );
+    if (!game) {
+      return null;
+    }
+
+    const isHome = game.HomeTeam === team;
+    const opponent = isHome ? game.AwayTeam : game.HomeTeam;
+    const ranking = table.rankings.get(position)?.get(opponent);
+
+    return {
+      opponent,
+      isHome,
+      gameDate: new Date(game.DateTime || game.Date || Date.now()),
+      difficulty: MatchupUtils.labelDifficulty(ranking?.difficulty),
+      week,
+      ...(ranking && { difficultyScore: ranking.difficulty, defenseRank: ranking.rank }),
+      ...(this.seasonCalendar.isFantasyPlayoffWeek(week, table.season) && { isFantasyPlayoff: true })
+    };
+  }
+
+  private static indexByTeam(rankings: DefenseRanking[]): Map<string, DefenseRanking> {
+    return new Map(rankings.map(ranking => [ranking.team, ranking]));
+  }
+}
@@ -0,0 +1,270 @@
+// Built-in opportunity providers: SportsData game stats and a CSV/JSON import file
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { PlayerSummary } from '../models/player';
+import { OPPORTUNITY_SHARE_FIELDS, OpportunityUtils, PlayerOpportunity } from '../models/opportunity';
+import { SeasonCalendar, getSeasonCalendar } from '../models/season';
+import { SportsDataClient } from '../api/news-services/sports-data-client';
+import { SportsDataGameStats, SportsDataPlayerStats } from '../api/news-services/types';
+import { PlayerIdentityRegistry, getPlayerIdentityRegistry } from './player-identity-registry';
+import type { OpportunityProvider } from './opportunity-service';
+import { Logger } from '../utils/logger';
+
+// Shares of targets, carries and snaps only describe skill-position roles
+const OPPORTUNITY_POSITIONS = ['QB', 'RB', 'WR', 'TE'];
+
+interface WeeklyReading {
+  week: number;
+  reading: Partial<PlayerOpportunity>;
+}
+
+interface TeamVolume {
+  targets: number;
+  carries: number;
+}
+
+/**
+ * Team shares from SportsData's weekly and red-zone game stats, with the depth chart slot from
+ * its player list. Red-zone shares are skipped for a week whose red-zone stats can't be loaded.
+ */
+export class SportsDataOpportunityProvider implements OpportunityProvider {
+  readonly name = 'SportsData';
+  private logger: Logger;
+
+  constructor(
+    private sportsDataClient: SportsDataClient,
+    private identityRegistry: PlayerIdentityRegistry = getPlayerIdentityRegistry(),
+    private seasonCalendar: SeasonCalendar = getSeasonCalendar()
+  ) {
+    this.logger = new Logger('SportsDataOpportunityProvider');
+  }
+
+  async getOpportunities(players: PlayerSummary[], weeks: number[]): Promise<Map<string, PlayerOpportunity>> {
+    const roster = (await this.sportsDataClient.getAllPlayers()) || [];
+    this.linkRoster(roster);
+    const depthSlots = new Map(roster
+      .filter(player => typeof player.DepthDisplayOrder === 'number')
+      .map(player => [String(player.PlayerID), player.DepthDisplayOrder]));
+
+    const season = this.seasonCalendar.getCurrentSeason();
+    const readings = new Map<string, WeeklyReading[]>();
+    for (const week of weeks) {
+      const [stats, redZone] = await Promise.all([
+        this.sportsDataClient.getWeeklyStats(week, season),
+        this.sportsDataClient.getRedZoneStats(week, season).catch(error => {
+          this.logger.warn(`Failed to load week ${week} red zone stats`, error);
+          return [] as SportsDataGameStats[];
+        })
+      ]);
+      SportsDataOpportunityProvider.readWeek(stats || [], redZone || []).forEach((reading, playerId) => {
+        readings.set(playerId, [...(readings.get(playerId) || []), { week, reading }]);
+      });
+    }
+
+    const opportunities = new Map<string, PlayerOpportunity>();
+    players
+      .filter(player => OPPORTUNITY_POSITIONS.includes(player.position))
+      .forEach(player => {
+        const sportsDataId = this.identityRegistry.getPlatformId(player.playerId, 'SportsData');
+        if (!sportsDataId) {
+          return;
+        }
+
+        const playerReadings = readings.get(sportsDataId) || [];
+        const depthChartSlot = depthSlots.get(sportsDataId);
+        if (playerReadings.length === 0 && depthChartSlot === undefined) {
+          return;
+        }
+
+        opportunities.set(player.playerId, {
+          ...OpportunityUtils.average(playerReadings.map(entry => entry.reading), playerReadings.map(entry => entry.week), this.name),
+          ...(depthChartSlot !== undefined && { depthChartSlot })
+        });
+      });
+
+    return opportunities;
+  }
+
+  /**
+   * Each player's shares of their team's volume in one week, keyed by SportsData player ID
+   */
+  static readWeek(stats: SportsDataGameStats[], redZone: SportsDataGameStats[]): Map<string, Partial<PlayerOpportunity>> {
+    const teamVolume = SportsDataOpportunityProvider.sumByTeam(stats);
+    const teamRedZone = SportsDataOpportunityProvider.sumByTeam(redZone);
+    const redZoneByPlayer = new Map(redZone.map(row => [row.PlayerID, row]));
+    const readings = new Map<string, Partial<PlayerOpportunity>>();
+
+    stats.forEach(row => {
+      const team = teamVolume.get(row.Team);
+      const redZoneRow = redZoneByPlayer.get(row.PlayerID);
+      const redZoneTotal = teamRedZone.get(row.Team);
+      const reading: Partial<PlayerOpportunity> = {};
+
+      const snapShare = OpportunityUtils.share(row.OffensiveSnapsPlayed, row.OffensiveTeamSnaps);
+      const targetShare = OpportunityUtils.share(row.ReceivingTargets, team?.targets);
+      const carryShare = OpportunityUtils.share(row.RushingAttempts, team?.carries);
+      const redZoneShare = redZone.length > 0
+        ? OpportunityUtils.share(
+          (redZoneRow?.ReceivingTargets || 0) + (redZoneRow?.RushingAttempts || 0),
+          redZoneTotal && redZoneTotal.targets + redZoneTotal.carries
+        )
+        : undefined;
+      if (snapShare !== undefined) reading.snapShare = snapShare;
+      if (targetShare !== undefined) reading.targetShare = targetShare;
+      if (carryShare !== undefined) reading.carryShare = carryShare;
+      if (redZoneShare !== undefined) reading.redZoneShare = redZoneShare;
+
+      readings.set(String(row.PlayerID), reading);
+    });
+
+    return readings;
+  }
+
+  private static sumByTeam(stats: SportsDataGameStats[]): Map<string, TeamVolume> {
+    const totals = new Map<string, TeamVolume>();
+    stats.forEach(row => {
+      const team = totals.get(row.Team) || { targets: 0, carries: 0 };
+      team.targets += row.ReceivingTargets || 0;
+      team.carries += row.RushingAttempts || 0;
+      totals.set(row.Team, team);
+    });
+    return totals;
+  }
+
+  private linkRoster(roster: SportsDataPlayerStats[]): void {
+    this.identityRegistry.linkPlatformPlayers(roster.map(player => ({
+      platform: 'SportsData',
+      platformId: String(player.PlayerID),
+      name: player.Name,
+      team: player.Team,
+      position: player.FantasyPosition || player.Position
+    })));
+  }
+}
+
+// One row of the import file; numbers may arrive as strings from CSV
+interface OpportunityImportRow {
+  playerId?: string;
+  name?: string;
+  team?: string;
+  week?: string | number;
+  depthChartSlot?: string | number;
+  snapShare?: string | number;
+  targetShare?: string | number;
+  carryShare?: string | number;
+  redZoneShare?: string | number;
+}
+
+/**
+ * Opportunity data kept by hand or exported from another tool. The file is a JSON array or a CSV
+ * with a header row, one row per player (or per player and week), using the PlayerOpportunity
+ * field names plus playerId or name and team to identify the player. Rows without a week always
+ * count; rows with one count when the week is among those being averaged.
+ */
+export class FileOpportunityProvider implements OpportunityProvider {
+  readonly name = 'import file';
+  private rows?: OpportunityImportRow[];
+
+  constructor(private filePath: string) {}
+
+  async getOpportunities(players: PlayerSummary[], weeks: number[]): Promise<Map<string, PlayerOpportunity>> {
+    const rows = await this.loadRows();
+    const opportunities = new Map<string, PlayerOpportunity>();
+
+    players.forEach(player => {
+      const playerRows = rows.filter(row =>
+        FileOpportunityProvider.matchesPlayer(row, player) &&
+        (row.week === undefined || row.week === '' || weeks.includes(Number(row.week)))
+      );
+      if (playerRows.length === 0) {
+        return;
+      }
+
+      const rowWeeks = Array.from(new Set(playerRows
+        .filter(row => row.week !== undefined && row.week !== '')
+        .map(row => Number(row.week))))
+        .sort((a, b) => a - b);
+      opportunities.set(player.playerId, OpportunityUtils.average(
+        playerRows.map(row => FileOpportunityProvider.toReading(row)),
+        rowWeeks,
+        this.name
+      ));
+    });
+
+    return opportunities;
+  }
+
+  /**
+   * Minimal CSV parsing: a header row, commas between fields, double quotes around fields that
+   * contain commas, and "" for a quote inside a quoted field
+   */
+  static parseCsv(content: string): Array<Record<string, string>> {
+    const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+    const parseLine = (line: string): string[] => {
+      const fields: string[] = [];
+      let field = '';
+      let quoted = false;
+
+      for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted && char === '"' && line[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = !quoted;
+        } else if (char === ',' && !quoted) {
+          fields.push(field.trim());
+          field = '';
+        } else {
+          field += char;
+        }
+      }
+      fields.push(field.trim());
+      return fields;
+    };
+
+    const [header, ...body] = lines.map(parseLine);
+    if (!header) {
+      return [];
+    }
+    return body.map(fields => Object.fromEntries(header.map((column, index) => [column, fields[index] ?? ''])));
+  }
+
+  private async loadRows(): Promise<OpportunityImportRow[]> {
+    if (!this.rows) {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      this.rows = path.extname(this.filePath).toLowerCase() === '.csv'
+        ? FileOpportunityProvider.parseCsv(content)
+        : JSON.parse(content) as OpportunityImportRow[];
+    }
+    return this.rows;
+  }
+
+  private static matchesPlayer(row: OpportunityImportRow, player: PlayerSummary): boolean {
+    if (row.playerId) {
+      return String(row.playerId) === player.playerId;
+    }
+    return !!row.name && !!row.team &&
+      PlayerIdentityRegistry.normalizeName(row.name) === PlayerIdentityRegistry.normalizeName(player.name) &&
+      PlayerIdentityRegistry.normalizeTeam(row.team) === PlayerIdentityRegistry.normalizeTeam(player.team);
+  }
+
+  private static toReading(row: OpportunityImportRow): Partial<PlayerOpportunity> {
+    const reading: Partial<PlayerOpportunity> = {};
+    const toNumber = (value: string | number | undefined) =>
+      value === undefined || value === '' || isNaN(Number(value)) ? undefined : Number(value);
+
+    const depthChartSlot = toNumber(row.depthChartSlot);
+    if (depthChartSlot !== undefined) {
+      reading.depthChartSlot = depthChartSlot;
+    }
+    OPPORTUNITY_SHARE_FIELDS.forEach(field => {
+      const value = toNumber(row[field]);
+      if (value !== undefined) {
+        reading[field] = value;
+      }
+    });
+    return reading;
+  }
+}
@@ -0,0 +1,157 @@
+// Tests for opportunity data from providers and the import file fallback
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { OpportunityProvider, OpportunityService } from './opportunity-service';
+import { FileOpportunityProvider, SportsDataOpportunityProvider } from './opportunity-providers';
+import { PlayerSummary, SeasonCalendar } from '../models';
+import { SportsDataGameStats } from '../api/news-services/types';
+
+// Mock Logger
+vi.mock('../utils/logger', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+function player(playerId: string, name: string, position: string, team: string): PlayerSummary {
+  return { playerId, name, position, team, additionCount: 100, additionPercentage: 20, platforms: ['ESPN'] };
+}
+
+function gameStats(playerId: number, team: string, targets: number, carries: number, snaps?: number): SportsDataGameStats {
+  return {
+    PlayerID: playerId,
+    Team: team,
+    Week: 7,
+    ReceivingTargets: targets,
+    RushingAttempts: carries,
+    ...(snaps !== undefined && { OffensiveSnapsPlayed: snaps, OffensiveTeamSnaps: 60 })
+  } as SportsDataGameStats;
+}
+
+const calendar = {
+  getCurrentSeason: () => 2024,
+  getLookupWeek: () => 8
+} as unknown as SeasonCalendar;
+
+describe('OpportunityService', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'opportunity-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should average the completed weeks before the lookup week', () => {
+    const provider: OpportunityProvider = { name: 'test', getOpportunities: vi.fn() };
+    const service = new OpportunityService(provider, { weeks: 3 }, calendar);
+
+    expect(service.getRecentWeeks()).toEqual([5, 6, 7]);
+  });
+
+  it('should fill players the provider missed from a CSV import file', async () => {
+    const importFile = path.join(tempDir, 'opportunity.csv');
+    await fs.writeFile(importFile, [
+      'name,team,week,depthChartSlot,snapShare,targetShare,carryShare,redZoneShare',
+      '"Rice, Rashee",KC,6,1,80,24,,30',
+      '"Rice, Rashee",KC,7,1,90,28,,20',
+      '"Rice, Rashee",KC,2,2,40,10,,0',
+      'Other Player,NYJ,7,3,20,5,,0'
+    ].join('\n'));
+
+    const known = player('p1', 'Known Back', 'RB', 'BUF');
+    const provider: OpportunityProvider = {
+      name: 'test',
+      getOpportunities: vi.fn().mockResolvedValue(new Map([['p1', { carryShare: 55, weeks: [7], source: 'test' }]]))
+    };
+    const service = new OpportunityService(provider, { weeks: 3, importFile }, calendar);
+
+    const opportunities = await service.getOpportunities([known, player('p2', 'Rice, Rashee', 'WR', 'KC')]);
+
+    expect(opportunities.get('p1')).toEqual({ carryShare: 55, weeks: [7], source: 'test' });
+    expect(opportunities.get('p2')).toEqual({
+      depthChartSlot: 1,
+      snapShare: 85,
+      targetShare: 26,
+      redZoneShare: 25,
+      weeks: [6, 7],
+      source: 'import file'
+    });
+  });
+
+  it('should use the import file when the provider fails', async () => {
+    const importFile = path.join(tempDir, 'opportunity.json');
+    await fs.writeFile(importFile, JSON.stringify([{ playerId: 'p1', depthChartSlot: 2, carryShare: 35 }]));
+
+    const provider: OpportunityProvider = {
+      name: 'test',
+      getOpportunities: vi.fn().mockRejectedValue(new Error('API down'))
+    };
+    const service = new OpportunityService(provider, { weeks: 3, importFile }, calendar);
+
+    const opportunities = await service.getOpportunities([player('p1', 'Backup Back', 'RB', 'DAL')]);
+
+    expect(opportunities.get('p1')).toEqual({ depthChartSlot: 2, carryShare: 35, weeks: [], source: 'import file' });
+  });
+
+  it('should parse quoted CSV fields', () => {
+    expect(FileOpportunityProvider.parseCsv('name,team\n"Smith ""Jr"", John",NYG\n')).toEqual([
+      { name: 'Smith "Jr", John', team: 'NYG' }
+    ]);
+  });
+});
+
+describe('SportsDataOpportunityProvider', () => {
+  it('should compute shares of team targets, carries, snaps and red zone looks', () => {
+    const readings = SportsDataOpportunityProvider.readWeek([
+      gameStats(1, 'BUF', 9, 0, 54),
+      gameStats(2, 'BUF', 3, 15, 30),
+      gameStats(3, 'BUF', 6, 5)
+    ], [
+      gameStats(1, 'BUF', 2, 0),
+      gameStats(2, 'BUF', 0, 2)
+    ]);
+
+    expect(readings.get('1')).toEqual({ snapShare: 90, targetShare: 50, carryShare: 0, redZoneShare: 50 });
+    expect(readings.get('2')).toEqual({ snapShare: 50, targetShare: 16.7, carryShare: 75, redZoneShare: 50 });
+    expect(readings.get('3')).toEqual({ targetShare: 33.3, carryShare: 25, redZoneShare: 0 });
+  });
+
+  it('should average weekly readings for linked players and keep the depth chart slot', async () => {
+    const sportsDataClient = {
+      getAllPlayers: vi.fn().mockResolvedValue([{ PlayerID: 1, Name: 'Lead Back', Team: 'BUF', Position: 'RB', FantasyPosition: 'RB', DepthDisplayOrder: 1 }]),
+      getWeeklyStats: vi.fn()
+        .mockResolvedValueOnce([gameStats(1, 'BUF', 2, 12), gameStats(2, 'BUF', 8, 8)])
+        .mockResolvedValueOnce([gameStats(1, 'BUF', 4, 18), gameStats(2, 'BUF', 6, 2)]),
+      getRedZoneStats: vi.fn().mockRejectedValue(new Error('Not in plan'))
+    };
+    const identityRegistry = {
+      linkPlatformPlayers: vi.fn(),
+      getPlatformId: vi.fn((playerId: string) => (playerId === 'p1' ? '1' : undefined))
+    };
+    const provider = new SportsDataOpportunityProvider(sportsDataClient as any, identityRegistry as any, calendar);
+
+    const opportunities = await provider.getOpportunities(
+      [player('p1', 'Lead Back', 'RB', 'BUF'), player('p2', 'Unlinked', 'WR', 'BUF')],
+      [6, 7]
+    );
+
+    expect(identityRegistry.linkPlatformPlayers).toHaveBeenCalled();
+    expect(opportunities.get('p1')).toEqual({
+      depthChartSlot: 1,
+      targetShare: 30,
+      carryShare: 75,
+      weeks: [6, 7],
+      source: 'SportsData'
+    });
+    expect(opportunities.has('p2')).toBe(false);
+  });
+});
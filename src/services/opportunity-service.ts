@@ -0,0 +1,69 @@
+// Depth chart and team share data for opportunity scoring, from a pluggable provider
+
+import { PlayerSummary } from '../models/player';
+import { DEFAULT_OPPORTUNITY_CONFIG, OpportunityConfig, PlayerOpportunity } from '../models/opportunity';
+import { SeasonCalendar, getSeasonCalendar } from '../models/season';
+import { FileOpportunityProvider } from './opportunity-providers';
+import { Logger } from '../utils/logger';
+
+/**
+ * A source of depth chart slots and team shares. Providers leave out players they know
+ * nothing about, so the next source can fill them in.
+ */
+export interface OpportunityProvider {
+  readonly name: string;
+  getOpportunities(players: PlayerSummary[], weeks: number[]): Promise<Map<string, PlayerOpportunity>>; // Keyed by canonical player ID
+}
+
+/**
+ * Loads opportunity data for the researched players from the configured provider, then from the
+ * import file for anyone the provider missed. A source that fails is logged and skipped, since
+ * the scores fall back to news and single-week usage without it.
+ */
+export class OpportunityService {
+  private logger: Logger;
+  private fallback: OpportunityProvider | undefined;
+
+  constructor(
+    private provider: OpportunityProvider,
+    private config: OpportunityConfig = DEFAULT_OPPORTUNITY_CONFIG,
+    private seasonCalendar: SeasonCalendar = getSeasonCalendar()
+  ) {
+    this.logger = new Logger('OpportunityService');
+    this.fallback = config.importFile ? new FileOpportunityProvider(config.importFile) : undefined;
+  }
+
+  async getOpportunities(players: PlayerSummary[]): Promise<Map<string, PlayerOpportunity>> {
+    const weeks = this.getRecentWeeks();
+    const opportunities = await this.loadFrom(this.provider, players, weeks);
+
+    const missing = players.filter(player => !opportunities.has(player.playerId));
+    if (this.fallback && missing.length > 0) {
+      const imported = await this.loadFrom(this.fallback, missing, weeks);
+      imported.forEach((opportunity, playerId) => opportunities.set(playerId, opportunity));
+    }
+
+    this.logger.info(`Loaded opportunity data for ${opportunities.size} of ${players.length} players`);
+    return opportunities;
+  }
+
+  // Completed weeks before the current one, most recent last
+  getRecentWeeks(): number[] {
+    const currentWeek = this.seasonCalendar.getLookupWeek();
+    const firstWeek = Math.max(1, currentWeek - this.config.weeks);
+    return Array.from({ length: currentWeek - firstWeek }, (_, offset) => firstWeek + offset);
+  }
+
+  private async loadFrom(
+    provider: OpportunityProvider,
+    players: PlayerSummary[],
+    weeks: number[]
+  ): Promise<Map<string, PlayerOpportunity>> {
+    try {
+      return await provider.getOpportunities(players, weeks);
+    } catch (error) {
+      this.logger.warn(`Failed to load opportunity data from ${provider.name}`, error);
+      return new Map();
+    }
+  }
+}
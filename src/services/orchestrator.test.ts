@@ -0,0 +1,96 @@
+// Tests for the orchestrator's pipeline resume
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { OrchestratorService } from './orchestrator';
+import { PipelineSnapshotStore } from './pipeline-snapshot-store';
+import { BacktestService } from './backtest-service';
+import { SeasonCalendar, SystemConfig, PlayerAnalysis, PlayerResearch } from '../models';
+import { DataCollectionAgent, ResearchAgent, AnalysisAgent, WriterAgent, PublisherAgent } from '../agents';
+
+// Mock Logger
+vi.mock('../utils/logger', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+// Keep execution logs out of the working directory
+vi.mock('./execution-tracker', () => ({
+  ExecutionTracker: vi.fn().mockImplementation(() => ({
+    generateExecutionId: vi.fn(() => 'run-1'),
+    logExecution: vi.fn().mockResolvedValue(undefined)
+  }))
+}));
+
+describe('OrchestratorService', () => {
+  let directory: string;
+  let snapshotStore: PipelineSnapshotStore;
+  let calendar: SeasonCalendar;
+
+  const research = {
+    player: { playerId: 'p1', name: 'Rico Dowdle', position: 'RB', team: 'CAR' }
+  } as unknown as PlayerResearch;
+  const analysis = {
+    player: research.player,
+    recommendation: 'BUY'
+  } as unknown as PlayerAnalysis;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'orchestrator-'));
+    snapshotStore = new PipelineSnapshotStore(directory);
+    calendar = new SeasonCalendar();
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('resumeExecution', () => {
+    it('should stay on the collected week when resumed after the weekly rollover', async () => {
+      await snapshotStore.save('run-1', 'collection', { players: [research.player], season: 2025, week: 7 });
+      await snapshotStore.save('run-1', 'research', { research: [research] });
+
+      // Resume two days into the following week
+      const resumedAt = new Date(calendar.getWeekWindow(2025, 8).start.getTime() + 2 * 24 * 60 * 60 * 1000);
+      calendar.setReferenceDate(resumedAt);
+
+      const backtestService = { recordAnalyses: vi.fn().mockResolvedValue(undefined) } as unknown as BacktestService;
+      const writerAgent = {
+        createBlogPost: vi.fn(async () => ({
+          title: `Week ${calendar.getCurrentWeek()} Waiver Wire`,
+          metadata: { customFields: { season: calendar.getCurrentSeason(), week: calendar.getCurrentWeek() } }
+        }))
+      };
+      const publisherAgent = {
+        publishPost: vi.fn().mockResolvedValue({ success: true, postId: 'post-1' })
+      };
+      const orchestrator = new OrchestratorService(
+        { schedule: { dayOfWeek: 2, hour: 9, timezone: 'UTC' } } as unknown as SystemConfig,
+        {} as DataCollectionAgent,
+        {} as ResearchAgent,
+        { analyzePlayer: vi.fn().mockResolvedValue(analysis) } as unknown as AnalysisAgent,
+        writerAgent as unknown as WriterAgent,
+        publisherAgent as unknown as PublisherAgent,
+        { seasonCalendar: calendar, snapshotStore, backtestService }
+      );
+
+      const result = await orchestrator.resumeExecution('run-1');
+
+      expect(result.success).toBe(true);
+      expect(backtestService.recordAnalyses).toHaveBeenCalledWith(2025, 7, [analysis]);
+      expect(publisherAgent.publishPost).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Week 7 Waiver Wire' })
+      );
+
+      // The calendar goes back to the resume date once the run finishes
+      expect(calendar.getReferenceDate()).toEqual(resumedAt);
+      expect(calendar.getCurrentWeek()).toBe(8);
+    });
+  });
+});
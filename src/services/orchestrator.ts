@@ -5,22 +5,53 @@ import {
   ExecutionResult, 
   ExecutionStatus, 
   SystemConfig,
-  ConfigUtils 
+  ConfigUtils,
+  SeasonCalendar,
+  getSeasonCalendar,
+  ScoringModelUtils,
+  DEFAULT_SELECTION_POLICY,
+  PlayerSelectionDecision,
+  PlayerSelectionPolicy,
+  StreamerRankings,
+  ConcurrencyConfig,
+  DEFAULT_CONCURRENCY_CONFIG,
+  PlayerTiming
 } from '../models';
 import {
   DataCollectionAgent,
   ResearchAgent,
   AnalysisAgent,
   WriterAgent,
-  PublisherAgent
+  PublisherAgent,
+  AnalysisAgentImpl,
+  WriterAgentImpl,
+  ResearchOptions
 } from '../agents';
-import { PlayerAnalysis } from '../models';
+import {
+  PlayerAnalysis,
+  DropAnalysis,
+  AnalysisContext,
+  PlayerSummary,
+  PlayerResearch,
+  BlogPost,
+  PublicationResult
+} from '../models';
 import { Logger } from '../utils/logger';
+import { WorkerPool } from '../utils/worker-pool';
 import { ErrorHandler } from './error-handler';
 import { ExecutionTracker } from './execution-tracker';
+import { PipelineSnapshotStore, PipelineStage, PIPELINE_STAGES } from './pipeline-snapshot-store';
+import { PreviewWriter, PreviewReport } from './preview-writer';
+import { LeagueService } from './league-service';
+import { BacktestService } from './backtest-service';
+import { AdditionHistoryService } from './addition-history-service';
+import { StreamingService } from './streaming-service';
+import { DynastyProfileService } from './dynasty-profile-service';
 
 export interface IOrchestratorService {
   executeWeeklyProcess(): Promise<ExecutionResult>;
+  resumeExecution(executionId: string, fromStage?: PipelineStage): Promise<ExecutionResult>;
+  executeDryRun(outputDirectory: string): Promise<DryRunResult>;
   handleAgentFailure(agent: string, error: Error): Promise<void>;
   getExecutionStatus(): ExecutionStatus;
   startManualExecution(): Promise<ExecutionResult>;
@@ -33,6 +64,58 @@ export interface IOrchestratorService {
   getNextScheduledExecution(): Date | null;
 }
 
+export interface OrchestratorOptions {
+  seasonCalendar?: SeasonCalendar;
+  snapshotStore?: PipelineSnapshotStore;
+  previewWriter?: PreviewWriter;
+  leagueService?: LeagueService;
+  backtestService?: BacktestService;
+  additionHistoryService?: AdditionHistoryService;
+  streamingService?: StreamingService;
+  dynastyProfileService?: DynastyProfileService;
+}
+
+// Stage outputs carried between agents, rebuilt from snapshots when resuming
+interface PipelineState {
+  playerData?: PlayerSummary[];
+  selection?: PlayerSelectionDecision[];
+  droppedPlayers?: PlayerSummary[];
+  researchData?: PlayerResearch[];
+  dropResearch?: PlayerResearch[];
+  analyses?: PlayerAnalysis[];
+  dropAnalyses?: DropAnalysis[];
+  streamers?: StreamerRankings;
+  blogPost?: BlogPost;
+  season?: number; // Week the collection ran in; later stages stay on it when resumed
+  week?: number;
+}
+
+interface PipelineRunOptions {
+  startStage: PipelineStage;
+  endStage?: PipelineStage;
+  executionType: 'scheduled' | 'manual';
+  logMetadata?: Record<string, any>;
+  dryRun?: boolean; // Leaves addition history and backtest records untouched
+}
+
+export interface DryRunResult {
+  result: ExecutionResult;
+  report?: PreviewReport;
+}
+
+// The most-dropped track and the week are optional so snapshots from before they existed still resume
+interface CollectionSnapshot {
+  players: PlayerSummary[];
+  drops?: PlayerSummary[];
+  selection?: PlayerSelectionDecision[];
+  season?: number;
+  week?: number;
+}
+interface ResearchSnapshot { research: PlayerResearch[]; dropResearch?: PlayerResearch[] }
+interface AnalysisSnapshot { analyses: PlayerAnalysis[]; dropAnalyses?: DropAnalysis[]; streamers?: StreamerRankings }
+interface WriterSnapshot { blogPost: BlogPost }
+interface PublisherSnapshot { publicationResult: PublicationResult }
+
 export interface AgentExecutionContext {
   agentName: string;
   input: unknown;
@@ -55,9 +138,18 @@ export class OrchestratorService implements IOrchestratorService {
   private scheduledTask: cron.ScheduledTask | null = null;
   private isExecuting: boolean = false;
   private shouldStop: boolean = false;
+  private abortController: AbortController | null = null;
   private logger: Logger;
   private errorHandler: ErrorHandler;
   private executionTracker: ExecutionTracker;
+  private seasonCalendar: SeasonCalendar;
+  private snapshotStore: PipelineSnapshotStore;
+  private previewWriter: PreviewWriter;
+  private leagueService: LeagueService | undefined;
+  private backtestService: BacktestService | undefined;
+  private additionHistoryService: AdditionHistoryService | undefined;
+  private streamingService: StreamingService | undefined;
+  private dynastyProfileService: DynastyProfileService | undefined;
   private circuitBreaker: Map<string, { failures: number; lastFailure: Date; isOpen: boolean }> = new Map();
 
   constructor(
@@ -66,15 +158,82 @@ export class OrchestratorService implements IOrchestratorService {
     private researchAgent: ResearchAgent,
     private analysisAgent: AnalysisAgent,
     private writerAgent: WriterAgent,
-    private publisherAgent: PublisherAgent
+    private publisherAgent: PublisherAgent,
+    options: OrchestratorOptions = {}
   ) {
     this.logger = new Logger('OrchestratorService');
     this.errorHandler = new ErrorHandler();
     this.executionTracker = new ExecutionTracker();
+    this.seasonCalendar = options.seasonCalendar || getSeasonCalendar();
+    this.snapshotStore = options.snapshotStore || new PipelineSnapshotStore();
+    this.leagueService = options.leagueService;
+    this.backtestService = options.backtestService;
+    this.additionHistoryService = options.additionHistoryService;
+    this.streamingService = options.streamingService;
+    this.dynastyProfileService = options.dynastyProfileService;
+    this.previewWriter = options.previewWriter ||
+      new PreviewWriter(new WriterAgentImpl(this.seasonCalendar), new AnalysisAgentImpl());
     this.currentStatus = ConfigUtils.createExecutionStatus(false);
   }
 
   async executeWeeklyProcess(): Promise<ExecutionResult> {
+    const executionId = this.executionTracker.generateExecutionId();
+    return this.runPipeline(executionId, {}, { startStage: 'collection', executionType: 'scheduled' });
+  }
+
+  /**
+   * Run the pipeline through the writer and render the post to disk instead of publishing it.
+   * The snapshots are kept, so a good preview can be published with resumeExecution.
+   */
+  async executeDryRun(outputDirectory: string): Promise<DryRunResult> {
+    const executionId = this.executionTracker.generateExecutionId();
+    const state: PipelineState = {};
+    const result = await this.runPipeline(executionId, state, {
+      startStage: 'collection',
+      endStage: 'writer',
+      executionType: 'manual',
+      logMetadata: { dryRun: true, outputDirectory },
+      dryRun: true
+    });
+
+    if (!result.success || !state.blogPost || !state.analyses) {
+      return { result };
+    }
+
+    const report = await this.previewWriter.write(state.blogPost, state.analyses, outputDirectory);
+    return { result, report };
+  }
+
+  /**
+   * Re-run an earlier execution from its stage snapshots. Without a stage, resumes at the
+   * first stage that has no snapshot (or whose publication failed).
+   */
+  async resumeExecution(executionId: string, fromStage?: PipelineStage): Promise<ExecutionResult> {
+    const completedStages = await this.snapshotStore.listStages(executionId);
+    if (completedStages.length === 0) {
+      throw new Error(`No snapshots found for execution ${executionId}`);
+    }
+
+    const startStage = fromStage || await this.findResumeStage(executionId, completedStages);
+    if (!startStage) {
+      throw new Error(`Execution ${executionId} has already completed every stage`);
+    }
+
+    const state = await this.loadPipelineState(executionId, startStage);
+    this.logger.info(`Resuming execution ${executionId} from the ${startStage} stage`);
+
+    return this.runPipeline(executionId, state, {
+      startStage,
+      executionType: 'manual',
+      logMetadata: { resumedFrom: startStage }
+    });
+  }
+
+  private async runPipeline(
+    executionId: string,
+    state: PipelineState,
+    options: PipelineRunOptions
+  ): Promise<ExecutionResult> {
     if (this.isExecuting) {
       throw new Error('Execution already in progress');
     }
@@ -83,10 +242,23 @@ export class OrchestratorService implements IOrchestratorService {
     const agentsExecuted: string[] = [];
     const errors: Error[] = [];
     const warnings: string[] = [];
+    const playerTimings: PlayerTiming[] = [];
     let publishedPostId: string | undefined;
+    const { startStage, endStage = 'publisher', executionType, logMetadata, dryRun = false } = options;
+    const runsStage = (stage: PipelineStage) =>
+      PIPELINE_STAGES.indexOf(stage) >= PIPELINE_STAGES.indexOf(startStage) &&
+      PIPELINE_STAGES.indexOf(stage) <= PIPELINE_STAGES.indexOf(endStage);
 
     this.isExecuting = true;
     this.shouldStop = false;
+    this.abortController = new AbortController();
+
+    // A resumed run stays on the collection's week even after the Tuesday rollover, so the
+    // backtest records, the post title and the publish check all match the collected data
+    const previousReferenceDate = this.seasonCalendar.getReferenceDate();
+    if (state.season !== undefined && state.week !== undefined) {
+      this.seasonCalendar.setReferenceDate(this.seasonCalendar.getWeekWindow(state.season, state.week).start);
+    }
     this.currentStatus = ConfigUtils.createExecutionStatus(
       true,
       'Starting',
@@ -96,84 +268,146 @@ export class OrchestratorService implements IOrchestratorService {
     );
 
     try {
-      this.logger.info('Starting weekly FAAB blog generation process');
+      this.logger.info(`Starting weekly FAAB blog generation process (execution ${executionId})`);
 
       // Step 1: Data Collection Agent
-      if (this.shouldStop) throw new Error('Execution stopped by user');
-      
-      this.updateStatus('DataCollectionAgent', 10);
-      const playerData = await this.executeWithCircuitBreaker(
-        'DataCollectionAgent',
-        async () => {
-          const mostAdded = await this.dataCollectionAgent.getMostAddedPlayers();
-          return this.dataCollectionAgent.filterToTopTen(mostAdded);
-        }
-      );
-      agentsExecuted.push('DataCollectionAgent');
+      if (runsStage('collection')) {
+        if (this.shouldStop) throw new Error('Execution stopped by user');
+        
+        this.updateStatus('DataCollectionAgent', 10);
+        state.season = this.seasonCalendar.getCurrentSeason();
+        state.week = this.seasonCalendar.getCurrentWeek();
+        const selectionPolicy = this.getSelectionPolicy();
+        const recentlyFeatured = await this.getRecentlyFeatured(selectionPolicy, warnings);
+        const selection = await this.executeWithCircuitBreaker(
+          'DataCollectionAgent',
+          async () => {
+            const mostAdded = await this.dataCollectionAgent.getMostAddedPlayers();
+            return this.dataCollectionAgent.selectPlayers(mostAdded, selectionPolicy, recentlyFeatured);
+          }
+        );
+        state.selection = selection.decisions;
+        state.playerData = await this.addDynastyProfiles(
+          await this.applyAdditionTrends(selection.players, selection.ranked, dryRun, warnings),
+          warnings
+        );
+        state.droppedPlayers = await this.collectDroppedPlayers(warnings);
+        agentsExecuted.push('DataCollectionAgent');
+        await this.saveSnapshot(
+          executionId,
+          'collection',
+          {
+            players: state.playerData,
+            drops: state.droppedPlayers,
+            selection: state.selection,
+            season: state.season,
+            week: state.week
+          },
+          warnings
+        );
+      }
 
       // Step 2: Research Agent
-      if (this.shouldStop) throw new Error('Execution stopped by user');
-      
-      this.updateStatus('ResearchAgent', 30);
-      const researchData = await this.executeWithCircuitBreaker(
-        'ResearchAgent',
-        async () => await this.researchAgent.gatherPlayerResearch(playerData)
-      );
-      agentsExecuted.push('ResearchAgent');
+      if (runsStage('research')) {
+        if (this.shouldStop) throw new Error('Execution stopped by user');
+        
+        const playerData = state.playerData!;
+        const researchOptions = this.getResearchOptions(playerTimings);
+        this.updateStatus('ResearchAgent', 30);
+        state.researchData = await this.executeWithCircuitBreaker(
+          'ResearchAgent',
+          async () => await this.researchAgent.gatherPlayerResearch(playerData, researchOptions)
+        );
+        state.dropResearch = await this.researchDroppedPlayers(state.droppedPlayers || [], researchOptions, warnings);
+        agentsExecuted.push('ResearchAgent');
+        await this.saveSnapshot(
+          executionId,
+          'research',
+          { research: state.researchData, dropResearch: state.dropResearch },
+          warnings
+        );
+      }
 
       // Step 3: Analysis Agent
-      if (this.shouldStop) throw new Error('Execution stopped by user');
-      
-      this.updateStatus('AnalysisAgent', 50);
-      const analyses: PlayerAnalysis[] = [];
-      for (const research of researchData) {
-        const analysis = await this.executeWithCircuitBreaker(
-          'AnalysisAgent',
-          async () => await this.analysisAgent.analyzePlayer(research)
-        );
-        analyses.push(analysis);
+      if (runsStage('analysis')) {
+        if (this.shouldStop) throw new Error('Execution stopped by user');
+        
+        this.updateStatus('AnalysisAgent', 50);
+        const analysisContext = await this.buildAnalysisContext(warnings);
+        const analyses = await this.analyzePlayers(state.researchData!, analysisContext, playerTimings);
+        state.analyses = analyses;
+        state.dropAnalyses = await this.analyzeDroppedPlayers(state.dropResearch || [], analysisContext, warnings);
+        const streamers = await this.rankStreamers(warnings);
+        if (streamers) {
+          state.streamers = streamers;
+        }
+        agentsExecuted.push('AnalysisAgent');
+        await this.saveSnapshot(executionId, 'analysis', {
+          analyses,
+          dropAnalyses: state.dropAnalyses,
+          ...(streamers && { streamers })
+        }, warnings);
+        if (!dryRun) {
+          await this.recordForBacktest(analyses, warnings);
+        }
       }
-      agentsExecuted.push('AnalysisAgent');
 
       // Step 4: Writer Agent
-      if (this.shouldStop) throw new Error('Execution stopped by user');
-      
-      this.updateStatus('WriterAgent', 70);
-      const blogPost = await this.executeWithCircuitBreaker(
-        'WriterAgent',
-        async () => await this.writerAgent.createBlogPost(analyses)
-      );
-      agentsExecuted.push('WriterAgent');
+      if (runsStage('writer')) {
+        if (this.shouldStop) throw new Error('Execution stopped by user');
+        
+        const analyses = state.analyses!;
+        const dropAnalyses = state.dropAnalyses || [];
+        const streamers = state.streamers;
+        this.updateStatus('WriterAgent', 70);
+        state.blogPost = await this.executeWithCircuitBreaker(
+          'WriterAgent',
+          async () => await this.writerAgent.createBlogPost(analyses, dropAnalyses, streamers)
+        );
+        agentsExecuted.push('WriterAgent');
+        await this.saveSnapshot(executionId, 'writer', { blogPost: state.blogPost }, warnings);
+      }
 
       // Step 5: Publisher Agent
-      if (this.shouldStop) throw new Error('Execution stopped by user');
-      
-      this.updateStatus('PublisherAgent', 90);
-      const publicationResult = await this.executeWithCircuitBreaker(
-        'PublisherAgent',
-        async () => await this.publisherAgent.publishPost(blogPost)
-      );
-      agentsExecuted.push('PublisherAgent');
-      
-      if (publicationResult.success && publicationResult.postId) {
-        publishedPostId = publicationResult.postId;
+      if (runsStage('publisher')) {
+        if (this.shouldStop) throw new Error('Execution stopped by user');
+        
+        const blogPost = state.blogPost!;
+        this.assertPublishableWeek(blogPost.metadata.customFields?.week, blogPost.metadata.customFields?.season);
+        
+        this.updateStatus('PublisherAgent', 90);
+        const publicationResult = await this.executeWithCircuitBreaker(
+          'PublisherAgent',
+          async () => await this.publisherAgent.publishPost(blogPost)
+        );
+        agentsExecuted.push('PublisherAgent');
+        await this.saveSnapshot(executionId, 'publisher', { publicationResult }, warnings);
+        
+        if (publicationResult.success && publicationResult.postId) {
+          publishedPostId = publicationResult.postId;
+        }
       }
 
       this.updateStatus('Completed', 100);
       this.logger.info('Weekly process completed successfully');
 
-      const result = ConfigUtils.createExecutionResult(
-        true,
-        startTime,
-        new Date(),
-        agentsExecuted,
-        errors,
-        warnings,
-        publishedPostId
-      );
+      const result = {
+        ...ConfigUtils.createExecutionResult(
+          true,
+          startTime,
+          new Date(),
+          agentsExecuted,
+          errors,
+          warnings,
+          publishedPostId,
+          executionId
+        ),
+        ...(state.selection && { selection: state.selection }),
+        ...(playerTimings.length > 0 && { playerTimings })
+      };
 
       // Log successful execution
-      await this.executionTracker.logExecution('scheduled', result);
+      await this.executionTracker.logExecution(executionType, result, logMetadata);
       
       return result;
 
@@ -181,22 +415,29 @@ export class OrchestratorService implements IOrchestratorService {
       this.logger.error('Weekly process failed', error);
       errors.push(error as Error);
       
-      const result = ConfigUtils.createExecutionResult(
-        false,
-        startTime,
-        new Date(),
-        agentsExecuted,
-        errors,
-        warnings,
-        publishedPostId
-      );
+      const result = {
+        ...ConfigUtils.createExecutionResult(
+          false,
+          startTime,
+          new Date(),
+          agentsExecuted,
+          errors,
+          warnings,
+          publishedPostId,
+          executionId
+        ),
+        ...(state.selection && { selection: state.selection }),
+        ...(playerTimings.length > 0 && { playerTimings })
+      };
 
       // Log failed execution
-      await this.executionTracker.logExecution('scheduled', result);
+      await this.executionTracker.logExecution(executionType, result, logMetadata);
       
       return result;
     } finally {
+      this.seasonCalendar.setReferenceDate(previousReferenceDate);
       this.isExecuting = false;
+      this.abortController = null;
       this.currentStatus = ConfigUtils.createExecutionStatus(false);
     }
   }
@@ -221,6 +462,7 @@ export class OrchestratorService implements IOrchestratorService {
 
     this.logger.info('Stopping execution');
     this.shouldStop = true;
+    this.abortController?.abort();
     
     // Wait for current agent to complete
     let attempts = 0;
@@ -266,6 +508,12 @@ export class OrchestratorService implements IOrchestratorService {
           return;
         }
         
+        // Only publish during the regular season
+        if (!this.seasonCalendar.isInSeason()) {
+          this.logger.info(`Skipping scheduled execution - NFL ${this.seasonCalendar.getPhase()}`);
+          return;
+        }
+        
         await this.executeWeeklyProcess();
         
         // Cleanup old logs after successful execution
@@ -324,6 +572,11 @@ export class OrchestratorService implements IOrchestratorService {
       nextExecution.setDate(nextExecution.getDate() + daysUntilNext);
     }
     
+    // Scheduled runs skip the offseason, so move forward to the first in-season slot
+    for (let weeks = 0; weeks < 53 && !this.seasonCalendar.isInSeason(nextExecution); weeks++) {
+      nextExecution.setDate(nextExecution.getDate() + 7);
+    }
+    
     return nextExecution;
   }
 
@@ -369,6 +622,331 @@ export class OrchestratorService implements IOrchestratorService {
     throw lastError!;
   }
 
+  private async findResumeStage(
+    executionId: string,
+    completedStages: PipelineStage[]
+  ): Promise<PipelineStage | undefined> {
+    const missingStage = PIPELINE_STAGES.find(stage => !completedStages.includes(stage));
+    if (missingStage) {
+      return missingStage;
+    }
+
+    // Every stage ran, but a failed publication is still worth retrying
+    const publication = await this.snapshotStore.loadLatest<PublisherSnapshot>(executionId, 'publisher');
+    return publication?.data.publicationResult.success ? undefined : 'publisher';
+  }
+
+  private async loadPipelineState(executionId: string, startStage: PipelineStage): Promise<PipelineState> {
+    const state: PipelineState = {};
+    const requiredStages = PIPELINE_STAGES.slice(0, PIPELINE_STAGES.indexOf(startStage));
+
+    for (const stage of requiredStages) {
+      const snapshot = await this.snapshotStore.loadLatest<Record<string, any>>(executionId, stage);
+      if (!snapshot) {
+        throw new Error(
+          `Cannot resume execution ${executionId} from ${startStage}: no ${stage} snapshot`
+        );
+      }
+
+      switch (stage) {
+        case 'collection':
+          state.playerData = (snapshot.data as CollectionSnapshot).players;
+          state.droppedPlayers = (snapshot.data as CollectionSnapshot).drops || [];
+          state.selection = (snapshot.data as CollectionSnapshot).selection || [];
+          if ((snapshot.data as CollectionSnapshot).season !== undefined &&
+              (snapshot.data as CollectionSnapshot).week !== undefined) {
+            state.season = (snapshot.data as CollectionSnapshot).season!;
+            state.week = (snapshot.data as CollectionSnapshot).week!;
+          }
+          break;
+        case 'research':
+          state.researchData = (snapshot.data as ResearchSnapshot).research;
+          state.dropResearch = (snapshot.data as ResearchSnapshot).dropResearch || [];
+          break;
+        case 'analysis':
+          state.analyses = (snapshot.data as AnalysisSnapshot).analyses;
+          state.dropAnalyses = (snapshot.data as AnalysisSnapshot).dropAnalyses || [];
+          if ((snapshot.data as AnalysisSnapshot).streamers) {
+            state.streamers = (snapshot.data as AnalysisSnapshot).streamers!;
+          }
+          break;
+        case 'writer':
+          state.blogPost = (snapshot.data as WriterSnapshot).blogPost;
+          break;
+      }
+    }
+
+    return state;
+  }
+
+  /**
+   * Scoring model and league settings for this run; a league that can't be loaded is skipped with a warning.
+   * FAAB_SCORING_MODEL (set by the CLI --scoring-model flag) overrides the configured active model.
+   */
+  private async buildAnalysisContext(warnings: string[]): Promise<AnalysisContext> {
+    const scoringModel = ScoringModelUtils.resolveScoringModel(this.config.scoring, process.env.FAAB_SCORING_MODEL);
+    this.logger.info(`Using scoring model ${scoringModel.name}@${scoringModel.version} (${scoringModel.scoringType})`);
+    const dynasty = this.config.dynasty?.enabled ? this.config.dynasty : undefined;
+
+    if (!this.leagueService) {
+      return { scoringModel, ...(dynasty && { dynasty }) };
+    }
+
+    const { leagues, failures } = await this.leagueService.loadLeagues();
+    warnings.push(...failures);
+    return {
+      scoringModel,
+      ...(leagues.length > 0 && { leagues }),
+      ...(dynasty && { dynasty })
+    };
+  }
+
+  /**
+   * The configured policy, with defender slots added when the IDP edition is on
+   */
+  private getSelectionPolicy(): PlayerSelectionPolicy {
+    const policy = this.config.selection || DEFAULT_SELECTION_POLICY;
+    return this.config.idp?.enabled ? { ...policy, idpCount: this.config.idp.count } : policy;
+  }
+
+  /**
+   * Players still in their cooldown from being featured in recent weeks
+   */
+  private async getRecentlyFeatured(policy: PlayerSelectionPolicy, warnings: string[]): Promise<string[]> {
+    const season = this.seasonCalendar.getCurrentSeason();
+    const week = this.seasonCalendar.getCurrentWeek();
+    if (!policy.cooldownWeeks || !this.additionHistoryService) {
+      return [];
+    }
+
+    try {
+      return await this.additionHistoryService.getFeaturedPlayerIds(season, week, policy.cooldownWeeks);
+    } catch (error) {
+      this.logger.warn('Failed to load recently featured players', error);
+      warnings.push(`Could not apply the selection cooldown: ${(error as Error).message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Compare this week's top 10 and full ranking with earlier weeks; without history the players
+   * go out as collected. A dry run computes the trends without saving the week, so a preview
+   * doesn't count as featuring anyone.
+   */
+  private async applyAdditionTrends(
+    players: PlayerSummary[],
+    ranked: PlayerSummary[],
+    dryRun: boolean,
+    warnings: string[]
+  ): Promise<PlayerSummary[]> {
+    const season = this.seasonCalendar.getCurrentSeason();
+    const week = this.seasonCalendar.getCurrentWeek();
+    if (!this.additionHistoryService || !this.seasonCalendar.isRegularSeasonWeek(week, season)) {
+      return players;
+    }
+
+    try {
+      return dryRun
+        ? await this.additionHistoryService.computeTrends(season, week, players, ranked)
+        : await this.additionHistoryService.applyTrends(season, week, players, ranked);
+    } catch (error) {
+      this.logger.warn(`Failed to compute addition trends (${season} week ${week})`, error);
+      warnings.push(`Could not compute week-over-week trends: ${(error as Error).message}`);
+      return players;
+    }
+  }
+
+  /**
+   * Age, experience and draft capital for the dynasty edition; without them the dynasty
+   * calls lean on current production, so a failure only warns
+   */
+  private async addDynastyProfiles(players: PlayerSummary[], warnings: string[]): Promise<PlayerSummary[]> {
+    if (!this.dynastyProfileService || !this.config.dynasty?.enabled) {
+      return players;
+    }
+
+    try {
+      return await this.dynastyProfileService.addProfiles(players);
+    } catch (error) {
+      this.logger.warn('Failed to load dynasty profiles', error);
+      warnings.push(`Could not load dynasty profiles: ${(error as Error).message}`);
+      return players;
+    }
+  }
+
+  /**
+   * Most-dropped players for the cutting section. The track is secondary to the most-added
+   * players, so a failure here becomes a warning instead of failing the run.
+   */
+  private async collectDroppedPlayers(warnings: string[]): Promise<PlayerSummary[]> {
+    try {
+      const mostDropped = await this.dataCollectionAgent.getMostDroppedPlayers();
+      return this.dataCollectionAgent.filterTopDropped(mostDropped);
+    } catch (error) {
+      this.logger.warn('Failed to collect most-dropped players', error);
+      warnings.push(`Could not collect most-dropped players: ${(error as Error).message}`);
+      return [];
+    }
+  }
+
+  private async researchDroppedPlayers(
+    players: PlayerSummary[],
+    options: ResearchOptions,
+    warnings: string[]
+  ): Promise<PlayerResearch[]> {
+    if (players.length === 0) {
+      return [];
+    }
+
+    try {
+      return await this.researchAgent.gatherPlayerResearch(players, options);
+    } catch (error) {
+      this.logger.warn('Failed to research most-dropped players', error);
+      warnings.push(`Could not research most-dropped players: ${(error as Error).message}`);
+      return [];
+    }
+  }
+
+  private getConcurrencyConfig(): ConcurrencyConfig {
+    return this.config.concurrency || DEFAULT_CONCURRENCY_CONFIG;
+  }
+
+  private getResearchOptions(playerTimings: PlayerTiming[]): ResearchOptions {
+    return {
+      concurrency: this.getConcurrencyConfig(),
+      ...(this.abortController && { signal: this.abortController.signal }),
+      onPlayerTimed: timing => playerTimings.push(timing)
+    };
+  }
+
+  /**
+   * Analyze the researched players concurrently. As with the research stage's circuit breaker,
+   * a player that can't be analyzed fails the stage.
+   */
+  private async analyzePlayers(
+    research: PlayerResearch[],
+    context: AnalysisContext,
+    playerTimings: PlayerTiming[]
+  ): Promise<PlayerAnalysis[]> {
+    const { maxConcurrentPlayers, playerTimeoutMs } = this.getConcurrencyConfig();
+    const pool = new WorkerPool<PlayerResearch, PlayerAnalysis>({
+      concurrency: maxConcurrentPlayers,
+      taskTimeoutMs: playerTimeoutMs,
+      ...(this.abortController && { signal: this.abortController.signal })
+    });
+    const results = await pool.run(research, async playerResearch => await this.executeWithCircuitBreaker(
+      'AnalysisAgent',
+      async () => await this.analysisAgent.analyzePlayer(playerResearch, context)
+    ));
+
+    results.forEach((result, index) => {
+      const { player } = research[index]!;
+      playerTimings.push({
+        playerId: player.playerId,
+        name: player.name,
+        stage: 'analysis',
+        status: result.status,
+        durationMs: result.durationMs
+      });
+    });
+
+    const unfinished = results.find(result => result.status !== 'completed');
+    if (unfinished?.status === 'cancelled') {
+      throw new Error('Execution stopped by user');
+    }
+    if (unfinished) {
+      throw unfinished.error ||
+        new Error(`Analysis of ${research[unfinished.index]!.player.name} timed out after ${unfinished.durationMs}ms`);
+    }
+
+    return results.map(result => result.value!);
+  }
+
+  /**
+   * SELL/HOLD calls for dropped players; a player that can't be analyzed is left out of the post
+   */
+  private async analyzeDroppedPlayers(
+    research: PlayerResearch[],
+    context: AnalysisContext,
+    warnings: string[]
+  ): Promise<DropAnalysis[]> {
+    const dropAnalyses: DropAnalysis[] = [];
+
+    for (const playerResearch of research) {
+      try {
+        dropAnalyses.push(await this.analysisAgent.analyzeDropCandidate(playerResearch, context));
+      } catch (error) {
+        this.logger.warn(`Failed to analyze dropped player ${playerResearch.player.name}`, error);
+        warnings.push(`Skipped dropped player ${playerResearch.player.name}: ${(error as Error).message}`);
+      }
+    }
+
+    return dropAnalyses;
+  }
+
+  /**
+   * QB, K and DST streamers for the coming week. Like the cutting section this is secondary,
+   * so a failure becomes a warning and the post goes out without it.
+   */
+  private async rankStreamers(warnings: string[]): Promise<StreamerRankings | undefined> {
+    const season = this.seasonCalendar.getCurrentSeason();
+    const week = this.seasonCalendar.getCurrentWeek();
+    if (!this.streamingService || !this.seasonCalendar.isRegularSeasonWeek(week, season)) {
+      return undefined;
+    }
+
+    try {
+      return await this.streamingService.rankStreamers(week);
+    } catch (error) {
+      this.logger.warn(`Failed to rank streamers (${season} week ${week})`, error);
+      warnings.push(`Could not rank streamers: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Keep the week's analyses so they can be graded against actual points later
+   */
+  private async recordForBacktest(analyses: PlayerAnalysis[], warnings: string[]): Promise<void> {
+    const season = this.seasonCalendar.getCurrentSeason();
+    const week = this.seasonCalendar.getCurrentWeek();
+    if (!this.backtestService || !this.seasonCalendar.isRegularSeasonWeek(week, season)) {
+      return;
+    }
+
+    try {
+      await this.backtestService.recordAnalyses(season, week, analyses);
+    } catch (error) {
+      this.logger.warn(`Failed to record analyses for backtesting (${season} week ${week})`, error);
+      warnings.push(`Could not record analyses for backtesting: ${(error as Error).message}`);
+    }
+  }
+
+  private async saveSnapshot(
+    executionId: string,
+    stage: PipelineStage,
+    data: unknown,
+    warnings: string[]
+  ): Promise<void> {
+    try {
+      await this.snapshotStore.save(executionId, stage, data);
+    } catch (error) {
+      // A missing snapshot only limits resuming, so it shouldn't fail the run
+      this.logger.warn(`Failed to save ${stage} snapshot for execution ${executionId}`, error);
+      warnings.push(`Could not save ${stage} snapshot: ${(error as Error).message}`);
+    }
+  }
+
+  private assertPublishableWeek(week: unknown, season: unknown): void {
+    const postSeason = typeof season === 'number' ? season : this.seasonCalendar.getCurrentSeason();
+    
+    if (typeof week !== 'number' || !this.seasonCalendar.isRegularSeasonWeek(week, postSeason)) {
+      throw new Error(
+        `Refusing to publish a "Week ${week}" post: not a regular-season week of the ${postSeason} season`
+      );
+    }
+  }
+
   private updateStatus(currentAgent: string, progress: number): void {
     this.currentStatus = ConfigUtils.createExecutionStatus(
       true,
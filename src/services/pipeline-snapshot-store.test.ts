@@ -0,0 +1,74 @@
+// Tests for the pipeline stage snapshot store
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PipelineSnapshotStore } from './pipeline-snapshot-store';
+
+// Mock Logger
+vi.mock('../utils/logger', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+describe('PipelineSnapshotStore', () => {
+  let directory: string;
+  let store: PipelineSnapshotStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'pipeline-snapshots-'));
+    store = new PipelineSnapshotStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should bump the version each time a stage is saved', async () => {
+    await store.save('run-1', 'writer', { blogPost: { title: 'Draft' } });
+    const second = await store.save('run-1', 'writer', { blogPost: { title: 'Rewrite' } });
+
+    expect(second.version).toBe(2);
+    expect(await store.listVersions('run-1', 'writer')).toEqual([1, 2]);
+
+    const latest = await store.loadLatest<{ blogPost: { title: string } }>('run-1', 'writer');
+    expect(latest?.data.blogPost.title).toBe('Rewrite');
+
+    const original = await store.load<{ blogPost: { title: string } }>('run-1', 'writer', 1);
+    expect(original?.data.blogPost.title).toBe('Draft');
+  });
+
+  it('should revive dates when loading a snapshot', async () => {
+    const timestamp = new Date('2025-10-14T09:30:00.000Z');
+    await store.save('run-1', 'collection', { players: [{ name: 'Rico Dowdle', lastUpdated: timestamp }] });
+
+    const snapshot = await store.loadLatest<{ players: Array<{ lastUpdated: Date }> }>('run-1', 'collection');
+
+    expect(snapshot?.createdAt).toBeInstanceOf(Date);
+    expect(snapshot?.data.players[0]?.lastUpdated).toEqual(timestamp);
+  });
+
+  it('should list completed stages in pipeline order', async () => {
+    await store.save('run-1', 'research', { research: [] });
+    await store.save('run-1', 'collection', { players: [] });
+
+    expect(await store.listStages('run-1')).toEqual(['collection', 'research']);
+    expect(await store.hasExecution('run-1')).toBe(true);
+    expect(await store.hasExecution('run-2')).toBe(false);
+    expect(await store.loadLatest('run-2', 'collection')).toBeNull();
+  });
+
+  it('should reject execution IDs that are not safe directory names', async () => {
+    await expect(store.save('../escape', 'collection', {})).rejects.toThrow('Invalid execution ID');
+  });
+
+  it('should recognise pipeline stage names', () => {
+    expect(PipelineSnapshotStore.isPipelineStage('writer')).toBe(true);
+    expect(PipelineSnapshotStore.isPipelineStage('editor')).toBe(false);
+  });
+});
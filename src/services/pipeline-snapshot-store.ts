@@ -0,0 +1,134 @@
+// Versioned snapshots of pipeline stage outputs, keyed by execution ID
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from '../utils/logger';
+
+export type PipelineStage = 'collection' | 'research' | 'analysis' | 'writer' | 'publisher';
+
+export const PIPELINE_STAGES: PipelineStage[] = ['collection', 'research', 'analysis', 'writer', 'publisher'];
+
+export interface PipelineSnapshot<T = unknown> {
+  executionId: string;
+  stage: PipelineStage;
+  version: number;
+  createdAt: Date;
+  data: T;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Stores each stage's output under <directory>/<executionId>/<stage>.v<version>.json.
+ * Saving the same stage again (e.g. on resume) writes a new version instead of overwriting.
+ */
+export class PipelineSnapshotStore {
+  private logger: Logger;
+
+  constructor(private snapshotDirectory: string = './data/snapshots') {
+    this.logger = new Logger('PipelineSnapshotStore');
+  }
+
+  static isPipelineStage(value: string): value is PipelineStage {
+    return (PIPELINE_STAGES as string[]).includes(value);
+  }
+
+  async save<T>(executionId: string, stage: PipelineStage, data: T): Promise<PipelineSnapshot<T>> {
+    this.assertValidExecutionId(executionId);
+
+    const versions = await this.listVersions(executionId, stage);
+    const snapshot: PipelineSnapshot<T> = {
+      executionId,
+      stage,
+      version: (versions[versions.length - 1] || 0) + 1,
+      createdAt: new Date(),
+      data
+    };
+
+    const executionDirectory = path.join(this.snapshotDirectory, executionId);
+    await fs.mkdir(executionDirectory, { recursive: true });
+    await fs.writeFile(
+      path.join(executionDirectory, `${stage}.v${snapshot.version}.json`),
+      JSON.stringify(snapshot, null, 2)
+    );
+
+    this.logger.debug(`Saved ${stage} snapshot v${snapshot.version} for execution ${executionId}`);
+    return snapshot;
+  }
+
+  async load<T>(executionId: string, stage: PipelineStage, version: number): Promise<PipelineSnapshot<T> | null> {
+    this.assertValidExecutionId(executionId);
+
+    try {
+      const content = await fs.readFile(
+        path.join(this.snapshotDirectory, executionId, `${stage}.v${version}.json`),
+        'utf-8'
+      );
+      return JSON.parse(content, PipelineSnapshotStore.reviveDates) as PipelineSnapshot<T>;
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async loadLatest<T>(executionId: string, stage: PipelineStage): Promise<PipelineSnapshot<T> | null> {
+    const versions = await this.listVersions(executionId, stage);
+    const latest = versions[versions.length - 1];
+    return latest ? this.load<T>(executionId, stage, latest) : null;
+  }
+
+  /**
+   * Versions saved for a stage, oldest first
+   */
+  async listVersions(executionId: string, stage: PipelineStage): Promise<number[]> {
+    const files = await this.readExecutionDirectory(executionId);
+    const pattern = new RegExp(`^${stage}\\.v(\\d+)\\.json$`);
+
+    return files
+      .map(file => pattern.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => parseInt(match[1]!, 10))
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Stages that have at least one snapshot, in pipeline order
+   */
+  async listStages(executionId: string): Promise<PipelineStage[]> {
+    const files = await this.readExecutionDirectory(executionId);
+    return PIPELINE_STAGES.filter(stage => files.some(file => file.startsWith(`${stage}.v`)));
+  }
+
+  async hasExecution(executionId: string): Promise<boolean> {
+    return (await this.listStages(executionId)).length > 0;
+  }
+
+  private async readExecutionDirectory(executionId: string): Promise<string[]> {
+    this.assertValidExecutionId(executionId);
+
+    try {
+      return await fs.readdir(path.join(this.snapshotDirectory, executionId));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private assertValidExecutionId(executionId: string): void {
+    // Execution IDs become directory names, so keep them to a safe character set
+    if (!/^[A-Za-z0-9_-]+$/.test(executionId)) {
+      throw new Error(`Invalid execution ID: ${executionId}`);
+    }
+  }
+
+  private static reviveDates(_key: string, value: unknown): unknown {
+    if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+      return new Date(value);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,135 @@
+// Tests for the cross-platform player identity registry
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PlayerIdentityRegistry } from './player-identity-registry';
+
+// Mock Logger
+vi.mock('../utils/logger', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+describe('PlayerIdentityRegistry', () => {
+  let registry: PlayerIdentityRegistry;
+
+  beforeEach(() => {
+    registry = new PlayerIdentityRegistry(null);
+  });
+
+  describe('resolve', () => {
+    it('should give the same canonical ID to one player across platforms', () => {
+      const espnId = registry.resolve({ platform: 'ESPN', platformId: '4362628', name: 'D.J. Moore', team: 'CHI', position: 'WR' });
+      const sleeperId = registry.resolve({ platform: 'Sleeper', platformId: '4983', name: 'DJ Moore', team: 'CHI', position: 'WR' });
+      const yahooId = registry.resolve({ platform: 'Yahoo', platformId: '31856', name: 'DJ Moore', team: 'Chicago Bears', position: 'WR' });
+
+      expect(espnId).toBe('dj-moore-wr');
+      expect(sleeperId).toBe(espnId);
+      expect(yahooId).toBe(espnId);
+      expect(registry.getPlatformId(espnId, 'Sleeper')).toBe('4983');
+      expect(registry.size()).toBe(1);
+    });
+
+    it('should ignore name suffixes and team aliases', () => {
+      const first = registry.resolve({ platform: 'ESPN', platformId: '1', name: 'Travis Etienne Jr.', team: 'JAC', position: 'RB' });
+      const second = registry.resolve({ platform: 'Sleeper', platformId: '2', name: 'Travis Etienne', team: 'JAX', position: 'RB' });
+
+      expect(second).toBe(first);
+    });
+
+    it('should keep same-named players at different positions apart', () => {
+      const receiver = registry.resolve({ platform: 'ESPN', platformId: '10', name: 'Mike Williams', team: 'NYJ', position: 'WR' });
+      const tightEnd = registry.resolve({ platform: 'ESPN', platformId: '11', name: 'Mike Williams', team: 'NYJ', position: 'TE' });
+
+      expect(receiver).not.toBe(tightEnd);
+    });
+
+    it('should match defenses by team regardless of naming', () => {
+      const espn = registry.resolve({ platform: 'ESPN', platformId: '-16002', name: 'Bills D/ST', team: 'BUF', position: 'D/ST' });
+      const sleeper = registry.resolve({ platform: 'Sleeper', platformId: 'BUF', name: 'Buffalo Bills', team: 'BUF', position: 'DEF' });
+
+      expect(sleeper).toBe(espn);
+    });
+
+    it('should follow a player to a new team when the match is unambiguous', () => {
+      const before = registry.resolve({ platform: 'ESPN', platformId: '20', name: 'Amari Cooper', team: 'CLE', position: 'WR' });
+      const after = registry.resolve({ platform: 'Sleeper', platformId: '21', name: 'Amari Cooper', team: 'BUF', position: 'WR' });
+
+      expect(after).toBe(before);
+      expect(registry.getIdentity(before)?.team).toBe('BUF');
+    });
+  });
+
+  describe('overrides', () => {
+    it('should let a manual override win over automatic matching', () => {
+      const automatic = registry.resolve({ platform: 'ESPN', platformId: '30', name: 'Josh Allen', team: 'BUF', position: 'QB' });
+      registry.setOverride({ platform: 'Yahoo', platformId: '99', canonicalId: 'josh-allen-qb-custom' });
+
+      const overridden = registry.resolve({ platform: 'Yahoo', platformId: '99', name: 'Josh Allen', team: 'BUF', position: 'QB' });
+
+      expect(overridden).toBe('josh-allen-qb-custom');
+      expect(overridden).not.toBe(automatic);
+    });
+
+    it('should move an already matched platform ID to the override target', () => {
+      const right = registry.resolve({ platform: 'ESPN', platformId: '40', name: 'Kenneth Walker III', team: 'SEA', position: 'RB' });
+      const wrong = registry.resolve({ platform: 'Sleeper', platformId: '41', name: 'Ken Walker', team: 'SEA', position: 'RB' });
+      expect(wrong).not.toBe(right);
+
+      registry.setOverride({ platform: 'Sleeper', platformId: '41', canonicalId: right });
+
+      expect(registry.getPlatformId(wrong, 'Sleeper')).toBeUndefined();
+      expect(registry.getPlatformId(right, 'Sleeper')).toBe('41');
+      expect(registry.resolve({ platform: 'Sleeper', platformId: '41', name: 'Ken Walker', team: 'SEA', position: 'RB' })).toBe(right);
+    });
+  });
+
+  describe('linkPlatformPlayers', () => {
+    it('should attach lookup IDs to known players without creating new identities', () => {
+      const canonicalId = registry.resolve({ platform: 'Sleeper', platformId: '6794', name: 'Justin Jefferson', team: 'MIN', position: 'WR' });
+
+      const linked = registry.linkPlatformPlayers([
+        { platform: 'SportsData', platformId: '21685', name: 'Justin Jefferson', team: 'MIN', position: 'WR' },
+        { platform: 'SportsData', platformId: '99999', name: 'Unknown Player', team: 'MIN', position: 'WR' }
+      ]);
+
+      expect(linked).toBe(1);
+      expect(registry.getPlatformId(canonicalId, 'SportsData')).toBe('21685');
+      expect(registry.size()).toBe(1);
+    });
+  });
+
+  describe('persistence', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'identity-registry-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should reload identities and overrides from disk', async () => {
+      const filePath = path.join(directory, 'identities.json');
+      const writer = new PlayerIdentityRegistry(filePath);
+      await writer.load();
+      const canonicalId = writer.resolve({ platform: 'ESPN', platformId: '50', name: 'Puka Nacua', team: 'LAR', position: 'WR' });
+      writer.setOverride({ platform: 'Yahoo', platformId: '51', canonicalId, note: 'Yahoo lists him under LA' });
+      await writer.save();
+
+      const reader = new PlayerIdentityRegistry(filePath);
+      await reader.load();
+
+      expect(reader.getIdentity(canonicalId)?.platformIds.ESPN).toBe('50');
+      expect(reader.getIdentity(canonicalId)?.updatedAt).toBeInstanceOf(Date);
+      expect(reader.resolve({ platform: 'Yahoo', platformId: '51', name: 'P. Nacua', team: 'LA', position: 'WR' })).toBe(canonicalId);
+    });
+  });
+});
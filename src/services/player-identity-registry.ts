@@ -0,0 +1,325 @@
+// Cross-platform player identity registry
+
+import { Logger } from '../utils/logger';
+import { PlayerIdentity, PlayerIdentityOverride, PlayerDataTransformer, IDP_POSITION_ALIASES } from '../models';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export interface PlatformPlayerReference {
+  platform: string;
+  platformId: string;
+  name: string;
+  team: string;
+  position: string;
+}
+
+interface RegistryFile {
+  version: number;
+  identities: PlayerIdentity[];
+  overrides: PlayerIdentityOverride[];
+}
+
+const REGISTRY_FILE_VERSION = 1;
+
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'v']);
+
+const TEAM_ALIASES: Record<string, string> = {
+  JAC: 'JAX',
+  WSH: 'WAS',
+  LA: 'LAR',
+  STL: 'LAR',
+  OAK: 'LV',
+  SD: 'LAC'
+};
+
+const POSITION_ALIASES: Record<string, string> = {
+  DEF: 'DST',
+  'D/ST': 'DST',
+  DEFENSE: 'DST',
+  ...IDP_POSITION_ALIASES
+};
+
+/**
+ * Maps ESPN, Yahoo, Sleeper and SportsData player IDs onto a single canonical ID.
+ * Players are matched on normalized name, team and position; manual overrides
+ * always win over automatic matching.
+ */
+export class PlayerIdentityRegistry {
+  private logger: Logger;
+  private filePath: string | null;
+  private identities = new Map<string, PlayerIdentity>();
+  private platformIndex = new Map<string, string>();
+  private matchIndex = new Map<string, string>();
+  private overrides = new Map<string, PlayerIdentityOverride>();
+  private loaded = false;
+  private dirty = false;
+
+  /**
+   * @param filePath JSON file backing the registry, or null to keep it in memory only
+   */
+  constructor(filePath: string | null = './data/player-identities.json') {
+    this.logger = new Logger('PlayerIdentityRegistry');
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const file = JSON.parse(content) as RegistryFile;
+
+      (file.identities || []).forEach(identity => {
+        this.indexIdentity({ ...identity, updatedAt: new Date(identity.updatedAt) });
+      });
+      (file.overrides || []).forEach(override => {
+        this.overrides.set(this.platformKey(override.platform, override.platformId), override);
+      });
+
+      this.logger.info(`Loaded ${this.identities.size} player identities`);
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'ENOENT') {
+        this.logger.warn('Failed to load player identity registry', error);
+      }
+    }
+  }
+
+  async save(): Promise<void> {
+    if (!this.filePath || !this.dirty) {
+      return;
+    }
+
+    const file: RegistryFile = {
+      version: REGISTRY_FILE_VERSION,
+      identities: Array.from(this.identities.values()),
+      overrides: Array.from(this.overrides.values())
+    };
+
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(file, null, 2));
+      this.dirty = false;
+    } catch (error) {
+      this.logger.error('Failed to save player identity registry', error);
+    }
+  }
+
+  /**
+   * Resolve a platform player to its canonical ID, creating an identity if needed
+   */
+  resolve(reference: PlatformPlayerReference): string {
+    const platformKey = this.platformKey(reference.platform, reference.platformId);
+    const team = PlayerIdentityRegistry.normalizeTeam(reference.team);
+    const position = PlayerIdentityRegistry.normalizePosition(reference.position);
+
+    const override = this.overrides.get(platformKey);
+    const canonicalId = override?.canonicalId
+      || this.platformIndex.get(platformKey)
+      || this.findMatch(reference.name, team, position, reference.platform);
+
+    const identity = canonicalId ? this.identities.get(canonicalId) : undefined;
+    if (identity) {
+      this.linkPlatformId(identity, reference.platform, reference.platformId, team);
+      return identity.canonicalId;
+    }
+
+    const created: PlayerIdentity = {
+      canonicalId: canonicalId || this.generateCanonicalId(reference.name, position),
+      name: reference.name,
+      position,
+      team,
+      platformIds: { [reference.platform]: reference.platformId },
+      updatedAt: new Date()
+    };
+    this.indexIdentity(created);
+    this.dirty = true;
+
+    return created.canonicalId;
+  }
+
+  /**
+   * Attach platform IDs to identities that already exist, without creating new ones.
+   * Used to learn lookup IDs (e.g. SportsData) from full player lists.
+   */
+  linkPlatformPlayers(references: PlatformPlayerReference[]): number {
+    let linked = 0;
+
+    references.forEach(reference => {
+      const platformKey = this.platformKey(reference.platform, reference.platformId);
+      if (this.platformIndex.has(platformKey)) {
+        return;
+      }
+
+      const team = PlayerIdentityRegistry.normalizeTeam(reference.team);
+      const position = PlayerIdentityRegistry.normalizePosition(reference.position);
+      const canonicalId = this.overrides.get(platformKey)?.canonicalId
+        || this.findMatch(reference.name, team, position, reference.platform);
+      const identity = canonicalId ? this.identities.get(canonicalId) : undefined;
+
+      if (identity) {
+        this.linkPlatformId(identity, reference.platform, reference.platformId, team);
+        linked++;
+      }
+    });
+
+    return linked;
+  }
+
+  getPlatformId(canonicalId: string, platform: string): string | undefined {
+    return this.identities.get(canonicalId)?.platformIds[platform];
+  }
+
+  getIdentity(canonicalId: string): PlayerIdentity | undefined {
+    return this.identities.get(canonicalId);
+  }
+
+  findByName(name: string): PlayerIdentity[] {
+    const normalized = PlayerIdentityRegistry.normalizeName(name);
+    return Array.from(this.identities.values())
+      .filter(identity => PlayerIdentityRegistry.normalizeName(identity.name).includes(normalized));
+  }
+
+  /**
+   * Manually pin a platform ID to a canonical ID, moving it off any identity it was matched to
+   */
+  setOverride(override: PlayerIdentityOverride): void {
+    const platformKey = this.platformKey(override.platform, override.platformId);
+    this.overrides.set(platformKey, override);
+
+    const previousId = this.platformIndex.get(platformKey);
+    const previous = previousId ? this.identities.get(previousId) : undefined;
+    if (previous && previous.canonicalId !== override.canonicalId) {
+      delete previous.platformIds[override.platform];
+      this.platformIndex.delete(platformKey);
+    }
+
+    const target = this.identities.get(override.canonicalId);
+    if (target) {
+      this.linkPlatformId(target, override.platform, override.platformId, target.team);
+    }
+
+    this.dirty = true;
+  }
+
+  getOverrides(): PlayerIdentityOverride[] {
+    return Array.from(this.overrides.values());
+  }
+
+  size(): number {
+    return this.identities.size;
+  }
+
+  static normalizeName(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[.'’]/g, '')
+      .replace(/[^a-z0-9\s-]/g, ' ')
+      .replace(/-/g, ' ')
+      .split(/\s+/)
+      .filter(part => part.length > 0 && !NAME_SUFFIXES.has(part))
+      .join(' ');
+  }
+
+  static normalizeTeam(team: string): string {
+    const normalized = PlayerDataTransformer.normalizeTeamName(team || '');
+    return TEAM_ALIASES[normalized] || normalized;
+  }
+
+  static normalizePosition(position: string): string {
+    const normalized = (position || '').toUpperCase();
+    return POSITION_ALIASES[normalized] || normalized;
+  }
+
+  private findMatch(name: string, team: string, position: string, platform: string): string | undefined {
+    const exact = this.matchIndex.get(this.matchKey(name, team, position));
+    if (exact) {
+      return exact;
+    }
+
+    // Allow a team mismatch (trades, stale platform data) only when the match is unambiguous
+    if (position === 'DST') {
+      return undefined;
+    }
+    const normalizedName = PlayerIdentityRegistry.normalizeName(name);
+    const candidates = Array.from(this.identities.values()).filter(identity =>
+      identity.position === position &&
+      identity.platformIds[platform] === undefined &&
+      PlayerIdentityRegistry.normalizeName(identity.name) === normalizedName
+    );
+
+    return candidates.length === 1 ? candidates[0]!.canonicalId : undefined;
+  }
+
+  private linkPlatformId(identity: PlayerIdentity, platform: string, platformId: string, team: string): void {
+    const platformKey = this.platformKey(platform, platformId);
+    if (identity.platformIds[platform] === platformId && identity.team === team) {
+      return;
+    }
+
+    const previousPlatformId = identity.platformIds[platform];
+    if (previousPlatformId !== undefined && previousPlatformId !== platformId) {
+      this.platformIndex.delete(this.platformKey(platform, previousPlatformId));
+    }
+
+    identity.platformIds[platform] = platformId;
+    this.platformIndex.set(platformKey, identity.canonicalId);
+
+    if (team && identity.team !== team) {
+      this.matchIndex.delete(this.matchKey(identity.name, identity.team, identity.position));
+      identity.team = team;
+      this.matchIndex.set(this.matchKey(identity.name, identity.team, identity.position), identity.canonicalId);
+    }
+
+    identity.updatedAt = new Date();
+    this.dirty = true;
+  }
+
+  private indexIdentity(identity: PlayerIdentity): void {
+    this.identities.set(identity.canonicalId, identity);
+    this.matchIndex.set(this.matchKey(identity.name, identity.team, identity.position), identity.canonicalId);
+    Object.entries(identity.platformIds).forEach(([platform, platformId]) => {
+      this.platformIndex.set(this.platformKey(platform, platformId), identity.canonicalId);
+    });
+  }
+
+  private generateCanonicalId(name: string, position: string): string {
+    const slug = PlayerIdentityRegistry.normalizeName(name).replace(/\s+/g, '-') || 'player';
+    const base = `${slug}-${position.toLowerCase()}`;
+
+    let candidate = base;
+    let suffix = 2;
+    while (this.identities.has(candidate)) {
+      candidate = `${base}-${suffix++}`;
+    }
+    return candidate;
+  }
+
+  private matchKey(name: string, team: string, position: string): string {
+    // Defenses are named inconsistently across platforms ("Bills D/ST", "Buffalo"), so key them by team
+    if (position === 'DST') {
+      return `DST|${team}`;
+    }
+    return `${PlayerIdentityRegistry.normalizeName(name)}|${team}|${position}`;
+  }
+
+  private platformKey(platform: string, platformId: string): string {
+    return `${platform}:${platformId}`;
+  }
+}
+
+// Shared registry so every agent resolves against the same identities
+let registryInstance: PlayerIdentityRegistry | null = null;
+
+export function getPlayerIdentityRegistry(): PlayerIdentityRegistry {
+  if (!registryInstance) {
+    registryInstance = new PlayerIdentityRegistry();
+  }
+  return registryInstance;
+}
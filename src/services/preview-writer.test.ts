@@ -0,0 +1,75 @@
+// Tests for the dry-run preview writer
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PreviewWriter } from './preview-writer';
+import { WriterAgent } from '../agents/writer-agent';
+import { AnalysisAgent } from '../agents/analysis-agent';
+import { BlogPost } from '../models';
+
+// Mock Logger
+vi.mock('../utils/logger', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+describe('PreviewWriter', () => {
+  let directory: string;
+  let previewWriter: PreviewWriter;
+
+  const blogPost: BlogPost = {
+    title: 'Week 7 FAAB Targets: Top 10 Waiver Wire Adds',
+    summary: 'The best waiver wire adds for week 7.',
+    content: '# Week 7 FAAB Targets\n\n## Rico Dowdle\n\n**Recommendation:** BUY',
+    metadata: {
+      tags: ['fantasy football', 'waiver wire'],
+      categories: ['Fantasy Football'],
+      author: 'FAAB Bot',
+      customFields: { week: 7, season: 2025 }
+    },
+    publishDate: new Date('2025-10-14T12:00:00Z')
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'faab-preview-'));
+    previewWriter = new PreviewWriter(new WriterAgent(), new AnalysisAgent());
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write the markdown, HTML and every platform variant', async () => {
+    const report = await previewWriter.write(blogPost, [], directory);
+    const files = (await fs.readdir(directory)).sort();
+
+    expect(files).toEqual([
+      'post.ghost.html',
+      'post.html',
+      'post.markdown.md',
+      'post.md',
+      'post.medium.md',
+      'post.wordpress.html',
+      'report.json'
+    ]);
+    expect(report.files).toHaveLength(7);
+    expect(await fs.readFile(path.join(directory, 'post.md'), 'utf-8')).toBe(blogPost.content);
+    expect(await fs.readFile(path.join(directory, 'post.html'), 'utf-8')).toContain('<h2');
+  });
+
+  it('should report blog and analysis validation results', async () => {
+    const report = await previewWriter.write({ ...blogPost, title: '' }, [], directory);
+    const savedReport = JSON.parse(await fs.readFile(path.join(directory, 'report.json'), 'utf-8'));
+
+    expect(report.blogPostValid).toBe(false);
+    expect(report.metadataValid).toBe(true);
+    expect(report.analysisQuality).toMatchObject({ valid: 0, invalid: 0 });
+    expect(savedReport.blogPostValid).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+// Writes dry-run previews of a generated blog post to disk
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BlogPost, BlogValidator, PlayerAnalysis } from '../models';
+import { AnalysisAgent } from '../agents/analysis-agent';
+import { WriterAgent } from '../agents/writer-agent';
+import { Logger } from '../utils/logger';
+
+export type PreviewPlatform = 'wordpress' | 'medium' | 'ghost' | 'markdown';
+
+export const PREVIEW_PLATFORMS: PreviewPlatform[] = ['wordpress', 'medium', 'ghost', 'markdown'];
+
+export interface PreviewReport {
+  outputDirectory: string;
+  files: string[];
+  title: string;
+  blogPostValid: boolean;
+  metadataValid: boolean;
+  analysisQuality: ReturnType<AnalysisAgent['validateAnalysisQuality']>;
+}
+
+/**
+ * Renders a post the way each publisher would see it, without touching any blog client
+ */
+export class PreviewWriter {
+  private logger: Logger;
+
+  constructor(
+    private writerAgent: WriterAgent,
+    private analysisAgent: AnalysisAgent
+  ) {
+    this.logger = new Logger('PreviewWriter');
+  }
+
+  async write(blogPost: BlogPost, analyses: PlayerAnalysis[], outputDirectory: string): Promise<PreviewReport> {
+    await fs.mkdir(outputDirectory, { recursive: true });
+
+    const outputs: Array<[string, string]> = [
+      ['post.md', blogPost.content],
+      ['post.html', this.writerAgent.formatForHTML(blogPost)],
+      ...PREVIEW_PLATFORMS.map((platform): [string, string] => [
+        `post.${platform}.${platform === 'medium' || platform === 'markdown' ? 'md' : 'html'}`,
+        this.writerAgent.formatForPlatform(blogPost, platform)
+      ])
+    ];
+
+    const report: PreviewReport = {
+      outputDirectory,
+      files: [],
+      title: blogPost.title,
+      blogPostValid: BlogValidator.validateBlogPost(blogPost),
+      metadataValid: BlogValidator.validateBlogMetadata(blogPost.metadata),
+      analysisQuality: this.analysisAgent.validateAnalysisQuality(analyses)
+    };
+
+    for (const [fileName, content] of outputs) {
+      const filePath = path.join(outputDirectory, fileName);
+      await fs.writeFile(filePath, content);
+      report.files.push(filePath);
+    }
+
+    const reportPath = path.join(outputDirectory, 'report.json');
+    await fs.writeFile(reportPath, JSON.stringify(report, null, 2));
+    report.files.push(reportPath);
+
+    this.logger.info(`Wrote dry-run preview to ${outputDirectory}`, {
+      files: report.files.length,
+      blogPostValid: report.blogPostValid
+    });
+
+    return report;
+  }
+}
@@ -0,0 +1,138 @@
+// Tests for detecting injured starters ahead of researched players
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { StarterInjuryDetector } from './starter-injury-detector';
+import { PlayerInjuryReport, PlayerSummary, SeasonCalendar } from '../models';
+import { SportsDataPlayerStats } from '../api/news-services/types';
+
+// Mock Logger
+vi.mock('../utils/logger', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+function rosterPlayer(id: number, name: string, position: string, depthSlot: number | null, adp: number = 0): SportsDataPlayerStats {
+  return {
+    PlayerID: id,
+    Name: name,
+    Team: 'WAS',
+    Position: position,
+    FantasyPosition: position,
+    DepthDisplayOrder: depthSlot,
+    AverageDraftPosition: adp
+  } as unknown as SportsDataPlayerStats;
+}
+
+function injury(playerId: number, name: string, status: PlayerInjuryReport['status'], description?: string): PlayerInjuryReport {
+  return {
+    playerId: String(playerId),
+    name,
+    team: 'WAS',
+    position: 'RB',
+    status,
+    impactLevel: 'high',
+    ...(description && { description })
+  };
+}
+
+function player(playerId: string, name: string): PlayerSummary {
+  return { playerId, name, position: 'RB', team: 'WAS', additionCount: 100, additionPercentage: 30, platforms: ['ESPN'] };
+}
+
+const calendar = {
+  getCurrentSeason: () => 2024,
+  getLookupWeek: () => 8,
+  getRegularSeasonWeeks: () => 18,
+  today: () => new Date('2024-10-24T12:00:00Z')
+} as unknown as SeasonCalendar;
+
+describe('StarterInjuryDetector', () => {
+  let sportsDataClient: { getAllPlayers: ReturnType<typeof vi.fn>; getInjuryReports: ReturnType<typeof vi.fn> };
+  let detector: StarterInjuryDetector;
+
+  beforeEach(() => {
+    sportsDataClient = {
+      getAllPlayers: vi.fn().mockResolvedValue([
+        rosterPlayer(1, 'Lead Back', 'RB', 1),
+        rosterPlayer(2, 'Second Back', 'RB', 2),
+        rosterPlayer(3, 'Third Back', 'RB', 3),
+        rosterPlayer(4, 'Lead Receiver', 'WR', 1)
+      ]),
+      getInjuryReports: vi.fn().mockResolvedValue([injury(1, 'Lead Back', 'ir', 'Hamstring')])
+    };
+    const identityRegistry = {
+      linkPlatformPlayers: vi.fn(),
+      getPlatformId: vi.fn((playerId: string) => playerId.replace('p', ''))
+    };
+    detector = new StarterInjuryDetector(sportsDataClient as any, identityRegistry as any, calendar);
+  });
+
+  it('should flag the backup behind a starter on injured reserve', async () => {
+    const starterInjuries = await detector.detect([player('p2', 'Second Back'), player('p4', 'Lead Receiver')]);
+
+    expect(starterInjuries.get('p2')).toEqual({
+      injuredPlayer: 'Lead Back',
+      position: 'RB',
+      depthChartSlot: 1,
+      status: 'ir',
+      description: 'Hamstring',
+      expectedWeeksOut: 4,
+      seasonEnding: false,
+      nextInLine: true
+    });
+    expect(starterInjuries.has('p4')).toBe(false);
+  });
+
+  it('should not put a player behind a healthy backup next in line', async () => {
+    const starterInjuries = await detector.detect([player('p3', 'Third Back')]);
+
+    expect(starterInjuries.get('p3')?.nextInLine).toBe(false);
+  });
+
+  it('should ignore questionable starters and count season-ending injuries to the end of the season', async () => {
+    sportsDataClient.getInjuryReports.mockResolvedValue([injury(1, 'Lead Back', 'questionable')]);
+    expect((await detector.detect([player('p2', 'Second Back')])).size).toBe(0);
+
+    sportsDataClient.getInjuryReports.mockResolvedValue([injury(1, 'Lead Back', 'out', 'Torn ACL')]);
+    const starterInjury = (await detector.detect([player('p2', 'Second Back')])).get('p2');
+
+    expect(starterInjury).toMatchObject({ status: 'out', seasonEnding: true, expectedWeeksOut: 11 });
+  });
+
+  it('should size the absence from the expected return on the report', async () => {
+    sportsDataClient.getInjuryReports.mockResolvedValue([
+      { ...injury(1, 'Lead Back', 'out', 'Ankle'), expectedReturn: new Date('2024-11-14T12:00:00Z') }
+    ]);
+    expect((await detector.detect([player('p2', 'Second Back')])).get('p2'))
+      .toMatchObject({ expectedWeeksOut: 3, seasonEnding: false });
+
+    // Injured reserve still holds a player out for the minimum
+    sportsDataClient.getInjuryReports.mockResolvedValue([
+      { ...injury(1, 'Lead Back', 'ir', 'Hamstring'), expectedReturn: new Date('2024-11-07T12:00:00Z') }
+    ]);
+    expect((await detector.detect([player('p2', 'Second Back')])).get('p2'))
+      .toMatchObject({ expectedWeeksOut: 4, seasonEnding: false });
+
+    sportsDataClient.getInjuryReports.mockResolvedValue([
+      { ...injury(1, 'Lead Back', 'ir', 'Knee'), expectedReturn: new Date('2025-01-30T12:00:00Z') }
+    ]);
+    expect((await detector.detect([player('p2', 'Second Back')])).get('p2'))
+      .toMatchObject({ expectedWeeksOut: 11, seasonEnding: true });
+  });
+
+  it('should treat an injured starter taken off the depth chart as ahead by draft position', async () => {
+    sportsDataClient.getAllPlayers.mockResolvedValue([
+      rosterPlayer(1, 'Lead Back', 'RB', null, 25),
+      rosterPlayer(2, 'Second Back', 'RB', 1, 140)
+    ]);
+
+    const starterInjury = (await detector.detect([player('p2', 'Second Back')])).get('p2');
+
+    expect(starterInjury).toMatchObject({ injuredPlayer: 'Lead Back', status: 'ir', nextInLine: true });
+    expect(starterInjury?.depthChartSlot).toBeUndefined();
+  });
+});
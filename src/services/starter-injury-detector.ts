@@ -0,0 +1,136 @@
+// Flags researched players whose teammate ahead on the depth chart is out or on injured reserve
+
+import { PlayerInjuryReport, PlayerSummary } from '../models/player';
+import { StarterInjury, StarterInjuryUtils } from '../models/starter-injury';
+import { SeasonCalendar, getSeasonCalendar } from '../models/season';
+import { SportsDataClient } from '../api/news-services/sports-data-client';
+import { SportsDataPlayerStats } from '../api/news-services/types';
+import { PlayerIdentityRegistry, getPlayerIdentityRegistry } from './player-identity-registry';
+import { Logger } from '../utils/logger';
+
+/**
+ * Cross-references SportsData's league-wide injury report with its depth charts. A teammate
+ * counts as ahead of a player when they hold an earlier slot at the same position, or when
+ * they've been taken off the depth chart while injured and were drafted ahead of the player.
+ */
+export class StarterInjuryDetector {
+  private logger: Logger;
+
+  constructor(
+    private sportsDataClient: SportsDataClient,
+    private identityRegistry: PlayerIdentityRegistry = getPlayerIdentityRegistry(),
+    private seasonCalendar: SeasonCalendar = getSeasonCalendar()
+  ) {
+    this.logger = new Logger('StarterInjuryDetector');
+  }
+
+  async detect(players: PlayerSummary[]): Promise<Map<string, StarterInjury>> {
+    const [roster, injuries] = await Promise.all([
+      this.sportsDataClient.getAllPlayers(),
+      this.sportsDataClient.getInjuryReports()
+    ]);
+    this.linkRoster(roster || []);
+
+    const rosterById = new Map((roster || []).map(player => [String(player.PlayerID), player]));
+    const sidelined = new Map((injuries || [])
+      .filter(injury => injury.status === 'out' || injury.status === 'ir')
+      .map(injury => [injury.playerId, injury]));
+
+    const starterInjuries = new Map<string, StarterInjury>();
+    players.forEach(player => {
+      const sportsDataId = this.identityRegistry.getPlatformId(player.playerId, 'SportsData');
+      const candidate = sportsDataId ? rosterById.get(sportsDataId) : undefined;
+      if (!candidate || sidelined.has(sportsDataId!)) {
+        return;
+      }
+
+      const starterInjury = this.findInjuredStarter(candidate, roster || [], sidelined);
+      if (starterInjury) {
+        starterInjuries.set(player.playerId, starterInjury);
+      }
+    });
+
+    this.logger.info(`Found injured starters ahead of ${starterInjuries.size} of ${players.length} players`);
+    return starterInjuries;
+  }
+
+  private findInjuredStarter(
+    candidate: SportsDataPlayerStats,
+    roster: SportsDataPlayerStats[],
+    sidelined: Map<string, PlayerInjuryReport>
+  ): StarterInjury | undefined {
+    const position = StarterInjuryDetector.positionOf(candidate);
+    const slot = StarterInjuryDetector.depthSlot(candidate);
+
+    const teammates = roster.filter(teammate =>
+      teammate.Team === candidate.Team &&
+      teammate.PlayerID !== candidate.PlayerID &&
+      StarterInjuryDetector.positionOf(teammate) === position
+    );
+    const injured = teammates
+      .filter(teammate => sidelined.has(String(teammate.PlayerID)) && StarterInjuryDetector.isAhead(teammate, candidate))
+      .sort((a, b) => (StarterInjuryDetector.depthSlot(a) ?? 0) - (StarterInjuryDetector.depthSlot(b) ?? 0))[0];
+    if (!injured) {
+      return undefined;
+    }
+
+    const report = sidelined.get(String(injured.PlayerID))!;
+    const injuredSlot = StarterInjuryDetector.depthSlot(injured);
+    const season = this.seasonCalendar.getCurrentSeason();
+    const weeksLeft = this.seasonCalendar.getRegularSeasonWeeks(season) - this.seasonCalendar.getLookupWeek() + 1;
+    const status = report.status as StarterInjury['status'];
+
+    // Healthy teammates between the injured starter and the candidate get first claim on the work
+    const inBetween = teammates.filter(teammate => {
+      const teammateSlot = StarterInjuryDetector.depthSlot(teammate);
+      return !sidelined.has(String(teammate.PlayerID)) && teammateSlot !== undefined && slot !== undefined &&
+        teammateSlot < slot && (injuredSlot === undefined || teammateSlot > injuredSlot);
+    });
+
+    return {
+      injuredPlayer: injured.Name,
+      position,
+      ...(injuredSlot !== undefined && { depthChartSlot: injuredSlot }),
+      status,
+      ...(report.description && { description: report.description }),
+      ...StarterInjuryUtils.estimateAbsence(
+        status,
+        report.description,
+        weeksLeft,
+        report.expectedReturn,
+        this.seasonCalendar.today()
+      ),
+      nextInLine: slot !== undefined && inBetween.length === 0
+    };
+  }
+
+  private static isAhead(teammate: SportsDataPlayerStats, candidate: SportsDataPlayerStats): boolean {
+    const teammateSlot = StarterInjuryDetector.depthSlot(teammate);
+    const candidateSlot = StarterInjuryDetector.depthSlot(candidate);
+    if (teammateSlot !== undefined) {
+      return candidateSlot !== undefined && teammateSlot < candidateSlot;
+    }
+
+    // Injured reserve usually drops a player off the depth chart, so fall back to draft position
+    return teammate.AverageDraftPosition > 0 &&
+      (!(candidate.AverageDraftPosition > 0) || teammate.AverageDraftPosition < candidate.AverageDraftPosition);
+  }
+
+  private static depthSlot(player: SportsDataPlayerStats): number | undefined {
+    return typeof player.DepthDisplayOrder === 'number' ? player.DepthDisplayOrder : undefined;
+  }
+
+  private static positionOf(player: SportsDataPlayerStats): string {
+    return player.FantasyPosition || player.Position;
+  }
+
+  private linkRoster(roster: SportsDataPlayerStats[]): void {
+    this.identityRegistry.linkPlatformPlayers(roster.map(player => ({
+      platform: 'SportsData',
+      platformId: String(player.PlayerID),
+      name: player.Name,
+      team: player.Team,
+      position: StarterInjuryDetector.positionOf(player)
+    })));
+  }
+}
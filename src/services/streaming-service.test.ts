@@ -0,0 +1,135 @@
+// Tests for weekly QB, K and DST streamer rankings
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { StreamingService } from './streaming-service';
+import { SeasonCalendar, StreamingConfig } from '../models';
+import { SportsDataClient } from '../api/news-services/sports-data-client';
+import {
+  SportsDataDefenseGame,
+  SportsDataScheduleGame,
+  SportsDataTeamSeasonStats
+} from '../api/news-services/types';
+
+// Mock Logger
+vi.mock('../utils/logger', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+function defenseGame(team: string, opponent: string, week: number, fantasyPoints: number, pointsAllowed: number, sacks: number): SportsDataDefenseGame {
+  return {
+    Team: team,
+    Opponent: opponent,
+    Week: week,
+    FantasyPoints: fantasyPoints,
+    PointsAllowed: pointsAllowed,
+    Sacks: sacks,
+    Interceptions: 0,
+    FumblesRecovered: 0
+  };
+}
+
+function player(name: string, team: string, position: string, averageDraftPosition: number, depthDisplayOrder: number = 1) {
+  return { Name: name, Team: team, Position: position, Active: true, AverageDraftPosition: averageDraftPosition, DepthDisplayOrder: depthDisplayOrder };
+}
+
+function teamStats(team: string, score: number, fieldGoalAttempts: number): SportsDataTeamSeasonStats {
+  return { Team: team, Games: 4, Score: score, OpponentScore: 80, FieldGoalAttempts: fieldGoalAttempts, FieldGoalsMade: fieldGoalAttempts - 1 };
+}
+
+describe('StreamingService', () => {
+  const config: StreamingConfig = { enabled: true, perPosition: 2, rosteredCutoff: { QB: 1, K: 0, DST: 1 } };
+  let calendar: SeasonCalendar;
+  let schedule: SportsDataScheduleGame[];
+  let sportsData: SportsDataClient;
+
+  beforeEach(() => {
+    calendar = new SeasonCalendar();
+    calendar.setReferenceDate(new Date('2025-10-08T12:00:00Z'));
+
+    schedule = [
+      { Week: 5, HomeTeam: 'KC', AwayTeam: 'CAR', PointSpread: -10, OverUnder: 46 },
+      { Week: 5, HomeTeam: 'BUF', AwayTeam: 'NYJ', PointSpread: -3, OverUnder: 40 },
+      { Week: 5, HomeTeam: 'DEN', AwayTeam: 'BYE' }
+    ];
+
+    sportsData = {
+      getSchedule: vi.fn().mockImplementation(async () => schedule),
+      getDefenseVsPositionStats: vi.fn().mockResolvedValue([
+        defenseGame('KC', 'CAR', 1, 15, 10, 5),
+        defenseGame('CAR', 'KC', 1, 2, 30, 1),
+        defenseGame('BUF', 'NYJ', 2, 10, 17, 3),
+        defenseGame('NYJ', 'BUF', 2, 6, 24, 2),
+        // This week's game hasn't been played for streaming purposes
+        defenseGame('CAR', 'NE', 5, 40, 0, 9)
+      ]),
+      getAllPlayers: vi.fn().mockResolvedValue([
+        player('Patrick Mahomes', 'KC', 'QB', 30),
+        player('Bryce Young', 'CAR', 'QB', 200),
+        player('Josh Allen', 'BUF', 'QB', 10),
+        player('Mitchell Trubisky', 'BUF', 'QB', 0, 2),
+        player('Aaron Rodgers', 'NYJ', 'QB', 150),
+        player('Harrison Butker', 'KC', 'K', 120),
+        player('Tyler Bass', 'BUF', 'K', 130),
+        player('Greg Zuerlein', 'NYJ', 'K', 160)
+      ]),
+      getTeamStats: vi.fn().mockImplementation(async (team: string) => {
+        const stats: Record<string, SportsDataTeamSeasonStats> = {
+          KC: teamStats('KC', 112, 12),
+          CAR: teamStats('CAR', 68, 6),
+          BUF: teamStats('BUF', 100, 10)
+        };
+        if (team === 'NYJ') {
+          throw new Error('Team stats unavailable');
+        }
+        return stats[team] || null;
+      })
+    } as unknown as SportsDataClient;
+  });
+
+  it('should rank unrostered streamers by matchup with rationale', async () => {
+    const rankings = await new StreamingService(sportsData, config, calendar).rankStreamers(5);
+
+    expect(rankings.week).toBe(5);
+    expect(rankings.streamers.map(streamer => `${streamer.position} ${streamer.name} ${streamer.score}`)).toEqual([
+      'QB Patrick Mahomes 88',
+      'QB Aaron Rodgers 38',
+      'K Harrison Butker 86',
+      'K Tyler Bass 59',
+      'DST BUF D/ST 63',
+      'DST NYJ D/ST 38'
+    ]);
+
+    const [mahomes] = rankings.streamers;
+    expect(mahomes).toMatchObject({ team: 'KC', opponent: 'CAR', isHome: true, rank: 1, impliedTeamTotal: 28 });
+    expect(mahomes!.rationale).toEqual([
+      'CAR allows 30 points per game (1st most)',
+      'CAR averages 1 sacks per game (1st fewest)',
+      'KC is projected to score 28 points at home'
+    ]);
+    expect(sportsData.getDefenseVsPositionStats).toHaveBeenCalledTimes(1);
+  });
+
+  it('should estimate implied totals from team averages when no line is posted', async () => {
+    schedule = [{ Week: 5, HomeTeam: 'KC', AwayTeam: 'CAR' }];
+
+    const rankings = await new StreamingService(sportsData, config, calendar).rankStreamers(5);
+    const carolina = rankings.streamers.find(streamer => streamer.position === 'QB' && streamer.team === 'CAR');
+
+    // CAR scores 17 a game and KC allows 10
+    expect(carolina).toMatchObject({ name: 'Bryce Young', opponent: 'KC', isHome: false, impliedTeamTotal: 13.5 });
+  });
+
+  it('should return no streamers for a week without games', async () => {
+    schedule = [];
+
+    const rankings = await new StreamingService(sportsData, config, calendar).rankStreamers(19);
+
+    expect(rankings.streamers).toEqual([]);
+    expect(sportsData.getTeamStats).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,361 @@
+// Ranks one-week streaming options at QB, K and DST from the coming week's matchups
+
+import {
+  DEFAULT_STREAMING_CONFIG,
+  STREAMER_POSITIONS,
+  StreamerPosition,
+  StreamerRankings,
+  StreamerRecommendation,
+  StreamingConfig
+} from '../models/streaming';
+import { SeasonCalendar, getSeasonCalendar } from '../models/season';
+import { SportsDataClient } from '../api/news-services/sports-data-client';
+import {
+  SportsDataDefenseGame,
+  SportsDataPlayerStats,
+  SportsDataScheduleGame,
+  SportsDataTeamSeasonStats
+} from '../api/news-services/types';
+import { Logger } from '../utils/logger';
+
+// Per-game averages for one team, from the weeks already played
+interface TeamProfile {
+  dstPoints?: number; // Fantasy points scored by the team's defense
+  pointsAllowed?: number;
+  sacks?: number; // Sacks by the team's defense
+  dstPointsAllowed?: number; // Fantasy points scored by defenses facing the team's offense
+  pointsScored?: number;
+  fieldGoalAttempts?: number;
+}
+
+// One side of a game on the coming week's schedule
+interface TeamMatchup {
+  team: string;
+  opponent: string;
+  isHome: boolean;
+  impliedTeamTotal?: number;
+  opponentImpliedTotal?: number;
+}
+
+interface ScoredMatchup {
+  matchup: TeamMatchup;
+  score: number;
+  rationale: string[];
+}
+
+const POSITION_ORDINALS = ['th', 'st', 'nd', 'rd'];
+
+/**
+ * Scores every team's matchup for the week from defensive game logs, team stats and the
+ * betting line, then names the streamer on each team and skips anyone likely rostered.
+ * A metric missing for a team counts as league average rather than dropping the team.
+ */
+export class StreamingService {
+  private logger: Logger;
+
+  constructor(
+    private sportsDataClient: SportsDataClient,
+    private config: StreamingConfig = DEFAULT_STREAMING_CONFIG,
+    private seasonCalendar: SeasonCalendar = getSeasonCalendar()
+  ) {
+    this.logger = new Logger('StreamingService');
+  }
+
+  async rankStreamers(week: number = this.seasonCalendar.getCurrentWeek()): Promise<StreamerRankings> {
+    const season = this.seasonCalendar.getCurrentSeason();
+    const [schedule, defenseGames, players] = await Promise.all([
+      this.sportsDataClient.getSchedule(week) as Promise<SportsDataScheduleGame[]>,
+      this.sportsDataClient.getDefenseVsPositionStats('DST') as Promise<SportsDataDefenseGame[]>,
+      this.sportsDataClient.getAllPlayers()
+    ]);
+
+    const matchups = StreamingService.buildMatchups(schedule);
+    if (matchups.length === 0) {
+      this.logger.warn(`No games found for week ${week}; no streamers ranked`);
+      return { season, week, streamers: [] };
+    }
+
+    const profiles = StreamingService.buildTeamProfiles(defenseGames.filter(game => game.Week < week));
+    await this.addTeamStats(profiles, matchups.map(matchup => matchup.team));
+    StreamingService.fillImpliedTotals(matchups, profiles);
+
+    const streamers = STREAMER_POSITIONS.flatMap(position =>
+      this.pickStreamers(position, this.scoreMatchups(position, matchups, profiles), players, profiles)
+    );
+
+    this.logger.info(`Ranked ${streamers.length} streamers for week ${week}`);
+    return { season, week, streamers };
+  }
+
+  /**
+   * Both sides of every game, with implied team totals when the line is posted
+   */
+  static buildMatchups(schedule: SportsDataScheduleGame[]): TeamMatchup[] {
+    return schedule
+      .filter(game => game.HomeTeam && game.AwayTeam && game.AwayTeam !== 'BYE')
+      .flatMap(game => {
+        const hasLine = typeof game.OverUnder === 'number' && typeof game.PointSpread === 'number';
+        const homeTotal = hasLine ? (game.OverUnder! - game.PointSpread!) / 2 : undefined;
+        const awayTotal = hasLine ? (game.OverUnder! + game.PointSpread!) / 2 : undefined;
+
+        return [
+          {
+            team: game.HomeTeam,
+            opponent: game.AwayTeam,
+            isHome: true,
+            ...(homeTotal !== undefined && { impliedTeamTotal: homeTotal, opponentImpliedTotal: awayTotal! })
+          },
+          {
+            team: game.AwayTeam,
+            opponent: game.HomeTeam,
+            isHome: false,
+            ...(awayTotal !== undefined && { impliedTeamTotal: awayTotal, opponentImpliedTotal: homeTotal! })
+          }
+        ];
+      });
+  }
+
+  static buildTeamProfiles(defenseGames: SportsDataDefenseGame[]): Map<string, TeamProfile> {
+    const average = (values: number[]) =>
+      values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+    const teams = new Set(defenseGames.flatMap(game => [game.Team, game.Opponent]));
+    const profiles = new Map<string, TeamProfile>();
+
+    teams.forEach(team => {
+      const defense = defenseGames.filter(game => game.Team === team);
+      const facingOffense = defenseGames.filter(game => game.Opponent === team);
+      const profile: TeamProfile = {};
+
+      const dstPoints = average(defense.map(game => game.FantasyPoints));
+      const pointsAllowed = average(defense.map(game => game.PointsAllowed));
+      const sacks = average(defense.map(game => game.Sacks));
+      const dstPointsAllowed = average(facingOffense.map(game => game.FantasyPoints));
+      if (dstPoints !== undefined) profile.dstPoints = dstPoints;
+      if (pointsAllowed !== undefined) profile.pointsAllowed = pointsAllowed;
+      if (sacks !== undefined) profile.sacks = sacks;
+      if (dstPointsAllowed !== undefined) profile.dstPointsAllowed = dstPointsAllowed;
+
+      profiles.set(team, profile);
+    });
+
+    return profiles;
+  }
+
+  /**
+   * Percent of values below the given one, counting ties as half; 50 when there's nothing to compare
+   */
+  static percentile(values: number[], value: number | undefined, higherIsBetter: boolean = true): number {
+    if (value === undefined || values.length === 0) {
+      return 50;
+    }
+
+    const below = values.filter(other => other < value).length;
+    const ties = values.filter(other => other === value).length;
+    const percentile = ((below + ties / 2) / values.length) * 100;
+    return higherIsBetter ? percentile : 100 - percentile;
+  }
+
+  private async addTeamStats(profiles: Map<string, TeamProfile>, teams: string[]): Promise<void> {
+    for (const team of teams) {
+      try {
+        const stats = await this.sportsDataClient.getTeamStats(team) as SportsDataTeamSeasonStats | null;
+        if (!stats || !stats.Games) {
+          continue;
+        }
+
+        const profile = profiles.get(team) || {};
+        profile.pointsScored = stats.Score / stats.Games;
+        profile.fieldGoalAttempts = stats.FieldGoalAttempts / stats.Games;
+        profiles.set(team, profile);
+      } catch (error) {
+        this.logger.warn(`Failed to load team stats for ${team}`, error);
+      }
+    }
+  }
+
+  // Without a posted line, expect a team to score between its average and what the opponent allows
+  private static fillImpliedTotals(matchups: TeamMatchup[], profiles: Map<string, TeamProfile>): void {
+    const estimate = (team: string, opponent: string): number | undefined => {
+      const scored = profiles.get(team)?.pointsScored;
+      const allowed = profiles.get(opponent)?.pointsAllowed;
+      if (scored === undefined || allowed === undefined) {
+        return scored ?? allowed;
+      }
+      return (scored + allowed) / 2;
+    };
+
+    matchups.forEach(matchup => {
+      if (matchup.impliedTeamTotal === undefined) {
+        const teamTotal = estimate(matchup.team, matchup.opponent);
+        const opponentTotal = estimate(matchup.opponent, matchup.team);
+        if (teamTotal !== undefined) matchup.impliedTeamTotal = teamTotal;
+        if (opponentTotal !== undefined) matchup.opponentImpliedTotal = opponentTotal;
+      }
+    });
+  }
+
+  private scoreMatchups(
+    position: StreamerPosition,
+    matchups: TeamMatchup[],
+    profiles: Map<string, TeamProfile>
+  ): ScoredMatchup[] {
+    const metric = (key: keyof TeamProfile) =>
+      Array.from(profiles.values()).map(profile => profile[key]).filter((value): value is number => value !== undefined);
+    const totals = matchups.map(matchup => matchup.impliedTeamTotal).filter((value): value is number => value !== undefined);
+    const opponentTotals = matchups.map(matchup => matchup.opponentImpliedTotal).filter((value): value is number => value !== undefined);
+
+    return matchups
+      .map(matchup => {
+        const team = profiles.get(matchup.team) || {};
+        const opponent = profiles.get(matchup.opponent) || {};
+        const rationale: string[] = [];
+        let score: number;
+
+        switch (position) {
+          case 'QB':
+            score =
+              0.5 * StreamingService.percentile(metric('pointsAllowed'), opponent.pointsAllowed) +
+              0.2 * StreamingService.percentile(metric('sacks'), opponent.sacks, false) +
+              0.3 * StreamingService.percentile(totals, matchup.impliedTeamTotal);
+            if (opponent.pointsAllowed !== undefined) {
+              rationale.push(`${matchup.opponent} allows ${StreamingService.round(opponent.pointsAllowed)} points per game ` +
+                `(${StreamingService.rankLabel(metric('pointsAllowed'), opponent.pointsAllowed, 'most')})`);
+            }
+            if (opponent.sacks !== undefined) {
+              rationale.push(`${matchup.opponent} averages ${StreamingService.round(opponent.sacks)} sacks per game ` +
+                `(${StreamingService.rankLabel(metric('sacks'), opponent.sacks, 'fewest', false)})`);
+            }
+            break;
+          case 'K':
+            score =
+              0.4 * StreamingService.percentile(totals, matchup.impliedTeamTotal) +
+              0.3 * StreamingService.percentile(metric('fieldGoalAttempts'), team.fieldGoalAttempts) +
+              0.3 * StreamingService.percentile(metric('pointsAllowed'), opponent.pointsAllowed);
+            if (team.fieldGoalAttempts !== undefined) {
+              rationale.push(`${matchup.team} attempts ${StreamingService.round(team.fieldGoalAttempts)} field goals per game ` +
+                `(${StreamingService.rankLabel(metric('fieldGoalAttempts'), team.fieldGoalAttempts, 'most')})`);
+            }
+            if (opponent.pointsAllowed !== undefined) {
+              rationale.push(`${matchup.opponent} allows ${StreamingService.round(opponent.pointsAllowed)} points per game`);
+            }
+            break;
+          case 'DST':
+            score =
+              0.4 * StreamingService.percentile(metric('dstPointsAllowed'), opponent.dstPointsAllowed) +
+              0.3 * StreamingService.percentile(metric('dstPoints'), team.dstPoints) +
+              0.3 * StreamingService.percentile(opponentTotals, matchup.opponentImpliedTotal, false);
+            if (opponent.dstPointsAllowed !== undefined) {
+              rationale.push(`${matchup.opponent} gives up ${StreamingService.round(opponent.dstPointsAllowed)} fantasy points ` +
+                `per game to defenses (${StreamingService.rankLabel(metric('dstPointsAllowed'), opponent.dstPointsAllowed, 'most')})`);
+            }
+            if (team.dstPoints !== undefined) {
+              rationale.push(`${matchup.team} defense averages ${StreamingService.round(team.dstPoints)} fantasy points per game`);
+            }
+            if (matchup.opponentImpliedTotal !== undefined) {
+              rationale.push(`${matchup.opponent} is projected to score ${StreamingService.round(matchup.opponentImpliedTotal)} points`);
+            }
+            break;
+        }
+
+        if (position !== 'DST' && matchup.impliedTeamTotal !== undefined) {
+          rationale.push(`${matchup.team} is projected to score ${StreamingService.round(matchup.impliedTeamTotal)} points ` +
+            `${matchup.isHome ? 'at home' : 'on the road'}`);
+        }
+
+        return { matchup, score: Math.round(score), rationale };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private pickStreamers(
+    position: StreamerPosition,
+    scored: ScoredMatchup[],
+    players: SportsDataPlayerStats[],
+    profiles: Map<string, TeamProfile>
+  ): StreamerRecommendation[] {
+    const rostered = this.getRosteredTeams(position, players, profiles);
+    const recommendations: StreamerRecommendation[] = [];
+
+    for (const { matchup, score, rationale } of scored) {
+      if (recommendations.length >= this.config.perPosition) {
+        break;
+      }
+      if (rostered.has(matchup.team)) {
+        continue;
+      }
+
+      const name = position === 'DST'
+        ? `${matchup.team} D/ST`
+        : StreamingService.findStarter(players, position, matchup.team)?.Name;
+      if (!name) {
+        continue;
+      }
+
+      recommendations.push({
+        position,
+        name,
+        team: matchup.team,
+        opponent: matchup.opponent,
+        isHome: matchup.isHome,
+        rank: recommendations.length + 1,
+        score,
+        ...(matchup.impliedTeamTotal !== undefined && { impliedTeamTotal: StreamingService.round(matchup.impliedTeamTotal) }),
+        rationale
+      });
+    }
+
+    return recommendations;
+  }
+
+  /**
+   * Teams whose starter at the position is likely rostered: the top players by ADP,
+   * or for defenses the top units by fantasy points so far
+   */
+  private getRosteredTeams(
+    position: StreamerPosition,
+    players: SportsDataPlayerStats[],
+    profiles: Map<string, TeamProfile>
+  ): Set<string> {
+    const cutoff = this.config.rosteredCutoff[position];
+
+    if (position === 'DST') {
+      return new Set(
+        Array.from(profiles.entries())
+          .filter(([, profile]) => profile.dstPoints !== undefined)
+          .sort(([, a], [, b]) => b.dstPoints! - a.dstPoints!)
+          .slice(0, cutoff)
+          .map(([team]) => team)
+      );
+    }
+
+    return new Set(
+      players
+        .filter(player => player.Position === position && player.Active && player.AverageDraftPosition > 0)
+        .sort((a, b) => a.AverageDraftPosition - b.AverageDraftPosition)
+        .slice(0, cutoff)
+        .map(player => player.Team)
+    );
+  }
+
+  private static findStarter(
+    players: SportsDataPlayerStats[],
+    position: StreamerPosition,
+    team: string
+  ): SportsDataPlayerStats | undefined {
+    return players
+      .filter(player => player.Position === position && player.Team === team && player.Active)
+      .sort((a, b) => (a.DepthDisplayOrder || 99) - (b.DepthDisplayOrder || 99))[0];
+  }
+
+  // "3rd most", counting from the end the label describes
+  private static rankLabel(values: number[], value: number, label: string, higherFirst: boolean = true): string {
+    const rank = values.filter(other => (higherFirst ? other > value : other < value)).length + 1;
+    const lastTwo = rank % 100;
+    const suffix = lastTwo >= 11 && lastTwo <= 13 ? 'th' : POSITION_ORDINALS[rank % 10] || 'th';
+    return `${rank}${suffix} ${label}`;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
@@ -1,2 +1,5 @@
 // Utility exports
-export * from './logger';
\ No newline at end of file
+export * from './logger';
+export * from './worker-pool';
+export * from './text-similarity';
+export * from './news-clustering';
@@ -0,0 +1,77 @@
+// Tests for grouping near-duplicate articles into stories
+
+import { describe, it, expect } from 'vitest';
+import { NewsClusterer } from './news-clustering';
+import { NewsArticle } from '../models/player';
+
+function article(title: string, source: string, publishDate: string, overrides: Partial<NewsArticle> = {}): NewsArticle {
+  return {
+    title,
+    source,
+    publishDate: new Date(publishDate),
+    summary: `${title}.`,
+    url: `https://${source.toLowerCase().replace(/\s+/g, '-')}.example.com/${encodeURIComponent(title)}`,
+    sentiment: 'positive',
+    ...overrides
+  };
+}
+
+describe('NewsClusterer', () => {
+  it('should merge the same story from several sources, keeping the earliest report and every link', () => {
+    const stories = NewsClusterer.cluster([
+      article('Jeremy McNichols named starter for Sunday', 'Injury Wire', '2024-10-17T15:00:00Z'),
+      article('Jeremy McNichols named starter for Sunday!', 'ESPN', '2024-10-17T12:00:00Z'),
+      article('Commanders: Jeremy McNichols named Sunday starter', 'Commanders Beat', '2024-10-17T13:30:00Z', { sentiment: 'neutral' }),
+      article('McNichols named starter for Sunday', 'Rotoworld', '2024-10-17T14:00:00Z')
+    ]);
+
+    expect(stories).toHaveLength(1);
+    expect(stories[0]).toMatchObject({
+      title: 'Jeremy McNichols named starter for Sunday!',
+      source: 'ESPN',
+      publishDate: new Date('2024-10-17T12:00:00Z'),
+      sentiment: 'positive'
+    });
+    expect(stories[0]?.coverage?.map(link => link.source)).toEqual(['ESPN', 'Commanders Beat', 'Rotoworld', 'Injury Wire']);
+  });
+
+  it('should keep different stories and week-apart repeats separate', () => {
+    const stories = NewsClusterer.cluster([
+      article('Jeremy McNichols named starter for Sunday', 'ESPN', '2024-10-10T12:00:00Z'),
+      article('Jeremy McNichols named starter for Sunday', 'ESPN', '2024-10-17T12:00:00Z', { url: 'https://espn.example.com/week-7' }),
+      article('Jeremy McNichols limited in practice with ankle injury', 'Commanders Beat', '2024-10-17T13:00:00Z', { sentiment: 'negative' })
+    ]);
+
+    expect(stories.map(story => story.title)).toEqual([
+      'Jeremy McNichols named starter for Sunday',
+      'Jeremy McNichols named starter for Sunday',
+      'Jeremy McNichols limited in practice with ankle injury'
+    ]);
+    expect(stories.every(story => story.coverage === undefined)).toBe(true);
+  });
+
+  it('should keep opposite reports about the same player apart', () => {
+    const stories = NewsClusterer.cluster([
+      article('Robinson out for Week 7', 'ESPN', '2024-10-17T12:00:00Z', { sentiment: 'negative' }),
+      article('Robinson back for Week 8', 'Injury Wire', '2024-10-18T12:00:00Z'),
+      article('Jeremy McNichols ruled out for Week 7', 'Commanders Beat', '2024-10-17T13:00:00Z', { sentiment: 'negative' }),
+      article('Jeremy McNichols cleared for Week 8', 'Rotoworld', '2024-10-18T13:00:00Z')
+    ]);
+
+    expect(stories.map(story => story.title)).toEqual([
+      'Robinson out for Week 7',
+      'Jeremy McNichols ruled out for Week 7',
+      'Robinson back for Week 8',
+      'Jeremy McNichols cleared for Week 8'
+    ]);
+  });
+
+  it('should leave already clustered stories unchanged', () => {
+    const stories = NewsClusterer.cluster([
+      article('Jeremy McNichols named starter for Sunday', 'ESPN', '2024-10-17T12:00:00Z'),
+      article('Jeremy McNichols named starter for Sunday', 'Injury Wire', '2024-10-17T13:00:00Z')
+    ]);
+
+    expect(NewsClusterer.cluster(stories)).toEqual(stories);
+  });
+});
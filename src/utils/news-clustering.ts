@@ -0,0 +1,126 @@
+// Groups near-duplicate articles from different sources into one story
+
+import { NewsArticle, StoryCoverage } from '../models/player';
+import { TextSimilarity } from './text-similarity';
+
+// Normalized headlines this close are the same story reworded
+const TITLE_SIMILARITY = 0.8;
+// Or headlines sharing this much of their vocabulary ("Robinson out, McNichols to start")
+const TITLE_WORD_OVERLAP = 0.6;
+// Or summaries this close, compared over their opening characters only to keep it cheap
+const SUMMARY_SIMILARITY = 0.85;
+const SUMMARY_COMPARE_LENGTH = 300;
+// Either way, two reports must share more significant words than a player's full name
+const MIN_SHARED_WORDS = 3;
+// Filler that says nothing about what happened ("Robinson out for Week 7" vs "Robinson back for Week 8")
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'but', 'nor', 'yet', 'from', 'with', 'into', 'onto', 'over', 'after', 'before',
+  'about', 'amid', 'are', 'was', 'were', 'been', 'being', 'has', 'have', 'had', 'will', 'would', 'could',
+  'should', 'may', 'might', 'can', 'this', 'that', 'these', 'those', 'his', 'her', 'their', 'its', 'not',
+  'week', 'says', 'said', 'per', 'via', 'report', 'reports', 'update', 'news'
+]);
+// Reports more than this far apart are follow-ups, not the same story
+const STORY_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+
+export class NewsClusterer {
+  /**
+   * Collapse articles about the same story into one, oldest first. Each story keeps the
+   * earliest article's headline, link and timestamp, the most common sentiment among its
+   * articles, and every outlet's link under `coverage` when more than one ran it. Clustering
+   * stories again leaves them unchanged.
+   */
+  static cluster(articles: NewsArticle[]): NewsArticle[] {
+    const stories: NewsArticle[][] = [];
+    const chronological = [...articles].sort((a, b) => a.publishDate.getTime() - b.publishDate.getTime());
+
+    chronological.forEach(article => {
+      const story = stories.find(members =>
+        article.publishDate.getTime() - members[0]!.publishDate.getTime() <= STORY_WINDOW_MS &&
+        members.some(member => this.isSameStory(member, article))
+      );
+      if (story) {
+        story.push(article);
+      } else {
+        stories.push([article]);
+      }
+    });
+
+    return stories.map(members => this.mergeStory(members));
+  }
+
+  static isSameStory(a: NewsArticle, b: NewsArticle): boolean {
+    if (a.url === b.url) {
+      return true;
+    }
+
+    const titleA = TextSimilarity.normalize(a.title);
+    const titleB = TextSimilarity.normalize(b.title);
+    if (titleA.length > 0 && titleA === titleB) {
+      return true;
+    }
+    const titleWordsA = this.significantWords(titleA);
+    const titleWordsB = this.significantWords(titleB);
+    if (this.sharedWordCount(titleWordsA, titleWordsB) >= MIN_SHARED_WORDS && (
+      TextSimilarity.similarity(titleA, titleB) >= TITLE_SIMILARITY ||
+      TextSimilarity.setOverlap(titleWordsA, titleWordsB) >= TITLE_WORD_OVERLAP
+    )) {
+      return true;
+    }
+
+    const summaryA = TextSimilarity.normalize(a.summary).slice(0, SUMMARY_COMPARE_LENGTH);
+    const summaryB = TextSimilarity.normalize(b.summary).slice(0, SUMMARY_COMPARE_LENGTH);
+    return summaryA.length > 0 && summaryB.length > 0 &&
+      this.sharedWordCount(this.significantWords(summaryA), this.significantWords(summaryB)) >= MIN_SHARED_WORDS &&
+      TextSimilarity.similarity(summaryA, summaryB) >= SUMMARY_SIMILARITY;
+  }
+
+  private static mergeStory(members: NewsArticle[]): NewsArticle {
+    const earliest = members[0]!;
+    const coverageByUrl = new Map<string, StoryCoverage>();
+    members
+      .flatMap(member => member.coverage || [{ source: member.source, url: member.url, publishDate: member.publishDate }])
+      .forEach(link => {
+        if (!coverageByUrl.has(link.url)) {
+          coverageByUrl.set(link.url, link);
+        }
+      });
+    const coverage = Array.from(coverageByUrl.values())
+      .sort((a, b) => a.publishDate.getTime() - b.publishDate.getTime());
+
+    const story: NewsArticle = {
+      title: earliest.title,
+      source: earliest.source,
+      publishDate: earliest.publishDate,
+      summary: earliest.summary,
+      url: earliest.url,
+      sentiment: this.mostCommonSentiment(members)
+    };
+    if (coverage.length > 1) {
+      story.coverage = coverage;
+    }
+    return story;
+  }
+
+  // Ties go to the earliest article's sentiment
+  private static mostCommonSentiment(members: NewsArticle[]): NewsArticle['sentiment'] {
+    const counts = new Map<NewsArticle['sentiment'], number>();
+    members.forEach(member => counts.set(member.sentiment, (counts.get(member.sentiment) || 0) + 1));
+
+    let sentiment = members[0]!.sentiment;
+    counts.forEach((count, candidate) => {
+      if (count > counts.get(sentiment)!) {
+        sentiment = candidate;
+      }
+    });
+    return sentiment;
+  }
+
+  // Short words ("to", "is", "at") and stop words don't make two headlines alike
+  private static significantWords(text: string): Set<string> {
+    return new Set(text.split(' ').filter(word => word.length > 2 && !STOP_WORDS.has(word)));
+  }
+
+  private static sharedWordCount(wordsA: Set<string>, wordsB: Set<string>): number {
+    return Array.from(wordsA).filter(word => wordsB.has(word)).length;
+  }
+}
@@ -0,0 +1,60 @@
+// Fuzzy text comparison shared by publication checks and news clustering
+
+export class TextSimilarity {
+  /**
+   * Lowercase, collapse whitespace and drop punctuation so formatting differences don't count
+   */
+  static normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/\s+/g, ' ')
+      .replace(/[^\w\s]/g, '')
+      .trim();
+  }
+
+  /**
+   * Share of the longer string (0-1) left unchanged by the edits that turn it into the shorter one
+   */
+  static similarity(str1: string, str2: string): number {
+    const longer = str1.length > str2.length ? str1 : str2;
+    const shorter = str1.length > str2.length ? str2 : str1;
+
+    if (longer.length === 0) return 1.0;
+
+    const editDistance = this.levenshteinDistance(longer, shorter);
+    return (longer.length - editDistance) / longer.length;
+  }
+
+  static levenshteinDistance(str1: string, str2: string): number {
+    const matrix: number[][] = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(0));
+
+    for (let i = 0; i <= str1.length; i++) matrix[0]![i] = i;
+    for (let j = 0; j <= str2.length; j++) matrix[j]![0] = j;
+
+    for (let j = 1; j <= str2.length; j++) {
+      for (let i = 1; i <= str1.length; i++) {
+        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
+        matrix[j]![i] = Math.min(
+          matrix[j]![i - 1]! + 1,     // deletion
+          matrix[j - 1]![i]! + 1,     // insertion
+          matrix[j - 1]![i - 1]! + indicator // substitution
+        );
+      }
+    }
+
+    return matrix[str2.length]![str1.length]!;
+  }
+
+  /**
+   * Jaccard overlap (0-1) of two sets
+   */
+  static setOverlap(set1: Set<string>, set2: Set<string>): number {
+    if (set1.size === 0 && set2.size === 0) return 1.0;
+    if (set1.size === 0 || set2.size === 0) return 0.0;
+
+    const intersection = new Set([...set1].filter(x => set2.has(x)));
+    const union = new Set([...set1, ...set2]);
+
+    return intersection.size / union.size;
+  }
+}
@@ -0,0 +1,110 @@
+// Tests for the bounded, rate-limit-aware worker pool
+
+import { describe, it, expect } from 'vitest';
+import { WorkerPool } from './worker-pool';
+import { RateLimitStatus } from '../api/rate-limiter';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('WorkerPool', () => {
+  it('should cap the tasks in flight and keep results in input order', async () => {
+    let running = 0;
+    let peak = 0;
+    const pool = new WorkerPool<number, number>({ concurrency: 2 });
+
+    const results = await pool.run([30, 10, 20, 5], async ms => {
+      running++;
+      peak = Math.max(peak, running);
+      await sleep(ms);
+      running--;
+      return ms * 2;
+    });
+
+    expect(peak).toBe(2);
+    expect(results.map(result => result.value)).toEqual([60, 20, 40, 10]);
+    expect(results.every(result => result.status === 'completed')).toBe(true);
+    expect(results[0]!.durationMs).toBeGreaterThanOrEqual(25);
+  });
+
+  it('should time out a slow task, abort its signal and keep going', async () => {
+    let slowSignal: AbortSignal | undefined;
+    const pool = new WorkerPool<string, string>({ concurrency: 2, taskTimeoutMs: 50 });
+
+    const results = await pool.run(['slow', 'fast', 'broken'], async (name, signal) => {
+      if (name === 'broken') {
+        throw new Error('No data');
+      }
+      if (name === 'slow') {
+        slowSignal = signal;
+        await sleep(1000);
+      }
+      return name;
+    });
+
+    expect(results.map(result => result.status)).toEqual(['timed_out', 'completed', 'failed']);
+    expect(slowSignal?.aborted).toBe(true);
+    expect(results[2]!.error?.message).toBe('No data');
+  });
+
+  it('should keep a timed out task\'s slot until its worker settles', async () => {
+    let running = 0;
+    let peak = 0;
+    let slowSettled = false;
+    const pool = new WorkerPool<string, string>({ concurrency: 1, taskTimeoutMs: 20 });
+
+    // The slow worker ignores its signal, like a request that was never told to stop
+    const results = await pool.run(['slow', 'next'], async name => {
+      running++;
+      peak = Math.max(peak, running);
+      await sleep(name === 'slow' ? 100 : 5);
+      running--;
+      if (name === 'slow') {
+        slowSettled = true;
+      }
+      return name;
+    });
+
+    expect(results.map(result => result.status)).toEqual(['timed_out', 'completed']);
+    expect(results[0]!.durationMs).toBeLessThan(100);
+    expect(peak).toBe(1);
+    expect(slowSettled).toBe(true);
+  });
+
+  it('should cancel running and waiting tasks when its signal aborts', async () => {
+    const controller = new AbortController();
+    const pool = new WorkerPool<number, number>({ concurrency: 1, signal: controller.signal });
+
+    setTimeout(() => controller.abort(), 20);
+    const results = await pool.run([1, 2], async value => {
+      await sleep(1000);
+      return value;
+    });
+
+    expect(results.map(result => result.status)).toEqual(['cancelled', 'cancelled']);
+  });
+
+  it('should hold tasks back until the client has budget for them', async () => {
+    const resetAt = Date.now() + 60;
+    const client = {
+      getRateLimitStatus: (): RateLimitStatus => ({
+        remaining: { minute: Date.now() >= resetAt ? 10 : 3, hour: 100 },
+        resetTimes: { minute: new Date(resetAt), hour: new Date(resetAt + 3600000) }
+      })
+    };
+    const startTimes: number[] = [];
+    const pool = new WorkerPool<number, void>({
+      concurrency: 3,
+      rateLimits: [{ client, requestsPerTask: 2 }]
+    });
+
+    await pool.run([1, 2, 3], async () => {
+      startTimes.push(Date.now());
+      await sleep(10);
+    });
+
+    // Three requests left covers only the first task; the rest wait for the window to reset
+    expect(startTimes[0]!).toBeLessThan(resetAt);
+    expect(startTimes[1]!).toBeGreaterThanOrEqual(resetAt);
+    expect(startTimes[2]!).toBeGreaterThanOrEqual(resetAt);
+  });
+});
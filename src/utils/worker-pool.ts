@@ -0,0 +1,194 @@
+// Bounded worker pool for running per-player work concurrently within API rate limits
+
+import { RateLimitedClient, RateLimitStatus } from '../api/rate-limiter';
+import { WorkerTaskStatus } from '../models/concurrency';
+
+// Requests one task is expected to make against a client, reserved before the task starts
+export interface RateLimitBudget {
+  client: RateLimitedClient;
+  requestsPerTask: number;
+}
+
+export interface WorkerPoolOptions {
+  concurrency: number;
+  taskTimeoutMs?: number;
+  signal?: AbortSignal; // Aborting stops new tasks and settles running ones as cancelled
+  rateLimits?: RateLimitBudget[];
+}
+
+export interface WorkerTaskResult<R> {
+  index: number;
+  status: WorkerTaskStatus;
+  value?: R;
+  error?: Error;
+  durationMs: number;
+}
+
+/**
+ * Runs a worker over a list of items with at most `concurrency` in flight. A task only starts
+ * once every client has budget left for it on top of the tasks already running; otherwise it
+ * waits for the client's rate limit window to reset. Each task gets its own abort signal, fired
+ * when the task times out or the pool is cancelled. An abandoned task's result is reported right
+ * away, but it keeps its slot until the worker actually settles, and run() waits for it.
+ */
+export class WorkerPool<T, R> {
+  private active = 0;
+  // Workers still running, including abandoned ones; they never reject
+  private running: Set<Promise<void>> = new Set();
+
+  constructor(private options: WorkerPoolOptions) {}
+
+  async run(items: T[], worker: (item: T, signal: AbortSignal) => Promise<R>): Promise<WorkerTaskResult<R>[]> {
+    const results: WorkerTaskResult<R>[] = new Array(items.length);
+    let next = 0;
+
+    const runWorker = async (): Promise<void> => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await this.runTask(items[index]!, index, worker);
+      }
+    };
+
+    const workerCount = Math.min(Math.max(this.options.concurrency, 1), items.length);
+    await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+    // Abandoned workers mustn't outlive the run and write results after the caller has moved on
+    await Promise.all(Array.from(this.running));
+    return results;
+  }
+
+  private async runTask(
+    item: T,
+    index: number,
+    worker: (item: T, signal: AbortSignal) => Promise<R>
+  ): Promise<WorkerTaskResult<R>> {
+    if (!await this.acquireSlot()) {
+      return { index, status: 'cancelled', durationMs: 0 };
+    }
+
+    const startTime = Date.now();
+    const controller = new AbortController();
+    let status: WorkerTaskStatus | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onCancel: (() => void) | undefined;
+
+    // Settles when the task is abandoned, so a hung request can't hold a worker
+    const abandoned = new Promise<undefined>(resolve => {
+      const abandon = (reason: WorkerTaskStatus) => {
+        status = status || reason;
+        controller.abort();
+        resolve(undefined);
+      };
+      if (this.options.taskTimeoutMs) {
+        timer = setTimeout(() => abandon('timed_out'), this.options.taskTimeoutMs);
+      }
+      onCancel = () => abandon('cancelled');
+      this.options.signal?.addEventListener('abort', onCancel, { once: true });
+    });
+
+    const task = worker(item, controller.signal);
+    const settled: Promise<void> = task
+      .then(() => undefined, () => undefined)
+      .finally(() => {
+        this.active--;
+        this.running.delete(settled);
+      });
+    this.running.add(settled);
+
+    try {
+      const value = await Promise.race([task, abandoned]);
+      if (status) {
+        return { index, status, durationMs: Date.now() - startTime };
+      }
+      status = 'completed';
+      return { index, status, value: value as R, durationMs: Date.now() - startTime };
+    } catch (error) {
+      status = status || 'failed';
+      return { index, status, error: error as Error, durationMs: Date.now() - startTime };
+    } finally {
+      clearTimeout(timer);
+      if (onCancel) {
+        this.options.signal?.removeEventListener('abort', onCancel);
+      }
+    }
+  }
+
+  /**
+   * Hold a task back while abandoned workers still fill the pool or any client lacks budget for
+   * it alongside the running tasks, then count it as running in the same tick so concurrent
+   * workers can't claim the same budget. With nothing running the task starts anyway and the
+   * client's own limiter queues its requests. Resolves false if the pool is cancelled while waiting.
+   */
+  private async acquireSlot(): Promise<boolean> {
+    for (;;) {
+      if (this.options.signal?.aborted) {
+        return false;
+      }
+
+      if (this.active >= Math.max(this.options.concurrency, 1)) {
+        await this.waitForRunningTask();
+        continue;
+      }
+
+      const resetTime = this.active > 0 ? this.findBudgetReset() : undefined;
+      if (resetTime === undefined) {
+        this.active++;
+        return true;
+      }
+
+      await this.wait(Math.max(resetTime - Date.now(), 0) + 10);
+    }
+  }
+
+  // When the tightest exhausted window resets, or undefined if every client has room
+  private findBudgetReset(): number | undefined {
+    let resetTime: number | undefined;
+
+    (this.options.rateLimits || []).forEach(({ client, requestsPerTask }) => {
+      // A client that reports no budget never holds a task back
+      const status = client.getRateLimitStatus() as RateLimitStatus | undefined;
+      if (!status) {
+        return;
+      }
+
+      const { remaining, resetTimes } = status;
+      const needed = requestsPerTask * (this.active + 1);
+      const windows = [
+        remaining.minute < needed ? resetTimes.minute.getTime() : undefined,
+        remaining.hour < needed ? resetTimes.hour.getTime() : undefined
+      ].filter((time): time is number => time !== undefined);
+
+      if (windows.length > 0) {
+        resetTime = Math.max(resetTime ?? 0, ...windows);
+      }
+    });
+
+    return resetTime;
+  }
+
+  // Resolves when any running worker settles, or early when the pool is cancelled
+  private waitForRunningTask(): Promise<void> {
+    return new Promise(resolve => {
+      const onCancel = () => resolve();
+      this.options.signal?.addEventListener('abort', onCancel, { once: true });
+      Promise.race(Array.from(this.running)).then(() => {
+        this.options.signal?.removeEventListener('abort', onCancel);
+        resolve();
+      });
+    });
+  }
+
+  // Sleep that ends early when the pool is cancelled
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const onCancel = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.options.signal?.removeEventListener('abort', onCancel);
+        resolve();
+      }, ms);
+      this.options.signal?.addEventListener('abort', onCancel, { once: true });
+    });
+  }
+}